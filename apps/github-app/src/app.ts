@@ -1,14 +1,46 @@
+import { timingSafeEqual } from 'crypto';
+import Fastify from 'fastify';
 import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import { ZodError } from 'zod';
+import { SecurityMiddleware } from './middleware/security.js';
 import { Context, Probot } from 'probot';
+import {
+  ChatOpsService,
+  HEALING_CHECK_RUN_NAME,
+  parseHealCommand,
+} from './services/chatops.js';
+import {
+  fromBitbucketEvent,
+  fromGitLabEvent,
+  fromWorkflowRunEvent,
+} from './services/ci-adapters.js';
 import { DeduplicationService } from './services/deduplication.js';
+import type { Delivery, DeliveryStatus } from './services/delivery-journal.js';
+import { DeliveryJournal } from './services/delivery-journal.js';
+import { FailureFingerprintService } from './services/failure-fingerprint.js';
+import {
+  RepositoryConfigError,
+  RepositoryConfigService,
+} from './services/repository-config.js';
 import { TemporalClient } from './services/temporal.js';
+import type { CIFailureEvent } from './types/ci-failure-event.js';
+import type { SelfHealingConfig } from './types/self-healing-config.js';
+import {
+  DEFAULT_SELF_HEALING_CONFIG,
+  matchesBranch,
+  matchesWorkflow,
+} from './types/self-healing-config.js';
 import type { WorkflowRunEvent } from './types/workflow-run.js';
 import { logger } from './utils/logger.js';
+import { SecurityUtils } from './utils/security.js';
 
 // Type for environment variables
 interface ProcessEnv {
   NODE_ENV?: string;
   npm_package_version?: string;
+  ADMIN_API_TOKEN?: string;
+  GITLAB_WEBHOOK_TOKEN?: string;
+  BITBUCKET_WEBHOOK_SECRET?: string;
   [key: string]: string | undefined;
 }
 
@@ -16,28 +48,50 @@ export class SelfHealingCIApp {
   private app: Probot;
   private server: FastifyInstance;
   private deduplicationService: DeduplicationService;
+  private failureFingerprintService: FailureFingerprintService;
   private temporalService: TemporalClient;
+  private repositoryConfigService: RepositoryConfigService;
+  private chatOpsService: ChatOpsService;
+  private deliveryJournal: DeliveryJournal;
 
   constructor() {
+    // Signatures are verified by the security middleware against every
+    // active secret, so Probot only receives verified deliveries
     this.app = new Probot({
       appId: (process.env as ProcessEnv)['GITHUB_APP_ID'] || '',
       privateKey: (process.env as ProcessEnv)['GITHUB_PRIVATE_KEY'] || '',
-      secret: (process.env as ProcessEnv)['GITHUB_WEBHOOK_SECRET'] || '',
+      secret: SecurityUtils.getWebhookSecrets()[0] || '',
     });
 
-    // Get the server from probot
-    this.server = (this.app as any).server as FastifyInstance;
+    this.server = Fastify();
     this.deduplicationService = new DeduplicationService();
+    SecurityMiddleware.register(this.server, {
+      deliveries: this.deduplicationService,
+    });
+    this.failureFingerprintService = new FailureFingerprintService();
     this.temporalService = new TemporalClient();
+    this.repositoryConfigService = new RepositoryConfigService();
+    this.chatOpsService = new ChatOpsService(
+      this.temporalService,
+      this.repositoryConfigService,
+      this.failureFingerprintService,
+      this.deduplicationService
+    );
+    this.deliveryJournal = new DeliveryJournal();
 
     this.setupEventHandlers();
+    this.setupWebhookEndpoint();
     this.setupHealthEndpoints();
+    this.setupRunEndpoints();
+    this.setupDeliveryEndpoints();
+    this.setupForgeEndpoints();
   }
 
   private setupEventHandlers(): void {
     // Handle workflow_run events
-    this.app.on('workflow_run', async (context: Context<'workflow_run'>) => {
-      try {
+    this.app.on(
+      'workflow_run',
+      this.journaled(async (context: Context<'workflow_run'>) => {
         const workflowRunEvent = context.payload as unknown as WorkflowRunEvent;
 
         logger.info('Received workflow_run event', {
@@ -48,16 +102,116 @@ export class SelfHealingCIApp {
         });
 
         // Check if this is a failure that needs self-healing
-        if (this.shouldTriggerSelfHealing(workflowRunEvent)) {
-          await this.handleWorkflowFailure(workflowRunEvent);
+        const failure = fromWorkflowRunEvent(workflowRunEvent);
+
+        if (!failure || !this.isRecentFailure(failure)) {
+          return;
         }
-      } catch (error) {
-        logger.error('Error handling workflow_run event', {
-          error: error instanceof Error ? error.message : 'Unknown error',
-          repository: context.payload.repository?.full_name,
+
+        // Repository settings are read at the commit that failed
+        const config = await this.repositoryConfigService.loadConfig(
+          context.octokit,
+          workflowRunEvent.repository.owner.login,
+          workflowRunEvent.repository.name,
+          workflowRunEvent.workflow_run.head_sha
+        );
+
+        if (this.shouldTriggerSelfHealing(failure, config)) {
+          await this.handleCIFailure(failure, config, context.octokit);
+        }
+      })
+    );
+
+    // Handle `/heal` ChatOps commands on issues and pull requests
+    this.app.on(
+      'issue_comment.created',
+      this.journaled(async (context: Context<'issue_comment.created'>) => {
+        const { comment, issue, repository, installation } = context.payload;
+
+        // Never react to our own replies or other bots
+        if (comment.user.type === 'Bot') {
+          return;
+        }
+
+        const command = parseHealCommand(comment.body);
+
+        if (!command) {
+          return;
+        }
+
+        logger.info('Received ChatOps command', {
+          repository: repository.full_name,
+          issueNumber: issue.number,
+          command: command.name,
+          commenter: comment.user.login,
         });
-      }
-    });
+
+        const reply = await this.chatOpsService.handleCommand(
+          {
+            octokit: context.octokit,
+            owner: repository.owner.login,
+            repo: repository.name,
+            issueNumber: issue.number,
+            isPullRequest: issue.pull_request !== undefined,
+            issueBody: issue.body ?? '',
+            commenter: comment.user.login,
+            installationId: installation?.id || 0,
+          },
+          command
+        );
+
+        await context.octokit.issues.createComment(
+          context.issue({ body: reply })
+        );
+      })
+    );
+
+    // Handle approve/retry buttons on the Self-Healing CI check run
+    this.app.on(
+      'check_run.requested_action',
+      this.journaled(async (context: Context<'check_run.requested_action'>) => {
+        const { check_run, requested_action, repository, sender } =
+          context.payload;
+        const identifier = requested_action?.identifier;
+        const workflowRunId = Number(check_run.external_id);
+
+        if (
+          check_run.name !== HEALING_CHECK_RUN_NAME ||
+          !identifier ||
+          !Number.isInteger(workflowRunId) ||
+          workflowRunId <= 0
+        ) {
+          return;
+        }
+
+        logger.info('Received check run action', {
+          repository: repository.full_name,
+          checkRunId: check_run.id,
+          action: identifier,
+          actor: sender.login,
+        });
+
+        const result = await this.chatOpsService.handleCheckRunAction(
+          {
+            octokit: context.octokit,
+            owner: repository.owner.login,
+            repo: repository.name,
+            actor: sender.login,
+            installationId: context.payload.installation?.id || 0,
+            workflowRunId,
+            headSha: check_run.head_sha,
+            branch: check_run.check_suite.head_branch,
+          },
+          identifier
+        );
+
+        logger.info('Check run action handled', {
+          repository: repository.full_name,
+          checkRunId: check_run.id,
+          result,
+        });
+      })
+    );
 
     // Handle installation events
     this.app.on(
@@ -99,6 +253,33 @@ export class SelfHealingCIApp {
     });
   }
 
+  private setupWebhookEndpoint(): void {
+    // GitHub deliveries; the security middleware has verified the signature
+    // and rejected replays before the handler runs
+    this.server.post(
+      this.app.webhookPath,
+      async (request: FastifyRequest, reply: FastifyReply) => {
+        const id = request.headers['x-github-delivery'];
+        const name = request.headers['x-github-event'];
+
+        if (typeof name !== 'string') {
+          return reply.status(400).send({
+            error: 'Bad Request',
+            message: 'Missing X-GitHub-Event header',
+          });
+        }
+
+        await this.app.receive({
+          id,
+          name,
+          payload: request.body,
+        } as Parameters<Probot['receive']>[0]);
+
+        return reply.status(200).send({ ok: true });
+      }
+    );
+  }
+
   private setupHealthEndpoints(): void {
     // Health check endpoint
     this.server.get(
@@ -190,16 +371,251 @@ export class SelfHealingCIApp {
     );
   }
 
-  private shouldTriggerSelfHealing(event: WorkflowRunEvent): boolean {
-    const workflowRun = event.workflow_run;
+  private setupRunEndpoints(): void {
+    // Live progress of a healing run, diagnosis and patch included, for
+    // admins only; workflow IDs contain '/' and must be URL-encoded by the
+    // caller
+    this.server.get(
+      '/runs/:workflowId',
+      async (
+        request: FastifyRequest<{ Params: { workflowId: string } }>,
+        reply: FastifyReply
+      ) => {
+        if (!this.isAdminRequest(request)) {
+          return reply.status(401).send({
+            error: 'Unauthorized',
+            message: 'A valid admin API token is required',
+          });
+        }
 
-    // Only trigger on failed workflow runs
-    if (workflowRun.conclusion !== 'failure') {
-      return false;
+        const { workflowId } = request.params;
+
+        try {
+          const progress =
+            await this.temporalService.getWorkflowProgress(workflowId);
+
+          if (!progress) {
+            return reply.status(404).send({
+              error: 'Not Found',
+              message: `No healing run found for workflow ${workflowId}`,
+            });
+          }
+
+          return reply.status(200).send(progress);
+        } catch (error) {
+          logger.error('Failed to get healing run progress', {
+            error: error instanceof Error ? error.message : 'Unknown error',
+            workflowId,
+          });
+
+          return reply.status(500).send({
+            error: error instanceof Error ? error.message : 'Unknown error',
+          });
+        }
+      }
+    );
+  }
+
+  private setupDeliveryEndpoints(): void {
+    // Admin routes over the webhook delivery journal; they need
+    // `Authorization: Bearer $ADMIN_API_TOKEN` and are off without it
+    this.server.addHook('onRequest', async (request, reply) => {
+      if (!request.url.startsWith('/deliveries')) {
+        return;
+      }
+
+      if (!this.isAdminRequest(request)) {
+        return reply.status(401).send({
+          error: 'Unauthorized',
+          message: 'A valid admin API token is required',
+        });
+      }
+    });
+
+    this.server.get(
+      '/deliveries',
+      async (
+        request: FastifyRequest<{
+          Querystring: { status?: DeliveryStatus; limit?: string };
+        }>,
+        reply: FastifyReply
+      ) => {
+        const { status, limit } = request.query;
+        const deliveries = await this.deliveryJournal.list({
+          status,
+          limit: limit ? parseInt(limit, 10) : undefined,
+        });
+
+        return reply.status(200).send({ deliveries });
+      }
+    );
+
+    this.server.get(
+      '/deliveries/:id',
+      async (
+        request: FastifyRequest<{ Params: { id: string } }>,
+        reply: FastifyReply
+      ) => {
+        const delivery = await this.deliveryJournal.get(request.params.id);
+
+        if (!delivery) {
+          return reply.status(404).send({
+            error: 'Not Found',
+            message: `No delivery ${request.params.id} in the journal`,
+          });
+        }
+
+        return reply.status(200).send(delivery);
+      }
+    );
+
+    this.server.post(
+      '/deliveries/:id/replay',
+      async (
+        request: FastifyRequest<{ Params: { id: string } }>,
+        reply: FastifyReply
+      ) => {
+        const { id } = request.params;
+
+        try {
+          const delivery = await this.replayDelivery(id);
+
+          if (!delivery) {
+            return reply.status(404).send({
+              error: 'Not Found',
+              message: `No delivery ${id} in the journal`,
+            });
+          }
+
+          return reply.status(200).send(delivery);
+        } catch (error) {
+          logger.error('Failed to replay webhook delivery', {
+            error: error instanceof Error ? error.message : 'Unknown error',
+            deliveryId: id,
+          });
+
+          return reply.status(500).send({
+            error: error instanceof Error ? error.message : 'Unknown error',
+          });
+        }
+      }
+    );
+  }
+
+  private isAdminRequest(request: FastifyRequest): boolean {
+    const header = request.headers.authorization;
+
+    return (
+      header?.startsWith('Bearer ') === true &&
+      matchesToken(
+        header.slice('Bearer '.length),
+        (process.env as ProcessEnv)['ADMIN_API_TOKEN']
+      )
+    );
+  }
+
+  private setupForgeEndpoints(): void {
+    // GitLab and Bitbucket report failed pipelines here; Bitbucket's
+    // signature is checked against the raw body the security middleware keeps
+
+    // Authenticated by the secret token set on the GitLab webhook
+    this.server.post('/ci-events/gitlab', async (request, reply) => {
+      const token = request.headers['x-gitlab-token'];
+
+      if (
+        typeof token !== 'string' ||
+        !matchesToken(
+          token,
+          (process.env as ProcessEnv)['GITLAB_WEBHOOK_TOKEN']
+        )
+      ) {
+        return reply.status(401).send({
+          error: 'Unauthorized',
+          message: 'Invalid GitLab webhook token',
+        });
+      }
+
+      return this.acceptCIFailure(reply, () => fromGitLabEvent(request.body));
+    });
+
+    // Authenticated by the HMAC signature of the Bitbucket webhook secret
+    this.server.post('/ci-events/bitbucket', async (request, reply) => {
+      const secret = (process.env as ProcessEnv)['BITBUCKET_WEBHOOK_SECRET'];
+      const signature = request.headers['x-hub-signature'];
+
+      if (
+        !secret ||
+        typeof signature !== 'string' ||
+        !request.rawBody ||
+        SecurityUtils.matchWebhookSecret(request.rawBody, signature, [
+          secret,
+        ]) === undefined
+      ) {
+        return reply.status(401).send({
+          error: 'Unauthorized',
+          message: 'Invalid Bitbucket webhook signature',
+        });
+      }
+
+      const eventKey = request.headers['x-event-key'];
+      return this.acceptCIFailure(reply, () =>
+        fromBitbucketEvent(
+          typeof eventKey === 'string' ? eventKey : '',
+          request.body
+        )
+      );
+    });
+  }
+
+  /**
+   * Heal a failure reported by another forge, answering 202 whether or not
+   * it needs healing
+   *
+   * Repositories there have no `.self-healing.yml` reader yet, so they use
+   * the default settings.
+   */
+  private async acceptCIFailure(
+    reply: FastifyReply,
+    adapt: () => CIFailureEvent | undefined
+  ): Promise<FastifyReply> {
+    let failure: CIFailureEvent | undefined;
+
+    try {
+      failure = adapt();
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return reply.status(400).send({
+          error: 'Bad Request',
+          message: 'Unsupported webhook payload',
+          issues: error.issues.map(issue => issue.path.join('.')),
+        });
+      }
+      throw error;
     }
 
+    const config = DEFAULT_SELF_HEALING_CONFIG;
+
+    if (
+      !failure ||
+      !this.isRecentFailure(failure) ||
+      !this.shouldTriggerSelfHealing(failure, config)
+    ) {
+      return reply.status(202).send({ status: 'ignored' });
+    }
+
+    try {
+      await this.handleCIFailure(failure, config);
+      return reply.status(202).send({ status: 'accepted' });
+    } catch (error) {
+      return reply.status(500).send({
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  private isRecentFailure(event: CIFailureEvent): boolean {
     // Check if this is a recent failure (within last 24 hours)
-    const runTime = new Date(workflowRun.created_at).getTime();
+    const runTime = new Date(event.createdAt).getTime();
     const now = Date.now();
     const twentyFourHours = 24 * 60 * 60 * 1000;
 
@@ -207,63 +623,205 @@ export class SelfHealingCIApp {
       return false;
     }
 
-    // Check if this is a supported workflow
-    const supportedWorkflows = ['CI', 'test', 'build', 'lint'];
-    const workflowName = workflowRun.name.toLowerCase();
+    return true;
+  }
 
-    return supportedWorkflows.some(supported =>
-      workflowName.includes(supported)
+  private shouldTriggerSelfHealing(
+    event: CIFailureEvent,
+    config: SelfHealingConfig
+  ): boolean {
+    // Check if this workflow and branch are enabled for the repository;
+    // GitLab and Bitbucket run one pipeline per commit, so only GitHub
+    // workflows are filtered by name
+    return (
+      (event.provider !== 'github' || matchesWorkflow(config, event.runName)) &&
+      matchesBranch(config, event.branch)
     );
   }
 
-  private async handleWorkflowFailure(event: WorkflowRunEvent): Promise<void> {
+  /**
+   * Start healing a failed CI run from any forge
+   *
+   * Only GitHub runs are fingerprinted, since that needs their job logs.
+   */
+  private async handleCIFailure(
+    event: CIFailureEvent,
+    config: SelfHealingConfig,
+    octokit?: Context['octokit']
+  ): Promise<void> {
+    // GitHub keys predate other forges and keep their plain repository name
+    const dedupRepository =
+      event.provider === 'github'
+        ? event.repository
+        : `${event.provider}:${event.repository}`;
+    let fingerprint: string | undefined;
+
     try {
-      const workflowRun = event.workflow_run;
-      const repository = event.repository;
-
-      logger.info('Triggering self-healing for workflow failure', {
-        repository: repository.full_name,
-        workflowRunId: workflowRun.id,
-        workflowName: workflowRun.name,
-        headSha: workflowRun.head_sha,
+      logger.info('Triggering self-healing for CI failure', {
+        provider: event.provider,
+        repository: event.repository,
+        workflowRunId: event.runId,
+        workflowName: event.runName,
+        headSha: event.headSha,
       });
 
       // Check for duplicate processing
       const isDuplicate = await this.deduplicationService.isDuplicate(
-        repository.full_name,
-        workflowRun.id,
-        workflowRun.head_sha
+        dedupRepository,
+        event.runId,
+        event.headSha
       );
 
       if (isDuplicate) {
-        logger.info('Skipping duplicate workflow failure', {
-          repository: repository.full_name,
-          workflowRunId: workflowRun.id,
+        logger.info('Skipping duplicate CI failure', {
+          repository: event.repository,
+          workflowRunId: event.runId,
         });
         return;
       }
 
+      // Runs failing the same way share one healing workflow, whatever
+      // their branch; without a fingerprint the run is healed on its own
+      const [owner = '', repo = ''] = event.repository.split('/');
+      const failure = octokit
+        ? await this.failureFingerprintService.fingerprintRun(
+            octokit,
+            owner,
+            repo,
+            event.runId
+          )
+        : undefined;
+
+      if (failure) {
+        fingerprint = failure.fingerprint;
+        const { isDuplicate: isGrouped, group } =
+          await this.deduplicationService.recordFailureGroup(
+            dedupRepository,
+            fingerprint,
+            { workflowRunId: event.runId, branch: event.branch }
+          );
+
+        if (isGrouped) {
+          logger.info('Skipping CI failure already being healed', {
+            repository: event.repository,
+            workflowRunId: event.runId,
+            fingerprint,
+            firstWorkflowRunId: group.firstWorkflowRunId,
+            occurrences: group.occurrences,
+          });
+          return;
+        }
+      }
+
       // Start self-healing workflow
       await this.temporalService.startSelfHealingWorkflow({
-        repository: repository.full_name,
-        workflowRunId: workflowRun.id,
-        headSha: workflowRun.head_sha,
-        branch: workflowRun.head_branch,
-        installationId: event.installation?.id || 0,
-        actor: event.sender.login,
+        repository: event.repository,
+        workflowRunId: event.runId,
+        headSha: event.headSha,
+        branch: event.branch,
+        installationId: event.installationId,
+        actor: event.actor,
+        workflowName: event.workflow,
+        createdAt: event.createdAt,
+        config,
+        forge: event.provider,
       });
 
-      logger.info('Self-healing workflow started', {
-        repository: repository.full_name,
-        workflowRunId: workflowRun.id,
+      logger.info('Self-healing workflow queued', {
+        repository: event.repository,
+        workflowRunId: event.runId,
       });
     } catch (error) {
-      logger.error('Failed to handle workflow failure', {
+      logger.error('Failed to handle CI failure', {
         error: error instanceof Error ? error.message : 'Unknown error',
-        repository: event.repository.full_name,
-        workflowRunId: event.workflow_run.id,
+        provider: event.provider,
+        repository: event.repository,
+        workflowRunId: event.runId,
       });
+
+      // Let a replay of the delivery heal the run instead of skipping it
+      await this.deduplicationService.release(
+        dedupRepository,
+        event.runId,
+        event.headSha,
+        fingerprint
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Wrap a webhook handler so each delivery it handles is journaled with
+   * its outcome, and failed ones are retried by the sweeper
+   */
+  private journaled<T extends { id: string; name: string; payload: unknown }>(
+    handler: (context: T) => Promise<void>
+  ): (context: T) => Promise<void> {
+    return async context => {
+      await this.deliveryJournal.begin(
+        context.id,
+        context.name,
+        context.payload
+      );
+
+      try {
+        await handler(context);
+        await this.deliveryJournal.succeed(context.id);
+      } catch (error) {
+        const message =
+          error instanceof Error ? error.message : 'Unknown error';
+
+        logger.error(`Error handling ${context.name} event`, {
+          error: message,
+          deliveryId: context.id,
+          repository: (
+            context.payload as { repository?: { full_name?: string } }
+          ).repository?.full_name,
+        });
+        // A broken config fails the same way until the repository fixes it
+        await this.deliveryJournal.fail(
+          context.id,
+          message,
+          !(error instanceof RepositoryConfigError)
+        );
+      }
+    };
+  }
+
+  /**
+   * Run a journaled delivery through the event handlers again
+   */
+  public async replayDelivery(id: string): Promise<Delivery | undefined> {
+    const delivery = await this.deliveryJournal.get(id);
+
+    if (!delivery) {
+      return undefined;
     }
+
+    logger.info('Replaying webhook delivery', {
+      deliveryId: id,
+      event: delivery.name,
+      attempts: delivery.attempts,
+    });
+
+    await this.app.receive({
+      id: delivery.id,
+      name: delivery.name,
+      payload: delivery.payload,
+    } as Parameters<Probot['receive']>[0]);
+
+    return this.deliveryJournal.get(id);
+  }
+
+  public startDeliverySweeper(): void {
+    this.deliveryJournal.startSweeper(async delivery => {
+      await this.replayDelivery(delivery.id);
+    });
+  }
+
+  public async close(): Promise<void> {
+    await this.deliveryJournal.close();
+    await this.deduplicationService.close();
   }
 
   public getApp(): Probot {
@@ -274,3 +832,20 @@ export class SelfHealingCIApp {
     return this.server;
   }
 }
+
+/**
+ * Compare a presented token with the configured one in constant time; an
+ * unset token matches nothing
+ */
+function matchesToken(actual: string, expected: string | undefined): boolean {
+  if (!expected) {
+    return false;
+  }
+
+  const expectedBuffer = Buffer.from(expected);
+  const actualBuffer = Buffer.from(actual);
+  return (
+    expectedBuffer.length === actualBuffer.length &&
+    timingSafeEqual(expectedBuffer, actualBuffer)
+  );
+}
@@ -3,6 +3,7 @@
 import dotenv from 'dotenv';
 import { SelfHealingCIApp } from './app.js';
 import { logger } from './utils/logger.js';
+import { SecurityUtils } from './utils/security.js';
 
 // Load environment variables
 dotenv.config();
@@ -12,7 +13,6 @@ interface ProcessEnv {
   NODE_ENV?: string;
   GITHUB_APP_ID?: string;
   GITHUB_PRIVATE_KEY?: string;
-  GITHUB_WEBHOOK_SECRET?: string;
   [key: string]: string | undefined;
 }
 
@@ -32,11 +32,11 @@ async function main(): Promise<void> {
     // Validate required environment variables
     const appId = (process.env as ProcessEnv).GITHUB_APP_ID;
     const privateKey = (process.env as ProcessEnv).GITHUB_PRIVATE_KEY;
-    const webhookSecret = (process.env as ProcessEnv).GITHUB_WEBHOOK_SECRET;
+    const webhookSecrets = SecurityUtils.getWebhookSecrets();
 
-    if (!appId || !privateKey || !webhookSecret) {
+    if (!appId || !privateKey || webhookSecrets.length === 0) {
       throw new Error(
-        'Missing required environment variables: GITHUB_APP_ID, GITHUB_PRIVATE_KEY, GITHUB_WEBHOOK_SECRET'
+        'Missing required environment variables: GITHUB_APP_ID, GITHUB_PRIVATE_KEY, GITHUB_WEBHOOK_SECRETS or GITHUB_WEBHOOK_SECRET'
       );
     }
 
@@ -56,16 +56,21 @@ async function main(): Promise<void> {
       appId,
     });
 
+    // Retry failed webhook deliveries in the background
+    app.startDeliverySweeper();
+
     // Setup graceful shutdown
     process.on('SIGTERM', async () => {
       logger.info('Received SIGTERM, shutting down gracefully...');
       await server.close();
+      await app.close();
       process.exit(0);
     });
 
     process.on('SIGINT', async () => {
       logger.info('Received SIGINT, shutting down gracefully...');
       await server.close();
+      await app.close();
       process.exit(0);
     });
   } catch (error) {
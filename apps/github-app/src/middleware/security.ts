@@ -1,15 +1,76 @@
 import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import { DeduplicationService } from '../services/deduplication.js';
 import { logger } from '../utils/logger.js';
 import { SecurityUtils } from '../utils/security.js';
 
+declare module 'fastify' {
+  interface FastifyRequest {
+    // The body as received; webhook signatures are computed over these bytes
+    rawBody?: Buffer;
+    // Index, in the active secrets, of the secret that signed the webhook
+    webhookSecretIndex?: number;
+  }
+}
+
+export interface WebhookSecretUsage {
+  index: number;
+  matches: number;
+  lastMatchedAt: string;
+}
+
+export interface SecurityOptions {
+  // Where delivery IDs of verified webhooks are kept for the replay window,
+  // shared by every instance of the app
+  deliveries?: Pick<DeduplicationService, 'claimDelivery'>;
+}
+
+interface TimestampedPayload {
+  action?: string;
+  workflow_run?: { updated_at?: string };
+  comment?: { updated_at?: string };
+}
+
+/**
+ * When the signed payload of a webhook says the event happened, for the
+ * events that carry a time set at delivery
+ *
+ * Other events, such as a click on an old check run's button, carry no
+ * such time and are only checked for replayed delivery IDs.
+ */
+const EVENT_TIMESTAMPS: Record<
+  string,
+  (payload: TimestampedPayload) => string | undefined
+> = {
+  workflow_run: payload => payload.workflow_run?.updated_at,
+  issue_comment: payload =>
+    payload.action === 'deleted' ? undefined : payload.comment?.updated_at,
+};
+
 /**
  * Security middleware for Fastify server
  */
 export class SecurityMiddleware {
+  // Delivery IDs of verified webhooks, kept for the replay window
+  private static deliveries: Pick<DeduplicationService, 'claimDelivery'> =
+    new DeduplicationService({ stores: ['memory'] });
+  private static readonly secretUsage = new Map<number, WebhookSecretUsage>();
+
   /**
    * Register security middleware with Fastify
    */
-  static register(app: FastifyInstance): void {
+  static register(app: FastifyInstance, options: SecurityOptions = {}): void {
+    if (options.deliveries) {
+      this.deliveries = options.deliveries;
+    }
+
+    // Keep the raw JSON body for webhook signature checks
+    app.removeContentTypeParser('application/json');
+    app.addContentTypeParser(
+      'application/json',
+      { parseAs: 'buffer' },
+      this.parseJson
+    );
+
     // Security headers
     app.addHook('onRequest', this.addSecurityHeaders);
 
@@ -20,7 +81,7 @@ export class SecurityMiddleware {
     app.addHook('onRequest', this.rateLimit);
 
     // Request validation
-    app.addHook('preValidation', this.validateRequest);
+    app.addHook('preValidation', this.validateRequest.bind(this));
 
     // Error handling
     app.setErrorHandler(this.handleError);
@@ -129,64 +190,173 @@ export class SecurityMiddleware {
   /**
    * Validate incoming requests
    */
-  private static validateRequest(
+  private static async validateRequest(
     request: FastifyRequest,
-    reply: FastifyReply,
-    done: () => void
-  ): void {
+    reply: FastifyReply
+  ): Promise<void> {
     try {
       // Validate content length
       const contentLength = parseInt(request.headers['content-length'] || '0');
       if (contentLength > 10 * 1024 * 1024) {
         // 10MB limit
-        reply.status(413).send({
+        return reply.status(413).send({
           error: 'Payload Too Large',
           message: 'Request body too large',
         });
-        return;
       }
 
-      // Validate content type for POST requests
-      if (request.method === 'POST') {
+      // Validate content type for POST requests with a body
+      if (
+        request.method === 'POST' &&
+        (contentLength > 0 || request.headers['transfer-encoding'])
+      ) {
         const contentType = request.headers['content-type'];
         if (!contentType || !contentType.includes('application/json')) {
-          reply.status(400).send({
+          return reply.status(400).send({
             error: 'Bad Request',
             message: 'Invalid content type. Expected application/json',
           });
-          return;
         }
       }
 
       // Validate GitHub webhook signature for webhook endpoints
       if (request.url.includes('/webhook')) {
-        const signature = request.headers['x-hub-signature-256'] as string;
-        const payload = JSON.stringify(request.body || {});
-        const secret = process.env.GITHUB_WEBHOOK_SECRET;
-
-        if (
-          !signature ||
-          !secret ||
-          !SecurityUtils.validateGitHubWebhook(payload, signature, secret)
-        ) {
-          reply.status(401).send({
-            error: 'Unauthorized',
-            message: 'Invalid webhook signature',
-          });
-          return;
-        }
+        return await this.validateWebhook(request, reply);
       }
-
-      done();
     } catch (error) {
       logger.error('Request validation failed:', error);
-      reply.status(400).send({
+      return reply.status(400).send({
         error: 'Bad Request',
         message: 'Request validation failed',
       });
     }
   }
 
+  /**
+   * Verify a webhook's signature over its raw body against every active
+   * secret, then reject deliveries already seen or older than the replay
+   * window
+   */
+  private static async validateWebhook(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ): Promise<void> {
+    const signature = request.headers['x-hub-signature-256'];
+    const deliveryId = request.headers['x-github-delivery'];
+    const secretIndex =
+      typeof signature === 'string' && request.rawBody
+        ? SecurityUtils.matchWebhookSecret(
+            request.rawBody,
+            signature,
+            SecurityUtils.getWebhookSecrets()
+          )
+        : undefined;
+
+    if (secretIndex === undefined) {
+      return reply.status(401).send({
+        error: 'Unauthorized',
+        message: 'Invalid webhook signature',
+      });
+    }
+
+    if (typeof deliveryId !== 'string' || !deliveryId) {
+      return reply.status(400).send({
+        error: 'Bad Request',
+        message: 'Missing X-GitHub-Delivery header',
+      });
+    }
+
+    // A replayed delivery older than the window has left the dedup store,
+    // so its signed event time must still be inside the window
+    const receivedAt = new Date();
+    const windowSeconds = parseInt(
+      process.env['WEBHOOK_REPLAY_WINDOW_SECONDS'] || '3600',
+      10
+    );
+    const event = request.headers['x-github-event'];
+    const occurredAt =
+      typeof event === 'string'
+        ? EVENT_TIMESTAMPS[event]?.(request.body as TimestampedPayload)
+        : undefined;
+
+    if (
+      occurredAt &&
+      receivedAt.getTime() - Date.parse(occurredAt) > windowSeconds * 1000
+    ) {
+      logger.warn('Rejected stale webhook delivery', {
+        deliveryId,
+        event,
+        occurredAt,
+        ip: request.ip,
+      });
+      return reply.status(409).send({
+        error: 'Conflict',
+        message: `Delivery ${deliveryId} is for an event at ${occurredAt}, outside the replay window`,
+      });
+    }
+
+    // Only signed deliveries are remembered, so unsigned requests cannot
+    // block a delivery ID in advance
+    const { isReplay, firstSeen } = await this.deliveries.claimDelivery(
+      deliveryId,
+      receivedAt,
+      windowSeconds
+    );
+
+    if (isReplay) {
+      logger.warn('Rejected replayed webhook delivery', {
+        deliveryId,
+        firstSeen: firstSeen.toISOString(),
+        ip: request.ip,
+      });
+      return reply.status(409).send({
+        error: 'Conflict',
+        message: `Delivery ${deliveryId} was already received at ${firstSeen.toISOString()}`,
+      });
+    }
+
+    request.webhookSecretIndex = secretIndex;
+    this.recordSecretMatch(secretIndex, receivedAt.toISOString());
+    logger.info('Webhook signature verified', { deliveryId, secretIndex });
+  }
+
+  private static recordSecretMatch(index: number, matchedAt: string): void {
+    const usage = this.secretUsage.get(index);
+
+    this.secretUsage.set(index, {
+      index,
+      matches: (usage?.matches ?? 0) + 1,
+      lastMatchedAt: matchedAt,
+    });
+  }
+
+  /**
+   * How often each active secret signed a webhook, so an old secret can be
+   * removed once GitHub stops using it
+   */
+  static getWebhookSecretUsage(): WebhookSecretUsage[] {
+    return [...this.secretUsage.values()].sort((a, b) => a.index - b.index);
+  }
+
+  /**
+   * Parse a JSON body, keeping its raw bytes on the request
+   */
+  static parseJson(
+    request: FastifyRequest,
+    body: Buffer,
+    done: (error: Error | null, body?: unknown) => void
+  ): void {
+    request.rawBody = body;
+
+    try {
+      done(null, body.length > 0 ? JSON.parse(body.toString('utf8')) : {});
+    } catch (error) {
+      const parseError = error as Error & { statusCode?: number };
+      parseError.statusCode = 400;
+      done(parseError);
+    }
+  }
+
   /**
    * Handle errors securely
    */
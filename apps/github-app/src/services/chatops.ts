@@ -0,0 +1,502 @@
+import type { Context } from 'probot';
+import { logger } from '../utils/logger.js';
+import type { DeduplicationService } from './deduplication.js';
+import type { FailureFingerprintService } from './failure-fingerprint.js';
+import type { RepositoryConfigService } from './repository-config.js';
+import type { HealingQueueState, TemporalClient } from './temporal.js';
+import { healingWorkflowId } from './temporal.js';
+
+type GitHubClient = Context['octokit'];
+
+export type HealCommandName =
+  | 'retry'
+  | 'explain'
+  | 'approve'
+  | 'abort'
+  | 'ignore-flaky'
+  | 'help';
+
+export interface HealCommand {
+  name: HealCommandName;
+  args: string[];
+}
+
+export interface HealCommandRequest {
+  octokit: GitHubClient;
+  owner: string;
+  repo: string;
+  issueNumber: number;
+  isPullRequest: boolean;
+  // Searched for a workflow run link when the command is on an issue
+  issueBody: string;
+  commenter: string;
+  installationId: number;
+}
+
+export interface CheckRunActionRequest {
+  octokit: GitHubClient;
+  owner: string;
+  repo: string;
+  actor: string;
+  installationId: number;
+  workflowRunId: number;
+  headSha: string;
+  branch: string | null;
+}
+
+interface FailedRun {
+  id: number;
+  name?: string | null | undefined;
+  head_sha: string;
+  head_branch: string | null;
+  created_at?: string | undefined;
+}
+
+type RepoPermission = 'none' | 'read' | 'write' | 'admin';
+
+const PERMISSION_RANK: Record<RepoPermission, number> = {
+  none: 0,
+  read: 1,
+  write: 2,
+  admin: 3,
+};
+
+// Name of the check run the worker reports healing progress on
+export const HEALING_CHECK_RUN_NAME = 'Self-Healing CI';
+
+// Minimum repository permission needed for each command
+const REQUIRED_PERMISSION: Record<HealCommandName, RepoPermission> = {
+  retry: 'write',
+  explain: 'read',
+  approve: 'write',
+  abort: 'write',
+  'ignore-flaky': 'write',
+  help: 'none',
+};
+
+const USAGE = [
+  'Usage:',
+  '',
+  '- `/heal retry`: start a new healing attempt for the failed run',
+  '- `/heal explain`: show the diagnosis of the current healing attempt',
+  '- `/heal approve`: approve the fix waiting for approval',
+  '- `/heal abort`: cancel the healing attempt and roll back its changes',
+  '- `/heal ignore-flaky <test>`: skip a flaky test in later test runs',
+  '',
+  'On an issue, link the failed workflow run in the issue or after the command,',
+  'such as `/heal retry https://github.com/<owner>/<repo>/actions/runs/<id>`.',
+].join('\n');
+
+// A link to a workflow run, such as `.../actions/runs/123`
+const RUN_LINK = /\/actions\/runs\/(\d+)/;
+
+/**
+ * Parse the first `/heal` command in a comment body
+ *
+ * Returns null when the comment contains no command.
+ */
+export function parseHealCommand(body: string): HealCommand | null {
+  const line = body
+    .split('\n')
+    .map(text => text.trim())
+    .find(text => /^\/heal(\s|$)/.test(text));
+
+  if (!line) {
+    return null;
+  }
+
+  const [, subcommand = 'help', ...args] = line.split(/\s+/);
+  const name = (
+    Object.keys(REQUIRED_PERMISSION).includes(subcommand) ? subcommand : 'help'
+  ) as HealCommandName;
+
+  return { name, args };
+}
+
+export class ChatOpsService {
+  constructor(
+    private readonly temporalService: TemporalClient,
+    private readonly repositoryConfigService: RepositoryConfigService,
+    private readonly failureFingerprintService: FailureFingerprintService,
+    private readonly deduplicationService: DeduplicationService
+  ) {}
+
+  /**
+   * Run a `/heal` command and return the markdown reply for the comment
+   */
+  async handleCommand(
+    request: HealCommandRequest,
+    command: HealCommand
+  ): Promise<string> {
+    const { commenter } = request;
+
+    if (command.name === 'help') {
+      return USAGE;
+    }
+
+    const denied = await this.checkPermission(request, commenter, command.name);
+
+    if (denied) {
+      return denied;
+    }
+
+    const args = command.args.filter(arg => !RUN_LINK.test(arg));
+
+    try {
+      const run = request.isPullRequest
+        ? await this.findFailedRun(request)
+        : await this.findLinkedRun(request, command);
+
+      if (!run) {
+        return request.isPullRequest
+          ? `@${commenter} no failed workflow run was found for this pull request.`
+          : `@${commenter} no workflow run is linked from this issue. Add its link after the command, such as \`/heal ${command.name} https://github.com/${request.owner}/${request.repo}/actions/runs/<id>\`.`;
+      }
+
+      if (command.name === 'retry') {
+        return await this.retry(request, commenter, run);
+      }
+
+      const workflowId = await this.resolveHealingWorkflow(request, run);
+
+      switch (command.name) {
+        case 'explain':
+          return await this.explain(workflowId);
+        case 'approve':
+          await this.temporalService.signalApproval(workflowId, 'approve', {
+            reviewer: commenter,
+            comment: `Approved with /heal approve on #${request.issueNumber}`,
+          });
+          return `@${commenter} approved \`${workflowId}\`.`;
+        case 'abort':
+          await this.temporalService.cancelWorkflow(
+            workflowId,
+            `Aborted by @${commenter}`
+          );
+          return `@${commenter} cancelled \`${workflowId}\`. Its changes are being rolled back.`;
+        case 'ignore-flaky': {
+          const [testName] = args;
+
+          if (!testName) {
+            return USAGE;
+          }
+
+          await this.temporalService.signalIgnoreFlakyTest(
+            workflowId,
+            testName
+          );
+          return `@${commenter} \`${workflowId}\` will skip \`${testName}\` in later test runs.`;
+        }
+      }
+    } catch (error) {
+      logger.error('ChatOps command failed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        repository: `${request.owner}/${request.repo}`,
+        command: command.name,
+      });
+      return `@${commenter} \`/heal ${command.name}\` failed: ${
+        error instanceof Error ? error.message : 'Unknown error'
+      }`;
+    }
+  }
+
+  /**
+   * Run an approve or retry button pressed on the healing check run
+   */
+  async handleCheckRunAction(
+    request: CheckRunActionRequest,
+    identifier: string
+  ): Promise<string> {
+    const { actor } = request;
+
+    if (identifier !== 'approve' && identifier !== 'retry') {
+      return `Unknown check run action \`${identifier}\``;
+    }
+
+    const denied = await this.checkPermission(request, actor, identifier);
+
+    if (denied) {
+      return denied;
+    }
+
+    if (identifier === 'retry') {
+      return this.retry(request, actor, {
+        id: request.workflowRunId,
+        head_sha: request.headSha,
+        head_branch: request.branch,
+      });
+    }
+
+    const workflowId = await this.resolveHealingWorkflow(request, {
+      id: request.workflowRunId,
+      head_sha: request.headSha,
+      head_branch: request.branch,
+    });
+
+    await this.temporalService.signalApproval(workflowId, 'approve', {
+      reviewer: actor,
+      comment: 'Approved from the Self-Healing CI check run',
+    });
+
+    return `@${actor} approved \`${workflowId}\`.`;
+  }
+
+  /**
+   * Return a refusal when the user lacks the permission a command needs
+   */
+  private async checkPermission(
+    request: { octokit: GitHubClient; owner: string; repo: string },
+    username: string,
+    command: HealCommandName
+  ): Promise<string | undefined> {
+    const required = REQUIRED_PERMISSION[command];
+    const permission = await this.getPermission(request, username);
+
+    if (PERMISSION_RANK[permission] >= PERMISSION_RANK[required]) {
+      return undefined;
+    }
+
+    logger.warn('Rejected ChatOps command', {
+      repository: `${request.owner}/${request.repo}`,
+      command,
+      username,
+      permission,
+    });
+    return `@${username} \`/heal ${command}\` needs ${required} access to this repository.`;
+  }
+
+  /**
+   * Start a new healing attempt for the failed run
+   */
+  private async retry(
+    request: {
+      octokit: GitHubClient;
+      owner: string;
+      repo: string;
+      installationId: number;
+    },
+    actor: string,
+    run: FailedRun
+  ): Promise<string> {
+    const repository = `${request.owner}/${request.repo}`;
+    const branch = run.head_branch ?? '';
+    const workflowId = healingWorkflowId(repository, run.id);
+    // Queries need a running worker, which a queued request does not
+    const before = await this.temporalService
+      .getHealingQueue(repository, branch)
+      .catch(() => null);
+
+    if (before?.active?.workflowId === workflowId) {
+      return `@${actor} workflow run ${run.id} is already being healed by \`${workflowId}\`.`;
+    }
+    if (before?.pending.some(queued => queued.workflowRunId === run.id)) {
+      return `@${actor} workflow run ${run.id} is already queued for healing.`;
+    }
+
+    const config = await this.repositoryConfigService.loadConfig(
+      request.octokit,
+      request.owner,
+      request.repo,
+      run.head_sha
+    );
+
+    await this.temporalService.startSelfHealingWorkflow({
+      repository,
+      workflowRunId: run.id,
+      headSha: run.head_sha,
+      branch,
+      actor,
+      installationId: request.installationId,
+      workflowName: run.name ?? undefined,
+      createdAt: run.created_at,
+      config,
+    });
+
+    const after = await this.temporalService
+      .getHealingQueue(repository, branch)
+      .catch(() => null);
+
+    return describeRetry(actor, run.id, workflowId, before, after);
+  }
+
+  /**
+   * Find the healing workflow that serves a failed run
+   *
+   * A run coalesced into the attempt for its commit, or grouped with an
+   * earlier run failing the same way, has no workflow of its own.
+   */
+  private async resolveHealingWorkflow(
+    request: { octokit: GitHubClient; owner: string; repo: string },
+    run: FailedRun
+  ): Promise<string> {
+    const repository = `${request.owner}/${request.repo}`;
+    const queue = await this.temporalService
+      .getHealingQueue(repository, run.head_branch ?? '')
+      .catch(() => null);
+
+    if (queue?.active?.headSha === run.head_sha) {
+      return queue.active.workflowId;
+    }
+
+    const failure = await this.failureFingerprintService.fingerprintRun(
+      request.octokit,
+      request.owner,
+      request.repo,
+      run.id
+    );
+    const group = failure
+      ? await this.deduplicationService.getFailureGroup(
+          repository,
+          failure.fingerprint
+        )
+      : undefined;
+
+    return healingWorkflowId(repository, group?.firstWorkflowRunId ?? run.id);
+  }
+
+  /**
+   * Describe the diagnosis of a healing attempt
+   */
+  private async explain(workflowId: string): Promise<string> {
+    const progress = await this.temporalService.getWorkflowProgress(workflowId);
+
+    if (!progress) {
+      return `No healing attempt \`${workflowId}\` was found.`;
+    }
+
+    if (!progress.diagnosis) {
+      return `\`${workflowId}\` has not been diagnosed yet (state: ${progress.state}).`;
+    }
+
+    const { rootCause, confidence, explanation } = progress.diagnosis;
+
+    return [
+      `**Diagnosis for \`${workflowId}\`** (state: ${progress.state})`,
+      '',
+      `- Root cause: ${rootCause}`,
+      `- Confidence: ${confidence}`,
+      '',
+      String(explanation ?? ''),
+    ].join('\n');
+  }
+
+  /**
+   * Look up the commenter's permission on the repository
+   */
+  private async getPermission(
+    request: { octokit: GitHubClient; owner: string; repo: string },
+    username: string
+  ): Promise<RepoPermission> {
+    try {
+      const { data } =
+        await request.octokit.repos.getCollaboratorPermissionLevel({
+          owner: request.owner,
+          repo: request.repo,
+          username,
+        });
+
+      return Object.keys(PERMISSION_RANK).includes(data.permission)
+        ? (data.permission as RepoPermission)
+        : 'none';
+    } catch (error) {
+      if ((error as { status?: number }).status === 404) {
+        return 'none';
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Find the workflow run linked from the command or the issue it is on
+   */
+  private async findLinkedRun(
+    request: HealCommandRequest,
+    command: HealCommand
+  ): Promise<FailedRun | undefined> {
+    const link = [...command.args, request.issueBody]
+      .map(text => RUN_LINK.exec(text))
+      .find(match => match !== null);
+
+    if (!link) {
+      return undefined;
+    }
+
+    try {
+      const { data } = await request.octokit.actions.getWorkflowRun({
+        owner: request.owner,
+        repo: request.repo,
+        run_id: Number(link[1]),
+      });
+      return data;
+    } catch (error) {
+      if ((error as { status?: number }).status === 404) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Find the latest failed workflow run behind a pull request
+   *
+   * Healing pull requests (`ci/self-heal/<sha>-<id>`) resolve to the failed
+   * run on their base branch that the fix was made for.
+   */
+  private async findFailedRun(
+    request: HealCommandRequest
+  ): Promise<FailedRun | undefined> {
+    const { octokit, owner, repo } = request;
+    const { data: pullRequest } = await octokit.pulls.get({
+      owner,
+      repo,
+      pull_number: request.issueNumber,
+    });
+
+    const healingBranch = /^ci\/self-heal\/([0-9a-f]{7})/.exec(
+      pullRequest.head.ref
+    );
+    const healedSha = healingBranch?.[1];
+
+    const { data } = await octokit.actions.listWorkflowRunsForRepo({
+      owner,
+      repo,
+      status: 'failure',
+      per_page: 50,
+      ...(healedSha
+        ? { branch: pullRequest.base.ref }
+        : { head_sha: pullRequest.head.sha }),
+    });
+
+    return data.workflow_runs.find(
+      run => !healedSha || run.head_sha.startsWith(healedSha)
+    );
+  }
+}
+
+/**
+ * Describe what the coordinator made of a retry, from its queue before and
+ * after the request
+ */
+function describeRetry(
+  actor: string,
+  workflowRunId: number,
+  workflowId: string,
+  before: HealingQueueState | null,
+  after: HealingQueueState | null
+): string {
+  const added = (list: (queue: HealingQueueState) => number[]) =>
+    after !== null &&
+    list(after).filter(id => id === workflowRunId).length >
+      (before ? list(before).filter(id => id === workflowRunId).length : 0);
+
+  if (added(queue => queue.coalesced)) {
+    return `@${actor} another failed run on this commit is already being healed, so no new attempt was started for workflow run ${workflowRunId}.`;
+  }
+  if (added(queue => queue.superseded)) {
+    return `@${actor} a newer commit on this branch is already being healed, so workflow run ${workflowRunId} was not retried.`;
+  }
+  if (after?.active?.workflowId === workflowId) {
+    return `@${actor} started healing workflow run ${workflowRunId} as \`${workflowId}\`.`;
+  }
+  return `@${actor} queued a healing attempt for workflow run ${workflowRunId}.`;
+}
@@ -0,0 +1,160 @@
+import {
+  BITBUCKET_COMMIT_STATUS_EVENTS,
+  BitbucketCommitStatusEventSchema,
+} from '../types/bitbucket-events.js';
+import type { CIFailureEvent } from '../types/ci-failure-event.js';
+import type {
+  GitLabJobEvent,
+  GitLabPipelineEvent,
+} from '../types/gitlab-events.js';
+import { GitLabEventSchema } from '../types/gitlab-events.js';
+import type { WorkflowRunEvent } from '../types/workflow-run.js';
+
+// Bitbucket Pipelines result pages end in `/results/<build number>`
+const BITBUCKET_PIPELINE_URL = /\/addon\/pipelines\/.*\/results\/(\d+)/;
+
+/**
+ * Turn a GitHub `workflow_run` event into a CI failure, if the run failed
+ */
+export function fromWorkflowRunEvent(
+  event: WorkflowRunEvent
+): CIFailureEvent | undefined {
+  const workflowRun = event.workflow_run;
+
+  if (workflowRun.conclusion !== 'failure') {
+    return undefined;
+  }
+
+  return {
+    provider: 'github',
+    repository: event.repository.full_name,
+    runId: workflowRun.id,
+    runName: workflowRun.name,
+    workflow: workflowRun.name,
+    runUrl: workflowRun.html_url,
+    headSha: workflowRun.head_sha,
+    branch: workflowRun.head_branch,
+    actor: event.sender.login,
+    createdAt: workflowRun.created_at,
+    // Failed jobs are read from the run's logs later
+    failedJobs: [],
+    installationId: event.installation?.id || 0,
+  };
+}
+
+/**
+ * Turn a GitLab pipeline or job webhook into a CI failure, if the pipeline
+ * or job failed on a branch
+ *
+ * Both hooks for one pipeline share its ID, so they deduplicate to one
+ * healing attempt. Throws when the payload is not a pipeline or job hook.
+ */
+export function fromGitLabEvent(payload: unknown): CIFailureEvent | undefined {
+  const event = GitLabEventSchema.parse(payload);
+
+  return event.object_kind === 'pipeline'
+    ? fromGitLabPipeline(event)
+    : fromGitLabJob(event);
+}
+
+function fromGitLabPipeline(
+  event: GitLabPipelineEvent
+): CIFailureEvent | undefined {
+  const pipeline = event.object_attributes;
+
+  if (pipeline.status !== 'failed' || pipeline.tag) {
+    return undefined;
+  }
+
+  return {
+    provider: 'gitlab',
+    repository: event.project.path_with_namespace,
+    runId: pipeline.id,
+    runName: `Pipeline #${pipeline.id}`,
+    runUrl:
+      pipeline.url ??
+      `${event.project.web_url ?? ''}/-/pipelines/${pipeline.id}`,
+    headSha: pipeline.sha,
+    branch: pipeline.ref,
+    actor: event.user.username,
+    createdAt: toIsoTimestamp(pipeline.created_at),
+    failedJobs: (event.builds ?? [])
+      .filter(build => build.status === 'failed' && !build.allow_failure)
+      .map(build => `${build.stage}: ${build.name}`),
+    installationId: 0,
+  };
+}
+
+function fromGitLabJob(event: GitLabJobEvent): CIFailureEvent | undefined {
+  if (
+    event.build_status !== 'failed' ||
+    event.build_allow_failure ||
+    event.tag
+  ) {
+    return undefined;
+  }
+
+  return {
+    provider: 'gitlab',
+    repository: event.project.path_with_namespace,
+    runId: event.pipeline_id,
+    runName: `Pipeline #${event.pipeline_id}`,
+    runUrl: `${event.project.web_url ?? ''}/-/jobs/${event.build_id}`,
+    headSha: event.sha,
+    branch: event.ref,
+    actor: event.user.username,
+    createdAt: toIsoTimestamp(event.build_created_at),
+    failedJobs: [`${event.build_stage}: ${event.build_name}`],
+    installationId: 0,
+  };
+}
+
+/**
+ * Turn a Bitbucket commit status webhook into a CI failure, if it reports a
+ * failed Bitbucket Pipelines build on a branch
+ *
+ * Statuses from other CI systems are ignored. Throws when the payload is not
+ * a commit status event.
+ */
+export function fromBitbucketEvent(
+  eventKey: string,
+  payload: unknown
+): CIFailureEvent | undefined {
+  if (
+    !BITBUCKET_COMMIT_STATUS_EVENTS.includes(
+      eventKey as (typeof BITBUCKET_COMMIT_STATUS_EVENTS)[number]
+    )
+  ) {
+    return undefined;
+  }
+
+  const event = BitbucketCommitStatusEventSchema.parse(payload);
+  const status = event.commit_status;
+  const buildNumber = BITBUCKET_PIPELINE_URL.exec(status.url)?.[1];
+
+  if (status.state !== 'FAILED' || !buildNumber || !status.refname) {
+    return undefined;
+  }
+
+  return {
+    provider: 'bitbucket',
+    repository: event.repository.full_name,
+    runId: Number(buildNumber),
+    runName: status.name,
+    runUrl: status.url,
+    headSha: status.commit.hash,
+    branch: status.refname,
+    actor: event.actor.nickname ?? event.actor.display_name ?? '',
+    createdAt: toIsoTimestamp(status.created_on),
+    failedJobs: [],
+    installationId: 0,
+  };
+}
+
+/**
+ * GitLab sends `2024-05-01 10:00:00 UTC`; keep anything unparseable as is
+ */
+function toIsoTimestamp(value: string): string {
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? value : new Date(time).toISOString();
+}
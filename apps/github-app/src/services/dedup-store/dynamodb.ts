@@ -0,0 +1,157 @@
+import { DynamoDB } from 'aws-sdk';
+import type { Clock, DedupStore } from './types.js';
+
+export interface DynamoDedupStoreOptions {
+  tableName: string;
+  region: string;
+  // DynamoDB Local or another compatible endpoint
+  endpoint?: string | undefined;
+  // The table's partition key
+  keyAttribute?: string | undefined;
+}
+
+/**
+ * Entries kept in a DynamoDB table with TTL enabled on its `ttl` attribute
+ *
+ * DynamoDB deletes expired items up to days late, so reads and conditions
+ * compare `ttl` with the current time themselves.
+ */
+export class DynamoDedupStore implements DedupStore {
+  readonly type = 'dynamodb';
+  private readonly client: DynamoDB.DocumentClient;
+  private readonly tableName: string;
+  private readonly keyAttribute: string;
+
+  constructor(
+    options: DynamoDedupStoreOptions,
+    private readonly now: Clock = Date.now
+  ) {
+    this.client = new DynamoDB.DocumentClient({
+      region: options.region,
+      ...(options.endpoint && { endpoint: options.endpoint }),
+      maxRetries: 3,
+      httpOptions: {
+        timeout: 5000,
+        connectTimeout: 3000,
+      },
+    });
+    this.tableName = options.tableName;
+    this.keyAttribute = options.keyAttribute ?? 'workflowRunId';
+  }
+
+  async setIfAbsent(
+    key: string,
+    value: string,
+    ttlSeconds: number
+  ): Promise<boolean> {
+    const now = this.seconds();
+
+    try {
+      await this.client
+        .put({
+          TableName: this.tableName,
+          Item: {
+            [this.keyAttribute]: key,
+            value,
+            ttl: now + ttlSeconds,
+            createdAt: new Date(this.now()).toISOString(),
+          },
+          ConditionExpression: 'attribute_not_exists(#key) OR #ttl <= :now',
+          ExpressionAttributeNames: {
+            '#key': this.keyAttribute,
+            '#ttl': 'ttl',
+          },
+          ExpressionAttributeValues: { ':now': now },
+        })
+        .promise();
+      return true;
+    } catch (error) {
+      if (isConditionalCheckFailure(error)) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async get(key: string): Promise<string | null> {
+    const result = await this.client
+      .get({
+        TableName: this.tableName,
+        Key: { [this.keyAttribute]: key },
+        ConsistentRead: true,
+      })
+      .promise();
+
+    if (!result.Item || result.Item['ttl'] <= this.seconds()) {
+      return null;
+    }
+    return result.Item['value'] ?? null;
+  }
+
+  async replace(key: string, value: string): Promise<boolean> {
+    try {
+      await this.client
+        .update({
+          TableName: this.tableName,
+          Key: { [this.keyAttribute]: key },
+          UpdateExpression: 'SET #value = :value',
+          ConditionExpression: 'attribute_exists(#key) AND #ttl > :now',
+          ExpressionAttributeNames: {
+            '#key': this.keyAttribute,
+            '#ttl': 'ttl',
+            '#value': 'value',
+          },
+          ExpressionAttributeValues: {
+            ':value': value,
+            ':now': this.seconds(),
+          },
+        })
+        .promise();
+      return true;
+    } catch (error) {
+      if (isConditionalCheckFailure(error)) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client
+      .delete({
+        TableName: this.tableName,
+        Key: { [this.keyAttribute]: key },
+      })
+      .promise();
+  }
+
+  async count(): Promise<undefined> {
+    return undefined;
+  }
+
+  async purgeExpired(): Promise<number> {
+    return 0;
+  }
+
+  async ping(): Promise<void> {
+    // A missing key still proves the table is reachable
+    await this.client
+      .get({
+        TableName: this.tableName,
+        Key: { [this.keyAttribute]: 'ping' },
+      })
+      .promise();
+  }
+
+  async close(): Promise<void> {}
+
+  private seconds(): number {
+    return Math.floor(this.now() / 1000);
+  }
+}
+
+function isConditionalCheckFailure(error: unknown): boolean {
+  return (
+    (error as { code?: string }).code === 'ConditionalCheckFailedException'
+  );
+}
@@ -0,0 +1,72 @@
+import { DynamoDedupStore } from './dynamodb.js';
+import { MemoryDedupStore } from './memory.js';
+import { RedisDedupStore } from './redis.js';
+import { SqliteDedupStore } from './sqlite.js';
+import type { DedupStore, DedupStoreType } from './types.js';
+
+export * from './types.js';
+export type { DynamoDedupStoreOptions } from './dynamodb.js';
+export {
+  DynamoDedupStore,
+  MemoryDedupStore,
+  RedisDedupStore,
+  SqliteDedupStore,
+};
+
+export const DEDUP_STORE_TYPES: readonly DedupStoreType[] = [
+  'redis',
+  'dynamodb',
+  'sqlite',
+  'memory',
+];
+
+export interface DedupStoreSettings {
+  redisUrl: string;
+  dynamoTableName: string;
+  dynamoEndpoint?: string | undefined;
+  awsRegion: string;
+  sqlitePath: string;
+  memoryMaxEntries: number;
+}
+
+/**
+ * Build a backend from the deduplication settings
+ */
+export function createDedupStore(
+  type: DedupStoreType,
+  settings: DedupStoreSettings
+): DedupStore {
+  switch (type) {
+    case 'redis':
+      return new RedisDedupStore(settings.redisUrl);
+    case 'dynamodb':
+      return new DynamoDedupStore({
+        tableName: settings.dynamoTableName,
+        region: settings.awsRegion,
+        endpoint: settings.dynamoEndpoint,
+      });
+    case 'sqlite':
+      return new SqliteDedupStore(settings.sqlitePath);
+    case 'memory':
+      return new MemoryDedupStore(settings.memoryMaxEntries);
+  }
+}
+
+/**
+ * Parse a comma-separated list of backends, such as `DEDUP_STORES`
+ */
+export function parseDedupStoreTypes(value: string): DedupStoreType[] {
+  return value
+    .split(',')
+    .map(type => type.trim())
+    .filter(Boolean)
+    .map(type => {
+      const known = DEDUP_STORE_TYPES.find(candidate => candidate === type);
+      if (!known) {
+        throw new Error(
+          `Unknown deduplication store "${type}", expected one of ${DEDUP_STORE_TYPES.join(', ')}`
+        );
+      }
+      return known;
+    });
+}
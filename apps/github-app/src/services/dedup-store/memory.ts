@@ -0,0 +1,112 @@
+import type { Clock, DedupStore } from './types.js';
+
+const DEFAULT_MAX_ENTRIES = 10000;
+
+interface MemoryEntry {
+  value: string;
+  expiresAt: number;
+}
+
+/**
+ * Entries kept in process memory, evicting the least recently used beyond
+ * `maxEntries`
+ *
+ * Not shared between processes, so only suitable for a single instance,
+ * local development and tests.
+ */
+export class MemoryDedupStore implements DedupStore {
+  readonly type = 'memory';
+  private readonly entries = new Map<string, MemoryEntry>();
+
+  constructor(
+    private readonly maxEntries = DEFAULT_MAX_ENTRIES,
+    private readonly now: Clock = Date.now
+  ) {}
+
+  async setIfAbsent(
+    key: string,
+    value: string,
+    ttlSeconds: number
+  ): Promise<boolean> {
+    if (this.live(key)) {
+      return false;
+    }
+
+    this.entries.set(key, { value, expiresAt: this.now() + ttlSeconds * 1000 });
+    this.evict();
+    return true;
+  }
+
+  async get(key: string): Promise<string | null> {
+    const entry = this.live(key);
+    if (!entry) {
+      return null;
+    }
+
+    // Reinserting marks the entry as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  async replace(key: string, value: string): Promise<boolean> {
+    const entry = this.live(key);
+    if (!entry) {
+      return false;
+    }
+
+    entry.value = value;
+    return true;
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async count(prefix: string): Promise<number> {
+    let count = 0;
+    for (const key of this.entries.keys()) {
+      if (key.startsWith(prefix) && this.live(key)) {
+        count++;
+      }
+    }
+    return count;
+  }
+
+  async purgeExpired(): Promise<number> {
+    let purged = 0;
+    for (const key of [...this.entries.keys()]) {
+      if (!this.live(key)) {
+        purged++;
+      }
+    }
+    return purged;
+  }
+
+  async ping(): Promise<void> {}
+
+  async close(): Promise<void> {
+    this.entries.clear();
+  }
+
+  /**
+   * The entry if it has not expired; expired entries are dropped on sight
+   */
+  private live(key: string): MemoryEntry | undefined {
+    const entry = this.entries.get(key);
+    if (entry && entry.expiresAt <= this.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  private evict(): void {
+    for (const key of this.entries.keys()) {
+      if (this.entries.size <= this.maxEntries) {
+        break;
+      }
+      this.entries.delete(key);
+    }
+  }
+}
@@ -0,0 +1,110 @@
+import Redis from 'ioredis';
+import { logger } from '../../utils/logger.js';
+import type { DedupStore } from './types.js';
+
+/**
+ * Entries kept in Redis, expired by Redis itself
+ */
+export class RedisDedupStore implements DedupStore {
+  readonly type = 'redis';
+  private readonly redis: Redis;
+  private connecting: Promise<void> | undefined;
+
+  constructor(url: string) {
+    this.redis = new Redis(url, {
+      maxRetriesPerRequest: 3,
+      lazyConnect: true,
+      keepAlive: 30000,
+      connectTimeout: 10000,
+      commandTimeout: 5000,
+      enableReadyCheck: true,
+      enableOfflineQueue: false,
+    });
+
+    this.redis.on('error', error => {
+      logger.error('Redis connection error:', error);
+    });
+
+    this.redis.on('connect', () => {
+      logger.info('Redis connected successfully');
+    });
+  }
+
+  async setIfAbsent(
+    key: string,
+    value: string,
+    ttlSeconds: number
+  ): Promise<boolean> {
+    await this.connect();
+    return (await this.redis.set(key, value, 'EX', ttlSeconds, 'NX')) === 'OK';
+  }
+
+  async get(key: string): Promise<string | null> {
+    await this.connect();
+    return this.redis.get(key);
+  }
+
+  async replace(key: string, value: string): Promise<boolean> {
+    await this.connect();
+    return (await this.redis.set(key, value, 'KEEPTTL', 'XX')) === 'OK';
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.connect();
+    await this.redis.del(key);
+  }
+
+  async count(prefix: string): Promise<number> {
+    await this.connect();
+    // SCAN rather than KEYS, which blocks Redis on large databases
+    const pattern = `${prefix.replace(/[*?[\]\\]/g, '\\$&')}*`;
+    let cursor = '0';
+    let count = 0;
+
+    do {
+      const [next, keys] = await this.redis.scan(
+        cursor,
+        'MATCH',
+        pattern,
+        'COUNT',
+        1000
+      );
+      cursor = next;
+      count += keys.length;
+    } while (cursor !== '0');
+
+    return count;
+  }
+
+  async purgeExpired(): Promise<number> {
+    return 0;
+  }
+
+  async ping(): Promise<void> {
+    await this.connect();
+    await this.redis.ping();
+  }
+
+  async close(): Promise<void> {
+    if (this.redis.status !== 'wait' && this.redis.status !== 'end') {
+      await this.redis.quit();
+    }
+  }
+
+  /**
+   * Connect on first use, since the offline queue is disabled
+   *
+   * Calls made while the first connect is pending wait for it rather than
+   * racing it into a second connect.
+   */
+  private async connect(): Promise<void> {
+    if (!this.connecting && this.redis.status === 'wait') {
+      this.connecting = this.redis.connect().catch((error: unknown) => {
+        this.connecting = undefined;
+        throw error;
+      });
+    }
+
+    await this.connecting;
+  }
+}
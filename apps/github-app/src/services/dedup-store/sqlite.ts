@@ -0,0 +1,96 @@
+import Database from 'better-sqlite3';
+import type { Clock, DedupStore } from './types.js';
+
+/**
+ * Entries kept in a SQLite database file
+ *
+ * Each operation is a single statement, so check-and-set stays atomic across
+ * processes sharing the file. Use `:memory:` for a private database.
+ */
+export class SqliteDedupStore implements DedupStore {
+  readonly type = 'sqlite';
+  private readonly db: Database.Database;
+
+  constructor(
+    path: string,
+    private readonly now: Clock = Date.now
+  ) {
+    this.db = new Database(path);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('busy_timeout = 5000');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS dedup_entries (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL,
+        expires_at INTEGER NOT NULL
+      )
+    `);
+  }
+
+  async setIfAbsent(
+    key: string,
+    value: string,
+    ttlSeconds: number
+  ): Promise<boolean> {
+    const now = this.now();
+    // An expired row is taken over as if it did not exist
+    const result = this.db
+      .prepare(
+        `INSERT INTO dedup_entries (key, value, expires_at) VALUES (?, ?, ?)
+         ON CONFLICT (key) DO UPDATE SET value = excluded.value, expires_at = excluded.expires_at
+         WHERE dedup_entries.expires_at <= ?`
+      )
+      .run(key, value, now + ttlSeconds * 1000, now);
+
+    return result.changes === 1;
+  }
+
+  async get(key: string): Promise<string | null> {
+    const row = this.db
+      .prepare(
+        'SELECT value FROM dedup_entries WHERE key = ? AND expires_at > ?'
+      )
+      .get(key, this.now()) as { value: string } | undefined;
+
+    return row?.value ?? null;
+  }
+
+  async replace(key: string, value: string): Promise<boolean> {
+    const result = this.db
+      .prepare(
+        'UPDATE dedup_entries SET value = ? WHERE key = ? AND expires_at > ?'
+      )
+      .run(value, key, this.now());
+
+    return result.changes === 1;
+  }
+
+  async delete(key: string): Promise<void> {
+    this.db.prepare('DELETE FROM dedup_entries WHERE key = ?').run(key);
+  }
+
+  async count(prefix: string): Promise<number> {
+    const row = this.db
+      .prepare(
+        `SELECT COUNT(*) AS count FROM dedup_entries
+         WHERE substr(key, 1, length(?)) = ? AND expires_at > ?`
+      )
+      .get(prefix, prefix, this.now()) as { count: number };
+
+    return row.count;
+  }
+
+  async purgeExpired(): Promise<number> {
+    return this.db
+      .prepare('DELETE FROM dedup_entries WHERE expires_at <= ?')
+      .run(this.now()).changes;
+  }
+
+  async ping(): Promise<void> {
+    this.db.prepare('SELECT 1').get();
+  }
+
+  async close(): Promise<void> {
+    this.db.close();
+  }
+}
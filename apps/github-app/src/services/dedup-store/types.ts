@@ -0,0 +1,47 @@
+export type DedupStoreType = 'redis' | 'dynamodb' | 'sqlite' | 'memory';
+
+/**
+ * Key-value storage for deduplication, with expiry
+ *
+ * Expired entries behave as if they were never written, whether or not the
+ * backend has removed them yet.
+ */
+export interface DedupStore {
+  readonly type: DedupStoreType;
+
+  /**
+   * Store `value` unless the key holds a live entry, as one atomic step
+   *
+   * Returns true when this call stored the value. Of any number of
+   * concurrent calls for one key, exactly one returns true.
+   */
+  setIfAbsent(key: string, value: string, ttlSeconds: number): Promise<boolean>;
+
+  get(key: string): Promise<string | null>;
+
+  /**
+   * Overwrite a live entry, keeping its expiry; false when there is none
+   */
+  replace(key: string, value: string): Promise<boolean>;
+
+  delete(key: string): Promise<void>;
+
+  /**
+   * Live entries whose key starts with `prefix`, or undefined when the
+   * backend cannot count without scanning the whole table
+   */
+  count(prefix: string): Promise<number | undefined>;
+
+  /**
+   * Remove expired entries the backend does not expire by itself
+   */
+  purgeExpired(): Promise<number>;
+
+  // Rejects when the backend is unreachable
+  ping(): Promise<void>;
+
+  close(): Promise<void>;
+}
+
+// Milliseconds since the epoch; replaceable so tests can move time forward
+export type Clock = () => number;
@@ -1,14 +1,44 @@
-import { DynamoDB } from 'aws-sdk';
-import Redis from 'ioredis';
 import type { WorkflowRunEvent } from '../types/workflow-run.js';
 import { getWorkflowRunId } from '../types/workflow-run.js';
 import { logger } from '../utils/logger.js';
+import type {
+  DedupStore,
+  DedupStoreSettings,
+  DedupStoreType,
+} from './dedup-store/index.js';
+import { createDedupStore, parseDedupStoreTypes } from './dedup-store/index.js';
 
 export interface DeduplicationConfig {
+  // Backends in order of preference, or ready-made stores
+  stores?: Array<DedupStoreType | DedupStore>;
   redisUrl?: string;
   dynamoTableName?: string;
+  dynamoEndpoint?: string;
   awsRegion?: string;
+  sqlitePath?: string;
+  memoryMaxEntries?: number;
   ttlSeconds?: number;
+  failurePolicy?: DedupFailurePolicy;
+}
+
+/**
+ * What to assume when no store answers: `open` lets the event through and
+ * risks healing twice, `closed` drops it and risks not healing at all
+ */
+export type DedupFailurePolicy = 'open' | 'closed';
+
+export interface DedupFallbackMetrics {
+  policy: DedupFailurePolicy;
+  // Claims answered by a store other than the first
+  storeFallbacks: number;
+  // Claims no store answered, decided by the policy
+  policyDecisions: number;
+}
+
+// A key claimed, or found already claimed, in one store
+interface DedupClaim {
+  claimed: boolean;
+  store: DedupStore;
 }
 
 export interface DeduplicationResult {
@@ -18,62 +48,93 @@ export interface DeduplicationResult {
   ttl: number;
 }
 
+export interface DeliveryClaim {
+  isReplay: boolean;
+  firstSeen: Date;
+}
+
+/**
+ * Failed runs that share a failure fingerprint, across runs and branches
+ */
+export interface FailureGroup {
+  repository: string;
+  fingerprint: string;
+  firstWorkflowRunId: number;
+  lastWorkflowRunId: number;
+  occurrences: number;
+  branches: string[];
+  firstSeen: string;
+  lastSeen: string;
+}
+
+export interface FailureOccurrence {
+  workflowRunId: number;
+  branch: string;
+}
+
+export interface FailureGroupResult {
+  // True when an earlier run already started healing this failure
+  isDuplicate: boolean;
+  group: FailureGroup;
+}
+
+export interface FailureGroupMetrics {
+  incidents: number;
+  groupedIncidents: number;
+  trackedGroups: number;
+  topGroups: FailureGroup[];
+}
+
+// Groups this instance remembers for `/metrics`
+const MAX_TRACKED_GROUPS = 100;
+const TOP_GROUPS = 10;
+
 export class DeduplicationService {
-  private redis: Redis | null = null;
-  private dynamoDb: DynamoDB.DocumentClient | null = null;
-  private readonly config: Required<DeduplicationConfig>;
+  private stores: DedupStore[] | undefined;
+  private readonly storeConfig: Array<DedupStoreType | DedupStore>;
+  private readonly settings: DedupStoreSettings;
   private readonly ttlSeconds: number;
+  private readonly failureGroups = new Map<string, FailureGroup>();
+  private incidents = 0;
+  private groupedIncidents = 0;
+  private readonly failurePolicy: DedupFailurePolicy;
+  private storeFallbacks = 0;
+  private policyDecisions = 0;
 
   constructor(config: DeduplicationConfig = {}) {
-    this.config = {
+    this.storeConfig =
+      config.stores ??
+      parseDedupStoreTypes(process.env['DEDUP_STORES'] || 'redis,dynamodb');
+    this.settings = {
       redisUrl:
         config.redisUrl || process.env['REDIS_URL'] || 'redis://localhost:6379',
       dynamoTableName:
         config.dynamoTableName ||
         process.env['DYNAMODB_TABLE'] ||
         'self-healing-ci-dedup',
+      dynamoEndpoint: config.dynamoEndpoint || process.env['DYNAMODB_ENDPOINT'],
       awsRegion: config.awsRegion || process.env['AWS_REGION'] || 'us-east-1',
-      ttlSeconds: config.ttlSeconds || 3600, // 1 hour default
+      sqlitePath:
+        config.sqlitePath || process.env['DEDUP_SQLITE_PATH'] || 'dedup.sqlite',
+      memoryMaxEntries: config.memoryMaxEntries || 10000,
     };
-    this.ttlSeconds = this.config.ttlSeconds;
+    this.ttlSeconds = config.ttlSeconds || 3600; // 1 hour default
+    this.failurePolicy =
+      config.failurePolicy ??
+      (process.env['DEDUP_FAILURE_POLICY'] === 'closed' ? 'closed' : 'open');
   }
 
   /**
-   * Initialize the deduplication service with Redis and DynamoDB connections
+   * Initialize the configured stores and check they are reachable
    */
   async initialize(): Promise<void> {
     try {
-      // Initialize Redis connection
-      this.redis = new Redis(this.config.redisUrl, {
-        maxRetriesPerRequest: 3,
-        lazyConnect: true,
-        keepAlive: 30000,
-        connectTimeout: 10000,
-        commandTimeout: 5000,
-        enableReadyCheck: true,
-        enableOfflineQueue: false,
-      });
-
-      this.redis.on('error', error => {
-        logger.error('Redis connection error:', error);
-      });
-
-      this.redis.on('connect', () => {
-        logger.info('Redis connected successfully');
-      });
-
-      // Initialize DynamoDB connection
-      this.dynamoDb = new DynamoDB.DocumentClient({
-        region: this.config.awsRegion,
-        maxRetries: 3,
-        httpOptions: {
-          timeout: 5000,
-          connectTimeout: 3000,
-        },
-      });
-
-      // Test connections
-      await this.testConnections();
+      await Promise.all(
+        this.getStores().map(async store => {
+          await store.ping();
+          logger.info(`${store.type} deduplication store connected`);
+        })
+      );
 
       logger.info('Deduplication service initialized successfully');
     } catch (error) {
@@ -87,40 +148,13 @@ export class DeduplicationService {
   }
 
   /**
-   * Test both Redis and DynamoDB connections
+   * Stores in order of preference, created on first use
    */
-  private async testConnections(): Promise<void> {
-    const promises: Promise<void>[] = [];
-
-    // Test Redis
-    if (this.redis) {
-      promises.push(
-        this.redis.ping().then(() => {
-          logger.info('Redis connection test successful');
-        })
-      );
-    }
-
-    // Test DynamoDB
-    if (this.dynamoDb) {
-      promises.push(
-        this.dynamoDb
-          .get({
-            TableName: this.config.dynamoTableName,
-            Key: { workflowRunId: 'test' },
-          })
-          .promise()
-          .then(() => {
-            logger.info('DynamoDB connection test successful');
-          })
-          .catch(() => {
-            // It's okay if the test key doesn't exist
-            logger.info('DynamoDB connection test successful');
-          })
-      );
-    }
-
-    await Promise.all(promises);
+  private getStores(): DedupStore[] {
+    this.stores ??= this.storeConfig.map(store =>
+      typeof store === 'string' ? createDedupStore(store, this.settings) : store
+    );
+    return this.stores;
   }
 
   /**
@@ -130,213 +164,135 @@ export class DeduplicationService {
     const workflowRunId = getWorkflowRunId(event);
     const timestamp = new Date();
     const ttl = Math.floor(timestamp.getTime() / 1000) + this.ttlSeconds;
+    const key = `workflow_run:${workflowRunId}`;
+    const claim = await this.claim(
+      key,
+      JSON.stringify({ timestamp: timestamp.toISOString(), ttl })
+    );
 
-    try {
-      // Try Redis first (faster)
-      const redisResult = await this.checkRedis(workflowRunId);
-      if (redisResult !== null) {
-        return redisResult;
-      }
-
-      // Fallback to DynamoDB
-      const dynamoResult = await this.checkDynamoDB(workflowRunId);
-      if (dynamoResult !== null) {
-        return dynamoResult;
-      }
-
-      // If not found in either, store in both
-      await this.storeInBoth(workflowRunId, timestamp, ttl);
-
+    if (!claim) {
       return {
-        isDuplicate: false,
-        workflowRunId,
-        timestamp,
-        ttl,
-      };
-    } catch (error) {
-      logger.error('Deduplication check failed:', error);
-      // In case of error, assume it's not a duplicate to avoid blocking legitimate events
-      return {
-        isDuplicate: false,
+        isDuplicate: this.failurePolicy === 'closed',
         workflowRunId,
         timestamp,
         ttl,
       };
     }
-  }
 
-  /**
-   * Check Redis for existing workflow run
-   */
-  private async checkRedis(
-    workflowRunId: string
-  ): Promise<DeduplicationResult | null> {
-    if (!this.redis) {
-      return null;
+    if (claim.claimed) {
+      return { isDuplicate: false, workflowRunId, timestamp, ttl };
     }
 
-    try {
-      const key = `workflow_run:${workflowRunId}`;
-      const existing = await this.redis.get(key);
-
-      if (existing) {
-        const existingData = JSON.parse(existing);
-        return {
-          isDuplicate: true,
-          workflowRunId,
-          timestamp: new Date(existingData.timestamp),
-          ttl: existingData.ttl,
-        };
-      }
+    // Report when the first delivery was seen, if the entry is still there
+    const existing = await claim.store.get(key).catch(() => null);
+    const first = existing
+      ? (JSON.parse(existing) as { timestamp: string; ttl: number })
+      : undefined;
 
-      return null;
-    } catch (error) {
-      logger.warn('Redis check failed, falling back to DynamoDB:', error);
-      return null;
-    }
+    return {
+      isDuplicate: true,
+      workflowRunId,
+      timestamp: first ? new Date(first.timestamp) : timestamp,
+      ttl: first?.ttl ?? ttl,
+    };
   }
 
   /**
-   * Check DynamoDB for existing workflow run
+   * Remember a verified webhook delivery for the replay window
+   *
+   * Returns when the delivery was first received, which is `receivedAt`
+   * unless this is a replay. Without a store to ask, the failure policy
+   * decides whether the delivery is taken for a replay.
    */
-  private async checkDynamoDB(
-    workflowRunId: string
-  ): Promise<DeduplicationResult | null> {
-    if (!this.dynamoDb) {
-      return null;
-    }
-
-    try {
-      const params: DynamoDB.DocumentClient.GetItemInput = {
-        TableName: this.config.dynamoTableName,
-        Key: {
-          workflowRunId,
-        },
+  async claimDelivery(
+    deliveryId: string,
+    receivedAt: Date,
+    windowSeconds: number
+  ): Promise<DeliveryClaim> {
+    const key = `delivery:${deliveryId}`;
+    const claim = await this.claim(
+      key,
+      receivedAt.toISOString(),
+      windowSeconds
+    );
+
+    if (!claim || claim.claimed) {
+      return {
+        isReplay: !claim && this.failurePolicy === 'closed',
+        firstSeen: receivedAt,
       };
-
-      const result = await this.dynamoDb.get(params).promise();
-
-      if (result.Item) {
-        return {
-          isDuplicate: true,
-          workflowRunId,
-          timestamp: new Date(result.Item['timestamp']),
-          ttl: result.Item['ttl'],
-        };
-      }
-
-      return null;
-    } catch (error) {
-      logger.warn('DynamoDB check failed:', error);
-      return null;
     }
-  }
-
-  /**
-   * Store workflow run in both Redis and DynamoDB
-   */
-  private async storeInBoth(
-    workflowRunId: string,
-    timestamp: Date,
-    ttl: number
-  ): Promise<void> {
-    const promises: Promise<void>[] = [];
 
-    // Store in Redis
-    if (this.redis) {
-      promises.push(
-        this.storeInRedis(workflowRunId, timestamp, ttl).catch(error => {
-          logger.warn('Failed to store in Redis:', error);
-        })
-      );
-    }
-
-    // Store in DynamoDB
-    if (this.dynamoDb) {
-      promises.push(
-        this.storeInDynamoDB(workflowRunId, timestamp, ttl).catch(error => {
-          logger.warn('Failed to store in DynamoDB:', error);
-        })
-      );
-    }
-
-    await Promise.all(promises);
+    const firstSeen = await claim.store.get(key).catch(() => null);
+    return {
+      isReplay: true,
+      firstSeen: firstSeen ? new Date(firstSeen) : receivedAt,
+    };
   }
 
   /**
-   * Store workflow run in Redis
+   * Claim a key in the first store that answers, as one atomic step
+   *
+   * Later stores get a best-effort copy of a new claim, so they can take over
+   * while the earlier ones are down. Returns undefined when no store answers;
+   * the caller then applies the failure policy.
    */
-  private async storeInRedis(
-    workflowRunId: string,
-    timestamp: Date,
-    ttl: number
-  ): Promise<void> {
-    if (!this.redis) {
-      throw new Error('Redis not initialized');
-    }
+  private async claim(
+    key: string,
+    value: string,
+    ttlSeconds = this.ttlSeconds
+  ): Promise<DedupClaim | undefined> {
+    const stores = this.getStores();
+
+    for (const [index, store] of stores.entries()) {
+      let claimed: boolean;
+
+      try {
+        claimed = await store.setIfAbsent(key, value, ttlSeconds);
+      } catch (error) {
+        logger.warn(
+          `${store.type} claim failed, trying the next store:`,
+          error
+        );
+        continue;
+      }
 
-    const key = `workflow_run:${workflowRunId}`;
-    const value = JSON.stringify({
-      timestamp: timestamp.toISOString(),
-      ttl,
-    });
+      if (index > 0) {
+        this.storeFallbacks++;
+      }
 
-    await this.redis.setex(key, this.ttlSeconds, value);
-  }
+      if (claimed) {
+        await Promise.all(
+          stores.slice(index + 1).map(replica =>
+            replica.setIfAbsent(key, value, ttlSeconds).catch(error => {
+              logger.warn(`Failed to copy claim to ${replica.type}:`, error);
+            })
+          )
+        );
+      }
 
-  /**
-   * Store workflow run in DynamoDB
-   */
-  private async storeInDynamoDB(
-    workflowRunId: string,
-    timestamp: Date,
-    ttl: number
-  ): Promise<void> {
-    if (!this.dynamoDb) {
-      throw new Error('DynamoDB not initialized');
+      return { claimed, store };
     }
 
-    const params: DynamoDB.DocumentClient.PutItemInput = {
-      TableName: this.config.dynamoTableName,
-      Item: {
-        workflowRunId,
-        timestamp: timestamp.toISOString(),
-        ttl,
-        createdAt: new Date().toISOString(),
-      },
-      ConditionExpression: 'attribute_not_exists(workflowRunId)',
-    };
-
-    await this.dynamoDb.put(params).promise();
+    this.policyDecisions++;
+    logger.error(
+      `No deduplication store answered, failing ${this.failurePolicy}`,
+      { key }
+    );
+    return undefined;
   }
 
   /**
-   * Clean up expired entries
+   * Clean up expired entries in stores that do not expire them by themselves
    */
   async cleanup(): Promise<void> {
     try {
-      // Redis cleanup is automatic with TTL
-      if (this.redis) {
-        await this.redis.eval(
-          `
-          local keys = redis.call('keys', 'workflow_run:*')
-          local now = redis.call('time')[1]
-          local deleted = 0
-          for i, key in ipairs(keys) do
-            local ttl = redis.call('ttl', key)
-            if ttl == -1 or ttl > ${this.ttlSeconds} then
-              redis.call('del', key)
-              deleted = deleted + 1
-            end
-          end
-          return deleted
-        `,
-          0
-        );
-      }
-
-      // DynamoDB cleanup (TTL is handled automatically by DynamoDB)
-      logger.info('Cleanup completed');
+      const purged = await Promise.all(
+        this.getStores().map(store => store.purgeExpired())
+      );
+      logger.info('Cleanup completed', {
+        purged: purged.reduce((sum, count) => sum + count, 0),
+      });
     } catch (error) {
       logger.warn('Cleanup failed:', error);
     }
@@ -346,62 +302,32 @@ export class DeduplicationService {
    * Get statistics about the deduplication service
    */
   async getStats(): Promise<{
-    redisConnected: boolean;
-    dynamoConnected: boolean;
+    stores: Partial<Record<DedupStoreType, boolean>>;
     totalEntries: number;
   }> {
-    let redisConnected = false;
-    let dynamoConnected = false;
-    let totalEntries = 0;
-
-    try {
-      if (this.redis) {
-        await this.redis.ping();
-        redisConnected = true;
-        const keys = await this.redis.keys('workflow_run:*');
-        totalEntries += keys.length;
-      }
-    } catch (error) {
-      logger.warn('Redis stats check failed:', error);
-    }
-
-    try {
-      if (this.dynamoDb) {
-        // Test connection by trying to get a non-existent item
-        await this.dynamoDb
-          .get({
-            TableName: this.config.dynamoTableName,
-            Key: { workflowRunId: 'test-connection' },
-          })
-          .promise();
-        dynamoConnected = true;
-        // Note: We can't easily count items without a scan, which is expensive
-        // For now, we'll just check if the table is accessible
+    const stores: Partial<Record<DedupStoreType, boolean>> = {};
+    let totalEntries: number | undefined;
+
+    for (const store of this.getStores()) {
+      try {
+        await store.ping();
+        stores[store.type] = true;
+        // Stores hold the same entries, so the first count is enough
+        totalEntries ??= await store.count('workflow_run:');
+      } catch (error) {
+        logger.warn(`${store.type} stats check failed:`, error);
+        stores[store.type] = false;
       }
-    } catch (error) {
-      logger.warn('DynamoDB stats check failed:', error);
     }
 
-    return {
-      redisConnected,
-      dynamoConnected,
-      totalEntries,
-    };
+    return { stores, totalEntries: totalEntries ?? 0 };
   }
 
   /**
    * Close connections
    */
   async close(): Promise<void> {
-    const promises: Promise<void>[] = [];
-
-    if (this.redis) {
-      promises.push(this.redis.quit().then(() => undefined));
-    }
-
-    // DynamoDB doesn't need explicit closing
-
-    await Promise.all(promises);
+    await Promise.all(this.getStores().map(store => store.close()));
     logger.info('Deduplication service connections closed');
   }
 
@@ -414,70 +340,186 @@ export class DeduplicationService {
     headSha: string
   ): Promise<boolean> {
     const eventId = `${repository}:${workflowRunId}:${headSha}`;
+    const timestamp = new Date();
+    const ttl = Math.floor(timestamp.getTime() / 1000) + this.ttlSeconds;
+    const claim = await this.claim(
+      `workflow_run:${eventId}`,
+      JSON.stringify({ timestamp: timestamp.toISOString(), ttl })
+    );
 
-    try {
-      // Try Redis first (faster)
-      if (this.redis) {
-        const key = `workflow_run:${eventId}`;
-        const existing = await this.redis.get(key);
-        if (existing) {
-          return true;
-        }
+    return claim ? !claim.claimed : this.failurePolicy === 'closed';
+  }
+
+  /**
+   * Drop the claims of a run whose healing failed to start, so a retry of
+   * its delivery is not taken for a duplicate
+   */
+  async release(
+    repository: string,
+    workflowRunId: number,
+    headSha: string,
+    fingerprint?: string
+  ): Promise<void> {
+    const keys = [`workflow_run:${repository}:${workflowRunId}:${headSha}`];
+    if (fingerprint) {
+      keys.push(`failure_group:${repository}:${fingerprint}`);
+    }
+
+    await Promise.all(
+      this.getStores().flatMap(store =>
+        keys.map(key =>
+          store.delete(key).catch(error => {
+            logger.warn(`Failed to release ${key} in ${store.type}:`, error);
+          })
+        )
+      )
+    );
+  }
+
+  /**
+   * Add a failed run to the group of runs sharing its fingerprint
+   *
+   * The first run of a group starts healing; later runs within the TTL are
+   * duplicates, so one healing workflow serves them all. The group is kept in
+   * the first store that answers. When none does, the failure policy
+   * decides.
+   */
+  async recordFailureGroup(
+    repository: string,
+    fingerprint: string,
+    occurrence: FailureOccurrence
+  ): Promise<FailureGroupResult> {
+    const key = `failure_group:${repository}:${fingerprint}`;
+    const now = new Date().toISOString();
+    const fresh: FailureGroup = {
+      repository,
+      fingerprint,
+      firstWorkflowRunId: occurrence.workflowRunId,
+      lastWorkflowRunId: occurrence.workflowRunId,
+      occurrences: 1,
+      branches: [occurrence.branch],
+      firstSeen: now,
+      lastSeen: now,
+    };
+    const claim = await this.claim(key, JSON.stringify(fresh));
+    const result: FailureGroupResult = claim
+      ? await this.joinFailureGroup(claim, key, fresh, occurrence)
+      : { isDuplicate: this.failurePolicy === 'closed', group: fresh };
+
+    this.trackFailureGroup(key, result);
+    return result;
+  }
+
+  /**
+   * The group of runs sharing a fingerprint, from the first store that
+   * answers
+   */
+  async getFailureGroup(
+    repository: string,
+    fingerprint: string
+  ): Promise<FailureGroup | undefined> {
+    const key = `failure_group:${repository}:${fingerprint}`;
+
+    for (const store of this.getStores()) {
+      try {
+        const value = await store.get(key);
+        return value ? (JSON.parse(value) as FailureGroup) : undefined;
+      } catch (error) {
+        logger.warn(
+          `${store.type} failure group lookup failed, trying the next store:`,
+          error
+        );
       }
+    }
+    return undefined;
+  }
 
-      // Fallback to DynamoDB
-      if (this.dynamoDb) {
-        const params: DynamoDB.DocumentClient.GetItemInput = {
-          TableName: this.config.dynamoTableName,
-          Key: {
-            workflowRunId: eventId,
-          },
-        };
-
-        const result = await this.dynamoDb.get(params).promise();
-        if (result.Item) {
-          return true;
-        }
+  /**
+   * Count one more run in a group an earlier run already claimed
+   */
+  private async joinFailureGroup(
+    claim: DedupClaim,
+    key: string,
+    fresh: FailureGroup,
+    occurrence: FailureOccurrence
+  ): Promise<FailureGroupResult> {
+    if (claim.claimed) {
+      return { isDuplicate: false, group: fresh };
+    }
+
+    try {
+      const existing = await claim.store.get(key);
+      if (!existing) {
+        // Expired since the claim; the earlier run's workflow still counts
+        return { isDuplicate: true, group: fresh };
       }
 
-      // If not found, store it
-      await this.storeEvent(eventId);
-      return false;
+      const previous = JSON.parse(existing) as FailureGroup;
+      const group: FailureGroup = {
+        ...previous,
+        lastWorkflowRunId: occurrence.workflowRunId,
+        occurrences: previous.occurrences + 1,
+        branches: [...new Set([...previous.branches, occurrence.branch])],
+        lastSeen: fresh.lastSeen,
+      };
+      // The group expires a TTL after its first run, however often it recurs
+      await claim.store.replace(key, JSON.stringify(group));
+
+      return { isDuplicate: true, group };
     } catch (error) {
-      logger.error('Deduplication check failed:', error);
-      // In case of error, assume it's not a duplicate to avoid blocking legitimate events
-      return false;
+      // The claim already decided; only the counts are lost
+      logger.warn(`${claim.store.type} failure group update failed:`, error);
+      return { isDuplicate: true, group: fresh };
     }
   }
 
   /**
-   * Store an event for deduplication
+   * Remember a group and count the incident for `/metrics`
    */
-  private async storeEvent(eventId: string): Promise<void> {
-    const timestamp = new Date();
-    const ttl = Math.floor(timestamp.getTime() / 1000) + this.ttlSeconds;
+  private trackFailureGroup(key: string, result: FailureGroupResult): void {
+    this.incidents++;
+    if (result.isDuplicate) {
+      this.groupedIncidents++;
+    }
 
-    const promises: Promise<void>[] = [];
+    this.failureGroups.delete(key);
+    this.failureGroups.set(key, result.group);
 
-    // Store in Redis
-    if (this.redis) {
-      promises.push(
-        this.storeInRedis(eventId, timestamp, ttl).catch(error => {
-          logger.warn('Failed to store in Redis:', error);
-        })
-      );
+    for (const oldest of this.failureGroups.keys()) {
+      if (this.failureGroups.size <= MAX_TRACKED_GROUPS) {
+        break;
+      }
+      this.failureGroups.delete(oldest);
     }
+  }
 
-    // Store in DynamoDB
-    if (this.dynamoDb) {
-      promises.push(
-        this.storeInDynamoDB(eventId, timestamp, ttl).catch(error => {
-          logger.warn('Failed to store in DynamoDB:', error);
-        })
-      );
-    }
+  /**
+   * Incidents seen by this instance and the most recurrent groups
+   *
+   * Occurrence counts are shared between instances; the incident totals are
+   * this instance's since it started.
+   */
+  getFailureGroupMetrics(): FailureGroupMetrics {
+    return {
+      incidents: this.incidents,
+      groupedIncidents: this.groupedIncidents,
+      trackedGroups: this.failureGroups.size,
+      topGroups: [...this.failureGroups.values()]
+        .sort((a, b) => b.occurrences - a.occurrences)
+        .slice(0, TOP_GROUPS),
+    };
+  }
 
-    await Promise.all(promises);
+  /**
+   * How often deduplication had to fall back, to a later store or to the
+   * failure policy
+   */
+  getFallbackMetrics(): DedupFallbackMetrics {
+    return {
+      policy: this.failurePolicy,
+      storeFallbacks: this.storeFallbacks,
+      policyDecisions: this.policyDecisions,
+    };
   }
 
   /**
@@ -486,7 +528,7 @@ export class DeduplicationService {
   async isHealthy(): Promise<boolean> {
     try {
       const stats = await this.getStats();
-      return stats.redisConnected || stats.dynamoConnected;
+      return Object.values(stats.stores).some(Boolean);
     } catch (error) {
       logger.warn('Health check failed:', error);
       return false;
@@ -499,7 +541,7 @@ export class DeduplicationService {
   async isReady(): Promise<boolean> {
     try {
       const stats = await this.getStats();
-      return stats.redisConnected && stats.dynamoConnected;
+      return Object.values(stats.stores).every(Boolean);
     } catch (error) {
       logger.warn('Readiness check failed:', error);
       return false;
@@ -510,21 +552,25 @@ export class DeduplicationService {
    * Get service metrics
    */
   async getMetrics(): Promise<{
-    redisConnected: boolean;
-    dynamoConnected: boolean;
+    stores: Partial<Record<DedupStoreType, boolean>>;
     totalEntries: number;
+    failureGroups: FailureGroupMetrics;
+    fallback: DedupFallbackMetrics;
     lastError?: string;
   }> {
     try {
       const stats = await this.getStats();
       return {
         ...stats,
+        failureGroups: this.getFailureGroupMetrics(),
+        fallback: this.getFallbackMetrics(),
       };
     } catch (error) {
       return {
-        redisConnected: false,
-        dynamoConnected: false,
+        stores: {},
         totalEntries: 0,
+        failureGroups: this.getFailureGroupMetrics(),
+        fallback: this.getFallbackMetrics(),
         lastError: error instanceof Error ? error.message : 'Unknown error',
       };
     }
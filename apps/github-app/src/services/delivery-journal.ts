@@ -0,0 +1,303 @@
+import Database from 'better-sqlite3';
+import { logger } from '../utils/logger.js';
+
+export type DeliveryStatus =
+  | 'processing'
+  | 'succeeded'
+  | 'failed'
+  | 'abandoned';
+
+/**
+ * A webhook delivery as GitHub sent it, with the outcome of handling it
+ */
+export interface Delivery {
+  // The `X-GitHub-Delivery` ID
+  id: string;
+  name: string;
+  action?: string;
+  payload: unknown;
+  status: DeliveryStatus;
+  attempts: number;
+  error?: string;
+  receivedAt: string;
+  updatedAt: string;
+  // When the sweeper retries a failed delivery next
+  nextAttemptAt?: string;
+}
+
+export interface DeliveryJournalConfig {
+  path?: string;
+  // Attempts, the first included, before a delivery is abandoned
+  maxAttempts?: number;
+  retryBaseMs?: number;
+  retryMaxMs?: number;
+  sweepIntervalMs?: number;
+  // How long finished deliveries are kept
+  retentionMs?: number;
+  now?: () => number;
+}
+
+export interface DeliveryListOptions {
+  status?: DeliveryStatus | undefined;
+  limit?: number | undefined;
+}
+
+interface DeliveryRow {
+  id: string;
+  name: string;
+  action: string | null;
+  payload: string;
+  status: DeliveryStatus;
+  attempts: number;
+  error: string | null;
+  received_at: number;
+  updated_at: number;
+  next_attempt_at: number | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Every accepted webhook delivery, kept in SQLite so failed ones can be
+ * inspected and replayed after a restart
+ *
+ * Failed deliveries are retried by the sweeper with exponential backoff
+ * until `maxAttempts` is reached, then marked abandoned; they can still be
+ * replayed by hand. Failures that retrying cannot fix are abandoned at once.
+ */
+export class DeliveryJournal {
+  private readonly db: Database.Database;
+  private readonly maxAttempts: number;
+  private readonly retryBaseMs: number;
+  private readonly retryMaxMs: number;
+  private readonly sweepIntervalMs: number;
+  private readonly retentionMs: number;
+  private readonly now: () => number;
+  private sweeper: NodeJS.Timeout | undefined;
+  private sweeping = false;
+
+  constructor(config: DeliveryJournalConfig = {}) {
+    this.db = new Database(
+      config.path ?? process.env['DELIVERY_JOURNAL_PATH'] ?? 'deliveries.sqlite'
+    );
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('busy_timeout = 5000');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS deliveries (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        action TEXT,
+        payload TEXT NOT NULL,
+        status TEXT NOT NULL,
+        attempts INTEGER NOT NULL,
+        error TEXT,
+        received_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL,
+        next_attempt_at INTEGER
+      );
+      CREATE INDEX IF NOT EXISTS deliveries_retry
+        ON deliveries (status, next_attempt_at);
+    `);
+
+    this.maxAttempts =
+      config.maxAttempts ??
+      parseInt(process.env['DELIVERY_MAX_ATTEMPTS'] || '5', 10);
+    this.retryBaseMs = config.retryBaseMs ?? 60 * 1000;
+    this.retryMaxMs = config.retryMaxMs ?? 60 * 60 * 1000;
+    this.sweepIntervalMs = config.sweepIntervalMs ?? 30 * 1000;
+    this.retentionMs = config.retentionMs ?? 7 * DAY_MS;
+    this.now = config.now ?? Date.now;
+  }
+
+  /**
+   * Record an attempt at handling a delivery, the first or a replay
+   */
+  async begin(id: string, name: string, payload: unknown): Promise<void> {
+    const now = this.now();
+    const action = (payload as { action?: unknown }).action;
+
+    this.db
+      .prepare(
+        `INSERT INTO deliveries
+           (id, name, action, payload, status, attempts, received_at, updated_at)
+         VALUES (?, ?, ?, ?, 'processing', 1, ?, ?)
+         ON CONFLICT (id) DO UPDATE SET
+           status = 'processing', attempts = attempts + 1, error = NULL,
+           updated_at = excluded.updated_at, next_attempt_at = NULL`
+      )
+      .run(
+        id,
+        name,
+        typeof action === 'string' ? action : null,
+        JSON.stringify(payload),
+        now,
+        now
+      );
+  }
+
+  async succeed(id: string): Promise<void> {
+    this.db
+      .prepare(
+        `UPDATE deliveries SET status = 'succeeded', error = NULL,
+           updated_at = ?, next_attempt_at = NULL
+         WHERE id = ?`
+      )
+      .run(this.now(), id);
+  }
+
+  /**
+   * Mark an attempt failed and schedule the next one, if any is left and
+   * the failure is retryable
+   */
+  async fail(id: string, error: string, retryable = true): Promise<void> {
+    const row = this.db
+      .prepare('SELECT attempts FROM deliveries WHERE id = ?')
+      .get(id) as { attempts: number } | undefined;
+
+    if (!row) {
+      return;
+    }
+
+    const now = this.now();
+    const abandoned = !retryable || row.attempts >= this.maxAttempts;
+    const delay = Math.min(
+      this.retryBaseMs * 2 ** (row.attempts - 1),
+      this.retryMaxMs
+    );
+
+    this.db
+      .prepare(
+        `UPDATE deliveries SET status = ?, error = ?, updated_at = ?,
+           next_attempt_at = ?
+         WHERE id = ?`
+      )
+      .run(
+        abandoned ? 'abandoned' : 'failed',
+        error,
+        now,
+        abandoned ? null : now + delay,
+        id
+      );
+  }
+
+  async get(id: string): Promise<Delivery | undefined> {
+    const row = this.db
+      .prepare('SELECT * FROM deliveries WHERE id = ?')
+      .get(id) as DeliveryRow | undefined;
+
+    return row && toDelivery(row);
+  }
+
+  /**
+   * Most recent deliveries first, without their payloads
+   */
+  async list(
+    options: DeliveryListOptions = {}
+  ): Promise<Array<Omit<Delivery, 'payload'>>> {
+    const limit = Math.min(Math.max(options.limit || 50, 1), 500);
+    const rows = (
+      options.status
+        ? this.db
+            .prepare(
+              `SELECT * FROM deliveries WHERE status = ?
+               ORDER BY received_at DESC LIMIT ?`
+            )
+            .all(options.status, limit)
+        : this.db
+            .prepare(
+              'SELECT * FROM deliveries ORDER BY received_at DESC LIMIT ?'
+            )
+            .all(limit)
+    ) as DeliveryRow[];
+
+    return rows.map(row => {
+      const { payload: _payload, ...delivery } = toDelivery(row);
+      return delivery;
+    });
+  }
+
+  /**
+   * Replay failed deliveries that are due, and drop old finished ones
+   */
+  async sweep(replay: (delivery: Delivery) => Promise<void>): Promise<number> {
+    if (this.sweeping) {
+      return 0;
+    }
+    this.sweeping = true;
+
+    try {
+      const now = this.now();
+      this.db
+        .prepare(
+          `DELETE FROM deliveries
+           WHERE status IN ('succeeded', 'abandoned') AND updated_at <= ?`
+        )
+        .run(now - this.retentionMs);
+
+      const due = this.db
+        .prepare(
+          `SELECT * FROM deliveries
+           WHERE status = 'failed' AND next_attempt_at <= ?
+           ORDER BY next_attempt_at LIMIT 20`
+        )
+        .all(now) as DeliveryRow[];
+
+      for (const row of due) {
+        try {
+          await replay(toDelivery(row));
+        } catch (error) {
+          logger.error('Failed to replay webhook delivery', {
+            deliveryId: row.id,
+            error: error instanceof Error ? error.message : 'Unknown error',
+          });
+        }
+      }
+
+      return due.length;
+    } finally {
+      this.sweeping = false;
+    }
+  }
+
+  startSweeper(replay: (delivery: Delivery) => Promise<void>): void {
+    if (this.sweeper) {
+      return;
+    }
+
+    this.sweeper = setInterval(() => {
+      this.sweep(replay).catch(error => {
+        logger.error('Webhook delivery sweep failed', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      });
+    }, this.sweepIntervalMs);
+    this.sweeper.unref();
+  }
+
+  stopSweeper(): void {
+    clearInterval(this.sweeper);
+    this.sweeper = undefined;
+  }
+
+  async close(): Promise<void> {
+    this.stopSweeper();
+    this.db.close();
+  }
+}
+
+function toDelivery(row: DeliveryRow): Delivery {
+  return {
+    id: row.id,
+    name: row.name,
+    ...(row.action !== null && { action: row.action }),
+    payload: JSON.parse(row.payload),
+    status: row.status,
+    attempts: row.attempts,
+    ...(row.error !== null && { error: row.error }),
+    receivedAt: new Date(row.received_at).toISOString(),
+    updatedAt: new Date(row.updated_at).toISOString(),
+    ...(row.next_attempt_at !== null && {
+      nextAttemptAt: new Date(row.next_attempt_at).toISOString(),
+    }),
+  };
+}
@@ -0,0 +1,182 @@
+import { ANSI_COLOR_CODES } from '@self-healing-ci/diagnosis/test-reports';
+import { createHash } from 'crypto';
+import type { Context } from 'probot';
+import { logger } from '../utils/logger.js';
+
+type GitHubClient = Context['octokit'];
+
+export interface FailureFingerprint {
+  fingerprint: string;
+  errorLines: string[];
+  failedTests: string[];
+  frames: string[];
+}
+
+// Log lines that describe what went wrong rather than what ran
+const ERROR_LINE =
+  /error|fail|exception|panic|assert|expected|cannot|undefined|not found|denied|timed? ?out/i;
+
+// Failing test IDs as printed by Jest, pytest, go test, cargo test and TAP
+const FAILED_TEST_PATTERNS = [
+  /^\s*● (.+ › .+)$/,
+  /^FAILED (\S+::\S+)/,
+  /^\s*--- FAIL: (\S+)/,
+  /^test (\S+) \.\.\. FAILED$/,
+  /^not ok \d+ - (.+)$/,
+];
+
+// JavaScript `at fn (file:line:col)` and Python `File "file", line n, in fn`
+const JS_FRAME = /^\s*at (?:(\S+) \()?([^\s()]+?):\d+(?::\d+)?\)?$/;
+const PYTHON_FRAME = /^\s*File "([^"]+)", line \d+, in (\S+)$/;
+
+// Error lines kept per failure, so huge logs do not drown the fingerprint
+const MAX_ERROR_LINES = 50;
+
+// The top of the stack is the most telling
+const MAX_FRAMES = 5;
+
+// Only the end of each job's log is read; failures are reported last
+const MAX_LOG_BYTES = 256 * 1024;
+
+/**
+ * Strip what changes between runs of the same failure: timestamps, ANSI
+ * colours, hex addresses, hashes, line numbers, durations and other numbers
+ */
+export function normalizeErrorLine(line: string): string {
+  return line
+    .replace(ANSI_COLOR_CODES, '')
+    .replace(/\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}:\d{2}(?:\.\d+)?Z?/g, '')
+    .replace(/\b0x[0-9a-f]+\b/gi, '<hex>')
+    .replace(/\b(?=[0-9a-f]*\d)[0-9a-f]{7,64}\b/g, '<sha>')
+    .replace(/:\d+(?::\d+)?\b/g, '')
+    .replace(/\b\d+(?:\.\d+)?\s?(?:ms|s|sec|seconds)\b/g, '<duration>')
+    .replace(/\d+/g, '<n>')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Fingerprint a failure from its logs: normalised error lines, failing test
+ * IDs and the top stack frames
+ *
+ * Returns undefined when the logs contain nothing that identifies the
+ * failure, since every such run would otherwise share one fingerprint.
+ */
+export function computeFailureFingerprint(
+  logs: string
+): FailureFingerprint | undefined {
+  const errorLines = new Set<string>();
+  const failedTests = new Set<string>();
+  const frames = new Set<string>();
+
+  for (const raw of logs.split('\n')) {
+    // GitHub prefixes every log line with a timestamp
+    const line = raw
+      .replace(ANSI_COLOR_CODES, '')
+      .replace(/^\d{4}-\d{2}-\d{2}T\S+Z /, '')
+      .trimEnd();
+
+    for (const pattern of FAILED_TEST_PATTERNS) {
+      const match = pattern.exec(line);
+      if (match?.[1]) {
+        failedTests.add(match[1].trim());
+      }
+    }
+
+    const frame = parseFrame(line);
+    if (frame && frames.size < MAX_FRAMES) {
+      frames.add(frame);
+    }
+
+    const errorLine = normalizeErrorLine(line);
+    if (
+      errorLine &&
+      ERROR_LINE.test(errorLine) &&
+      errorLines.size < MAX_ERROR_LINES
+    ) {
+      errorLines.add(errorLine);
+    }
+  }
+
+  if (errorLines.size === 0 && failedTests.size === 0) {
+    return undefined;
+  }
+
+  const identity = [
+    ...[...errorLines].map(line => `error:${line}`),
+    ...[...failedTests].map(test => `test:${test}`),
+    ...[...frames].map(frame => `frame:${frame}`),
+  ].sort();
+
+  return {
+    fingerprint: createHash('sha256')
+      .update(identity.join('\n'))
+      .digest('hex')
+      .substring(0, 16),
+    errorLines: [...errorLines],
+    failedTests: [...failedTests],
+    frames: [...frames],
+  };
+}
+
+/**
+ * `file:function` of a stack frame line, skipping dependencies and runtime
+ * internals
+ */
+function parseFrame(line: string): string | undefined {
+  const js = JS_FRAME.exec(line);
+  const python = js ? null : PYTHON_FRAME.exec(line);
+  const file = js ? js[2] : python?.[1];
+  const fn = js ? js[1] : python?.[2];
+
+  if (!file || /node_modules|site-packages|^node:/.test(file)) {
+    return undefined;
+  }
+
+  return `${file}:${fn ?? ''}`;
+}
+
+export class FailureFingerprintService {
+  /**
+   * Fingerprint a failed workflow run from the logs of its failed jobs
+   *
+   * Needs the `actions: read` app permission. Returns undefined when the
+   * logs cannot be read or identify nothing.
+   */
+  async fingerprintRun(
+    octokit: GitHubClient,
+    owner: string,
+    repo: string,
+    runId: number
+  ): Promise<FailureFingerprint | undefined> {
+    try {
+      const jobs = await octokit.paginate(
+        octokit.actions.listJobsForWorkflowRun,
+        { owner, repo, run_id: runId, filter: 'latest', per_page: 100 }
+      );
+      const logs: string[] = [];
+
+      // Jobs are sorted so the fingerprint does not depend on API order
+      for (const job of jobs
+        .filter(job => job.conclusion === 'failure')
+        .sort((a, b) => a.name.localeCompare(b.name))) {
+        const response = await octokit.actions.downloadJobLogsForWorkflowRun({
+          owner,
+          repo,
+          job_id: job.id,
+        });
+        const text = String(response.data);
+        logs.push(text.slice(-MAX_LOG_BYTES));
+      }
+
+      return computeFailureFingerprint(logs.join('\n'));
+    } catch (error) {
+      logger.warn('Failed to fingerprint workflow run', {
+        repository: `${owner}/${repo}`,
+        workflowRunId: runId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return undefined;
+    }
+  }
+}
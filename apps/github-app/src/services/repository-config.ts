@@ -0,0 +1,118 @@
+import type { Context } from 'probot';
+import { parse } from 'yaml';
+import type { SelfHealingConfig } from '../types/self-healing-config.js';
+import {
+  DEFAULT_SELF_HEALING_CONFIG,
+  SELF_HEALING_CONFIG_PATH,
+  SelfHealingConfigSchema,
+} from '../types/self-healing-config.js';
+import { logger } from '../utils/logger.js';
+
+type GitHubClient = Context['octokit'];
+
+/**
+ * A `.self-healing.yml` that cannot be used until the repository changes it
+ */
+export class RepositoryConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RepositoryConfigError';
+  }
+}
+
+export class RepositoryConfigService {
+  /**
+   * Load `.self-healing.yml` from a repository at the given commit
+   *
+   * Falls back to the defaults when the file does not exist and throws a
+   * `RepositoryConfigError` when it exists but is not valid.
+   */
+  async loadConfig(
+    octokit: GitHubClient,
+    owner: string,
+    repo: string,
+    ref: string
+  ): Promise<SelfHealingConfig> {
+    let content: string;
+
+    try {
+      const response = await octokit.repos.getContent({
+        owner,
+        repo,
+        path: SELF_HEALING_CONFIG_PATH,
+        ref,
+      });
+
+      if (Array.isArray(response.data) || !('content' in response.data)) {
+        throw new RepositoryConfigError(
+          `${SELF_HEALING_CONFIG_PATH} is not a file`
+        );
+      }
+
+      content = Buffer.from(response.data.content, 'base64').toString('utf8');
+    } catch (error) {
+      if ((error as { status?: number }).status === 404) {
+        logger.debug('No repository config found, using defaults', {
+          repository: `${owner}/${repo}`,
+          ref,
+        });
+        return DEFAULT_SELF_HEALING_CONFIG;
+      }
+      throw error;
+    }
+
+    const result = parseConfig(content);
+
+    if (!result.success) {
+      logger.warn('Invalid repository config', {
+        repository: `${owner}/${repo}`,
+        ref,
+        issues: result.issues,
+      });
+      throw new RepositoryConfigError(
+        `Invalid ${SELF_HEALING_CONFIG_PATH}: ${result.issues}`
+      );
+    }
+
+    logger.info('Loaded repository config', {
+      repository: `${owner}/${repo}`,
+      ref,
+    });
+
+    return result.data;
+  }
+}
+
+/**
+ * Parse and validate the file, or describe what is wrong with it
+ */
+function parseConfig(
+  content: string
+):
+  | { success: true; data: SelfHealingConfig }
+  | { success: false; issues: string } {
+  let document: unknown;
+
+  try {
+    document = parse(content);
+  } catch (error) {
+    // YAML errors name the line and column
+    return {
+      success: false,
+      issues: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+
+  const result = SelfHealingConfigSchema.safeParse(document ?? {});
+
+  if (!result.success) {
+    return {
+      success: false,
+      issues: result.error.issues
+        .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+        .join('; '),
+    };
+  }
+
+  return result;
+}
@@ -1,5 +1,12 @@
 import type { WorkflowHandle } from '@temporalio/client';
-import { Client, Connection, WorkflowClient } from '@temporalio/client';
+import {
+  Client,
+  Connection,
+  WorkflowClient,
+  WorkflowNotFoundError,
+} from '@temporalio/client';
+import type { CIProvider } from '../types/ci-failure-event.js';
+import type { SelfHealingConfig } from '../types/self-healing-config.js';
 import { logger } from '../utils/logger.js';
 
 export interface TemporalConfig {
@@ -8,6 +15,22 @@ export interface TemporalConfig {
   serverUrl?: string;
   connectionTimeout?: number;
   maxRetries?: number;
+  maxConcurrentHeals?: number;
+}
+
+export type ApprovalTimeoutPolicy = 'AUTO_MERGE' | 'AUTO_CLOSE' | 'ESCALATE';
+
+export interface ApprovalConfig {
+  required: boolean;
+  timeout: string;
+  timeoutPolicy: ApprovalTimeoutPolicy;
+}
+
+export type ApprovalSignal = 'approve' | 'reject' | 'requestChanges';
+
+export interface ApprovalSignalInput {
+  reviewer: string;
+  comment?: string;
 }
 
 export interface SelfHealingWorkflowInput {
@@ -17,6 +40,40 @@ export interface SelfHealingWorkflowInput {
   branch: string;
   actor: string;
   installationId: number;
+  // Name of the failed CI workflow, for logs
+  workflowName?: string | undefined;
+  // When the run was created; orders runs of different commits
+  createdAt?: string | undefined;
+  config: SelfHealingConfig;
+  approval?: ApprovalConfig;
+  // Where the repository is hosted; GitHub when omitted
+  forge?: CIProvider;
+}
+
+export interface WorkflowTransition {
+  state: string;
+  timestamp: string;
+  data?: Record<string, unknown>;
+  error?: string;
+}
+
+export interface WorkflowRunProgress {
+  workflowId: string;
+  status: string;
+  state: string;
+  diagnosis: Record<string, unknown> | null;
+  patch: string | null;
+  testResults: Array<Record<string, unknown>>;
+  history: WorkflowTransition[];
+  candidates: Array<Record<string, unknown>>;
+}
+
+// Mirrors HealingQueueState in the worker's healing coordinator
+export interface HealingQueueState {
+  active: { workflowId: string; headSha: string } | null;
+  pending: Array<{ workflowRunId: number; headSha: string }>;
+  coalesced: number[];
+  superseded: number[];
 }
 
 export interface TemporalMetrics {
@@ -54,6 +111,12 @@ export class TemporalClient {
       maxRetries:
         config.maxRetries ||
         parseInt(process.env['TEMPORAL_MAX_RETRIES'] || '3', 10),
+      maxConcurrentHeals:
+        config.maxConcurrentHeals ||
+        parseInt(
+          process.env['MAX_CONCURRENT_HEALS_PER_INSTALLATION'] || '3',
+          10
+        ),
     };
 
     this.metrics = {
@@ -136,7 +199,11 @@ export class TemporalClient {
   }
 
   /**
-   * Start a self-healing workflow
+   * Queue a self-healing attempt on the coordinator for the run's branch
+   *
+   * The coordinator starts `SelfHealingWorkflow` as a child with the ID
+   * `self-healing-<repo>-<runId>` once the branch and installation have
+   * capacity. The coordinator itself is started if it is not running.
    */
   async startSelfHealingWorkflow(
     input: SelfHealingWorkflowInput
@@ -146,33 +213,50 @@ export class TemporalClient {
     }
 
     try {
-      const workflowId = `self-healing-${input.repository}-${input.workflowRunId}`;
+      const workflowId = healingCoordinatorId(input.repository, input.branch);
 
-      logger.info('Starting self-healing workflow', {
+      logger.info('Queueing self-healing workflow', {
         workflowId,
         repository: input.repository,
         workflowRunId: input.workflowRunId,
         headSha: input.headSha,
       });
 
-      const handle = await this.workflowClient.start('SelfHealingWorkflow', {
-        taskQueue: this.config.taskQueue,
-        workflowId,
-        args: [input],
-        retry: {
-          initialInterval: '1s',
-          maximumInterval: '1m',
-          maximumAttempts: 3,
-          backoffCoefficient: 2,
-        },
-      });
+      const handle = await this.workflowClient.signalWithStart(
+        'HealingCoordinatorWorkflow',
+        {
+          taskQueue: this.config.taskQueue,
+          workflowId,
+          args: [
+            {
+              repository: input.repository,
+              branch: input.branch,
+              installationId: input.installationId,
+              maxConcurrentHeals: this.config.maxConcurrentHeals,
+            },
+          ],
+          signal: 'enqueueHealing',
+          signalArgs: [
+            {
+              ...input,
+              approval: input.approval ?? getApprovalConfig(input.config),
+            },
+          ],
+          retry: {
+            initialInterval: '1s',
+            maximumInterval: '1m',
+            maximumAttempts: 3,
+            backoffCoefficient: 2,
+          },
+        }
+      );
 
       this.metrics.workflowsStarted++;
       this.metrics.activeWorkflows++;
 
-      logger.info('Self-healing workflow started successfully', {
+      logger.info('Self-healing workflow queued successfully', {
         workflowId,
-        runId: handle.firstExecutionRunId,
+        runId: handle.signaledRunId,
       });
 
       return handle;
@@ -230,6 +314,147 @@ export class TemporalClient {
     }
   }
 
+  /**
+   * Get live progress of a self-healing workflow through its query handlers
+   *
+   * Returns null when the workflow does not exist.
+   */
+  async getWorkflowProgress(
+    workflowId: string
+  ): Promise<WorkflowRunProgress | null> {
+    if (!this.workflowClient) {
+      throw new Error('Temporal workflow client not initialized');
+    }
+
+    try {
+      const handle = this.workflowClient.getHandle(workflowId);
+      const description = await handle.describe();
+
+      const [state, diagnosis, patch, testResults, history, candidates] =
+        await Promise.all([
+          handle.query<string>('getState'),
+          handle.query<Record<string, unknown> | null>('getDiagnosis'),
+          handle.query<string | null>('getPatch'),
+          handle.query<Array<Record<string, unknown>>>('getTestResults'),
+          handle.query<WorkflowTransition[]>('getHistory'),
+          handle.query<Array<Record<string, unknown>>>('getCandidates'),
+        ]);
+
+      return {
+        workflowId,
+        status: description.status.name,
+        state,
+        diagnosis,
+        patch,
+        testResults,
+        history,
+        candidates,
+      };
+    } catch (error) {
+      if (error instanceof WorkflowNotFoundError) {
+        return null;
+      }
+
+      logger.error('Failed to query workflow progress', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        workflowId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get the healing queue of a repository branch from its coordinator
+   *
+   * Returns null when no coordinator is running for the branch.
+   */
+  async getHealingQueue(
+    repository: string,
+    branch: string
+  ): Promise<HealingQueueState | null> {
+    if (!this.workflowClient) {
+      throw new Error('Temporal workflow client not initialized');
+    }
+
+    const workflowId = healingCoordinatorId(repository, branch);
+
+    try {
+      return await this.workflowClient
+        .getHandle(workflowId)
+        .query<HealingQueueState>('getQueue');
+    } catch (error) {
+      if (error instanceof WorkflowNotFoundError) {
+        return null;
+      }
+
+      logger.error('Failed to query healing queue', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        workflowId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Send an approval decision to a workflow waiting in AWAITING_APPROVAL
+   */
+  async signalApproval(
+    workflowId: string,
+    signal: ApprovalSignal,
+    input: ApprovalSignalInput
+  ): Promise<void> {
+    if (!this.workflowClient) {
+      throw new Error('Temporal workflow client not initialized');
+    }
+
+    try {
+      const handle = this.workflowClient.getHandle(workflowId);
+      await handle.signal(signal, input);
+
+      logger.info('Approval signal sent successfully', {
+        workflowId,
+        signal,
+        reviewer: input.reviewer,
+      });
+    } catch (error) {
+      logger.error('Failed to send approval signal', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        workflowId,
+        signal,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Tell a running workflow to skip a flaky test in later test runs
+   */
+  async signalIgnoreFlakyTest(
+    workflowId: string,
+    testName: string
+  ): Promise<void> {
+    if (!this.workflowClient) {
+      throw new Error('Temporal workflow client not initialized');
+    }
+
+    try {
+      const handle = this.workflowClient.getHandle(workflowId);
+      await handle.signal('ignoreFlakyTest', testName);
+
+      logger.info('Ignore flaky test signal sent successfully', {
+        workflowId,
+        testName,
+      });
+    } catch (error) {
+      logger.error('Failed to send ignore flaky test signal', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        workflowId,
+        testName,
+      });
+      throw error;
+    }
+  }
+
   /**
    * Cancel a workflow
    */
@@ -456,5 +681,52 @@ export class TemporalClient {
   }
 }
 
+/**
+ * Workflow ID of the healing attempt for a failed workflow run
+ */
+export function healingWorkflowId(
+  repository: string,
+  workflowRunId: number
+): string {
+  return `self-healing-${repository}-${workflowRunId}`;
+}
+
+/**
+ * Workflow ID of the coordinator that queues healing for a branch
+ */
+export function healingCoordinatorId(
+  repository: string,
+  branch: string
+): string {
+  return `healing-coordinator-${repository}-${branch}`;
+}
+
+/**
+ * Read the default approval gate configuration from the environment
+ *
+ * Repositories that turn off auto-merge always require approval, and their
+ * fixes are closed rather than merged when nobody approves in time.
+ */
+function getApprovalConfig(config: SelfHealingConfig): ApprovalConfig {
+  const timeoutPolicy = process.env['APPROVAL_TIMEOUT_POLICY'];
+
+  if (!config.merge.autoMerge) {
+    return {
+      required: true,
+      timeout: process.env['APPROVAL_TIMEOUT'] || '24 hours',
+      timeoutPolicy: 'AUTO_CLOSE',
+    };
+  }
+
+  return {
+    required: process.env['APPROVAL_REQUIRED'] === 'true',
+    timeout: process.env['APPROVAL_TIMEOUT'] || '24 hours',
+    timeoutPolicy:
+      timeoutPolicy === 'AUTO_MERGE' || timeoutPolicy === 'ESCALATE'
+        ? timeoutPolicy
+        : 'AUTO_CLOSE',
+  };
+}
+
 // Export singleton instance
 export const temporalClient = new TemporalClient();
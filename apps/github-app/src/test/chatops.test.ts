@@ -0,0 +1,124 @@
+import { describe, expect, it } from '@jest/globals';
+import type { HealCommandRequest } from '../services/chatops.js';
+import { ChatOpsService, parseHealCommand } from '../services/chatops.js';
+import { DeduplicationService } from '../services/deduplication.js';
+import type { FailureFingerprintService } from '../services/failure-fingerprint.js';
+import type { RepositoryConfigService } from '../services/repository-config.js';
+import type {
+  HealingQueueState,
+  TemporalClient,
+} from '../services/temporal.js';
+
+// A pull request whose latest failed run is run 2 on commit `aaa`
+const pullRequest = (): HealCommandRequest =>
+  ({
+    octokit: {
+      repos: {
+        getCollaboratorPermissionLevel: async () => ({
+          data: { permission: 'write' },
+        }),
+      },
+      pulls: {
+        get: async () => ({
+          data: { head: { ref: 'feature', sha: 'aaa' }, base: { ref: 'main' } },
+        }),
+      },
+      actions: {
+        listWorkflowRunsForRepo: async () => ({
+          data: {
+            workflow_runs: [{ id: 2, head_sha: 'aaa', head_branch: 'feature' }],
+          },
+        }),
+      },
+    },
+    owner: 'acme',
+    repo: 'widgets',
+    issueNumber: 7,
+    isPullRequest: true,
+    issueBody: '',
+    commenter: 'octocat',
+    installationId: 1,
+  }) as unknown as HealCommandRequest;
+
+const createChatOps = (options: {
+  queue?: HealingQueueState;
+  fingerprint?: string;
+  deduplication?: DeduplicationService;
+}) => {
+  const approved: string[] = [];
+  const temporal = {
+    getHealingQueue: async () => options.queue ?? null,
+    signalApproval: async (workflowId: string) => {
+      approved.push(workflowId);
+    },
+  } as unknown as TemporalClient;
+  const fingerprints = {
+    fingerprintRun: async () =>
+      options.fingerprint ? { fingerprint: options.fingerprint } : undefined,
+  } as unknown as FailureFingerprintService;
+
+  return {
+    approved,
+    chatOps: new ChatOpsService(
+      temporal,
+      {} as RepositoryConfigService,
+      fingerprints,
+      options.deduplication ?? new DeduplicationService({ stores: ['memory'] })
+    ),
+  };
+};
+
+describe('ChatOps', () => {
+  it('approves the attempt a run was coalesced into', async () => {
+    const { chatOps, approved } = createChatOps({
+      queue: {
+        active: { workflowId: 'self-healing-acme/widgets-1', headSha: 'aaa' },
+        pending: [],
+        coalesced: [2],
+        superseded: [],
+      },
+    });
+
+    const reply = await chatOps.handleCommand(
+      pullRequest(),
+      parseHealCommand('/heal approve')!
+    );
+
+    expect(approved).toEqual(['self-healing-acme/widgets-1']);
+    expect(reply).toContain('self-healing-acme/widgets-1');
+  });
+
+  it('approves the attempt of the first run in a failure group', async () => {
+    const deduplication = new DeduplicationService({ stores: ['memory'] });
+    await deduplication.recordFailureGroup('acme/widgets', 'abc', {
+      workflowRunId: 1,
+      branch: 'main',
+    });
+    await deduplication.recordFailureGroup('acme/widgets', 'abc', {
+      workflowRunId: 2,
+      branch: 'feature',
+    });
+    const { chatOps, approved } = createChatOps({
+      fingerprint: 'abc',
+      deduplication,
+    });
+
+    await chatOps.handleCommand(
+      pullRequest(),
+      parseHealCommand('/heal approve')!
+    );
+
+    expect(approved).toEqual(['self-healing-acme/widgets-1']);
+  });
+
+  it('approves the attempt of the run itself otherwise', async () => {
+    const { chatOps, approved } = createChatOps({});
+
+    await chatOps.handleCommand(
+      pullRequest(),
+      parseHealCommand('/heal approve')!
+    );
+
+    expect(approved).toEqual(['self-healing-acme/widgets-2']);
+  });
+});
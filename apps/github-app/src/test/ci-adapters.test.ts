@@ -0,0 +1,130 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  fromBitbucketEvent,
+  fromGitLabEvent,
+} from '../services/ci-adapters.js';
+
+const project = {
+  id: 380,
+  path_with_namespace: 'platform/ci/widgets',
+  web_url: 'https://gitlab.test/platform/ci/widgets',
+};
+
+const gitLabPipeline = (status: string) => ({
+  object_kind: 'pipeline',
+  object_attributes: {
+    id: 31,
+    ref: 'main',
+    tag: false,
+    sha: 'bcbb5ec396a2c0f828686f14fac9b80b780504f2',
+    status,
+    created_at: '2024-05-01 10:00:00 UTC',
+    url: 'https://gitlab.test/platform/ci/widgets/-/pipelines/31',
+  },
+  user: { username: 'root', name: 'Administrator' },
+  project,
+  builds: [
+    { id: 1, name: 'unit', stage: 'test', status: 'failed' },
+    {
+      id: 2,
+      name: 'audit',
+      stage: 'test',
+      status: 'failed',
+      allow_failure: true,
+    },
+    { id: 3, name: 'compile', stage: 'build', status: 'success' },
+  ],
+});
+
+const bitbucketStatus = (state: string, url: string) => ({
+  actor: { display_name: 'Ada Lovelace', nickname: 'ada' },
+  repository: { full_name: 'acme/widgets' },
+  commit_status: {
+    key: '{8b2b1e51}',
+    name: 'Pipeline #42 for main',
+    state,
+    url,
+    refname: 'main',
+    created_on: '2024-05-01T10:00:00.000000+00:00',
+    commit: { hash: 'abc1234def' },
+  },
+});
+
+describe('CI failure adapters', () => {
+  it('turns failed GitLab pipelines and jobs into one failure', () => {
+    const pipeline = fromGitLabEvent(gitLabPipeline('failed'));
+    const job = fromGitLabEvent({
+      object_kind: 'build',
+      ref: 'main',
+      tag: false,
+      sha: 'bcbb5ec396a2c0f828686f14fac9b80b780504f2',
+      build_id: 1,
+      build_name: 'unit',
+      build_stage: 'test',
+      build_status: 'failed',
+      build_created_at: '2024-05-01T10:00:05.000Z',
+      build_allow_failure: false,
+      pipeline_id: 31,
+      user: { username: 'root' },
+      project,
+    });
+
+    expect(pipeline).toEqual({
+      provider: 'gitlab',
+      repository: 'platform/ci/widgets',
+      runId: 31,
+      runName: 'Pipeline #31',
+      runUrl: 'https://gitlab.test/platform/ci/widgets/-/pipelines/31',
+      headSha: 'bcbb5ec396a2c0f828686f14fac9b80b780504f2',
+      branch: 'main',
+      actor: 'root',
+      createdAt: '2024-05-01T10:00:00.000Z',
+      failedJobs: ['test: unit'],
+      installationId: 0,
+    });
+    expect(job).toMatchObject({
+      runId: pipeline?.runId,
+      headSha: pipeline?.headSha,
+      failedJobs: ['test: unit'],
+    });
+  });
+
+  it('ignores GitLab pipelines that did not fail and rejects other hooks', () => {
+    expect(fromGitLabEvent(gitLabPipeline('success'))).toBeUndefined();
+    expect(() => fromGitLabEvent({ object_kind: 'push' })).toThrow();
+  });
+
+  it('turns failed Bitbucket Pipelines builds into failures', () => {
+    const url =
+      'https://bitbucket.org/acme/widgets/addon/pipelines/home#!/results/42';
+
+    expect(
+      fromBitbucketEvent(
+        'repo:commit_status_updated',
+        bitbucketStatus('FAILED', url)
+      )
+    ).toMatchObject({
+      provider: 'bitbucket',
+      repository: 'acme/widgets',
+      runId: 42,
+      headSha: 'abc1234def',
+      branch: 'main',
+      actor: 'ada',
+      createdAt: '2024-05-01T10:00:00.000Z',
+    });
+    expect(
+      fromBitbucketEvent(
+        'repo:commit_status_updated',
+        bitbucketStatus('SUCCESSFUL', url)
+      )
+    ).toBeUndefined();
+    // Statuses from other CI systems carry no pipeline build number
+    expect(
+      fromBitbucketEvent(
+        'repo:commit_status_updated',
+        bitbucketStatus('FAILED', 'https://ci.example.com/builds/7')
+      )
+    ).toBeUndefined();
+    expect(fromBitbucketEvent('repo:push', {})).toBeUndefined();
+  });
+});
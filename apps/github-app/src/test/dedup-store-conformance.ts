@@ -0,0 +1,106 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { randomUUID } from 'crypto';
+import type { DedupStore } from '../services/dedup-store/index.js';
+
+export interface DedupStoreHarness {
+  store: DedupStore;
+  // Move the store's clock forward, or wait for backends on real time
+  advance(ms: number): Promise<void>;
+}
+
+/**
+ * Behaviour every `DedupStore` backend must share
+ *
+ * Keys are unique per test, so the suite can run against a shared Redis or
+ * DynamoDB instance.
+ */
+export function describeDedupStore(
+  name: string,
+  create: () => Promise<DedupStoreHarness>,
+  options: { skip?: boolean } = {}
+): void {
+  (options.skip ? describe.skip : describe)(`${name} dedup store`, () => {
+    let harness: DedupStoreHarness;
+    let prefix: string;
+
+    beforeEach(async () => {
+      harness = await create();
+      prefix = `conformance:${randomUUID()}:`;
+    });
+
+    afterEach(async () => {
+      await harness.store.close();
+    });
+
+    it('stores a value only while the key is absent', async () => {
+      const { store } = harness;
+
+      await expect(store.get(`${prefix}a`)).resolves.toBeNull();
+      await expect(store.setIfAbsent(`${prefix}a`, 'first', 60)).resolves.toBe(
+        true
+      );
+      await expect(store.setIfAbsent(`${prefix}a`, 'second', 60)).resolves.toBe(
+        false
+      );
+      await expect(store.get(`${prefix}a`)).resolves.toBe('first');
+    });
+
+    it('lets exactly one of concurrent claims win', async () => {
+      const claims = await Promise.all(
+        Array.from({ length: 20 }, (_, index) =>
+          harness.store.setIfAbsent(`${prefix}race`, `claim-${index}`, 60)
+        )
+      );
+
+      expect(claims.filter(Boolean)).toHaveLength(1);
+    });
+
+    it('expires entries after their TTL', async () => {
+      const { store } = harness;
+
+      await store.setIfAbsent(`${prefix}a`, 'first', 1);
+      await harness.advance(2100);
+
+      await expect(store.get(`${prefix}a`)).resolves.toBeNull();
+      await expect(store.replace(`${prefix}a`, 'late')).resolves.toBe(false);
+      await expect(store.setIfAbsent(`${prefix}a`, 'second', 60)).resolves.toBe(
+        true
+      );
+      await expect(store.get(`${prefix}a`)).resolves.toBe('second');
+    });
+
+    it('replaces live entries without extending them', async () => {
+      const { store } = harness;
+
+      await expect(store.replace(`${prefix}a`, 'missing')).resolves.toBe(false);
+      await store.setIfAbsent(`${prefix}a`, 'first', 1);
+      await expect(store.replace(`${prefix}a`, 'second')).resolves.toBe(true);
+      await expect(store.get(`${prefix}a`)).resolves.toBe('second');
+
+      await harness.advance(2100);
+      await expect(store.get(`${prefix}a`)).resolves.toBeNull();
+    });
+
+    it('deletes entries', async () => {
+      const { store } = harness;
+
+      await store.setIfAbsent(`${prefix}a`, 'first', 60);
+      await store.delete(`${prefix}a`);
+
+      await expect(store.get(`${prefix}a`)).resolves.toBeNull();
+    });
+
+    it('counts live entries by prefix when it can', async () => {
+      const { store } = harness;
+
+      await store.setIfAbsent(`${prefix}run:1`, 'a', 60);
+      await store.setIfAbsent(`${prefix}run:2`, 'b', 60);
+      await store.setIfAbsent(`${prefix}group:1`, 'c', 60);
+
+      const count = await store.count(`${prefix}run:`);
+      if (count !== undefined) {
+        expect(count).toBe(2);
+      }
+    });
+  });
+}
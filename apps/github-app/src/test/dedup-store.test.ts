@@ -0,0 +1,166 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  DynamoDedupStore,
+  MemoryDedupStore,
+  RedisDedupStore,
+  SqliteDedupStore,
+  parseDedupStoreTypes,
+} from '../services/dedup-store/index.js';
+import type { DedupStore } from '../services/dedup-store/index.js';
+import { DeduplicationService } from '../services/deduplication.js';
+import { describeDedupStore } from './dedup-store-conformance.js';
+
+// Redis and DynamoDB run only when a test instance is provided
+const redisUrl = process.env['DEDUP_TEST_REDIS_URL'];
+const dynamoEndpoint = process.env['DEDUP_TEST_DYNAMODB_ENDPOINT'];
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const withClock = <T>(create: (now: () => number) => T) => {
+  let now = Date.now();
+  return {
+    store: create(() => now),
+    advance: async (ms: number) => {
+      now += ms;
+    },
+  };
+};
+
+// A backend that is down
+const unreachable = (): DedupStore => {
+  const fail = async () => {
+    throw new Error('connection refused');
+  };
+  return {
+    type: 'redis',
+    setIfAbsent: fail,
+    get: fail,
+    replace: fail,
+    delete: fail,
+    count: fail,
+    purgeExpired: fail,
+    ping: fail,
+    close: async () => {},
+  };
+};
+
+describeDedupStore('memory', async () =>
+  withClock(now => new MemoryDedupStore(1000, now))
+);
+
+describeDedupStore('sqlite', async () =>
+  withClock(now => new SqliteDedupStore(':memory:', now))
+);
+
+describeDedupStore(
+  'redis',
+  async () => ({ store: new RedisDedupStore(redisUrl ?? ''), advance: sleep }),
+  { skip: !redisUrl }
+);
+
+describeDedupStore(
+  'dynamodb',
+  async () => ({
+    store: new DynamoDedupStore({
+      tableName: process.env['DEDUP_TEST_DYNAMODB_TABLE'] ?? 'dedup-test',
+      region: 'us-east-1',
+      endpoint: dynamoEndpoint,
+    }),
+    advance: sleep,
+  }),
+  { skip: !dynamoEndpoint }
+);
+
+describe('deduplication stores', () => {
+  it('evicts the least recently used memory entries', async () => {
+    const store = new MemoryDedupStore(2);
+
+    await store.setIfAbsent('a', '1', 60);
+    await store.setIfAbsent('b', '2', 60);
+    await store.get('a');
+    await store.setIfAbsent('c', '3', 60);
+
+    await expect(store.get('a')).resolves.toBe('1');
+    await expect(store.get('b')).resolves.toBeNull();
+    await expect(store.get('c')).resolves.toBe('3');
+  });
+
+  it('parses the configured backends', () => {
+    expect(parseDedupStoreTypes('redis, dynamodb')).toEqual([
+      'redis',
+      'dynamodb',
+    ]);
+    expect(() => parseDedupStoreTypes('memcached')).toThrow(
+      'Unknown deduplication store "memcached"'
+    );
+  });
+
+  it('deduplicates workflow runs through the configured store', async () => {
+    const service = new DeduplicationService({
+      stores: [new SqliteDedupStore(':memory:')],
+    });
+
+    await expect(service.isDuplicate('acme/widgets', 1, 'abc')).resolves.toBe(
+      false
+    );
+    await expect(service.isDuplicate('acme/widgets', 1, 'abc')).resolves.toBe(
+      true
+    );
+    await expect(service.getStats()).resolves.toEqual({
+      stores: { sqlite: true },
+      totalEntries: 1,
+    });
+
+    await service.close();
+  });
+
+  it('lets exactly one of concurrent deliveries through', async () => {
+    const service = new DeduplicationService({ stores: ['memory'] });
+
+    const results = await Promise.all(
+      Array.from({ length: 10 }, () =>
+        service.isDuplicate('acme/widgets', 1, 'abc')
+      )
+    );
+
+    expect(results.filter(isDuplicate => !isDuplicate)).toHaveLength(1);
+  });
+
+  it('falls back to the next store when one is down', async () => {
+    const service = new DeduplicationService({
+      stores: [unreachable(), new MemoryDedupStore()],
+    });
+
+    await expect(service.isDuplicate('acme/widgets', 1, 'abc')).resolves.toBe(
+      false
+    );
+    await expect(service.isDuplicate('acme/widgets', 1, 'abc')).resolves.toBe(
+      true
+    );
+    expect(service.getFallbackMetrics()).toEqual({
+      policy: 'open',
+      storeFallbacks: 2,
+      policyDecisions: 0,
+    });
+  });
+
+  it('applies the failure policy when no store answers', async () => {
+    const open = new DeduplicationService({ stores: [unreachable()] });
+    const closed = new DeduplicationService({
+      stores: [unreachable()],
+      failurePolicy: 'closed',
+    });
+
+    await expect(open.isDuplicate('acme/widgets', 1, 'abc')).resolves.toBe(
+      false
+    );
+    await expect(closed.isDuplicate('acme/widgets', 1, 'abc')).resolves.toBe(
+      true
+    );
+    expect(closed.getFallbackMetrics()).toEqual({
+      policy: 'closed',
+      storeFallbacks: 0,
+      policyDecisions: 1,
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, expect, it } from '@jest/globals';
+import { DeliveryJournal } from '../services/delivery-journal.js';
+import type { Delivery } from '../services/delivery-journal.js';
+
+const createJournal = () => {
+  let now = Date.parse('2024-05-01T10:00:00Z');
+  const journal = new DeliveryJournal({
+    path: ':memory:',
+    maxAttempts: 3,
+    retryBaseMs: 1000,
+    now: () => now,
+  });
+  return {
+    journal,
+    advance: (ms: number) => {
+      now += ms;
+    },
+  };
+};
+
+const payload = { action: 'completed', workflow_run: { id: 1 } };
+
+describe('delivery journal', () => {
+  it('records deliveries with their outcome', async () => {
+    const { journal } = createJournal();
+
+    await journal.begin('delivery-1', 'workflow_run', payload);
+    await journal.succeed('delivery-1');
+    await journal.begin('delivery-2', 'workflow_run', payload);
+    await journal.fail('delivery-2', 'Temporal unavailable');
+
+    await expect(journal.get('delivery-1')).resolves.toMatchObject({
+      name: 'workflow_run',
+      action: 'completed',
+      payload,
+      status: 'succeeded',
+      attempts: 1,
+    });
+    await expect(journal.get('delivery-2')).resolves.toMatchObject({
+      status: 'failed',
+      error: 'Temporal unavailable',
+      nextAttemptAt: '2024-05-01T10:00:01.000Z',
+    });
+    await expect(journal.list({ status: 'failed' })).resolves.toEqual([
+      expect.not.objectContaining({ payload }),
+    ]);
+    await expect(journal.get('missing')).resolves.toBeUndefined();
+
+    await journal.close();
+  });
+
+  it('retries failed deliveries with backoff until they are abandoned', async () => {
+    const { journal, advance } = createJournal();
+    const replayed: string[] = [];
+    const replay = async (delivery: Delivery) => {
+      replayed.push(delivery.id);
+      await journal.begin(delivery.id, delivery.name, delivery.payload);
+      await journal.fail(delivery.id, 'still failing');
+    };
+
+    await journal.begin('delivery-1', 'workflow_run', payload);
+    await journal.fail('delivery-1', 'Temporal unavailable');
+
+    await expect(journal.sweep(replay)).resolves.toBe(0);
+    advance(1000);
+    await expect(journal.sweep(replay)).resolves.toBe(1);
+
+    // The second failure waits twice as long
+    advance(1000);
+    await expect(journal.sweep(replay)).resolves.toBe(0);
+    advance(1000);
+    await expect(journal.sweep(replay)).resolves.toBe(1);
+
+    expect(replayed).toEqual(['delivery-1', 'delivery-1']);
+    await expect(journal.get('delivery-1')).resolves.toMatchObject({
+      status: 'abandoned',
+      attempts: 3,
+    });
+    advance(60 * 60 * 1000);
+    await expect(journal.sweep(replay)).resolves.toBe(0);
+
+    await journal.close();
+  });
+
+  it('abandons a failure that retrying cannot fix', async () => {
+    const { journal, advance } = createJournal();
+    const replay = async () => {
+      throw new Error('Should not be replayed');
+    };
+
+    await journal.begin('delivery-1', 'workflow_run', payload);
+    await journal.fail('delivery-1', 'Invalid .self-healing.yml', false);
+
+    advance(60 * 60 * 1000);
+    await expect(journal.sweep(replay)).resolves.toBe(0);
+    await expect(journal.get('delivery-1')).resolves.toMatchObject({
+      status: 'abandoned',
+      attempts: 1,
+      error: 'Invalid .self-healing.yml',
+    });
+
+    await journal.close();
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, expect, it } from '@jest/globals';
+import { DeduplicationService } from '../services/deduplication.js';
+import { computeFailureFingerprint } from '../services/failure-fingerprint.js';
+
+const jestLog = (timestamp: string, line: number, address: string) =>
+  [
+    `${timestamp} > jest --ci`,
+    `${timestamp}   ● Button › renders the label`,
+    `${timestamp}     TypeError: Cannot read properties of undefined (reading 'label') at ${address}`,
+    `${timestamp}       at render (src/button.tsx:${line}:12)`,
+    `${timestamp}       at Object.<anonymous> (node_modules/react-dom/index.js:10:3)`,
+    `${timestamp} Tests: 1 failed, 41 passed, 42 total (${line * 10} ms)`,
+    `${timestamp} ##[error]Process completed with exit code 1.`,
+  ].join('\n');
+
+describe('failure fingerprint', () => {
+  it('is stable across runs of the same failure', () => {
+    const first = computeFailureFingerprint(
+      jestLog('2024-05-01T10:00:00.1234567Z', 12, '0x7ffd3a2b')
+    );
+    const second = computeFailureFingerprint(
+      jestLog('2024-06-02T08:30:00.7654321Z', 14, '0x55aa0010')
+    );
+
+    expect(second?.fingerprint).toBe(first?.fingerprint);
+    expect(first).toMatchObject({
+      failedTests: ['Button › renders the label'],
+      frames: ['src/button.tsx:render'],
+    });
+  });
+
+  it('tells different failures apart and ignores logs without errors', () => {
+    const pytest = computeFailureFingerprint(
+      [
+        'FAILED tests/test_api.py::test_create - AssertionError: 201 != 500',
+        '  File "app/api.py", line 41, in create',
+      ].join('\n')
+    );
+
+    expect(pytest?.failedTests).toEqual(['tests/test_api.py::test_create']);
+    expect(pytest?.frames).toEqual(['app/api.py:create']);
+    expect(pytest?.fingerprint).not.toBe(
+      computeFailureFingerprint(jestLog('2024-05-01T10:00:00Z', 12, '0x1'))
+        ?.fingerprint
+    );
+    expect(
+      computeFailureFingerprint('Run npm ci\nadded 120 packages')
+    ).toBeUndefined();
+  });
+
+  it('counts later runs of a failure in its group', async () => {
+    const service = new DeduplicationService({ stores: ['memory'] });
+
+    const first = await service.recordFailureGroup('acme/widgets', 'abc', {
+      workflowRunId: 1,
+      branch: 'main',
+    });
+    const second = await service.recordFailureGroup('acme/widgets', 'abc', {
+      workflowRunId: 2,
+      branch: 'feature',
+    });
+
+    expect(first).toMatchObject({
+      isDuplicate: false,
+      group: { occurrences: 1, branches: ['main'], firstWorkflowRunId: 1 },
+    });
+    expect(second).toMatchObject({
+      isDuplicate: true,
+      group: {
+        occurrences: 2,
+        branches: ['main', 'feature'],
+        firstWorkflowRunId: 1,
+        lastWorkflowRunId: 2,
+      },
+    });
+    expect(service.getFailureGroupMetrics()).toMatchObject({
+      incidents: 2,
+      groupedIncidents: 1,
+      trackedGroups: 1,
+    });
+  });
+});
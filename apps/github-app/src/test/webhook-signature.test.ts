@@ -0,0 +1,125 @@
+import { afterAll, beforeAll, describe, expect, it } from '@jest/globals';
+import { createHmac, randomUUID } from 'crypto';
+import Fastify from 'fastify';
+import type { FastifyInstance } from 'fastify';
+import { SecurityMiddleware } from '../middleware/security.js';
+import { MemoryDedupStore } from '../services/dedup-store/index.js';
+import { DeduplicationService } from '../services/deduplication.js';
+import { SecurityUtils } from '../utils/security.js';
+
+const currentSecret = 'current-webhook-secret';
+const previousSecret = 'previous-webhook-secret';
+
+const sign = (body: string, secret: string) =>
+  `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`;
+
+// Key order and spacing that JSON.stringify would not reproduce
+const body = '{"action":"completed",  "workflow_run":{"id":1}}';
+
+describe('webhook signature verification', () => {
+  let app: FastifyInstance;
+  const secretIndexes: Array<number | undefined> = [];
+  const deliveries = new MemoryDedupStore(100);
+
+  beforeAll(async () => {
+    process.env['GITHUB_WEBHOOK_SECRETS'] =
+      `${currentSecret}, ${previousSecret}`;
+
+    app = Fastify();
+    SecurityMiddleware.register(app, {
+      deliveries: new DeduplicationService({ stores: [deliveries] }),
+    });
+    app.post('/webhook', async request => {
+      secretIndexes.push(request.webhookSecretIndex);
+      return { ok: true };
+    });
+    await app.ready();
+  });
+
+  afterAll(async () => {
+    delete process.env['GITHUB_WEBHOOK_SECRETS'];
+    await app.close();
+  });
+
+  const deliver = (
+    signature: string,
+    deliveryId = randomUUID(),
+    payload = body,
+    event = 'workflow_run'
+  ) =>
+    app.inject({
+      method: 'POST',
+      url: '/webhook',
+      payload,
+      headers: {
+        'content-type': 'application/json',
+        'x-hub-signature-256': signature,
+        'x-github-delivery': deliveryId,
+        'x-github-event': event,
+      },
+    });
+
+  it('verifies the raw body against every active secret', async () => {
+    await expect(deliver(sign(body, currentSecret))).resolves.toMatchObject({
+      statusCode: 200,
+    });
+    await expect(deliver(sign(body, previousSecret))).resolves.toMatchObject({
+      statusCode: 200,
+    });
+    await expect(deliver(sign(body, 'retired-secret'))).resolves.toMatchObject({
+      statusCode: 401,
+    });
+    await expect(
+      deliver(sign(JSON.stringify(JSON.parse(body)), currentSecret))
+    ).resolves.toMatchObject({ statusCode: 401 });
+
+    expect(secretIndexes).toEqual([0, 1]);
+    expect(SecurityMiddleware.getWebhookSecretUsage()).toEqual([
+      expect.objectContaining({ index: 0, matches: 1 }),
+      expect.objectContaining({ index: 1, matches: 1 }),
+    ]);
+  });
+
+  it('rejects replayed deliveries', async () => {
+    const deliveryId = randomUUID();
+
+    await expect(
+      deliver(sign(body, currentSecret), deliveryId)
+    ).resolves.toMatchObject({ statusCode: 200 });
+    await expect(
+      deliver(sign(body, currentSecret), deliveryId)
+    ).resolves.toMatchObject({ statusCode: 409 });
+    await expect(deliveries.get(`delivery:${deliveryId}`)).resolves.toEqual(
+      expect.any(String)
+    );
+  });
+
+  it('rejects events signed outside the replay window', async () => {
+    const updatedAt = (ago: number) =>
+      JSON.stringify({
+        action: 'completed',
+        workflow_run: {
+          id: 2,
+          updated_at: new Date(Date.now() - ago).toISOString(),
+        },
+      });
+    const stale = updatedAt(2 * 60 * 60 * 1000);
+    const fresh = updatedAt(60 * 1000);
+
+    await expect(
+      deliver(sign(stale, currentSecret), randomUUID(), stale)
+    ).resolves.toMatchObject({ statusCode: 409 });
+    await expect(
+      deliver(sign(fresh, currentSecret), randomUUID(), fresh)
+    ).resolves.toMatchObject({ statusCode: 200 });
+  });
+
+  it('reads the active secrets from the environment', () => {
+    expect(
+      SecurityUtils.getWebhookSecrets({ GITHUB_WEBHOOK_SECRETS: 'a, b,' })
+    ).toEqual(['a', 'b']);
+    expect(
+      SecurityUtils.getWebhookSecrets({ GITHUB_WEBHOOK_SECRET: 'only' })
+    ).toEqual(['only']);
+  });
+});
@@ -0,0 +1,33 @@
+import { z } from 'zod';
+
+// Bitbucket `repo:commit_status_created` and `repo:commit_status_updated`
+// webhooks, which is how Bitbucket Pipelines reports build results
+export const BitbucketCommitStatusEventSchema = z.object({
+  actor: z.object({
+    display_name: z.string().optional(),
+    nickname: z.string().optional(),
+  }),
+  repository: z.object({
+    full_name: z.string(),
+  }),
+  commit_status: z.object({
+    key: z.string(),
+    name: z.string(),
+    state: z.enum(['INPROGRESS', 'SUCCESSFUL', 'FAILED', 'STOPPED']),
+    url: z.string(),
+    refname: z.string().nullable().optional(),
+    created_on: z.string(),
+    commit: z.object({
+      hash: z.string(),
+    }),
+  }),
+});
+
+export type BitbucketCommitStatusEvent = z.infer<
+  typeof BitbucketCommitStatusEventSchema
+>;
+
+export const BITBUCKET_COMMIT_STATUS_EVENTS = [
+  'repo:commit_status_created',
+  'repo:commit_status_updated',
+] as const;
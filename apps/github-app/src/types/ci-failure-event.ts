@@ -0,0 +1,32 @@
+import { z } from 'zod';
+
+export const CIProviderSchema = z.enum(['github', 'gitlab', 'bitbucket']);
+
+// A failed CI run on any forge, as the healing workflow needs it
+export const CIFailureEventSchema = z.object({
+  provider: CIProviderSchema,
+  // `owner/repo`, a GitLab project path or a Bitbucket `workspace/repo`
+  repository: z.string().min(1),
+  // GitHub workflow run, GitLab pipeline or Bitbucket pipeline build number
+  runId: z.number().int().positive(),
+  runName: z.string(),
+  // GitHub workflow the run belongs to; other forges run one pipeline per
+  // commit
+  workflow: z.string().optional(),
+  runUrl: z.string(),
+  headSha: z.string().min(1),
+  branch: z.string().min(1),
+  actor: z.string(),
+  createdAt: z.string(),
+  failedJobs: z.array(z.string()),
+  // GitHub App installation; 0 on other forges
+  installationId: z.number(),
+});
+
+export type CIProvider = z.infer<typeof CIProviderSchema>;
+export type CIFailureEvent = z.infer<typeof CIFailureEventSchema>;
+
+// Helper function to get unique identifier for deduplication
+export const getCIFailureId = (event: CIFailureEvent): string => {
+  return `${event.provider}:${event.repository}:${event.headSha}:${event.runId}`;
+};
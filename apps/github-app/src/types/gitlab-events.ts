@@ -0,0 +1,66 @@
+import { z } from 'zod';
+
+const GitLabUserSchema = z.object({
+  username: z.string(),
+  name: z.string().optional(),
+});
+
+const GitLabProjectSchema = z.object({
+  id: z.number(),
+  path_with_namespace: z.string(),
+  web_url: z.string().optional(),
+});
+
+// GitLab `Pipeline Hook` webhook
+export const GitLabPipelineEventSchema = z.object({
+  object_kind: z.literal('pipeline'),
+  object_attributes: z.object({
+    id: z.number(),
+    ref: z.string(),
+    tag: z.boolean().optional(),
+    sha: z.string(),
+    source: z.string().optional(),
+    status: z.string(),
+    created_at: z.string(),
+    url: z.string().optional(),
+  }),
+  user: GitLabUserSchema,
+  project: GitLabProjectSchema,
+  builds: z
+    .array(
+      z.object({
+        id: z.number(),
+        name: z.string(),
+        stage: z.string(),
+        status: z.string(),
+        allow_failure: z.boolean().optional(),
+      })
+    )
+    .optional(),
+});
+
+// GitLab `Job Hook` webhook; jobs are called builds in the payload
+export const GitLabJobEventSchema = z.object({
+  object_kind: z.literal('build'),
+  ref: z.string(),
+  tag: z.boolean().optional(),
+  sha: z.string(),
+  build_id: z.number(),
+  build_name: z.string(),
+  build_stage: z.string(),
+  build_status: z.string(),
+  build_created_at: z.string(),
+  build_allow_failure: z.boolean().optional(),
+  pipeline_id: z.number(),
+  user: GitLabUserSchema,
+  project: GitLabProjectSchema,
+});
+
+export const GitLabEventSchema = z.discriminatedUnion('object_kind', [
+  GitLabPipelineEventSchema,
+  GitLabJobEventSchema,
+]);
+
+export type GitLabPipelineEvent = z.infer<typeof GitLabPipelineEventSchema>;
+export type GitLabJobEvent = z.infer<typeof GitLabJobEventSchema>;
+export type GitLabEvent = z.infer<typeof GitLabEventSchema>;
@@ -0,0 +1,141 @@
+import { z } from 'zod';
+
+// Path of the per-repository configuration file, read at the failing head SHA
+export const SELF_HEALING_CONFIG_PATH = '.self-healing.yml';
+
+// Root causes the diagnosis can report
+export const RootCauseSchema = z.enum([
+  'DEP_UPGRADE',
+  'API_CHANGE',
+  'FLAKY_TEST',
+  'CONFIG_ERROR',
+  'ENV_ISSUE',
+  'PERMISSION_ERROR',
+  'TIMEOUT',
+  'UNKNOWN',
+]);
+
+// Repository `.self-healing.yml` Schema
+export const SelfHealingConfigSchema = z
+  .object({
+    triggers: z
+      .object({
+        // Case-insensitive substrings matched against the workflow name
+        workflows: z
+          .array(z.string().min(1))
+          .default(['CI', 'test', 'build', 'lint']),
+        // Branch globs where `*` matches any run of characters
+        branches: z.array(z.string().min(1)).default(['*']),
+      })
+      .strict()
+      .default({}),
+    rootCauses: z
+      .array(RootCauseSchema)
+      .default(RootCauseSchema.options.filter(cause => cause !== 'UNKNOWN')),
+    patch: z
+      .object({
+        maxFileChanges: z.number().int().positive().default(10),
+        maxLinesChanged: z.number().int().positive().default(1000),
+        allowedFileTypes: z
+          .array(z.string().startsWith('.'))
+          .default([
+            '.ts',
+            '.js',
+            '.tsx',
+            '.jsx',
+            '.json',
+            '.md',
+            '.yml',
+            '.yaml',
+            '.rs',
+            '.py',
+            '.go',
+            '.java',
+            '.cpp',
+            '.c',
+            '.h',
+            '.hpp',
+          ]),
+      })
+      .strict()
+      .default({}),
+    tests: z
+      .object({
+        command: z.string().min(1).default('npm test'),
+        // Runs one test; `{test}` is replaced by the test name
+        singleTestCommand: z.string().min(1).optional(),
+        timeoutMs: z.number().int().positive().default(300000),
+      })
+      .strict()
+      .default({}),
+    analysis: z
+      .object({
+        // Prints one issue per line; ranks candidate patches by the change
+        command: z.string().min(1).optional(),
+        timeoutMs: z.number().int().positive().default(300000),
+      })
+      .strict()
+      .default({}),
+    diagnosis: z
+      .object({
+        // Let the model read the repository through tools before answering
+        tools: z.boolean().default(true),
+        maxTurns: z.number().int().positive().max(50).default(8),
+        maxTokens: z.number().int().positive().default(100000),
+      })
+      .strict()
+      .default({}),
+    proofs: z
+      .object({
+        targets: z.array(z.string().min(1)).default([]),
+      })
+      .strict()
+      .default({}),
+    merge: z
+      .object({
+        autoMerge: z.boolean().default(true),
+        reviewers: z.array(z.string().min(1)).default([]),
+        labels: z.array(z.string().min(1)).default(['self-healing-ci']),
+      })
+      .strict()
+      .default({}),
+  })
+  .strict();
+
+// TypeScript types derived from the schema
+export type SelfHealingConfig = z.infer<typeof SelfHealingConfigSchema>;
+export type RootCauseName = z.infer<typeof RootCauseSchema>;
+
+// Configuration used when a repository has no `.self-healing.yml`
+export const DEFAULT_SELF_HEALING_CONFIG: SelfHealingConfig =
+  SelfHealingConfigSchema.parse({});
+
+// Validation function
+export const validateSelfHealingConfig = (data: unknown): SelfHealingConfig => {
+  return SelfHealingConfigSchema.parse(data ?? {});
+};
+
+// Helper function to check if a workflow name triggers self-healing
+export const matchesWorkflow = (
+  config: SelfHealingConfig,
+  workflowName: string
+): boolean => {
+  const name = workflowName.toLowerCase();
+  return config.triggers.workflows.some(workflow =>
+    name.includes(workflow.toLowerCase())
+  );
+};
+
+// Helper function to check if a branch triggers self-healing
+export const matchesBranch = (
+  config: SelfHealingConfig,
+  branch: string
+): boolean => {
+  return config.triggers.branches.some(pattern => {
+    const source = pattern
+      .split('*')
+      .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*');
+    return new RegExp(`^${source}$`).test(branch);
+  });
+};
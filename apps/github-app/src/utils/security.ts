@@ -1,4 +1,4 @@
-import { logger } from './logger.js';
+import { createHmac, timingSafeEqual } from 'crypto';
 
 /**
  * Security utilities for input validation, sanitization, and security checks
@@ -74,25 +74,62 @@ export class SecurityUtils {
    * Validate GitHub webhook signature
    */
   static validateGitHubWebhook(
-    payload: string,
+    payload: Buffer | string,
     signature: string,
     secret: string
   ): boolean {
-    try {
-      const crypto = require('crypto');
-      const expectedSignature = `sha256=${crypto
-        .createHmac('sha256', secret)
-        .update(payload)
-        .digest('hex')}`;
-
-      return crypto.timingSafeEqual(
-        Buffer.from(signature),
-        Buffer.from(expectedSignature)
+    return this.matchWebhookSecret(payload, signature, [secret]) !== undefined;
+  }
+
+  /**
+   * Find which of the active secrets signed a webhook payload
+   *
+   * The payload must be the raw request body; a re-serialized body rarely has
+   * the same bytes. Every secret is compared in constant time, whether or not
+   * an earlier one matched. Returns the index of the matching secret.
+   */
+  static matchWebhookSecret(
+    payload: Buffer | string,
+    signature: string,
+    secrets: readonly string[]
+  ): number | undefined {
+    const actual = Buffer.from(signature);
+    let match: number | undefined;
+
+    secrets.forEach((secret, index) => {
+      const expected = Buffer.from(
+        `sha256=${createHmac('sha256', secret).update(payload).digest('hex')}`
       );
-    } catch (error) {
-      logger.error('GitHub webhook validation failed:', error);
-      return false;
-    }
+
+      if (
+        expected.length === actual.length &&
+        timingSafeEqual(expected, actual) &&
+        match === undefined
+      ) {
+        match = index;
+      }
+    });
+
+    return match;
+  }
+
+  /**
+   * The active webhook secrets, newest first
+   *
+   * `GITHUB_WEBHOOK_SECRETS` holds a comma-separated list so a new secret can
+   * be added before GitHub is switched to it, and the old one removed after.
+   * Without it, `GITHUB_WEBHOOK_SECRET` is the only secret.
+   */
+  static getWebhookSecrets(
+    env: Record<string, string | undefined> = process.env
+  ): string[] {
+    const secrets =
+      env['GITHUB_WEBHOOK_SECRETS'] || env['GITHUB_WEBHOOK_SECRET'];
+
+    return (secrets || '')
+      .split(',')
+      .map(secret => secret.trim())
+      .filter(Boolean);
   }
 
   /**
@@ -128,13 +165,13 @@ export class SecurityUtils {
    * Validate environment variables for security
    */
   static validateEnvironment(): void {
-    const requiredVars = [
-      'GITHUB_APP_ID',
-      'GITHUB_PRIVATE_KEY',
-      'GITHUB_WEBHOOK_SECRET',
-    ];
+    const requiredVars = ['GITHUB_APP_ID', 'GITHUB_PRIVATE_KEY'];
+    const webhookSecrets = this.getWebhookSecrets();
 
     const missingVars = requiredVars.filter(varName => !process.env[varName]);
+    if (webhookSecrets.length === 0) {
+      missingVars.push('GITHUB_WEBHOOK_SECRET');
+    }
 
     if (missingVars.length > 0) {
       throw new Error(
@@ -149,8 +186,7 @@ export class SecurityUtils {
     }
 
     // Validate webhook secret length
-    const webhookSecret = process.env.GITHUB_WEBHOOK_SECRET;
-    if (webhookSecret && webhookSecret.length < 16) {
+    if (webhookSecrets.some(secret => secret.length < 16)) {
       throw new Error(
         'GitHub webhook secret must be at least 16 characters long'
       );
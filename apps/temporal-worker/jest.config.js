@@ -5,6 +5,10 @@ export default {
   extensionsToTreatAsEsm: ['.ts'],
   moduleNameMapper: {
     '^(\\.{1,2}/.*)\\.js$': '$1',
+    // Run the shared package from source rather than its build output
+    '^@self-healing-ci/diagnosis/(.*)$':
+      '<rootDir>/../../packages/diagnosis/src/$1/index.ts',
+    '^@self-healing-ci/claude$': '<rootDir>/../../services/claude/src/index.ts',
   },
   transform: {
     '^.+\\.tsx?$': [
@@ -0,0 +1,133 @@
+import { log } from '@temporalio/activity';
+import type { ForgeProvider } from '../services/forge/index.js';
+import {
+  checkoutInstallationRepository,
+  runCommand,
+} from '../services/repository-workspace.js';
+import { logger } from '../utils/logger.js';
+
+const DEFAULT_ANALYSIS_TIMEOUT_MS = 300000; // 5 minutes
+
+export interface AnalyzePatchInput {
+  repository: string;
+  branch: string;
+  installationId: number;
+  // Where the repository is hosted; GitHub when omitted
+  forge?: ForgeProvider | undefined;
+  baseSha: string;
+  patchSha: string;
+  // Prints one issue per line, such as `eslint --format unix .`
+  command?: string | undefined;
+  timeoutMs?: number | undefined;
+}
+
+export interface AnalyzePatchResult {
+  success: boolean;
+  issuesBefore: number;
+  issuesAfter: number;
+  delta: number;
+  error: string | undefined;
+}
+
+/**
+ * Activity to measure the static-analysis delta introduced by a patch
+ *
+ * Runs the repository's analysis command in checkouts of the base and patched
+ * commits and compares the number of issues it prints. Without a command
+ * there is nothing to compare, and the result is unsuccessful so ranking
+ * ignores it.
+ */
+export async function analyzePatch(
+  input: AnalyzePatchInput
+): Promise<AnalyzePatchResult> {
+  const startTime = Date.now();
+  const activityId = log.info('Analyzing patch', {
+    repository: input.repository,
+    baseSha: input.baseSha,
+    patchSha: input.patchSha,
+  });
+
+  if (!input.command) {
+    return {
+      success: false,
+      issuesBefore: 0,
+      issuesAfter: 0,
+      delta: 0,
+      error: 'No analysis command configured',
+    };
+  }
+
+  try {
+    // One checkout at a time keeps a single worktree on disk
+    const issuesBefore = await countIssues(input, input.baseSha);
+    const issuesAfter = await countIssues(input, input.patchSha);
+    const delta = issuesAfter - issuesBefore;
+
+    logger.info('Patch analysis completed', {
+      activityId,
+      repository: input.repository,
+      issuesBefore,
+      issuesAfter,
+      delta,
+      duration: Date.now() - startTime,
+    });
+
+    return {
+      success: true,
+      issuesBefore,
+      issuesAfter,
+      delta,
+      error: undefined,
+    };
+  } catch (error) {
+    logger.error('Patch analysis failed', {
+      activityId,
+      repository: input.repository,
+      patchSha: input.patchSha,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      duration: Date.now() - startTime,
+    });
+
+    return {
+      success: false,
+      issuesBefore: 0,
+      issuesAfter: 0,
+      delta: 0,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Run the analysis command at a commit and count the lines it prints
+ *
+ * Analyzers exit non-zero when they find issues, so only a timeout counts
+ * as a failed analysis.
+ */
+async function countIssues(
+  input: AnalyzePatchInput,
+  sha: string
+): Promise<number> {
+  const workspace = await checkoutInstallationRepository(
+    input.forge ?? 'github',
+    input.installationId,
+    input.repository,
+    sha
+  );
+
+  try {
+    const result = await runCommand(
+      workspace.root,
+      input.command ?? '',
+      input.timeoutMs ?? DEFAULT_ANALYSIS_TIMEOUT_MS
+    );
+
+    if (result.timedOut) {
+      throw new Error(`Static analysis of ${sha} timed out`);
+    }
+
+    return result.output.split('\n').filter(line => line.trim() !== '').length;
+  } finally {
+    await workspace.cleanup();
+  }
+}
@@ -1,27 +1,76 @@
+import type { FailureReport } from '@self-healing-ci/claude';
+import { ClaudeClient, FailureReportBuilder } from '@self-healing-ci/claude';
+import { getDiagnosisProvider } from '@self-healing-ci/diagnosis/diagnosis-providers';
+import type { PatchRequest, RemoteResolvers } from '@self-healing-ci/morph';
+import {
+  DEFAULT_VALIDATION_RULES,
+  MorphClient,
+  RepositoryCache,
+} from '@self-healing-ci/morph';
 import { log } from '@temporalio/activity';
-import type { PatchRequest } from '../types/stubs.js';
-import { MorphClient } from '../types/stubs.js';
+import type { ForgeProvider } from '../services/forge/index.js';
+import { createForgeClient } from '../services/forge/index.js';
+import type { FailureData, PatchSafetyLevel } from '../types/stubs.js';
 import { logger } from '../utils/logger.js';
+import { countLinesChanged } from '../workflows/patch-tournament.js';
 import { RootCause } from '../workflows/self-healing-workflow.js';
+import type { RunTestsResult } from './run-tests.js';
+
+export interface PatchLimits {
+  maxFileChanges: number;
+  maxLinesChanged: number;
+  allowedFileTypes: string[];
+}
+
+// The failure a patch was made for, sent back with a rejected patch
+export interface PatchFailureContext {
+  workflowRunId: number;
+  actor: string;
+  failureData: FailureData;
+  explanation: string;
+  // Tests the previous round's patch failed, when there was one
+  testFailure?: RunTestsResult | undefined;
+}
 
 export interface ApplyPatchInput {
   repository: string;
   headSha: string;
   branch: string;
+  targetBranch: string;
   patch: string;
   rootCause: RootCause;
   installationId: number;
+  // Where the repository is hosted; GitHub when omitted
+  forge?: ForgeProvider | undefined;
+  limits?: PatchLimits;
+  // Without it a rejected patch is not sent back for a corrected one
+  failure?: PatchFailureContext | undefined;
 }
 
+// Morph clones and pushes through the forge hosting the repository
+const forgeRemotes: RemoteResolvers = {
+  remoteUrl: ({ repository, installationId, forge }) =>
+    createForgeClient(forge, installationId).cloneUrl(repository),
+  credentials: (installationId, forge) =>
+    createForgeClient(forge, installationId).gitCredentials(),
+};
+
+// Shared so patches reuse clones and each installation's credentials
+let repositoryCache: RepositoryCache | undefined;
+
 export interface ApplyPatchResult {
   success: boolean;
-  patchSha?: string;
-  filesChanged?: string[];
+  patchSha?: string | undefined;
+  filesChanged?: string[] | undefined;
+  safetyLevel?: PatchSafetyLevel | undefined;
   error?: string;
 }
 
 /**
- * Activity to apply patches using Morph API
+ * Activity to apply patches with the Morph patch engine
+ *
+ * A patch Morph rejects is sent back to the installation's diagnosis
+ * provider with the failure and the errors, for up to two corrected patches.
  */
 export async function applyPatch(
   input: ApplyPatchInput
@@ -31,16 +80,28 @@ export async function applyPatch(
     repository: input.repository,
     headSha: input.headSha,
     branch: input.branch,
+    targetBranch: input.targetBranch,
     rootCause: input.rootCause,
   });
 
   try {
-    // Initialize Morph client
+    // Reject patches outside the repository's configured limits
+    const violation =
+      input.limits && checkPatchLimits(input.patch, input.limits);
+
+    if (violation) {
+      throw new Error(`Patch exceeds repository limits: ${violation}`);
+    }
+
+    // Initialize Morph client; it checks the patch against the same limits
     const morphClient = new MorphClient({
-      apiKey: (process.env as any).MORPH_API_KEY || '',
-      apiUrl: (process.env as any).MORPH_API_URL || 'https://api.morph.dev',
-      timeoutMs: 30000,
+      repositoryCache: (repositoryCache ??=
+        RepositoryCache.fromEnvironment(forgeRemotes)),
       maxRetries: 2,
+      validationRules: { ...DEFAULT_VALIDATION_RULES, ...input.limits },
+      claudeClient: new ClaudeClient(
+        getDiagnosisProvider(input.installationId)
+      ),
     });
 
     // Create patch request
@@ -48,17 +109,29 @@ export async function applyPatch(
       repository: input.repository,
       headSha: input.headSha,
       branch: input.branch,
+      targetBranch: input.targetBranch,
       patch: input.patch,
       rootCause: input.rootCause,
       installationId: input.installationId,
+      forge: input.forge ?? 'github',
       maxRetries: 2,
+      ...(input.failure && {
+        failureReport: buildFailureReport(input, input.failure),
+      }),
     };
 
     // Apply patch with Morph
     const morphResult = await morphClient.applyPatch(patchRequest);
 
     if (!morphResult.success) {
-      throw new Error(`Morph patch application failed: ${morphResult.error}`);
+      // A rejected patch reports why in its error lists rather than `error`
+      const reason =
+        morphResult.error ??
+        [
+          ...morphResult.validationErrors,
+          ...morphResult.compilationErrors,
+        ].join('; ');
+      throw new Error(`Morph patch application failed: ${reason}`);
     }
 
     logger.info('Patch applied successfully', {
@@ -66,6 +139,7 @@ export async function applyPatch(
       repository: input.repository,
       patchSha: morphResult.patchSha,
       filesChanged: morphResult.filesChanged,
+      safetyLevel: morphResult.safetyLevel,
       duration: Date.now() - startTime,
     });
 
@@ -73,6 +147,7 @@ export async function applyPatch(
       success: true,
       patchSha: morphResult.patchSha,
       filesChanged: morphResult.filesChanged,
+      safetyLevel: morphResult.safetyLevel,
     };
   } catch (error) {
     logger.error('Patch application failed', {
@@ -89,3 +164,85 @@ export async function applyPatch(
     };
   }
 }
+
+/**
+ * Describe the failure a patch was made for, as the model saw it
+ */
+function buildFailureReport(
+  input: ApplyPatchInput,
+  failure: PatchFailureContext
+): FailureReport {
+  const { failureData, testFailure } = failure;
+
+  return new FailureReportBuilder()
+    .setMetadata(
+      failure.workflowRunId,
+      input.repository,
+      input.headSha,
+      input.branch,
+      failure.actor,
+      input.installationId
+    )
+    .setFailureContext(
+      testFailure ? 'test_failure' : 'workflow_failure',
+      input.rootCause,
+      failure.explanation
+    )
+    .setLogs({
+      buildLogs: failureData.buildLogs,
+      ...(testFailure?.output && { testLogs: testFailure.output }),
+    })
+    .setGitContext(
+      failureData.baseSha,
+      input.headSha,
+      undefined,
+      failureData.changedFiles,
+      failureData.commitMessage,
+      failureData.author
+    )
+    .setTestOutput({ failedTests: failureData.failedTests })
+    .setEnvironment({
+      runner: failureData.runner,
+      os: failureData.os,
+      nodeVersion: failureData.nodeVersion,
+      dependencies: failureData.dependencies,
+    })
+    .setMetrics({ duration: failureData.duration })
+    .build();
+}
+
+/**
+ * Check a unified diff against patch limits, returning the first violation
+ */
+function checkPatchLimits(
+  patch: string,
+  limits: PatchLimits
+): string | undefined {
+  const files = new Set(
+    patch
+      .split('\n')
+      .filter(line => line.startsWith('+++ ') || line.startsWith('--- '))
+      .map(line => line.slice(4).replace(/^[ab]\//, ''))
+      .filter(file => file !== '/dev/null')
+  );
+
+  if (files.size > limits.maxFileChanges) {
+    return `${files.size} files changed (max ${limits.maxFileChanges})`;
+  }
+
+  const linesChanged = countLinesChanged(patch);
+
+  if (linesChanged > limits.maxLinesChanged) {
+    return `${linesChanged} lines changed (max ${limits.maxLinesChanged})`;
+  }
+
+  const disallowed = [...files].find(
+    file => !limits.allowedFileTypes.some(type => file.endsWith(type))
+  );
+
+  if (disallowed) {
+    return `file type of ${disallowed} is not allowed`;
+  }
+
+  return undefined;
+}
@@ -0,0 +1,65 @@
+import type { Octokit } from '@octokit/rest';
+import { log } from '@temporalio/activity';
+import type {
+  CollectFailureLogsInput,
+  FailureData as CollectedFailure,
+} from '../services/failure-collector.js';
+import { collectFailureLogs } from '../services/failure-collector.js';
+import type { ForgeProvider } from '../services/forge/index.js';
+import type { FailureData } from '../types/stubs.js';
+import { logger } from '../utils/logger.js';
+
+export interface CollectFailureDataInput extends CollectFailureLogsInput {
+  // Where the repository is hosted; GitHub when omitted
+  forge?: ForgeProvider | undefined;
+}
+
+/**
+ * Activity to collect the failed run's logs and context for diagnosis
+ *
+ * Maps what the failure collector finds onto the workflow's failure data.
+ * Runs are only collected from GitHub; other forges get empty failure data.
+ */
+export async function collectFailureData(
+  input: CollectFailureDataInput,
+  octokit?: Octokit
+): Promise<FailureData> {
+  const forge = input.forge ?? 'github';
+  const activityId = log.info('Collecting failure data', {
+    repository: input.repository,
+    workflowRunId: input.workflowRunId,
+    forge,
+  });
+
+  const collected: CollectedFailure =
+    forge === 'github' ? await collectFailureLogs(input, octokit) : {};
+
+  if (collected.error && !collected.failedJob) {
+    logger.warn('Diagnosing without failure logs', {
+      activityId,
+      repository: input.repository,
+      workflowRunId: input.workflowRunId,
+      error: collected.error,
+    });
+  }
+
+  return {
+    buildLogs: collected.logs ?? '',
+    baseSha: collected.baseSha ?? '',
+    changedFiles: collected.changedFiles ?? [],
+    commitMessage: collected.commitMessage ?? '',
+    author: collected.author ?? '',
+    duration: 0,
+    failedTests: (collected.testCases ?? []).filter(
+      testCase => testCase.status === 'failed' || testCase.status === 'errored'
+    ),
+    runner: '',
+    os: '',
+    nodeVersion: '',
+    dependencies: {},
+    environment: {},
+    memoryUsage: 0,
+    cpuUsage: 0,
+    networkRequests: 0,
+  };
+}
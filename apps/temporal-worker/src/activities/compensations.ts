@@ -0,0 +1,142 @@
+import { log } from '@temporalio/activity';
+import type { ForgeClient, ForgeProvider } from '../services/forge/index.js';
+import { createForgeClient } from '../services/forge/index.js';
+import { logger } from '../utils/logger.js';
+
+export interface DeleteBranchInput {
+  repository: string;
+  branch: string;
+  installationId: number;
+  forge?: ForgeProvider | undefined;
+}
+
+export interface ClosePullRequestInput {
+  repository: string;
+  prNumber: number;
+  comment: string;
+  installationId: number;
+  forge?: ForgeProvider | undefined;
+}
+
+export interface RemoveLabelsInput {
+  repository: string;
+  issueNumber: number;
+  labels: string[];
+  installationId: number;
+  forge?: ForgeProvider | undefined;
+}
+
+export interface RevertMergeCommitInput {
+  repository: string;
+  baseBranch: string;
+  mergeCommitSha: string;
+  reason: string;
+  installationId: number;
+  forge?: ForgeProvider | undefined;
+}
+
+export interface CompensationResult {
+  success: boolean;
+  error: string | undefined;
+}
+
+/**
+ * Activity to delete a branch pushed by the workflow
+ */
+export async function deleteBranch(
+  input: DeleteBranchInput
+): Promise<CompensationResult> {
+  return compensate('Delete branch', input, async () => {
+    await forgeFor(input).deleteBranch(input.repository, input.branch);
+  });
+}
+
+/**
+ * Activity to comment on a pull request and close it if still open
+ */
+export async function closePullRequest(
+  input: ClosePullRequestInput
+): Promise<CompensationResult> {
+  return compensate('Close pull request', input, async () => {
+    const forge = forgeFor(input);
+
+    await forge.postComment(input.repository, input.prNumber, input.comment);
+    await forge.closeMergeRequest(input.repository, input.prNumber);
+  });
+}
+
+/**
+ * Activity to remove labels added to an issue or pull request
+ */
+export async function removeLabels(
+  input: RemoveLabelsInput
+): Promise<CompensationResult> {
+  return compensate('Remove labels', input, async () => {
+    await forgeFor(input).removeLabels(
+      input.repository,
+      input.issueNumber,
+      input.labels
+    );
+  });
+}
+
+/**
+ * Activity to revert a merge commit on the base branch
+ */
+export async function revertMergeCommit(
+  input: RevertMergeCommitInput
+): Promise<CompensationResult> {
+  return compensate('Revert merge commit', input, async () => {
+    await forgeFor(input).revertMergeCommit(input.repository, {
+      baseBranch: input.baseBranch,
+      mergeCommitSha: input.mergeCommitSha,
+      reason: input.reason,
+    });
+  });
+}
+
+function forgeFor(input: {
+  installationId: number;
+  forge?: ForgeProvider | undefined;
+}): ForgeClient {
+  return createForgeClient(input.forge ?? 'github', input.installationId);
+}
+
+/**
+ * Run an undo action and report its outcome instead of throwing
+ */
+async function compensate(
+  action: string,
+  input: { repository: string },
+  undo: () => Promise<void>
+): Promise<CompensationResult> {
+  const startTime = Date.now();
+  const activityId = log.info(action, { ...input });
+
+  try {
+    await undo();
+
+    logger.info(`${action} completed`, {
+      activityId,
+      repository: input.repository,
+      duration: Date.now() - startTime,
+    });
+
+    return {
+      success: true,
+      error: undefined,
+    };
+  } catch (error) {
+    logger.error(`${action} failed`, {
+      activityId,
+      ...input,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      duration: Date.now() - startTime,
+    });
+
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
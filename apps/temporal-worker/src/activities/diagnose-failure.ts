@@ -1,4 +1,25 @@
+import type { DiagnosisProvider } from '@self-healing-ci/diagnosis/diagnosis-providers';
+import { getDiagnosisProvider } from '@self-healing-ci/diagnosis/diagnosis-providers';
+import type { SimilarIncident } from '@self-healing-ci/diagnosis/fix-knowledge-base';
+import {
+  failureSignature,
+  getFixKnowledgeBase,
+} from '@self-healing-ci/diagnosis/fix-knowledge-base';
 import { log } from '@temporalio/activity';
+import type { DiagnosisToolCallRecord } from '../services/diagnosis-agent.js';
+import { runDiagnosisAgent } from '../services/diagnosis-agent.js';
+import type { ForgeProvider } from '../services/forge/index.js';
+import { getRecipeEngine } from '../services/recipes/index.js';
+import type { RepositoryToolContext } from '../services/repository-tools.js';
+import {
+  executeRepositoryTool,
+  getRepositoryTools,
+} from '../services/repository-tools.js';
+import type { RepositoryWorkspace } from '../services/repository-workspace.js';
+import {
+  checkoutInstallationRepository,
+  runCommand,
+} from '../services/repository-workspace.js';
 import type {
   ClaudeInput,
   ClaudeResult,
@@ -14,8 +35,31 @@ export interface DiagnoseFailureInput {
   headSha: string;
   branch: string;
   installationId: number;
+  // Where the repository is hosted; GitHub when omitted
+  forge?: ForgeProvider | undefined;
   failureData: FailureData;
   testFailure?: TestFailure;
+  candidateCount?: number;
+  allowedRootCauses?: RootCause[];
+  diagnosis?: { tools: boolean; maxTurns: number; maxTokens: number };
+  tests?: { command: string; singleTestCommand?: string; timeoutMs: number };
+}
+
+export interface DiagnosisCandidate {
+  rootCause: RootCause;
+  confidence: number;
+  explanation: string;
+  patch: string;
+}
+
+// A past fix for a similar failure, as shown on the check run
+export interface SimilarIncidentSummary {
+  workflowId: string;
+  repository: string;
+  rootCause: string;
+  outcome: SimilarIncident['record']['outcome'];
+  similarity: number;
+  prNumber?: number | undefined;
 }
 
 export interface DiagnoseFailureResult {
@@ -24,11 +68,36 @@ export interface DiagnoseFailureResult {
   confidence: number;
   explanation: string;
   patch: string | undefined;
+  candidates: DiagnosisCandidate[];
+  // Repository tool calls made while diagnosing, across all candidates
+  toolCalls: Array<DiagnosisToolCallRecord & { candidateIndex: number }>;
+  tokensUsed: number;
+  fingerprint: string | undefined;
+  similarIncidents: SimilarIncidentSummary[];
+  // ID of the recipe that fixed the failure without the diagnosis provider
+  recipe: string | undefined;
   error: string | undefined;
 }
 
+// Longest past patch quoted in the prompt
+const MAX_PROMPT_PATCH_LENGTH = 3000;
+
+// Longest build log excerpt sent to the model
+const MAX_PROMPT_LOG_LENGTH = 20000;
+
+const SYSTEM_PROMPT = `You are a senior infrastructure engineer diagnosing failed CI runs.
+
+Pick the most likely root cause from: ${Object.values(RootCause).join(', ')}.
+When you can fix the failure, include a minimal unified diff that applies to the head commit.
+
+Respond with JSON only:
+{"rootCause": "<root cause>", "confidence": <0-100>, "explanation": "<why>", "patch": "<unified diff or empty>"}`;
+
+const TOOLS_PROMPT = `You can inspect the repository at the head commit with tools. Read the code involved in the failure before proposing a patch, and base the patch on the file contents you read.`;
+
 /**
- * Activity to diagnose CI failures using Claude AI
+ * Activity to diagnose CI failures, with the recipes first and then the
+ * installation's diagnosis provider
  */
 export async function diagnoseFailure(
   input: DiagnoseFailureInput
@@ -39,44 +108,216 @@ export async function diagnoseFailure(
     workflowRunId: input.workflowRunId,
     headSha: input.headSha,
     branch: input.branch,
+    candidateCount: input.candidateCount,
   });
 
+  let workspace: RepositoryWorkspace | undefined;
+
   try {
-    // Prepare failure data for Claude
-    const claudeInput: ClaudeInput = {
-      repository: input.repository,
-      workflowRunId: input.workflowRunId,
-      headSha: input.headSha,
-      branch: input.branch,
-      installationId: input.installationId,
-      failureData: input.failureData,
-      testFailure: input.testFailure,
-    };
+    const candidateCount = Math.max(1, input.candidateCount ?? 1);
+    const candidates: DiagnosisCandidate[] = [];
+    const toolCalls: DiagnoseFailureResult['toolCalls'] = [];
+    let tokensUsed = 0;
+    let primary: ReturnType<typeof parseClaudeResponse> | undefined;
+    const provider = getDiagnosisProvider(input.installationId);
+    const signature = failureSignature({
+      logs: input.failureData.buildLogs,
+      failedTests: input.failureData.failedTests,
+    });
+    // Diagnosis works without history, so lookup failures are not fatal
+    const similarIncidents = await getFixKnowledgeBase()
+      .findSimilar(signature, { installationId: input.installationId })
+      .catch(error => {
+        logger.warn('Failed to look up similar incidents', {
+          activityId,
+          repository: input.repository,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        return [];
+      });
+    const similarIncidentSummaries = similarIncidents.map(
+      ({ record, similarity }) => ({
+        workflowId: record.workflowId,
+        repository: record.repository,
+        rootCause: record.rootCause,
+        outcome: record.outcome,
+        similarity,
+        prNumber: record.prNumber,
+      })
+    );
+    const checkout = async () =>
+      (workspace ??= await checkoutInstallationRepository(
+        input.forge ?? 'github',
+        input.installationId,
+        input.repository,
+        input.headSha
+      ));
+
+    // Mechanical failures are fixed without the provider. On a retry the
+    // recipe's patch has already failed its tests, so it is not tried again.
+    const recipeFix = input.testFailure
+      ? undefined
+      : await getRecipeEngine()
+          .run(
+            {
+              repository: input.repository,
+              headSha: input.headSha,
+              failureData: input.failureData,
+            },
+            { checkout, allowedRootCauses: input.allowedRootCauses }
+          )
+          .catch(error => {
+            logger.warn('Failed to run recipes', {
+              activityId,
+              repository: input.repository,
+              error: error instanceof Error ? error.message : 'Unknown error',
+            });
+            return undefined;
+          });
 
-    // Call Claude API for diagnosis
-    const claudeResult = await callClaudeAPI(claudeInput);
+    if (recipeFix) {
+      logger.info('Failure fixed by recipe', {
+        activityId,
+        repository: input.repository,
+        recipe: recipeFix.recipe,
+        rootCause: recipeFix.rootCause,
+        fingerprint: signature.fingerprint,
+        duration: Date.now() - startTime,
+      });
 
-    if (!claudeResult) {
-      throw new Error('Claude API returned no result');
+      return {
+        success: true,
+        rootCause: recipeFix.rootCause,
+        confidence: recipeFix.confidence,
+        explanation: recipeFix.explanation,
+        patch: recipeFix.patch,
+        candidates: [
+          {
+            rootCause: recipeFix.rootCause,
+            confidence: recipeFix.confidence,
+            explanation: recipeFix.explanation,
+            patch: recipeFix.patch,
+          },
+        ],
+        toolCalls: [],
+        tokensUsed: 0,
+        fingerprint: signature.fingerprint,
+        similarIncidents: similarIncidentSummaries,
+        recipe: recipeFix.recipe,
+        error: undefined,
+      };
     }
 
-    // Parse Claude response
-    const parsedResult = parseClaudeResponse(claudeResult);
+    if (input.diagnosis?.tools) {
+      // Without a workspace the diagnosis still works from the logs alone
+      workspace = await checkout().catch(error => {
+        logger.warn('Diagnosing without repository tools', {
+          activityId,
+          repository: input.repository,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        return undefined;
+      });
+    }
+
+    for (let index = 0; index < candidateCount; index++) {
+      // Prepare failure data for the diagnosis provider
+      const claudeInput: ClaudeInput = {
+        repository: input.repository,
+        workflowRunId: input.workflowRunId,
+        headSha: input.headSha,
+        branch: input.branch,
+        installationId: input.installationId,
+        failureData: input.failureData,
+        testFailure: input.testFailure,
+        candidateIndex: index,
+      };
+
+      const claudeResult = await callDiagnosisProvider(
+        claudeInput,
+        similarIncidents,
+        provider,
+        workspace && {
+          context: {
+            root: workspace.root,
+            runTest:
+              input.tests && createTestRunner(workspace.root, input.tests),
+          },
+          maxTurns: input.diagnosis?.maxTurns ?? 0,
+          maxTokens: input.diagnosis?.maxTokens ?? 0,
+        }
+      );
+      tokensUsed += claudeResult.tokensUsed;
+      toolCalls.push(
+        ...claudeResult.toolCalls.map(call => ({
+          ...call,
+          candidateIndex: index,
+        }))
+      );
+
+      // Parse the provider's response
+      const parsedResult = parseClaudeResponse(claudeResult);
+      primary ??= parsedResult;
+
+      // The repository config can rule out fixing some root causes
+      if (
+        input.allowedRootCauses &&
+        !input.allowedRootCauses.includes(parsedResult.rootCause)
+      ) {
+        logger.info('Discarding candidate with disallowed root cause', {
+          activityId,
+          repository: input.repository,
+          rootCause: parsedResult.rootCause,
+        });
+        continue;
+      }
+
+      // Identical patches would only compete against themselves
+      if (
+        parsedResult.patch &&
+        !candidates.some(candidate => candidate.patch === parsedResult.patch)
+      ) {
+        candidates.push({
+          rootCause: parsedResult.rootCause,
+          confidence: parsedResult.confidence,
+          explanation: parsedResult.explanation,
+          patch: parsedResult.patch,
+        });
+      }
+    }
+
+    candidates.sort((a, b) => b.confidence - a.confidence);
+    const best = candidates[0] ?? primary;
+
+    if (!best) {
+      throw new Error('Diagnosis provider returned no result');
+    }
 
     logger.info('Failure diagnosis completed', {
       activityId,
       repository: input.repository,
-      rootCause: parsedResult.rootCause,
-      confidence: parsedResult.confidence,
+      rootCause: best.rootCause,
+      confidence: best.confidence,
+      candidates: candidates.length,
+      toolCalls: toolCalls.length,
+      tokensUsed,
+      fingerprint: signature.fingerprint,
+      similarIncidents: similarIncidents.length,
       duration: Date.now() - startTime,
     });
 
     return {
       success: true,
-      rootCause: parsedResult.rootCause,
-      confidence: parsedResult.confidence,
-      explanation: parsedResult.explanation,
-      patch: parsedResult.patch,
+      rootCause: best.rootCause,
+      confidence: best.confidence,
+      explanation: best.explanation,
+      patch: best.patch,
+      candidates,
+      toolCalls,
+      tokensUsed,
+      fingerprint: signature.fingerprint,
+      similarIncidents: similarIncidentSummaries,
+      recipe: undefined,
       error: undefined,
     };
   } catch (error) {
@@ -95,27 +336,156 @@ export async function diagnoseFailure(
       explanation: error instanceof Error ? error.message : 'Unknown error',
       error: error instanceof Error ? error.message : 'Unknown error',
       patch: undefined,
+      candidates: [],
+      toolCalls: [],
+      tokensUsed: 0,
+      fingerprint: undefined,
+      similarIncidents: [],
+      recipe: undefined,
     };
+  } finally {
+    await workspace?.cleanup();
   }
 }
 
 /**
- * Call Claude API for failure diagnosis
+ * Ask the installation's diagnosis provider about the failure
+ *
+ * Later candidates are sampled with some temperature so the tournament gets
+ * different patches to compare. With a workspace the model can call the
+ * repository tools within the turn and token budget before answering.
  */
-async function callClaudeAPI(input: ClaudeInput): Promise<ClaudeResult | null> {
-  // TODO: Implement actual Claude API call
-  // For now, return a mock response
+async function callDiagnosisProvider(
+  input: ClaudeInput,
+  similarIncidents: SimilarIncident[],
+  provider: DiagnosisProvider,
+  tools:
+    | { context: RepositoryToolContext; maxTurns: number; maxTokens: number }
+    | undefined
+): Promise<
+  ClaudeResult & { toolCalls: DiagnosisToolCallRecord[]; tokensUsed: number }
+> {
+  const request = {
+    systemPrompt: tools ? `${SYSTEM_PROMPT}\n\n${TOOLS_PROMPT}` : SYSTEM_PROMPT,
+    userPrompt: buildUserPrompt(input, similarIncidents),
+    temperature: input.candidateIndex ? 0.7 : 0,
+  };
+  const { completion, toolCalls, tokensUsed } = tools
+    ? await runDiagnosisAgent({
+        provider,
+        request,
+        tools: getRepositoryTools(tools.context),
+        executeTool: call => executeRepositoryTool(tools.context, call),
+        maxTurns: tools.maxTurns,
+        maxTokens: tools.maxTokens,
+      })
+    : await provider.complete(request).then(completion => ({
+        completion,
+        toolCalls: [],
+        tokensUsed: completion.tokensUsed,
+      }));
+
+  logger.info('Diagnosis provider responded', {
+    repository: input.repository,
+    provider: completion.provider,
+    model: completion.model,
+    tokensUsed,
+    toolCalls: toolCalls.length,
+    candidateIndex: input.candidateIndex,
+  });
+
+  const json = /\{[\s\S]*\}/.exec(completion.content);
+  if (!json) {
+    throw new Error('Diagnosis provider returned no JSON');
+  }
+
+  const response = JSON.parse(json[0]) as Partial<Record<string, unknown>>;
+
   return {
-    rootCause: 'Test failure',
-    confidence: 0.8,
-    patch: '',
-    explanation: 'Mock diagnosis result',
+    rootCause: String(response['rootCause'] ?? RootCause.UNKNOWN),
+    confidence: Number(response['confidence'] ?? 0),
+    patch: typeof response['patch'] === 'string' ? response['patch'] : '',
+    explanation: String(response['explanation'] ?? ''),
     logs: input.failureData.buildLogs || '',
+    toolCalls,
+    tokensUsed,
   };
 }
 
 /**
- * Parse Claude API response
+ * Run one test with the repository's test command in the checked-out workspace
+ *
+ * `singleTestCommand` has `{test}` replaced by the test name; otherwise the
+ * name is appended to the regular test command.
+ */
+function createTestRunner(
+  root: string,
+  tests: NonNullable<DiagnoseFailureInput['tests']>
+): RepositoryToolContext['runTest'] {
+  return async test => {
+    const quoted = `'${test.replace(/'/g, `'\\''`)}'`;
+
+    return runCommand(
+      root,
+      tests.singleTestCommand
+        ? tests.singleTestCommand.split('{test}').join(quoted)
+        : `${tests.command} ${quoted}`,
+      tests.timeoutMs
+    );
+  };
+}
+
+/**
+ * Describe the failure for the model, with fixes for similar past failures
+ * as examples
+ */
+function buildUserPrompt(
+  input: ClaudeInput,
+  similarIncidents: SimilarIncident[]
+): string {
+  const { failureData, testFailure } = input;
+  const failedTests = failureData.failedTests
+    .filter(test => test.status === 'failed' || test.status === 'errored')
+    .map(test => {
+      const name = [test.suite, test.name].filter(Boolean).join(' > ');
+      const location = test.file
+        ? ` (${test.file}${test.line ? `:${test.line}` : ''})`
+        : '';
+      const message = test.failureMessage?.split('\n')[0];
+      return `- ${name}${location}${message ? `: ${message}` : ''}`;
+    });
+
+  return [
+    `REPOSITORY: ${input.repository}`,
+    `BRANCH: ${input.branch}`,
+    `HEAD SHA: ${input.headSha}`,
+    failureData.commitMessage && `COMMIT MESSAGE: ${failureData.commitMessage}`,
+    `CHANGED FILES:\n${failureData.changedFiles.join('\n') || 'None'}`,
+    `FAILED TESTS:\n${failedTests.join('\n') || 'None'}`,
+    `BUILD LOGS:\n${(failureData.buildLogs || 'No build logs available').slice(-MAX_PROMPT_LOG_LENGTH)}`,
+    similarIncidents.length > 0 &&
+      `SIMILAR PAST INCIDENTS:\n${similarIncidents
+        .map(
+          ({ record, similarity }) =>
+            `- ${Math.round(similarity * 100)}% similar, ${record.rootCause}, ${
+              record.outcome === 'merged'
+                ? 'fixed by this merged patch'
+                : 'this patch was merged and later reverted'
+            }: ${record.explanation}\n${record.patch.slice(0, MAX_PROMPT_PATCH_LENGTH)}`
+        )
+        .join('\n\n')}`,
+    testFailure &&
+      `PREVIOUS PATCH FAILED ITS TESTS:\n${testFailure.error ?? ''}\n${testFailure.output ?? ''}`,
+  ]
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+/**
+ * Parse the provider's answer into a diagnosis
+ *
+ * Unknown root causes become UNKNOWN; confidence is reported as 0-100 and
+ * kept as 0-1.
  */
 function parseClaudeResponse(response: ClaudeResult): {
   rootCause: RootCause;
@@ -123,11 +493,17 @@ function parseClaudeResponse(response: ClaudeResult): {
   explanation: string;
   patch?: string;
 } {
-  // TODO: Implement proper response parsing
+  const rootCause = Object.values(RootCause).find(
+    value => value === response.rootCause
+  );
+  const confidence = Number.isFinite(response.confidence)
+    ? Math.min(Math.max(response.confidence, 0), 100) / 100
+    : 0;
+
   return {
-    rootCause: RootCause.FLAKY_TEST,
-    confidence: response.confidence,
+    rootCause: rootCause ?? RootCause.UNKNOWN,
+    confidence,
     explanation: response.explanation,
-    patch: response.patch,
+    ...(response.patch && { patch: response.patch }),
   };
 }
@@ -1,8 +1,13 @@
 // Export all activities
+export * from './analyze-patch.js';
 export * from './apply-patch.js';
+export * from './collect-failure-data.js';
+export * from './compensations.js';
 export * from './diagnose-failure.js';
 export * from './emit-cloud-event.js';
 export * from './merge-changes.js';
+export * from './record-fix-outcome.js';
+export * from './report-check-run.js';
 export * from './run-tests.js';
 export * from './update-workflow-status.js';
 export * from './validate-proofs.js';
@@ -1,59 +1,184 @@
-import { log } from '@temporalio/activity';
+import { heartbeat, log } from '@temporalio/activity';
+import type { ForgeClient, ForgeProvider } from '../services/forge/index.js';
+import {
+  GitHubForgeClient,
+  createForgeClient,
+} from '../services/forge/index.js';
+import type { PullRequestSummary } from '../services/pull-requests.js';
+import {
+  pushBranch,
+  renderPullRequestBody,
+  requestCodeOwnerReviews,
+  waitForRequiredChecks,
+} from '../services/pull-requests.js';
+import { createInstallationClient, parseRepository } from '../utils/github.js';
 import { logger } from '../utils/logger.js';
 
+// How long to wait for the pull request's required checks
+const DEFAULT_CHECKS_TIMEOUT_MS = 45 * 60 * 1000;
+
+const CHECKS_POLL_INTERVAL_MS = 30 * 1000;
+
 export interface MergeChangesInput {
   repository: string;
   headSha: string;
+  // Base branch the fix is merged into
   branch: string;
   installationId: number;
+  // Where the repository is hosted; GitHub when omitted
+  forge?: ForgeProvider | undefined;
+  // Branch holding the fix, and the commit it should point at
+  headBranch: string;
+  patchSha?: string | undefined;
+  title: string;
+  summary: PullRequestSummary;
+  // Logins or `org/team` names, on top of the CODEOWNERS owners
+  reviewers?: string[] | undefined;
+  labels?: string[] | undefined;
 }
 
 export interface MergeChangesResult {
   success: boolean;
-  mergeSha?: string;
+  mergeCommitSha?: string;
+  prNumber?: number;
+  labels?: string[];
+  branchDeleted?: boolean;
   error?: string;
 }
 
 /**
- * Activity to merge changes back to the main branch
+ * Activity to open a pull request for a fix and merge it into the base
+ * branch
+ *
+ * On GitHub the fix branch is pushed first, and the pull request is labelled,
+ * sent to its code owners for review and merged once its required checks
+ * pass. Other forges merge straight away with their own settings. Whatever
+ * was done is reported even on failure, so the workflow can undo it.
  */
 export async function mergeChanges(
   input: MergeChangesInput
 ): Promise<MergeChangesResult> {
   const startTime = Date.now();
+  const provider = input.forge ?? 'github';
   const activityId = log.info('Merging changes', {
     repository: input.repository,
     headSha: input.headSha,
     branch: input.branch,
+    headBranch: input.headBranch,
+    forge: provider,
   });
+  const result: MergeChangesResult = { success: false };
 
   try {
-    // TODO: Implement actual merge logic
-    // For now, just log the merge attempt
+    const octokit =
+      provider === 'github'
+        ? createInstallationClient(input.installationId)
+        : undefined;
+    const forge: ForgeClient = octokit
+      ? new GitHubForgeClient(octokit)
+      : createForgeClient(provider, input.installationId);
+
+    if (octokit && input.patchSha) {
+      await pushBranch(
+        octokit,
+        input.repository,
+        input.headBranch,
+        input.patchSha
+      );
+    }
+
+    const mergeRequest = await forge.openMergeRequest({
+      repository: input.repository,
+      sourceBranch: input.headBranch,
+      targetBranch: input.branch,
+      title: input.title,
+      body: renderPullRequestBody(input.summary),
+    });
+    result.prNumber = mergeRequest.number;
+
+    if (octokit) {
+      const labels = [
+        ...(input.labels ?? []),
+        `root-cause:${input.summary.rootCause.toLowerCase()}`,
+      ];
+      await octokit.issues.addLabels({
+        ...parseRepository(input.repository),
+        issue_number: mergeRequest.number,
+        labels,
+      });
+      result.labels = labels;
+
+      const reviewers = await requestCodeOwnerReviews(
+        octokit,
+        input.repository,
+        mergeRequest.number,
+        input.branch,
+        input.reviewers
+      );
+      const checks = await waitForRequiredChecks(
+        octokit,
+        input.repository,
+        input.branch,
+        input.patchSha ?? input.headSha,
+        {
+          timeoutMs: checksTimeoutMs(),
+          pollIntervalMs: CHECKS_POLL_INTERVAL_MS,
+          onPoll: () => heartbeat(),
+        }
+      );
+
+      logger.info('Pull request ready to merge', {
+        activityId,
+        repository: input.repository,
+        prNumber: mergeRequest.number,
+        reviewers,
+        checks,
+      });
+    }
+
+    const outcome = await forge.mergeMergeRequest(
+      input.repository,
+      mergeRequest.number,
+      {
+        sourceBranch: input.headBranch,
+        headSha: input.patchSha,
+        deleteSourceBranch: true,
+      }
+    );
+    result.mergeCommitSha = outcome.mergeCommitSha;
+    result.branchDeleted = outcome.branchDeleted;
+    result.success = true;
+
     logger.info('Changes merged successfully', {
       activityId,
       repository: input.repository,
       headSha: input.headSha,
       branch: input.branch,
+      prNumber: mergeRequest.number,
+      url: mergeRequest.url,
+      mergeCommitSha: outcome.mergeCommitSha,
       duration: Date.now() - startTime,
     });
 
-    return {
-      success: true,
-      mergeSha: `merge-${Date.now()}`,
-    };
+    return result;
   } catch (error) {
     logger.error('Merge failed', {
       activityId,
       repository: input.repository,
       headSha: input.headSha,
+      prNumber: result.prNumber,
       error: error instanceof Error ? error.message : 'Unknown error',
       duration: Date.now() - startTime,
     });
 
     return {
-      success: false,
+      ...result,
       error: error instanceof Error ? error.message : 'Unknown error',
     };
   }
 }
+
+function checksTimeoutMs(): number {
+  const timeout = Number(process.env['MERGE_CHECKS_TIMEOUT_MS']);
+  return timeout > 0 ? timeout : DEFAULT_CHECKS_TIMEOUT_MS;
+}
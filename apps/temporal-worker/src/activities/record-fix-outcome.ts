@@ -0,0 +1,80 @@
+import type { FixOutcome } from '@self-healing-ci/diagnosis/fix-knowledge-base';
+import {
+  failureSignature,
+  getFixKnowledgeBase,
+} from '@self-healing-ci/diagnosis/fix-knowledge-base';
+import { log } from '@temporalio/activity';
+import type { FailureData } from '../types/stubs.js';
+import { logger } from '../utils/logger.js';
+
+export interface RecordFixOutcomeInput {
+  workflowId: string;
+  installationId: number;
+  repository: string;
+  failureData: FailureData;
+  rootCause: string;
+  explanation?: string | undefined;
+  patch: string;
+  outcome: FixOutcome;
+  prNumber?: number | undefined;
+}
+
+export interface RecordFixOutcomeResult {
+  success: boolean;
+  fingerprint: string | undefined;
+  error: string | undefined;
+}
+
+/**
+ * Activity to remember a merged or reverted fix for later diagnoses
+ */
+export async function recordFixOutcome(
+  input: RecordFixOutcomeInput
+): Promise<RecordFixOutcomeResult> {
+  const startTime = Date.now();
+  const activityId = log.info('Recording fix outcome', {
+    workflowId: input.workflowId,
+    repository: input.repository,
+    outcome: input.outcome,
+  });
+
+  try {
+    const record = await getFixKnowledgeBase().recordFix({
+      workflowId: input.workflowId,
+      installationId: input.installationId,
+      repository: input.repository,
+      signature: failureSignature({
+        logs: input.failureData.buildLogs,
+        failedTests: input.failureData.failedTests,
+      }),
+      rootCause: input.rootCause,
+      explanation: input.explanation,
+      patch: input.patch,
+      outcome: input.outcome,
+      prNumber: input.prNumber,
+    });
+
+    logger.info('Fix outcome recorded', {
+      activityId,
+      workflowId: input.workflowId,
+      fingerprint: record.fingerprint,
+      outcome: record.outcome,
+      duration: Date.now() - startTime,
+    });
+
+    return { success: true, fingerprint: record.fingerprint, error: undefined };
+  } catch (error) {
+    logger.error('Failed to record fix outcome', {
+      activityId,
+      workflowId: input.workflowId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      duration: Date.now() - startTime,
+    });
+
+    return {
+      success: false,
+      fingerprint: undefined,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
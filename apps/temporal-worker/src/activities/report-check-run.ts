@@ -0,0 +1,385 @@
+import { log } from '@temporalio/activity';
+import type { SimilarIncidentSummary } from './diagnose-failure.js';
+import { createInstallationClient, parseRepository } from '../utils/github.js';
+import { logger } from '../utils/logger.js';
+import { WorkflowState } from '../workflows/self-healing-workflow.js';
+
+// Name shown for the check run in the GitHub UI
+const CHECK_RUN_NAME = 'Self-Healing CI';
+
+// GitHub accepts at most 50 annotations per request and 65535 output chars
+const MAX_ANNOTATIONS = 50;
+const MAX_OUTPUT_LENGTH = 65000;
+const MAX_DIFF_LENGTH = 40000;
+
+export interface CheckRunTestResult {
+  name: string;
+  success: boolean;
+  error?: string | undefined;
+}
+
+export interface CheckRunProofResult {
+  success: boolean;
+  validatedProofs: number;
+  totalProofs: number;
+  errors: string[];
+}
+
+export interface ReportCheckRunInput {
+  repository: string;
+  headSha: string;
+  installationId: number;
+  workflowRunId: number;
+  state: WorkflowState;
+  checkRunId?: number | undefined;
+  diagnosis?:
+    | {
+        rootCause: string;
+        confidence: number;
+        explanation: string;
+        similarIncidents?: SimilarIncidentSummary[] | undefined;
+        recipe?: string | undefined;
+      }
+    | undefined;
+  patch?: string | undefined;
+  // GitHub appends annotations on every update, so the workflow asks for
+  // them only the first time it reports a patch
+  annotatePatch?: boolean | undefined;
+  testResults?: CheckRunTestResult[] | undefined;
+  proofs?: CheckRunProofResult | undefined;
+  merged?: boolean | undefined;
+  error?: string | undefined;
+}
+
+export interface ReportCheckRunResult {
+  success: boolean;
+  checkRunId: number | undefined;
+  error: string | undefined;
+}
+
+interface CheckRunAnnotation {
+  path: string;
+  start_line: number;
+  end_line: number;
+  annotation_level: 'notice' | 'warning' | 'failure';
+  message: string;
+  title?: string;
+}
+
+/**
+ * Activity to create or update the healing check run on the failing commit
+ */
+export async function reportCheckRun(
+  input: ReportCheckRunInput
+): Promise<ReportCheckRunResult> {
+  const startTime = Date.now();
+  const activityId = log.info('Reporting check run', {
+    repository: input.repository,
+    headSha: input.headSha,
+    state: input.state,
+    checkRunId: input.checkRunId,
+  });
+
+  try {
+    const octokit = createInstallationClient(input.installationId);
+    const { owner, repo } = parseRepository(input.repository);
+    const annotations =
+      input.patch && input.annotatePatch ? patchAnnotations(input.patch) : [];
+
+    const params = {
+      owner,
+      repo,
+      name: CHECK_RUN_NAME,
+      // The GitHub app maps the run ID back to the healing workflow
+      external_id: String(input.workflowRunId),
+      ...checkRunStatus(input),
+      output: {
+        title: checkRunTitle(input),
+        summary: truncate(checkRunSummary(input), MAX_OUTPUT_LENGTH),
+        ...(input.patch && {
+          text: truncate(
+            `\`\`\`diff\n${truncate(input.patch, MAX_DIFF_LENGTH)}\n\`\`\``,
+            MAX_OUTPUT_LENGTH
+          ),
+        }),
+        ...(annotations.length > 0 && {
+          annotations: annotations.slice(0, MAX_ANNOTATIONS),
+        }),
+      },
+      actions: checkRunActions(input),
+    };
+
+    const { data } = input.checkRunId
+      ? await octokit.checks.update({
+          ...params,
+          check_run_id: input.checkRunId,
+        })
+      : await octokit.checks.create({ ...params, head_sha: input.headSha });
+
+    logger.info('Check run reported', {
+      activityId,
+      repository: input.repository,
+      checkRunId: data.id,
+      state: input.state,
+      annotations: annotations.length,
+      duration: Date.now() - startTime,
+    });
+
+    return {
+      success: true,
+      checkRunId: data.id,
+      error: undefined,
+    };
+  } catch (error) {
+    logger.error('Check run reporting failed', {
+      activityId,
+      repository: input.repository,
+      headSha: input.headSha,
+      state: input.state,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      duration: Date.now() - startTime,
+    });
+
+    return {
+      success: false,
+      checkRunId: input.checkRunId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Map a workflow state to the check run status and conclusion
+ */
+function checkRunStatus(input: ReportCheckRunInput):
+  | { status: 'queued' }
+  | { status: 'in_progress' }
+  | {
+      status: 'completed';
+      conclusion: 'success' | 'neutral' | 'failure';
+      completed_at: string;
+    } {
+  switch (input.state) {
+    case WorkflowState.NEW:
+      return { status: 'queued' };
+    case WorkflowState.DONE:
+      return {
+        status: 'completed',
+        conclusion: input.merged ? 'success' : 'neutral',
+        completed_at: new Date().toISOString(),
+      };
+    case WorkflowState.FAILED:
+      return {
+        status: 'completed',
+        conclusion: 'failure',
+        completed_at: new Date().toISOString(),
+      };
+    default:
+      return { status: 'in_progress' };
+  }
+}
+
+/**
+ * One-line title for the current stage
+ */
+function checkRunTitle(input: ReportCheckRunInput): string {
+  switch (input.state) {
+    case WorkflowState.NEW:
+      return 'Healing queued';
+    case WorkflowState.DIAGNOSE:
+      return 'Diagnosing failure';
+    case WorkflowState.PATCH:
+      return 'Applying candidate patches';
+    case WorkflowState.TEST:
+      return 'Testing candidate patches';
+    case WorkflowState.PROVE:
+      return 'Validating proofs';
+    case WorkflowState.AWAITING_APPROVAL:
+      return 'Waiting for approval';
+    case WorkflowState.MERGE:
+      return 'Merging fix';
+    case WorkflowState.DONE:
+      return input.merged ? 'Fix merged' : 'No fix merged';
+    case WorkflowState.FAILED:
+      return 'Healing failed';
+  }
+}
+
+/**
+ * Markdown summary of the diagnosis, tests and proofs so far
+ */
+function checkRunSummary(input: ReportCheckRunInput): string {
+  const sections = [`**State:** \`${input.state}\``];
+
+  if (input.error) {
+    sections.push(`**Error:** ${input.error}`);
+  }
+
+  if (input.diagnosis) {
+    const { rootCause, confidence, explanation, recipe } = input.diagnosis;
+    sections.push(
+      [
+        '### Diagnosis',
+        '',
+        `- Root cause: \`${rootCause}\``,
+        `- Confidence: ${Math.round(confidence * 100)}%`,
+        ...(recipe ? [`- Fixed by recipe: \`${recipe}\``] : []),
+        '',
+        explanation,
+      ].join('\n')
+    );
+
+    const similarIncidents = input.diagnosis.similarIncidents ?? [];
+    if (similarIncidents.length > 0) {
+      sections.push(
+        [
+          '### Seen this before',
+          '',
+          ...similarIncidents.map(incident => {
+            const fix =
+              incident.prNumber !== undefined
+                ? `${incident.repository}#${incident.prNumber}`
+                : `\`${incident.workflowId}\``;
+            return `- ${Math.round(incident.similarity * 100)}% similar to a \`${incident.rootCause}\` failure fixed by ${fix} (${incident.outcome})`;
+          }),
+        ].join('\n')
+      );
+    }
+  }
+
+  if (input.testResults && input.testResults.length > 0) {
+    sections.push(
+      [
+        '### Tests',
+        '',
+        '| Candidate | Result | Error |',
+        '| --- | --- | --- |',
+        ...input.testResults.map(
+          result =>
+            `| ${result.name} | ${result.success ? 'passed' : 'failed'} | ${tableCell(result.error)} |`
+        ),
+      ].join('\n')
+    );
+  }
+
+  if (input.proofs) {
+    const { success, validatedProofs, totalProofs, errors } = input.proofs;
+    sections.push(
+      [
+        '### Proofs',
+        '',
+        `${success ? 'Verified' : 'Not verified'}: ${validatedProofs}/${totalProofs} proofs`,
+        ...errors.map(proofError => `- ${proofError}`),
+      ].join('\n')
+    );
+  }
+
+  return sections.join('\n\n');
+}
+
+/**
+ * Buttons offered for the current stage
+ */
+function checkRunActions(
+  input: ReportCheckRunInput
+): Array<{ label: string; description: string; identifier: string }> {
+  if (input.state === WorkflowState.AWAITING_APPROVAL) {
+    return [
+      {
+        label: 'Approve fix',
+        description: 'Merge the proposed fix',
+        identifier: 'approve',
+      },
+    ];
+  }
+
+  if (
+    input.state === WorkflowState.FAILED ||
+    (input.state === WorkflowState.DONE && !input.merged)
+  ) {
+    return [
+      {
+        label: 'Retry healing',
+        description: 'Start a new healing attempt',
+        identifier: 'retry',
+      },
+    ];
+  }
+
+  return [];
+}
+
+/**
+ * Annotate each block of lines a unified diff adds, changes or removes
+ */
+function patchAnnotations(patch: string): CheckRunAnnotation[] {
+  const annotations: CheckRunAnnotation[] = [];
+  let path: string | undefined;
+  let line = 0;
+  let hunk: { start: number; end: number } | undefined;
+
+  const flush = () => {
+    if (path && hunk) {
+      annotations.push({
+        path,
+        start_line: hunk.start,
+        end_line: hunk.end,
+        annotation_level: 'notice',
+        title: 'Changed by Self-Healing CI',
+        message: `Lines ${hunk.start}-${hunk.end} were changed by the proposed fix.`,
+      });
+    }
+    hunk = undefined;
+  };
+
+  for (const text of patch.split('\n')) {
+    if (text.startsWith('+++ ')) {
+      flush();
+      const target = text.slice(4).trim();
+      path = target === '/dev/null' ? undefined : target.replace(/^b\//, '');
+      continue;
+    }
+
+    const header = /^@@ -\d+(?:,\d+)? \+(\d+)(?:,\d+)? @@/.exec(text);
+    if (header) {
+      flush();
+      line = Number(header[1]);
+      continue;
+    }
+
+    if (text.startsWith('+')) {
+      hunk = { start: hunk?.start ?? line, end: line };
+      line++;
+    } else if (text.startsWith('-')) {
+      // Pure deletions are pinned to the line before them, which still exists
+      const anchor = Math.max(line - 1, 1);
+      hunk = {
+        start: hunk?.start ?? anchor,
+        end: Math.max(hunk?.end ?? anchor, anchor),
+      };
+    } else if (!text.startsWith('\\')) {
+      flush();
+      line++;
+    }
+  }
+
+  flush();
+  return annotations;
+}
+
+/**
+ * Escape text for a single markdown table cell
+ */
+function tableCell(text: string | undefined): string {
+  return (text ?? '').replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+}
+
+/**
+ * Cut text down to the given length, noting that it was truncated
+ */
+function truncate(text: string, maxLength: number): string {
+  const note = '\n\n_(truncated)_';
+  return text.length <= maxLength
+    ? text
+    : `${text.slice(0, maxLength - note.length)}${note}`;
+}
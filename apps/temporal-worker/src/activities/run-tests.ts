@@ -3,12 +3,18 @@ import type { TestContainerRequest } from '../types/stubs.js';
 import { FreestyleClient } from '../types/stubs.js';
 import { logger } from '../utils/logger.js';
 
+const DEFAULT_TEST_COMMAND = 'npm test';
+const DEFAULT_TEST_TIMEOUT_MS = 300000; // 5 minutes
+
 export interface RunTestsInput {
   repository: string;
   headSha: string;
   branch: string;
-  testCommand: string;
-  timeoutMs: number;
+  installationId: number;
+  testCommand?: string;
+  timeoutMs?: number;
+  // Tests whose failures alone do not fail the run, by name or `suite > name`
+  ignoredTests?: string[];
 }
 
 export interface RunTestsResult {
@@ -24,11 +30,13 @@ export interface RunTestsResult {
  */
 export async function runTests(input: RunTestsInput): Promise<RunTestsResult> {
   const startTime = Date.now();
+  const testCommand = input.testCommand ?? DEFAULT_TEST_COMMAND;
+  const timeoutMs = input.timeoutMs ?? DEFAULT_TEST_TIMEOUT_MS;
   const activityId = log.info('Running tests', {
     repository: input.repository,
     headSha: input.headSha,
     branch: input.branch,
-    testCommand: input.testCommand,
+    testCommand,
   });
 
   try {
@@ -37,7 +45,7 @@ export async function runTests(input: RunTestsInput): Promise<RunTestsResult> {
       apiKey: (process.env as any).FREESTYLE_API_KEY || '',
       apiUrl:
         (process.env as any).FREESTYLE_API_URL || 'https://api.freestyle.dev',
-      timeoutMs: input.timeoutMs,
+      timeoutMs,
       maxRetries: 2,
     });
 
@@ -46,8 +54,9 @@ export async function runTests(input: RunTestsInput): Promise<RunTestsResult> {
       repository: input.repository,
       headSha: input.headSha,
       branch: input.branch,
-      testCommand: input.testCommand,
-      timeoutMs: input.timeoutMs,
+      testCommand,
+      timeoutMs,
+      ignoredTests: input.ignoredTests ?? [],
     };
 
     // Run tests with Freestyle
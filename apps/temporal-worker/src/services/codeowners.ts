@@ -0,0 +1,149 @@
+import type { Octokit } from '@octokit/rest';
+import { isNotFoundError, parseRepository } from '../utils/github.js';
+
+// Where GitHub looks for the file, in the order it looks
+export const CODEOWNERS_PATHS = [
+  '.github/CODEOWNERS',
+  'CODEOWNERS',
+  'docs/CODEOWNERS',
+];
+
+export interface CodeOwnersRule {
+  pattern: string;
+  owners: string[];
+}
+
+export interface CodeOwners {
+  // GitHub logins, without the `@`
+  users: string[];
+  // Team slugs within the repository's organization
+  teams: string[];
+}
+
+/**
+ * Parse a CODEOWNERS file into its rules, in file order
+ *
+ * A pattern with no owners is kept: it clears ownership for the paths it
+ * matches.
+ */
+export function parseCodeOwners(content: string): CodeOwnersRule[] {
+  return content
+    .split('\n')
+    .map(line => line.replace(/(^|\s)#.*$/, '').trim())
+    .filter(line => line.length > 0)
+    .map(line => {
+      const [pattern = '', ...owners] = line.split(/\s+/);
+      return { pattern: pattern.replace(/\\#/g, '#'), owners };
+    });
+}
+
+/**
+ * Owners of a set of files, where the last matching rule wins for each file
+ *
+ * Email owners are dropped since reviews cannot be requested from them.
+ */
+export function ownersForFiles(
+  rules: CodeOwnersRule[],
+  files: string[]
+): CodeOwners {
+  // Searched from the end, since later rules override earlier ones
+  const matchers = rules
+    .map(rule => ({ ...rule, matches: patternToRegExp(rule.pattern) }))
+    .reverse();
+  const users = new Set<string>();
+  const teams = new Set<string>();
+
+  for (const file of files) {
+    const rule = matchers.find(matcher => matcher.matches.test(file));
+
+    for (const owner of rule?.owners ?? []) {
+      if (!owner.startsWith('@')) {
+        continue;
+      }
+
+      const [login = '', team] = owner.slice(1).split('/');
+      if (team) {
+        teams.add(team);
+      } else if (login) {
+        users.add(login);
+      }
+    }
+  }
+
+  return { users: [...users], teams: [...teams] };
+}
+
+/**
+ * Read the repository's CODEOWNERS rules at a ref; empty when it has none
+ */
+export async function readCodeOwners(
+  octokit: Octokit,
+  repository: string,
+  ref: string
+): Promise<CodeOwnersRule[]> {
+  const { owner, repo } = parseRepository(repository);
+
+  for (const path of CODEOWNERS_PATHS) {
+    try {
+      const { data } = await octokit.repos.getContent({
+        owner,
+        repo,
+        path,
+        ref,
+      });
+
+      if ('content' in data && typeof data.content === 'string') {
+        return parseCodeOwners(
+          Buffer.from(data.content, 'base64').toString('utf8')
+        );
+      }
+    } catch (error) {
+      if (!isNotFoundError(error)) {
+        throw error;
+      }
+    }
+  }
+
+  return [];
+}
+
+/**
+ * Translate a CODEOWNERS pattern, which follows most gitignore rules, into a
+ * regular expression over repository-relative paths
+ */
+function patternToRegExp(pattern: string): RegExp {
+  // A slash anywhere but the end anchors the pattern to the repository root
+  const anchored = pattern.slice(0, -1).includes('/');
+  const directory = pattern.endsWith('/');
+  const path = pattern.replace(/^\//, '').replace(/\/$/, '');
+
+  const source = path
+    .split(/(\*\*\/|\/\*\*|\*\*|\*|\?)/)
+    .map(part => {
+      switch (part) {
+        case '**/':
+          return '(?:.*/)?';
+        case '/**':
+          return '/.*';
+        case '**':
+          return '.*';
+        case '*':
+          return '[^/]*';
+        case '?':
+          return '[^/]';
+        default:
+          return part.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+      }
+    })
+    .join('');
+
+  const prefix = anchored ? '^' : '^(?:.*/)?';
+  // `docs/*` owns the files directly in `docs`, not those in subdirectories
+  const suffix = directory
+    ? '/.*$'
+    : path.endsWith('*') && !path.endsWith('**')
+      ? '$'
+      : '(?:/.*)?$';
+
+  return new RegExp(`${prefix}${source}${suffix}`);
+}
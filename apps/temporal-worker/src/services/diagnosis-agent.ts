@@ -0,0 +1,117 @@
+import type {
+  DiagnosisCompletion,
+  DiagnosisMessage,
+  DiagnosisProvider,
+  DiagnosisRequest,
+  DiagnosisToolCall,
+  DiagnosisToolDefinition,
+} from '@self-healing-ci/diagnosis/diagnosis-providers';
+
+// Tool output kept in the diagnosis result; the model sees all of it
+const MAX_RECORDED_OUTPUT_LENGTH = 2000;
+
+export interface DiagnosisToolCallRecord {
+  turn: number;
+  tool: string;
+  input: Record<string, unknown>;
+  output: string;
+  isError: boolean;
+  durationMs: number;
+}
+
+export interface DiagnosisAgentOptions {
+  provider: DiagnosisProvider;
+  request: Omit<DiagnosisRequest, 'messages' | 'tools'>;
+  tools: DiagnosisToolDefinition[];
+  executeTool: (call: DiagnosisToolCall) => Promise<string>;
+  // Model turns that may call tools before an answer is required
+  maxTurns: number;
+  // Tokens after which no further tool calls are run
+  maxTokens: number;
+}
+
+export interface DiagnosisAgentResult {
+  completion: DiagnosisCompletion;
+  toolCalls: DiagnosisToolCallRecord[];
+  tokensUsed: number;
+  turns: number;
+}
+
+/**
+ * Let the model call tools until it answers or runs out of budget
+ *
+ * Each model turn may request several tool calls, which run in order. Once
+ * the turn or token budget is spent, pending calls are answered with an
+ * error asking for the final answer and the model gets one last turn.
+ */
+export async function runDiagnosisAgent(
+  options: DiagnosisAgentOptions
+): Promise<DiagnosisAgentResult> {
+  const messages: DiagnosisMessage[] = [];
+  const toolCalls: DiagnosisToolCallRecord[] = [];
+  let tokensUsed = 0;
+  let finalTurn = false;
+
+  for (let turn = 0; ; turn++) {
+    const completion = await options.provider.complete({
+      ...options.request,
+      messages,
+      tools: options.tools,
+    });
+    tokensUsed += completion.tokensUsed;
+
+    if (completion.toolCalls.length === 0 || finalTurn) {
+      return { completion, toolCalls, tokensUsed, turns: turn + 1 };
+    }
+
+    finalTurn = turn >= options.maxTurns || tokensUsed >= options.maxTokens;
+
+    messages.push({
+      role: 'assistant',
+      content: completion.content,
+      toolCalls: completion.toolCalls,
+    });
+
+    for (const call of completion.toolCalls) {
+      if (finalTurn) {
+        messages.push({
+          role: 'tool',
+          toolCallId: call.id,
+          content:
+            'Tool budget exhausted. Answer now with your diagnosis as JSON.',
+          isError: true,
+        });
+        continue;
+      }
+
+      const startTime = Date.now();
+      let output: string;
+      let isError = false;
+
+      try {
+        output = await options.executeTool(call);
+      } catch (error) {
+        output = error instanceof Error ? error.message : 'Unknown error';
+        isError = true;
+      }
+
+      toolCalls.push({
+        turn,
+        tool: call.name,
+        input: call.input,
+        output:
+          output.length > MAX_RECORDED_OUTPUT_LENGTH
+            ? `${output.slice(0, MAX_RECORDED_OUTPUT_LENGTH)}\n... (truncated)`
+            : output,
+        isError,
+        durationMs: Date.now() - startTime,
+      });
+      messages.push({
+        role: 'tool',
+        toolCallId: call.id,
+        content: output,
+        isError,
+      });
+    }
+  }
+}
@@ -1,10 +1,66 @@
-import { logger } from '../../github-app/src/utils/logger.js';
+import type { Octokit } from '@octokit/rest';
+import { LogRedactor } from '@self-healing-ci/claude';
+import type {
+  TestCaseResult,
+  TestReportFormat,
+} from '@self-healing-ci/diagnosis/test-reports';
+import {
+  detectTestReportFormat,
+  parseTestReport,
+} from '@self-healing-ci/diagnosis/test-reports';
+import { createInstallationClient, parseRepository } from '../utils/github.js';
+import { logger } from '../utils/logger.js';
+import { readZipEntries } from '../utils/zip.js';
+
+// Only the tail of a failed step is kept; the error is almost always there
+const MAX_LOG_LINES = 500;
+
+// Artifacts larger than this are not downloaded
+const MAX_ARTIFACT_BYTES = 10 * 1024 * 1024;
+
+// Longest test or coverage report kept per file
+const MAX_REPORT_LENGTH = 200000;
+
+// Coverage reports recognised by file name
+const COVERAGE_FILES = [
+  'lcov.info',
+  'coverage-summary.json',
+  'coverage-final.json',
+  'clover.xml',
+  'cobertura.xml',
+  'coverage.xml',
+];
+
+export interface FailureLogSection {
+  job: string;
+  step?: string | undefined;
+  conclusion?: string | undefined;
+  content: string;
+}
+
+export interface FailureArtifact {
+  artifact: string;
+  path: string;
+  kind: 'test-report' | 'coverage';
+  format?: TestReportFormat | undefined;
+  content: string;
+}
 
 export interface FailureData {
   logs?: string;
   diff?: string;
   testOutput?: string;
+  testCases?: TestCaseResult[];
   error?: string;
+  baseSha?: string;
+  changedFiles?: string[];
+  commitMessage?: string;
+  author?: string;
+  failedJob?: string;
+  failedStep?: string;
+  sections?: FailureLogSection[];
+  artifacts?: FailureArtifact[];
+  redactedSecrets?: number;
 }
 
 export interface CollectFailureLogsInput {
@@ -21,11 +77,23 @@ export interface CollectFailureLogsInput {
   };
 }
 
+interface WorkflowJob {
+  name: string;
+  conclusion: string | null;
+  steps?: Array<{ name: string; number: number; conclusion: string | null }>;
+}
+
 /**
  * Service to collect failure logs and context for diagnosis
+ *
+ * Downloads the run's log archive, the compare diff against the base commit
+ * and any test or coverage reports uploaded as artifacts. Test reports, or
+ * failing that the failed step's log, are parsed into `testCases`. Everything
+ * returned has been through `LogRedactor`.
  */
 export async function collectFailureLogs(
-  input: CollectFailureLogsInput
+  input: CollectFailureLogsInput,
+  octokit: Octokit = createInstallationClient(input.installationId)
 ): Promise<FailureData> {
   const startTime = Date.now();
 
@@ -36,61 +104,119 @@ export async function collectFailureLogs(
       headSha: input.headSha,
     });
 
-    // TODO: Implement actual log collection from GitHub API
-    // This will collect:
-    // - Workflow run logs
-    // - Job logs
-    // - Test outputs
-    // - Git diff vs base SHA
-    // - Redact secrets
+    const { owner, repo } = parseRepository(input.repository);
+    const run = { owner, repo, run_id: input.workflowRunId };
+
+    const { data: workflowRun } = await octokit.actions.getWorkflowRun(run);
+    const jobs: WorkflowJob[] = await octokit.paginate(
+      octokit.actions.listJobsForWorkflowRun,
+      { ...run, filter: 'latest', per_page: 100 }
+    );
+
+    const { data: logArchive } =
+      await octokit.actions.downloadWorkflowRunLogs(run);
+    const sections = splitLogArchive(toBuffer(logArchive), jobs);
+
+    // Pull requests compare against their base; pushes against the parent
+    const baseSha =
+      workflowRun.pull_requests?.[0]?.base.sha ??
+      (await parentSha(octokit, owner, repo, input.headSha));
+    const diff = baseSha
+      ? await compareDiff(octokit, owner, repo, baseSha, input.headSha)
+      : undefined;
+
+    const artifacts = await collectArtifacts(octokit, owner, repo, input);
+
+    // Redact everything that leaves the collector in one place
+    let redactedSecrets = 0;
+    const redact = (text: string): string => {
+      const result = LogRedactor.redactLogs(text);
+      redactedSecrets += result.redactedSecrets.length;
+      return result.redactedLogs;
+    };
+
+    const redactedSections = sections.map(section => ({
+      ...section,
+      content: redact(section.content),
+    }));
+    const redactedArtifacts = artifacts.map(artifact => ({
+      ...artifact,
+      content: redact(artifact.content),
+    }));
+    const redactedDiff = diff !== undefined ? redact(diff) : undefined;
+    const testReports = redactedArtifacts.filter(
+      artifact => artifact.kind === 'test-report'
+    );
+
+    // Prefer the failed step's own log, then the whole log of its job
+    const failedJob = jobs.find(job => job.conclusion === 'failure');
+    const failedStep = failedJob?.steps?.find(
+      step => step.conclusion === 'failure'
+    );
+    const failedSection =
+      redactedSections.find(
+        section =>
+          section.job === failedJob?.name &&
+          section.step !== undefined &&
+          section.step === failedStep?.name
+      ) ??
+      redactedSections.find(
+        section => section.job === failedJob?.name && !section.step
+      );
+
+    // Uploaded reports are authoritative; otherwise try the runner's output
+    const testCases =
+      testReports.length > 0
+        ? testReports.flatMap(report =>
+            parseTestReport(report.content, report.format)
+          )
+        : parseTestReport(failedSection?.content ?? '');
 
-    // For now, return stub data
     const failureData: FailureData = {
-      logs: `[INFO] Workflow run ${input.workflowRunId} failed
-[ERROR] Test suite failed with exit code 1
-[ERROR] 2 tests failed, 1 test passed
-[ERROR] Assertion failed: expected true but got false`,
-      diff: `diff --git a/src/app.ts b/src/app.ts
-index 1234567..abcdefg 100644
---- a/src/app.ts
-+++ b/src/app.ts
-@@ -10,7 +10,7 @@ export class App {
-   constructor() {
-     this.config = {
-       port: process.env.PORT || 3000,
--      host: process.env.HOST || 'localhost',
-+      host: process.env.HOST || '0.0.0.0',
-       debug: process.env.DEBUG === 'true',
-     };
-   }`,
-      testOutput: `FAIL  src/app.test.ts
-  ● App initialization
-  
-    expect(received).toBe(expected)
-    
-    Expected: true
-    Received: false
-    
-       8 |   it('should initialize correctly', () => {
-       9 |     const app = new App();
-    > 10 |     expect(app.isReady()).toBe(true);
-         |                        ^
-      11 |   });
-      12 | });
-    
-    at Object.<anonymous> (src/app.test.ts:10:5)
-    
-Test Suites: 1 failed, 0 passed, 1 total
-Tests:       1 failed, 0 passed, 1 total`,
-      error: 'Test suite failed with 1 failing test',
+      sections: redactedSections,
+      artifacts: redactedArtifacts,
+      redactedSecrets,
+      ...(failedSection && {
+        logs: tail(failedSection.content, MAX_LOG_LINES),
+      }),
+      ...(redactedDiff !== undefined && {
+        diff: redactedDiff,
+        changedFiles: changedFiles(redactedDiff),
+      }),
+      ...(baseSha && { baseSha }),
+      ...(workflowRun.head_commit && {
+        commitMessage: redact(workflowRun.head_commit.message),
+        author: workflowRun.head_commit.author?.name ?? '',
+      }),
+      ...(testReports.length > 0 && {
+        testOutput: testReports.map(report => report.content).join('\n'),
+      }),
+      ...(testCases.length > 0 && { testCases }),
+      ...(failedJob && { failedJob: failedJob.name }),
+      ...(failedStep && { failedStep: failedStep.name }),
+      ...(failedJob && {
+        error: failedStep
+          ? `Step "${failedStep.name}" of job "${failedJob.name}" failed`
+          : `Job "${failedJob.name}" failed`,
+      }),
     };
 
     logger.info('Failure logs collected', {
       repository: input.repository,
       workflowRunId: input.workflowRunId,
+      failedJob: failureData.failedJob,
+      failedStep: failureData.failedStep,
+      sections: redactedSections.length,
+      artifacts: redactedArtifacts.length,
+      redactedSecrets,
       logsSize: failureData.logs?.length || 0,
       diffSize: failureData.diff?.length || 0,
       testOutputSize: failureData.testOutput?.length || 0,
+      testCases: testCases.length,
+      failedTests: testCases.filter(
+        testCase =>
+          testCase.status === 'failed' || testCase.status === 'errored'
+      ).length,
       duration: Date.now() - startTime,
     });
 
@@ -108,3 +234,228 @@ Tests:       1 failed, 0 passed, 1 total`,
     };
   }
 }
+
+/**
+ * Split a run log archive into per-job and per-step sections
+ *
+ * The archive holds `<n>_<job>.txt` with each job's full log and
+ * `<job>/<n>_<step>.txt` with each step's log. Step numbers are matched
+ * against the jobs API to recover names and conclusions.
+ */
+function splitLogArchive(
+  archive: Buffer,
+  jobs: WorkflowJob[]
+): FailureLogSection[] {
+  const findJob = (name: string) =>
+    jobs.find(job => archiveName(job.name) === archiveName(name));
+
+  return readZipEntries(archive)
+    .filter(entry => entry.name.endsWith('.txt'))
+    .sort((a, b) => a.name.localeCompare(b.name, 'en', { numeric: true }))
+    .flatMap(entry => {
+      const content = cleanLog(entry.content.toString('utf8'));
+      const parts = entry.name.split('/');
+
+      if (parts.length === 1) {
+        const name = stripOrder(entry.name);
+        const job = findJob(name);
+        return [
+          {
+            job: job?.name ?? name,
+            conclusion: job?.conclusion ?? undefined,
+            content,
+          },
+        ];
+      }
+
+      const [directory = '', file = ''] = parts;
+      const job = findJob(directory);
+      const number = Number(/^(\d+)_/.exec(file)?.[1]);
+      const step = job?.steps?.find(candidate => candidate.number === number);
+
+      if (!Number.isInteger(number)) {
+        return [];
+      }
+
+      return [
+        {
+          job: job?.name ?? directory,
+          step: step?.name ?? stripOrder(file),
+          conclusion: step?.conclusion ?? undefined,
+          content,
+        },
+      ];
+    });
+}
+
+/**
+ * Download test and coverage reports from the run's artifacts
+ *
+ * Artifacts are optional context, so a failed download is logged and skipped.
+ */
+async function collectArtifacts(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  input: CollectFailureLogsInput
+): Promise<FailureArtifact[]> {
+  const artifacts = await octokit.paginate(
+    octokit.actions.listWorkflowRunArtifacts,
+    { owner, repo, run_id: input.workflowRunId, per_page: 100 }
+  );
+
+  const reports: FailureArtifact[] = [];
+
+  for (const artifact of artifacts) {
+    if (artifact.expired || artifact.size_in_bytes > MAX_ARTIFACT_BYTES) {
+      continue;
+    }
+
+    try {
+      const { data } = await octokit.actions.downloadArtifact({
+        owner,
+        repo,
+        artifact_id: artifact.id,
+        archive_format: 'zip',
+      });
+
+      for (const entry of readZipEntries(toBuffer(data))) {
+        const content = entry.content.toString('utf8');
+        const report = reportKind(entry.name, content);
+
+        if (report) {
+          reports.push({
+            artifact: artifact.name,
+            path: entry.name,
+            ...report,
+            content: content.slice(0, MAX_REPORT_LENGTH),
+          });
+        }
+      }
+    } catch (error) {
+      logger.warn('Failed to download artifact', {
+        repository: input.repository,
+        workflowRunId: input.workflowRunId,
+        artifact: artifact.name,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  return reports;
+}
+
+/**
+ * First parent of a commit, used as the base of push builds
+ */
+async function parentSha(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  sha: string
+): Promise<string | undefined> {
+  const { data: commit } = await octokit.repos.getCommit({
+    owner,
+    repo,
+    ref: sha,
+  });
+
+  return commit.parents[0]?.sha;
+}
+
+/**
+ * Unified diff between two commits
+ */
+async function compareDiff(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  baseSha: string,
+  headSha: string
+): Promise<string> {
+  const { data } = await octokit.repos.compareCommitsWithBasehead({
+    owner,
+    repo,
+    basehead: `${baseSha}...${headSha}`,
+    mediaType: { format: 'diff' },
+  });
+
+  // The diff media type makes the API answer with plain text
+  return data as unknown as string;
+}
+
+/**
+ * Classify an artifact file as a test or coverage report
+ */
+function reportKind(
+  path: string,
+  content: string
+): Pick<FailureArtifact, 'kind' | 'format'> | undefined {
+  const file = path.split('/').pop() ?? path;
+
+  if (COVERAGE_FILES.includes(file) || file.endsWith('.lcov')) {
+    return { kind: 'coverage' };
+  }
+
+  if (!/\.(?:xml|json|jsonl|tap|txt|log)$/.test(file)) {
+    return undefined;
+  }
+
+  const format = detectTestReportFormat(content);
+  return format && { kind: 'test-report', format };
+}
+
+/**
+ * Files touched by a unified diff
+ */
+function changedFiles(diff: string): string[] {
+  return [...diff.matchAll(/^diff --git a\/\S+ b\/(\S+)$/gm)].map(
+    match => match[1] ?? ''
+  );
+}
+
+/**
+ * Drop the byte order mark and the timestamp GitHub puts on every log line
+ */
+function cleanLog(log: string): string {
+  return log
+    .replace(/^\uFEFF/, '')
+    .replace(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?Z /gm, '');
+}
+
+/**
+ * Last `count` lines of a log
+ */
+function tail(log: string, count: number): string {
+  const lines = log.trimEnd().split('\n');
+  return lines.slice(-count).join('\n');
+}
+
+/**
+ * Remove the `<n>_` order prefix and `.txt` suffix from an archive file name
+ */
+function stripOrder(file: string): string {
+  return file.replace(/^\d+_/, '').replace(/\.txt$/, '');
+}
+
+/**
+ * Job names as they appear in archive paths, which cannot contain `/` or `:`
+ */
+function archiveName(name: string): string {
+  return name.replace(/[\\/:*?"<>|]/g, '').trim();
+}
+
+/**
+ * Octokit returns binary downloads as an ArrayBuffer
+ */
+function toBuffer(data: unknown): Buffer {
+  if (data instanceof ArrayBuffer) {
+    return Buffer.from(data);
+  }
+
+  if (Buffer.isBuffer(data)) {
+    return data;
+  }
+
+  throw new Error('Expected a binary download from the GitHub API');
+}
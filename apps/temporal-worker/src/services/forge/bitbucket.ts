@@ -0,0 +1,195 @@
+import axios from 'axios';
+import type { AxiosInstance } from 'axios';
+import type {
+  ForgeClient,
+  GitCredentials,
+  MergeOptions,
+  MergeOutcome,
+  MergeRequest,
+  OpenMergeRequestInput,
+  RevertOptions,
+} from './types.js';
+import { ForgeError } from './types.js';
+
+export interface BitbucketForgeConfig {
+  baseUrl: string;
+  // A repository or workspace access token, or an app password with
+  // `username`
+  token: string;
+  username?: string | undefined;
+  timeoutMs?: number;
+}
+
+interface BitbucketPullRequest {
+  id: number;
+  state: 'OPEN' | 'MERGED' | 'DECLINED' | 'SUPERSEDED';
+  links: { html: { href: string } };
+  merge_commit?: { hash: string } | null;
+}
+
+/**
+ * Pull requests through the Bitbucket Cloud REST API (2.0)
+ *
+ * Repositories are `workspace/repo_slug`.
+ */
+export class BitbucketForgeClient implements ForgeClient {
+  readonly provider = 'bitbucket';
+  private readonly http: AxiosInstance;
+  private readonly credentials: GitCredentials;
+
+  constructor(config: BitbucketForgeConfig) {
+    // Access tokens authenticate git under a fixed username
+    this.credentials = {
+      username: config.username ?? 'x-token-auth',
+      password: config.token,
+    };
+    this.http = axios.create({
+      baseURL: config.baseUrl.replace(/\/$/, ''),
+      ...(config.username
+        ? { auth: { username: config.username, password: config.token } }
+        : { headers: { Authorization: `Bearer ${config.token}` } }),
+      timeout: config.timeoutMs ?? 30000,
+    });
+  }
+
+  async cloneUrl(repository: string): Promise<string> {
+    const data = await this.request<{
+      links: { clone: Array<{ name: string; href: string }> };
+    }>('get', repositoryPath(repository));
+    const https = data.links.clone.find(link => link.name === 'https');
+
+    if (!https) {
+      throw new ForgeError(
+        `No HTTPS clone URL for ${repository}`,
+        this.provider
+      );
+    }
+
+    // The link names the account it was requested with
+    const url = new URL(https.href);
+    url.username = '';
+    return url.toString();
+  }
+
+  async gitCredentials(): Promise<GitCredentials> {
+    return this.credentials;
+  }
+
+  async openMergeRequest(input: OpenMergeRequestInput): Promise<MergeRequest> {
+    const data = await this.request<BitbucketPullRequest>(
+      'post',
+      `${repositoryPath(input.repository)}/pullrequests`,
+      {
+        title: input.title,
+        description: input.body,
+        source: { branch: { name: input.sourceBranch } },
+        destination: { branch: { name: input.targetBranch } },
+      }
+    );
+
+    return { number: data.id, url: data.links.html.href };
+  }
+
+  async postComment(
+    repository: string,
+    number: number,
+    body: string
+  ): Promise<void> {
+    await this.request(
+      'post',
+      `${repositoryPath(repository)}/pullrequests/${number}/comments`,
+      { content: { raw: body } }
+    );
+  }
+
+  async closeMergeRequest(repository: string, number: number): Promise<void> {
+    const path = `${repositoryPath(repository)}/pullrequests/${number}`;
+    const pullRequest = await this.request<BitbucketPullRequest>('get', path);
+
+    // Bitbucket has no closed state; declining is the equivalent
+    if (pullRequest.state === 'OPEN') {
+      await this.request('post', `${path}/decline`);
+    }
+  }
+
+  async mergeMergeRequest(
+    repository: string,
+    number: number,
+    options: MergeOptions
+  ): Promise<MergeOutcome> {
+    // Without `merge_strategy` the repository's default strategy applies
+    const data = await this.request<BitbucketPullRequest>(
+      'post',
+      `${repositoryPath(repository)}/pullrequests/${number}/merge`,
+      { close_source_branch: options.deleteSourceBranch }
+    );
+
+    if (!data.merge_commit) {
+      throw new ForgeError(
+        `Pull request #${number} merged without a commit`,
+        this.provider
+      );
+    }
+
+    return {
+      mergeCommitSha: data.merge_commit.hash,
+      branchDeleted: options.deleteSourceBranch,
+    };
+  }
+
+  async deleteBranch(repository: string, branch: string): Promise<void> {
+    try {
+      await this.request(
+        'delete',
+        `${repositoryPath(repository)}/refs/branches/${encodeURIComponent(branch)}`
+      );
+    } catch (error) {
+      if (!(error instanceof ForgeError && error.status === 404)) {
+        throw error;
+      }
+    }
+  }
+
+  async removeLabels(): Promise<void> {
+    throw new ForgeError(
+      'Bitbucket pull requests have no labels',
+      this.provider
+    );
+  }
+
+  async revertMergeCommit(
+    _repository: string,
+    options: RevertOptions
+  ): Promise<void> {
+    throw new ForgeError(
+      `Bitbucket cannot revert commits through its API; revert ${options.mergeCommitSha} on ${options.baseBranch} manually`,
+      this.provider
+    );
+  }
+
+  private async request<T>(
+    method: 'get' | 'post' | 'delete',
+    path: string,
+    data?: Record<string, unknown>
+  ): Promise<T> {
+    try {
+      const response = await this.http.request<T>({ method, url: path, data });
+      return response.data;
+    } catch (error) {
+      throw ForgeError.fromHttpError(error, this.provider);
+    }
+  }
+}
+
+function repositoryPath(repository: string): string {
+  const [workspace, slug, ...rest] = repository.split('/');
+
+  if (!workspace || !slug || rest.length > 0) {
+    throw new ForgeError(
+      `Invalid Bitbucket repository name: ${repository}`,
+      'bitbucket'
+    );
+  }
+
+  return `/repositories/${encodeURIComponent(workspace)}/${encodeURIComponent(slug)}`;
+}
@@ -0,0 +1,244 @@
+import type { Octokit } from '@octokit/rest';
+import { isNotFoundError, parseRepository } from '../../utils/github.js';
+import { logger } from '../../utils/logger.js';
+import type {
+  ForgeClient,
+  GitCredentials,
+  MergeOptions,
+  MergeOutcome,
+  MergeRequest,
+  OpenMergeRequestInput,
+  RevertOptions,
+} from './types.js';
+import { ForgeError } from './types.js';
+
+type GitHubMergeMethod = 'squash' | 'rebase' | 'merge';
+
+// Preferred first: one commit per fix keeps reverts simple
+const MERGE_METHODS: Array<{
+  method: GitHubMergeMethod;
+  setting: 'allow_squash_merge' | 'allow_rebase_merge' | 'allow_merge_commit';
+}> = [
+  { method: 'squash', setting: 'allow_squash_merge' },
+  { method: 'rebase', setting: 'allow_rebase_merge' },
+  { method: 'merge', setting: 'allow_merge_commit' },
+];
+
+/**
+ * Pull requests through a GitHub App installation
+ */
+export class GitHubForgeClient implements ForgeClient {
+  readonly provider = 'github';
+
+  constructor(private readonly octokit: Octokit) {}
+
+  async cloneUrl(repository: string): Promise<string> {
+    const { data } = await this.octokit.repos.get(parseRepository(repository));
+    return data.clone_url;
+  }
+
+  async gitCredentials(): Promise<GitCredentials> {
+    // Installation tokens last an hour
+    const { token, expiresAt } = (await this.octokit.auth({
+      type: 'installation',
+    })) as { token: string; expiresAt?: string };
+
+    return { username: 'x-access-token', password: token, expiresAt };
+  }
+
+  async openMergeRequest(input: OpenMergeRequestInput): Promise<MergeRequest> {
+    const { data } = await this.octokit.pulls.create({
+      ...parseRepository(input.repository),
+      head: input.sourceBranch,
+      base: input.targetBranch,
+      title: input.title,
+      body: input.body,
+    });
+
+    return { number: data.number, url: data.html_url };
+  }
+
+  async postComment(
+    repository: string,
+    number: number,
+    body: string
+  ): Promise<void> {
+    await this.octokit.issues.createComment({
+      ...parseRepository(repository),
+      issue_number: number,
+      body,
+    });
+  }
+
+  async closeMergeRequest(repository: string, number: number): Promise<void> {
+    const { owner, repo } = parseRepository(repository);
+
+    // A merged pull request cannot be closed; the revert undoes it instead
+    const { data: pullRequest } = await this.octokit.pulls.get({
+      owner,
+      repo,
+      pull_number: number,
+    });
+
+    if (!pullRequest.merged && pullRequest.state === 'open') {
+      await this.octokit.pulls.update({
+        owner,
+        repo,
+        pull_number: number,
+        state: 'closed',
+      });
+    }
+  }
+
+  async mergeMergeRequest(
+    repository: string,
+    number: number,
+    options: MergeOptions
+  ): Promise<MergeOutcome> {
+    const { owner, repo } = parseRepository(repository);
+    const { data: settings } = await this.octokit.repos.get({ owner, repo });
+
+    // Settings are only reported to writers; GitHub allows all by default
+    const allowed = MERGE_METHODS.find(
+      ({ setting }) => settings[setting] !== false
+    );
+
+    if (!allowed) {
+      throw new ForgeError(
+        `${repository} allows no merge method`,
+        this.provider
+      );
+    }
+
+    const { data } = await this.octokit.pulls.merge({
+      owner,
+      repo,
+      pull_number: number,
+      merge_method: allowed.method,
+      ...(options.headSha && { sha: options.headSha }),
+    });
+
+    // GitHub deletes the branch itself when the repository asks it to
+    let branchDeleted = settings.delete_branch_on_merge === true;
+
+    // The merge has landed, so a branch that stays behind is only reported
+    if (options.deleteSourceBranch && !branchDeleted) {
+      try {
+        await this.octokit.git.deleteRef({
+          owner,
+          repo,
+          ref: `heads/${options.sourceBranch}`,
+        });
+        branchDeleted = true;
+      } catch (error) {
+        branchDeleted = isNotFoundError(error);
+
+        if (!branchDeleted) {
+          logger.warn('Failed to delete merged source branch', {
+            repository,
+            branch: options.sourceBranch,
+            mergeCommitSha: data.sha,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+    }
+
+    return { mergeCommitSha: data.sha, branchDeleted };
+  }
+
+  async deleteBranch(repository: string, branch: string): Promise<void> {
+    try {
+      await this.octokit.git.deleteRef({
+        ...parseRepository(repository),
+        ref: `heads/${branch}`,
+      });
+    } catch (error) {
+      if (!isNotFoundError(error)) {
+        throw error;
+      }
+    }
+  }
+
+  async removeLabels(
+    repository: string,
+    number: number,
+    labels: string[]
+  ): Promise<void> {
+    const { owner, repo } = parseRepository(repository);
+
+    for (const name of labels) {
+      try {
+        await this.octokit.issues.removeLabel({
+          owner,
+          repo,
+          issue_number: number,
+          name,
+        });
+      } catch (error) {
+        if (!isNotFoundError(error)) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  async revertMergeCommit(
+    repository: string,
+    options: RevertOptions
+  ): Promise<void> {
+    const { owner, repo } = parseRepository(repository);
+    const { baseBranch, mergeCommitSha } = options;
+
+    // Only rewind the branch if nothing has landed on top of the merge
+    const { data: baseRef } = await this.octokit.git.getRef({
+      owner,
+      repo,
+      ref: `heads/${baseBranch}`,
+    });
+
+    if (baseRef.object.sha !== mergeCommitSha) {
+      throw new ForgeError(
+        `${baseBranch} has moved past ${mergeCommitSha}; revert it manually`,
+        this.provider
+      );
+    }
+
+    const { data: mergeCommit } = await this.octokit.git.getCommit({
+      owner,
+      repo,
+      commit_sha: mergeCommitSha,
+    });
+
+    const parent = mergeCommit.parents[0];
+
+    if (!parent) {
+      throw new ForgeError(
+        `Merge commit ${mergeCommitSha} has no parent`,
+        this.provider
+      );
+    }
+
+    const { data: parentCommit } = await this.octokit.git.getCommit({
+      owner,
+      repo,
+      commit_sha: parent.sha,
+    });
+
+    const subject = mergeCommit.message.split('\n')[0];
+    const { data: revertCommit } = await this.octokit.git.createCommit({
+      owner,
+      repo,
+      message: `Revert "${subject}"\n\nThis reverts commit ${mergeCommitSha}.\n\n${options.reason}`,
+      tree: parentCommit.tree.sha,
+      parents: [mergeCommitSha],
+    });
+
+    await this.octokit.git.updateRef({
+      owner,
+      repo,
+      ref: `heads/${baseBranch}`,
+      sha: revertCommit.sha,
+    });
+  }
+}
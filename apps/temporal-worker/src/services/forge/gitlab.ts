@@ -0,0 +1,179 @@
+import axios from 'axios';
+import type { AxiosInstance } from 'axios';
+import type {
+  ForgeClient,
+  GitCredentials,
+  MergeOptions,
+  MergeOutcome,
+  MergeRequest,
+  OpenMergeRequestInput,
+  RevertOptions,
+} from './types.js';
+import { ForgeError } from './types.js';
+
+export interface GitLabForgeConfig {
+  // The instance, such as https://gitlab.com or a self-managed host
+  baseUrl: string;
+  token: string;
+  timeoutMs?: number;
+}
+
+interface GitLabMergeRequest {
+  iid: number;
+  web_url: string;
+  state: 'opened' | 'closed' | 'locked' | 'merged';
+  sha?: string;
+  merge_commit_sha?: string | null;
+  squash_commit_sha?: string | null;
+}
+
+/**
+ * Merge requests through the GitLab REST API (v4)
+ *
+ * Repositories are project paths such as `group/subgroup/project`.
+ */
+export class GitLabForgeClient implements ForgeClient {
+  readonly provider = 'gitlab';
+  private readonly http: AxiosInstance;
+  private readonly token: string;
+
+  constructor(config: GitLabForgeConfig) {
+    this.token = config.token;
+    this.http = axios.create({
+      baseURL: `${config.baseUrl.replace(/\/$/, '')}/api/v4`,
+      headers: { 'PRIVATE-TOKEN': config.token },
+      timeout: config.timeoutMs ?? 30000,
+    });
+  }
+
+  async cloneUrl(repository: string): Promise<string> {
+    const data = await this.request<{ http_url_to_repo: string }>(
+      'get',
+      project(repository)
+    );
+    return data.http_url_to_repo;
+  }
+
+  async gitCredentials(): Promise<GitCredentials> {
+    // Any username is accepted with an access token
+    return { username: 'oauth2', password: this.token };
+  }
+
+  async openMergeRequest(input: OpenMergeRequestInput): Promise<MergeRequest> {
+    const data = await this.request<GitLabMergeRequest>(
+      'post',
+      `${project(input.repository)}/merge_requests`,
+      {
+        source_branch: input.sourceBranch,
+        target_branch: input.targetBranch,
+        title: input.title,
+        description: input.body,
+      }
+    );
+
+    return { number: data.iid, url: data.web_url };
+  }
+
+  async postComment(
+    repository: string,
+    number: number,
+    body: string
+  ): Promise<void> {
+    await this.request(
+      'post',
+      `${project(repository)}/merge_requests/${number}/notes`,
+      { body }
+    );
+  }
+
+  async closeMergeRequest(repository: string, number: number): Promise<void> {
+    const path = `${project(repository)}/merge_requests/${number}`;
+    const mergeRequest = await this.request<GitLabMergeRequest>('get', path);
+
+    if (mergeRequest.state === 'opened') {
+      await this.request('put', path, { state_event: 'close' });
+    }
+  }
+
+  async mergeMergeRequest(
+    repository: string,
+    number: number,
+    options: MergeOptions
+  ): Promise<MergeOutcome> {
+    // The project's merge method and squash setting decide the strategy
+    const data = await this.request<GitLabMergeRequest>(
+      'put',
+      `${project(repository)}/merge_requests/${number}/merge`,
+      {
+        should_remove_source_branch: options.deleteSourceBranch,
+        ...(options.headSha && { sha: options.headSha }),
+      }
+    );
+    // Fast-forward merges leave no merge commit; the head is what landed
+    const mergeCommitSha =
+      data.merge_commit_sha ?? data.squash_commit_sha ?? data.sha;
+
+    if (!mergeCommitSha) {
+      throw new ForgeError(
+        `Merge request !${number} merged without a commit`,
+        this.provider
+      );
+    }
+
+    return { mergeCommitSha, branchDeleted: options.deleteSourceBranch };
+  }
+
+  async deleteBranch(repository: string, branch: string): Promise<void> {
+    try {
+      await this.request(
+        'delete',
+        `${project(repository)}/repository/branches/${encodeURIComponent(branch)}`
+      );
+    } catch (error) {
+      if (!(error instanceof ForgeError && error.status === 404)) {
+        throw error;
+      }
+    }
+  }
+
+  async removeLabels(
+    repository: string,
+    number: number,
+    labels: string[]
+  ): Promise<void> {
+    await this.request(
+      'put',
+      `${project(repository)}/merge_requests/${number}`,
+      { remove_labels: labels.join(',') }
+    );
+  }
+
+  async revertMergeCommit(
+    repository: string,
+    options: RevertOptions
+  ): Promise<void> {
+    // GitLab writes the revert commit's message itself
+    await this.request(
+      'post',
+      `${project(repository)}/repository/commits/${options.mergeCommitSha}/revert`,
+      { branch: options.baseBranch }
+    );
+  }
+
+  private async request<T>(
+    method: 'get' | 'post' | 'put' | 'delete',
+    path: string,
+    data?: Record<string, unknown>
+  ): Promise<T> {
+    try {
+      const response = await this.http.request<T>({ method, url: path, data });
+      return response.data;
+    } catch (error) {
+      throw ForgeError.fromHttpError(error, this.provider);
+    }
+  }
+}
+
+function project(repository: string): string {
+  return `/projects/${encodeURIComponent(repository)}`;
+}
@@ -0,0 +1,58 @@
+import { createInstallationClient } from '../../utils/github.js';
+import { BitbucketForgeClient } from './bitbucket.js';
+import { GitHubForgeClient } from './github.js';
+import { GitLabForgeClient } from './gitlab.js';
+import type { ForgeClient, ForgeProvider } from './types.js';
+import { ForgeError } from './types.js';
+
+export * from './types.js';
+export type { BitbucketForgeConfig } from './bitbucket.js';
+export type { GitLabForgeConfig } from './gitlab.js';
+export { BitbucketForgeClient, GitHubForgeClient, GitLabForgeClient };
+
+type Environment = Record<string, string | undefined>;
+
+/**
+ * Client for the forge hosting a repository
+ *
+ * GitHub authenticates as the App installation. GitLab reads `GITLAB_URL`
+ * (default https://gitlab.com) and `GITLAB_TOKEN`; Bitbucket reads
+ * `BITBUCKET_TOKEN`, with `BITBUCKET_USERNAME` when the token is an app
+ * password.
+ */
+export function createForgeClient(
+  provider: ForgeProvider,
+  installationId: number,
+  env: Environment = process.env
+): ForgeClient {
+  switch (provider) {
+    case 'github':
+      return new GitHubForgeClient(createInstallationClient(installationId));
+
+    case 'gitlab':
+      return new GitLabForgeClient({
+        baseUrl: env['GITLAB_URL'] || 'https://gitlab.com',
+        token: requireToken(env, 'GITLAB_TOKEN', provider),
+      });
+
+    case 'bitbucket':
+      return new BitbucketForgeClient({
+        baseUrl: env['BITBUCKET_API_URL'] || 'https://api.bitbucket.org/2.0',
+        token: requireToken(env, 'BITBUCKET_TOKEN', provider),
+        username: env['BITBUCKET_USERNAME'],
+      });
+  }
+}
+
+function requireToken(
+  env: Environment,
+  name: string,
+  provider: ForgeProvider
+): string {
+  const token = env[name];
+
+  if (!token) {
+    throw new ForgeError(`${name} is not set`, provider);
+  }
+  return token;
+}
@@ -0,0 +1,129 @@
+import axios from 'axios';
+
+export type ForgeProvider = 'github' | 'gitlab' | 'bitbucket';
+
+export const FORGE_PROVIDERS: readonly ForgeProvider[] = [
+  'github',
+  'gitlab',
+  'bitbucket',
+];
+
+export interface OpenMergeRequestInput {
+  // `owner/repo`, a GitLab project path or a Bitbucket `workspace/repo`
+  repository: string;
+  sourceBranch: string;
+  targetBranch: string;
+  title: string;
+  body: string;
+}
+
+/**
+ * A pull request on GitHub and Bitbucket, a merge request on GitLab
+ */
+export interface MergeRequest {
+  // The number shown in the forge's UI (a GitLab `iid`)
+  number: number;
+  url: string;
+}
+
+export interface MergeOptions {
+  sourceBranch: string;
+  // Refuse to merge if the source branch has moved past this commit
+  headSha?: string | undefined;
+  deleteSourceBranch: boolean;
+}
+
+export interface MergeOutcome {
+  mergeCommitSha: string;
+  branchDeleted: boolean;
+}
+
+export interface RevertOptions {
+  baseBranch: string;
+  mergeCommitSha: string;
+  // Why the merge is undone, for the revert commit's message
+  reason: string;
+}
+
+/**
+ * HTTP basic auth for git, which never writes it to a remote URL or config
+ */
+export interface GitCredentials {
+  username: string;
+  password: string;
+  // When a short-lived token stops working, as an ISO timestamp
+  expiresAt?: string | undefined;
+}
+
+/**
+ * What the healing workflow needs from the forge hosting a repository
+ */
+export interface ForgeClient {
+  readonly provider: ForgeProvider;
+
+  // HTTPS URL git clones and pushes the repository with
+  cloneUrl(repository: string): Promise<string>;
+
+  // What git authenticates with, short-lived where the forge allows
+  gitCredentials(): Promise<GitCredentials>;
+
+  openMergeRequest(input: OpenMergeRequestInput): Promise<MergeRequest>;
+
+  postComment(repository: string, number: number, body: string): Promise<void>;
+
+  // Does nothing when the merge request is already merged or closed
+  closeMergeRequest(repository: string, number: number): Promise<void>;
+
+  // Merges with a strategy the repository allows
+  mergeMergeRequest(
+    repository: string,
+    number: number,
+    options: MergeOptions
+  ): Promise<MergeOutcome>;
+
+  // Does nothing when the branch is already gone
+  deleteBranch(repository: string, branch: string): Promise<void>;
+
+  // Labels the merge request no longer has are skipped
+  removeLabels(
+    repository: string,
+    number: number,
+    labels: string[]
+  ): Promise<void>;
+
+  // Undoes a merge on its base branch
+  revertMergeCommit(repository: string, options: RevertOptions): Promise<void>;
+}
+
+export class ForgeError extends Error {
+  constructor(
+    message: string,
+    readonly provider: ForgeProvider,
+    readonly status?: number
+  ) {
+    super(message);
+    this.name = 'ForgeError';
+  }
+
+  /**
+   * Wrap a failed HTTP call, keeping the forge's own error message
+   */
+  static fromHttpError(error: unknown, provider: ForgeProvider): ForgeError {
+    if (!axios.isAxiosError(error)) {
+      return new ForgeError(
+        error instanceof Error ? error.message : 'Unknown error',
+        provider
+      );
+    }
+
+    const data = error.response?.data as
+      | { message?: unknown; error?: { message?: string } | string }
+      | undefined;
+    const message =
+      (typeof data?.message === 'string' && data.message) ||
+      (typeof data?.error === 'string' ? data.error : data?.error?.message) ||
+      error.message;
+
+    return new ForgeError(message, provider, error.response?.status);
+  }
+}
@@ -0,0 +1,285 @@
+import type { Octokit } from '@octokit/rest';
+import { isNotFoundError, parseRepository } from '../utils/github.js';
+import type { RootCause } from '../workflows/self-healing-workflow.js';
+import type { CodeOwners } from './codeowners.js';
+import { ownersForFiles, readCodeOwners } from './codeowners.js';
+
+// Check run conclusions that let a pull request merge
+const PASSING_CONCLUSIONS = new Set(['success', 'neutral', 'skipped']);
+
+type CheckState = 'pending' | 'success' | 'failure';
+
+export interface PullRequestSummary {
+  workflowId: string;
+  workflowRunId: number;
+  rootCause: RootCause;
+  explanation?: string | undefined;
+  testsPassed: boolean;
+  proofVerdict: 'PASS' | 'FAIL';
+  candidatesEvaluated: number;
+}
+
+export interface WaitForChecksOptions {
+  timeoutMs: number;
+  pollIntervalMs: number;
+  // Called before every poll, so activities can heartbeat
+  onPoll?: () => void;
+}
+
+/**
+ * Render the description of a healing pull request
+ */
+export function renderPullRequestBody(summary: PullRequestSummary): string {
+  const lines = [
+    '## Self-Healing CI fix',
+    '',
+    `Automated fix for failed run ${summary.workflowRunId}.`,
+    '',
+    '| Check | Result |',
+    '| --- | --- |',
+    `| Root cause | \`${summary.rootCause}\` |`,
+    `| Tests | ${summary.testsPassed ? 'passed' : 'failed'} |`,
+    `| Proofs | ${summary.proofVerdict} |`,
+    `| Candidates evaluated | ${summary.candidatesEvaluated} |`,
+  ];
+
+  if (summary.explanation) {
+    lines.push('', '### Diagnosis', '', summary.explanation);
+  }
+
+  lines.push(
+    '',
+    `<sub>Opened by Self-Healing CI run \`${summary.workflowId}\`.</sub>`
+  );
+
+  return lines.join('\n');
+}
+
+/**
+ * Point a branch at a commit, creating it or moving it as needed
+ */
+export async function pushBranch(
+  octokit: Octokit,
+  repository: string,
+  branch: string,
+  sha: string
+): Promise<void> {
+  const { owner, repo } = parseRepository(repository);
+
+  try {
+    await octokit.git.createRef({
+      owner,
+      repo,
+      ref: `refs/heads/${branch}`,
+      sha,
+    });
+  } catch (error) {
+    // 422 means the branch already exists
+    if ((error as { status?: number } | null)?.status !== 422) {
+      throw error;
+    }
+
+    await octokit.git.updateRef({
+      owner,
+      repo,
+      ref: `heads/${branch}`,
+      sha,
+      force: true,
+    });
+  }
+}
+
+/**
+ * Request reviews from the code owners of a pull request's files, plus any
+ * extra reviewers, returning who was requested
+ *
+ * Ownership is read from the base branch, as GitHub does. Extra reviewers
+ * are logins or `org/team` names.
+ */
+export async function requestCodeOwnerReviews(
+  octokit: Octokit,
+  repository: string,
+  pullNumber: number,
+  baseBranch: string,
+  extraReviewers: string[] = []
+): Promise<CodeOwners> {
+  const { owner, repo } = parseRepository(repository);
+  const files = await octokit.paginate(octokit.pulls.listFiles, {
+    owner,
+    repo,
+    pull_number: pullNumber,
+    per_page: 100,
+  });
+  const rules = await readCodeOwners(octokit, repository, baseBranch);
+  const owners = ownersForFiles(
+    rules,
+    files.map(file => file.filename)
+  );
+
+  for (const reviewer of extraReviewers) {
+    const [login = '', team] = reviewer.replace(/^@/, '').split('/');
+    if (team) {
+      owners.teams.push(team);
+    } else if (login) {
+      owners.users.push(login);
+    }
+  }
+
+  const { data: pullRequest } = await octokit.pulls.get({
+    owner,
+    repo,
+    pull_number: pullNumber,
+  });
+  // GitHub rejects review requests to the pull request's author
+  const reviewers = {
+    users: [...new Set(owners.users)].filter(
+      user => user !== pullRequest.user.login
+    ),
+    teams: [...new Set(owners.teams)],
+  };
+
+  if (reviewers.users.length > 0 || reviewers.teams.length > 0) {
+    await octokit.pulls.requestReviewers({
+      owner,
+      repo,
+      pull_number: pullNumber,
+      reviewers: reviewers.users,
+      team_reviewers: reviewers.teams,
+    });
+  }
+
+  return reviewers;
+}
+
+/**
+ * Wait until every status check required on the base branch has passed on
+ * a commit, returning the names of the required checks
+ *
+ * Throws as soon as a required check fails, or when they are still pending
+ * after the timeout.
+ */
+export async function waitForRequiredChecks(
+  octokit: Octokit,
+  repository: string,
+  baseBranch: string,
+  headSha: string,
+  options: WaitForChecksOptions
+): Promise<string[]> {
+  const { owner, repo } = parseRepository(repository);
+  const required = await requiredChecks(octokit, owner, repo, baseBranch);
+  const deadline = Date.now() + options.timeoutMs;
+
+  while (required.length > 0) {
+    options.onPoll?.();
+
+    const states = await checkStates(octokit, owner, repo, headSha);
+    const failed = required.find(name => states.get(name) === 'failure');
+
+    if (failed) {
+      throw new Error(`Required check ${failed} failed on ${headSha}`);
+    }
+
+    const pending = required.filter(name => states.get(name) !== 'success');
+
+    if (pending.length === 0) {
+      break;
+    }
+
+    if (Date.now() + options.pollIntervalMs > deadline) {
+      throw new Error(
+        `Timed out waiting for required checks: ${pending.join(', ')}`
+      );
+    }
+
+    await new Promise(resolve => setTimeout(resolve, options.pollIntervalMs));
+  }
+
+  return required;
+}
+
+/**
+ * Required checks from branch protection and repository rulesets
+ */
+async function requiredChecks(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  branch: string
+): Promise<string[]> {
+  const names = new Set<string>();
+
+  const { data } = await octokit.repos.getBranch({ owner, repo, branch });
+  for (const context of data.protection?.required_status_checks?.contexts ??
+    []) {
+    names.add(context);
+  }
+
+  try {
+    const { data: rules } = await octokit.repos.getBranchRules({
+      owner,
+      repo,
+      branch,
+    });
+
+    for (const rule of rules) {
+      if (rule.type === 'required_status_checks') {
+        for (const check of rule.parameters?.required_status_checks ?? []) {
+          names.add(check.context);
+        }
+      }
+    }
+  } catch (error) {
+    if (!isNotFoundError(error)) {
+      throw error;
+    }
+  }
+
+  return [...names];
+}
+
+/**
+ * State of every check run and commit status on a commit, by name
+ */
+async function checkStates(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  ref: string
+): Promise<Map<string, CheckState>> {
+  const states = new Map<string, CheckState>();
+
+  const { data: combined } = await octokit.repos.getCombinedStatusForRef({
+    owner,
+    repo,
+    ref,
+  });
+  for (const status of combined.statuses) {
+    states.set(
+      status.context,
+      status.state === 'success'
+        ? 'success'
+        : status.state === 'pending'
+          ? 'pending'
+          : 'failure'
+    );
+  }
+
+  const checkRuns = await octokit.paginate(octokit.checks.listForRef, {
+    owner,
+    repo,
+    ref,
+    per_page: 100,
+  });
+  for (const run of checkRuns) {
+    states.set(
+      run.name,
+      run.status !== 'completed'
+        ? 'pending'
+        : PASSING_CONCLUSIONS.has(run.conclusion ?? '')
+          ? 'success'
+          : 'failure'
+    );
+  }
+
+  return states;
+}
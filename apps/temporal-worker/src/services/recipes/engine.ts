@@ -0,0 +1,223 @@
+import { execFile } from 'child_process';
+import { existsSync } from 'fs';
+import { join } from 'path';
+import { promisify } from 'util';
+import { logger } from '../../utils/logger.js';
+import type { RootCause } from '../../workflows/self-healing-workflow.js';
+import type { RepositoryWorkspace } from '../repository-workspace.js';
+import { git } from '../repository-workspace.js';
+import type {
+  FailureReport,
+  PackageManager,
+  Recipe,
+  RecipeContext,
+  RecipeFix,
+} from './types.js';
+
+const execFileAsync = promisify(execFile);
+
+const COMMAND_TIMEOUT_MS = 300000;
+
+// Dependencies are installed into the workspace, never part of a patch
+const EXCLUDED_PATHS = [':(exclude,glob)**/node_modules/**'];
+
+export interface RunRecipesOptions {
+  // Checks out the failing commit; called only once a recipe matches
+  checkout: () => Promise<RepositoryWorkspace>;
+  allowedRootCauses?: RootCause[] | undefined;
+}
+
+/**
+ * Registry of deterministic fixers, tried in registration order
+ */
+export class RecipeEngine {
+  private readonly recipes = new Map<string, Recipe>();
+
+  constructor(recipes: Recipe[] = []) {
+    for (const recipe of recipes) {
+      this.register(recipe);
+    }
+  }
+
+  register(recipe: Recipe): this {
+    if (this.recipes.has(recipe.id)) {
+      throw new Error(`Recipe ${recipe.id} is already registered`);
+    }
+    this.recipes.set(recipe.id, recipe);
+    return this;
+  }
+
+  unregister(id: string): boolean {
+    return this.recipes.delete(id);
+  }
+
+  list(): Recipe[] {
+    return [...this.recipes.values()];
+  }
+
+  /**
+   * Recipes whose matcher accepts the report
+   */
+  match(report: FailureReport): Recipe[] {
+    return this.list().filter(recipe => {
+      try {
+        return recipe.match(report);
+      } catch (error) {
+        logger.warn('Recipe matcher failed', {
+          recipe: recipe.id,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        return false;
+      }
+    });
+  }
+
+  /**
+   * Fix the failure with the first matching recipe that changes something
+   *
+   * A recipe that throws or leaves the workspace untouched is skipped and its
+   * changes are discarded before the next one runs. Returns undefined when no
+   * recipe fixes the failure, without checking anything out if none matched.
+   */
+  async run(
+    report: FailureReport,
+    options: RunRecipesOptions
+  ): Promise<RecipeFix | undefined> {
+    const matched = this.match(report).filter(
+      recipe =>
+        !options.allowedRootCauses ||
+        options.allowedRootCauses.includes(recipe.rootCause)
+    );
+
+    if (matched.length === 0) {
+      return undefined;
+    }
+
+    const workspace = await options.checkout();
+    const context = createContext(report, workspace.root);
+
+    for (const recipe of matched) {
+      try {
+        await recipe.apply(context);
+        await git(workspace.root, [
+          'add',
+          '--all',
+          '--',
+          '.',
+          ...EXCLUDED_PATHS,
+        ]);
+        const patch = await git(workspace.root, [
+          'diff',
+          '--cached',
+          '--binary',
+          '--',
+          '.',
+          ...EXCLUDED_PATHS,
+        ]);
+
+        if (patch.trim()) {
+          logger.info('Recipe fixed the failure', {
+            repository: report.repository,
+            recipe: recipe.id,
+          });
+
+          return {
+            recipe: recipe.id,
+            rootCause: recipe.rootCause,
+            confidence: recipe.confidence,
+            explanation: recipe.description,
+            patch,
+          };
+        }
+
+        logger.info('Recipe made no changes', {
+          repository: report.repository,
+          recipe: recipe.id,
+        });
+      } catch (error) {
+        logger.warn('Recipe failed', {
+          repository: report.repository,
+          recipe: recipe.id,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+
+      await git(workspace.root, ['reset', '--quiet', '--hard']);
+      await git(workspace.root, [
+        'clean',
+        '--quiet',
+        '-fd',
+        '-e',
+        'node_modules',
+      ]);
+    }
+
+    return undefined;
+  }
+}
+
+function createContext(report: FailureReport, root: string): RecipeContext {
+  const packageManager = detectPackageManager(root);
+  let installed: Promise<void> | undefined;
+
+  const run = async (command: string, args: string[]) => {
+    try {
+      const { stdout } = await execFileAsync(command, args, {
+        cwd: root,
+        timeout: COMMAND_TIMEOUT_MS,
+        maxBuffer: 10 * 1024 * 1024,
+        // The repository's tooling runs here, so it gets no worker secrets
+        env: {
+          PATH: process.env['PATH'],
+          HOME: process.env['HOME'],
+          CI: 'true',
+        },
+      });
+      return stdout;
+    } catch (error) {
+      const { stdout, stderr } = error as { stdout?: string; stderr?: string };
+      throw new Error(
+        [`${command} ${args.join(' ')} failed`, stdout, stderr]
+          .filter(Boolean)
+          .join('\n')
+      );
+    }
+  };
+
+  return {
+    report,
+    root,
+    packageManager,
+    run,
+    installDependencies: () => {
+      installed ??= run(packageManager, installArgs(root, packageManager)).then(
+        () => undefined
+      );
+      return installed;
+    },
+    bin: name => join(root, 'node_modules', '.bin', name),
+  };
+}
+
+function detectPackageManager(root: string): PackageManager {
+  if (existsSync(join(root, 'pnpm-lock.yaml'))) {
+    return 'pnpm';
+  }
+  if (existsSync(join(root, 'yarn.lock'))) {
+    return 'yarn';
+  }
+  return 'npm';
+}
+
+function installArgs(root: string, packageManager: PackageManager): string[] {
+  if (packageManager !== 'npm') {
+    return ['install', '--frozen-lockfile', '--ignore-scripts'];
+  }
+  // `npm ci` refuses to run without a lockfile
+  return [
+    existsSync(join(root, 'package-lock.json')) ? 'ci' : 'install',
+    '--ignore-scripts',
+    '--no-audit',
+    '--no-fund',
+  ];
+}
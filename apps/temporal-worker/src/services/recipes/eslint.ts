@@ -0,0 +1,46 @@
+import { RootCause } from '../../workflows/self-healing-workflow.js';
+import { changedFiles, existingFiles, failureText } from './matching.js';
+import type { Recipe } from './types.js';
+
+// ESLint's summary when some of the problems have automatic fixes
+const FIXABLE_PROBLEMS =
+  /\d+ problems? \(\d+ errors?, \d+ warnings?\)[\s\S]*potentially fixable with the `--fix` option/;
+
+const LINTED_EXTENSIONS = [
+  '.js',
+  '.jsx',
+  '.mjs',
+  '.cjs',
+  '.ts',
+  '.tsx',
+  '.mts',
+  '.cts',
+  '.vue',
+];
+
+/**
+ * Apply ESLint's automatic fixes to the changed files
+ *
+ * Fails, and so leaves the failure to the diagnosis provider, when problems
+ * without an automatic fix remain.
+ */
+export const eslintRecipe: Recipe = {
+  id: 'eslint-fix',
+  description:
+    'ESLint reported problems that have automatic fixes. Applied them with `eslint --fix`.',
+  rootCause: RootCause.CONFIG_ERROR,
+  confidence: 0.9,
+  match: report => FIXABLE_PROBLEMS.test(failureText(report)),
+  apply: async context => {
+    const files = existingFiles(
+      context.root,
+      changedFiles(context.report, LINTED_EXTENSIONS)
+    );
+
+    await context.installDependencies();
+    await context.run(context.bin('eslint'), [
+      '--fix',
+      ...(files.length > 0 ? files : ['.']),
+    ]);
+  },
+};
@@ -0,0 +1,46 @@
+import { RecipeEngine } from './engine.js';
+import { eslintRecipe } from './eslint.js';
+import { jestSnapshotRecipe } from './jest-snapshot.js';
+import { lockfileRecipe } from './lockfile.js';
+import { missingTypesRecipe } from './missing-types.js';
+import { prettierRecipe } from './prettier.js';
+import type { Recipe } from './types.js';
+
+export * from './types.js';
+export { RecipeEngine } from './engine.js';
+export type { RunRecipesOptions } from './engine.js';
+export { changedFiles, existingFiles, failureText } from './matching.js';
+export {
+  eslintRecipe,
+  jestSnapshotRecipe,
+  lockfileRecipe,
+  missingTypesRecipe,
+  prettierRecipe,
+};
+
+/**
+ * Built-in recipes, in the order they are tried
+ *
+ * Dependency fixes come first since nothing else can run until the install
+ * works.
+ */
+export const defaultRecipes: Recipe[] = [
+  lockfileRecipe,
+  missingTypesRecipe,
+  prettierRecipe,
+  eslintRecipe,
+  jestSnapshotRecipe,
+];
+
+let defaultEngine: RecipeEngine | undefined;
+
+/**
+ * Engine used by `diagnoseFailure`
+ *
+ * Starts with the built-in recipes; register more on it when the worker
+ * starts.
+ */
+export function getRecipeEngine(): RecipeEngine {
+  defaultEngine ??= new RecipeEngine(defaultRecipes);
+  return defaultEngine;
+}
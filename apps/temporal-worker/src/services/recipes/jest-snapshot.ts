@@ -0,0 +1,51 @@
+import { existsSync } from 'fs';
+import { RootCause } from '../../workflows/self-healing-workflow.js';
+import { existingFiles } from './matching.js';
+import type { FailureReport, Recipe } from './types.js';
+
+const SNAPSHOT_MISMATCH =
+  /toMatch(?:Inline)?Snapshot|Snapshot name: `|snapshots? failed/;
+
+function failedTests(report: FailureReport) {
+  return report.failureData.failedTests.filter(
+    test => test.status === 'failed' || test.status === 'errored'
+  );
+}
+
+/**
+ * Update snapshots when every failed test is a snapshot mismatch
+ *
+ * An outdated snapshot and a real regression look the same, hence the lower
+ * confidence than the other recipes.
+ */
+export const jestSnapshotRecipe: Recipe = {
+  id: 'jest-snapshot',
+  description:
+    'The only failing tests are snapshot mismatches, which usually follow an intended change in output. Updated the snapshots of the failing test files.',
+  rootCause: RootCause.API_CHANGE,
+  confidence: 0.7,
+  match: report => {
+    const failed = failedTests(report);
+    return (
+      failed.length > 0 &&
+      failed.every(test => SNAPSHOT_MISMATCH.test(test.failureMessage ?? ''))
+    );
+  },
+  apply: async context => {
+    const files = existingFiles(context.root, [
+      ...new Set(
+        failedTests(context.report).flatMap(test =>
+          test.file ? [test.file] : []
+        )
+      ),
+    ]);
+
+    await context.installDependencies();
+    // Vitest shares Jest's snapshot format and `-u` flag
+    if (existsSync(context.bin('vitest'))) {
+      await context.run(context.bin('vitest'), ['run', '-u', ...files]);
+    } else {
+      await context.run(context.bin('jest'), ['--ci=false', '-u', ...files]);
+    }
+  },
+};
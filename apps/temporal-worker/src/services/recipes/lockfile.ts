@@ -0,0 +1,36 @@
+import { RootCause } from '../../workflows/self-healing-workflow.js';
+import { failureText } from './matching.js';
+import type { PackageManager, Recipe } from './types.js';
+
+// Frozen installs refusing a lockfile that no longer matches package.json
+const OUTDATED_LOCKFILE = [
+  /`npm ci` can only install packages when your package\.json and package-lock\.json/,
+  /ERR_PNPM_OUTDATED_LOCKFILE/,
+  /Your lockfile needs to be updated, but yarn was run with `--frozen-lockfile`/,
+  /The lockfile would have been modified by this install, which is explicitly forbidden/,
+];
+
+const LOCKFILE_ONLY_INSTALL: Record<PackageManager, string[]> = {
+  npm: ['install', '--package-lock-only', '--ignore-scripts', '--no-audit'],
+  pnpm: ['install', '--lockfile-only', '--ignore-scripts'],
+  yarn: ['install', '--ignore-scripts'],
+};
+
+/**
+ * Regenerate a lockfile that is out of sync with package.json
+ */
+export const lockfileRecipe: Recipe = {
+  id: 'lockfile',
+  description:
+    'The lockfile is out of sync with package.json, so the frozen install failed. Regenerated the lockfile from package.json.',
+  rootCause: RootCause.DEP_UPGRADE,
+  confidence: 0.95,
+  match: report =>
+    OUTDATED_LOCKFILE.some(pattern => pattern.test(failureText(report))),
+  apply: async context => {
+    await context.run(
+      context.packageManager,
+      LOCKFILE_ONLY_INSTALL[context.packageManager]
+    );
+  },
+};
@@ -0,0 +1,43 @@
+import { existsSync } from 'fs';
+import { isAbsolute, relative, resolve } from 'path';
+import type { FailureReport } from './types.js';
+
+/**
+ * Build logs and failure messages of a report, searched by recipe matchers
+ */
+export function failureText(report: FailureReport): string {
+  return [
+    report.failureData.buildLogs,
+    ...report.failureData.failedTests.map(test => test.failureMessage ?? ''),
+  ].join('\n');
+}
+
+/**
+ * Changed files the run touched with one of the given extensions
+ */
+export function changedFiles(
+  report: FailureReport,
+  extensions: string[]
+): string[] {
+  return report.failureData.changedFiles.filter(file =>
+    extensions.some(extension => file.endsWith(extension))
+  );
+}
+
+/**
+ * Files that exist inside the workspace, safe to pass as command arguments
+ *
+ * Paths come from logs, so anything that escapes the workspace or could be
+ * read as an option is dropped.
+ */
+export function existingFiles(root: string, files: string[]): string[] {
+  return files.filter(file => {
+    const path = relative(root, resolve(root, file));
+    return (
+      !file.startsWith('-') &&
+      !path.startsWith('..') &&
+      !isAbsolute(path) &&
+      existsSync(resolve(root, file))
+    );
+  });
+}
@@ -0,0 +1,44 @@
+import { RootCause } from '../../workflows/self-healing-workflow.js';
+import { failureText } from './matching.js';
+import type { FailureReport, PackageManager, Recipe } from './types.js';
+
+// TypeScript's TS7016 hint names the package to install
+const MISSING_TYPES = /npm i --save-dev (@types\/[a-z0-9][\w.-]*)/g;
+
+const ADD_DEV_DEPENDENCY: Record<PackageManager, string[]> = {
+  npm: [
+    'install',
+    '--save-dev',
+    '--package-lock-only',
+    '--ignore-scripts',
+    '--no-audit',
+  ],
+  pnpm: ['add', '--save-dev', '--lockfile-only', '--ignore-scripts'],
+  yarn: ['add', '--dev', '--ignore-scripts'],
+};
+
+function missingTypes(report: FailureReport): string[] {
+  return [
+    ...new Set(
+      [...failureText(report).matchAll(MISSING_TYPES)].map(match => match[1]!)
+    ),
+  ];
+}
+
+/**
+ * Add the `@types/*` packages TypeScript reports as missing
+ */
+export const missingTypesRecipe: Recipe = {
+  id: 'missing-types',
+  description:
+    'TypeScript could not find declaration files for some modules (TS7016). Added the matching @types packages as dev dependencies.',
+  rootCause: RootCause.DEP_UPGRADE,
+  confidence: 0.85,
+  match: report => missingTypes(report).length > 0,
+  apply: async context => {
+    await context.run(context.packageManager, [
+      ...ADD_DEV_DEPENDENCY[context.packageManager],
+      ...missingTypes(context.report),
+    ]);
+  },
+};
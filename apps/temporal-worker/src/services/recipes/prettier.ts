@@ -0,0 +1,40 @@
+import { RootCause } from '../../workflows/self-healing-workflow.js';
+import { existingFiles, failureText } from './matching.js';
+import type { FailureReport, Recipe } from './types.js';
+
+// Prettier 2 and 3 summaries of `prettier --check`
+const CODE_STYLE_ISSUES = /Code style issues (?:were )?found in/;
+
+// `[warn] path` lines list the unformatted files
+const UNFORMATTED_FILE = /\[warn\] (\S+)\s*$/gm;
+
+function unformattedFiles(report: FailureReport): string[] {
+  return [
+    ...new Set(
+      [...report.failureData.buildLogs.matchAll(UNFORMATTED_FILE)].map(
+        match => match[1]!
+      )
+    ),
+  ];
+}
+
+/**
+ * Format the files `prettier --check` complained about
+ */
+export const prettierRecipe: Recipe = {
+  id: 'prettier',
+  description:
+    'Prettier found files that are not formatted. Formatted them with the repository Prettier configuration.',
+  rootCause: RootCause.CONFIG_ERROR,
+  confidence: 0.95,
+  match: report => CODE_STYLE_ISSUES.test(failureText(report)),
+  apply: async context => {
+    const files = existingFiles(context.root, unformattedFiles(context.report));
+
+    await context.installDependencies();
+    await context.run(context.bin('prettier'), [
+      '--write',
+      ...(files.length > 0 ? files : ['.']),
+    ]);
+  },
+};
@@ -0,0 +1,61 @@
+import type { FailureData } from '../../types/stubs.js';
+import type { RootCause } from '../../workflows/self-healing-workflow.js';
+
+/**
+ * The failed run a recipe is matched against
+ */
+export interface FailureReport {
+  repository: string;
+  headSha: string;
+  failureData: FailureData;
+}
+
+export type PackageManager = 'npm' | 'pnpm' | 'yarn';
+
+/**
+ * Checked-out repository a recipe edits to produce its patch
+ */
+export interface RecipeContext {
+  report: FailureReport;
+  root: string;
+  packageManager: PackageManager;
+  /**
+   * Run a command in the workspace without a shell; rejects on a non-zero
+   * exit with the command's output
+   */
+  run(command: string, args: string[]): Promise<string>;
+  /**
+   * Install the repository's dependencies without lifecycle scripts, once
+   * per workspace
+   */
+  installDependencies(): Promise<void>;
+  /**
+   * Path of a binary installed by the repository's dependencies
+   */
+  bin(name: string): string;
+}
+
+/**
+ * A deterministic fix for one kind of failure
+ *
+ * `match` looks at the report only and must be cheap: the repository is
+ * checked out only once some recipe matches. `apply` edits the workspace;
+ * whatever it changes becomes the patch.
+ */
+export interface Recipe {
+  id: string;
+  description: string;
+  rootCause: RootCause;
+  // Between 0 and 1, like a diagnosis provider's confidence
+  confidence: number;
+  match(report: FailureReport): boolean;
+  apply(context: RecipeContext): Promise<void>;
+}
+
+export interface RecipeFix {
+  recipe: string;
+  rootCause: RootCause;
+  confidence: number;
+  explanation: string;
+  patch: string;
+}
@@ -0,0 +1,321 @@
+import type {
+  DiagnosisToolCall,
+  DiagnosisToolDefinition,
+} from '@self-healing-ci/diagnosis/diagnosis-providers';
+import { readdir, readFile, realpath } from 'fs/promises';
+import { join, relative, resolve, sep } from 'path';
+import { z } from 'zod';
+import { git } from './repository-workspace.js';
+
+// Longest tool output returned to the model
+const MAX_TOOL_OUTPUT_LENGTH = 12000;
+
+// Most lines `read_file` and `git_blame` return in one call
+const MAX_LINES_PER_CALL = 400;
+
+const MAX_GREP_MATCHES = 200;
+
+const MAX_LOG_ENTRIES = 50;
+
+export interface RepositoryToolContext {
+  root: string;
+  // Runs one test by name; `run_single_test` is offered only when set
+  runTest?:
+    | ((test: string) => Promise<{ success: boolean; output: string }>)
+    | undefined;
+}
+
+const ReadFileInputSchema = z.object({
+  path: z.string().min(1),
+  startLine: z.number().int().positive().optional(),
+  endLine: z.number().int().positive().optional(),
+});
+
+const GrepRepoInputSchema = z.object({
+  pattern: z.string().min(1),
+  path: z.string().min(1).optional(),
+});
+
+const ListDirInputSchema = z.object({
+  path: z.string().min(1).default('.'),
+});
+
+const GitLogInputSchema = z.object({
+  path: z.string().min(1).optional(),
+  maxCount: z.number().int().positive().max(MAX_LOG_ENTRIES).default(10),
+});
+
+const GitBlameInputSchema = z.object({
+  path: z.string().min(1),
+  startLine: z.number().int().positive(),
+  endLine: z.number().int().positive(),
+});
+
+const RunSingleTestInputSchema = z.object({
+  test: z.string().min(1),
+});
+
+const REPOSITORY_TOOLS: DiagnosisToolDefinition[] = [
+  {
+    name: 'read_file',
+    description:
+      'Read a file at the failing commit, with line numbers. Optionally limit to a line range.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        path: {
+          type: 'string',
+          description: 'Path relative to the repository root',
+        },
+        startLine: { type: 'integer', minimum: 1 },
+        endLine: { type: 'integer', minimum: 1 },
+      },
+      required: ['path'],
+    },
+  },
+  {
+    name: 'grep_repo',
+    description:
+      'Search tracked files for an extended regular expression. Returns file:line:text matches.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        pattern: { type: 'string' },
+        path: { type: 'string', description: 'Limit the search to this path' },
+      },
+      required: ['pattern'],
+    },
+  },
+  {
+    name: 'list_dir',
+    description: 'List the entries of a directory; directories end with /.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        path: {
+          type: 'string',
+          description: 'Defaults to the repository root',
+        },
+      },
+    },
+  },
+  {
+    name: 'git_log',
+    description: 'Show recent commits, optionally only those touching a path.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        path: { type: 'string' },
+        maxCount: { type: 'integer', minimum: 1, maximum: MAX_LOG_ENTRIES },
+      },
+    },
+  },
+  {
+    name: 'git_blame',
+    description:
+      'Show the commit and author of each line in a range of a file.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        path: { type: 'string' },
+        startLine: { type: 'integer', minimum: 1 },
+        endLine: { type: 'integer', minimum: 1 },
+      },
+      required: ['path', 'startLine', 'endLine'],
+    },
+  },
+  {
+    name: 'run_single_test',
+    description:
+      'Run one test at the failing commit and return whether it passed and its output.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        test: { type: 'string', description: 'Name of the test to run' },
+      },
+      required: ['test'],
+    },
+  },
+];
+
+/**
+ * Tools available against a workspace
+ */
+export function getRepositoryTools(
+  context: RepositoryToolContext
+): DiagnosisToolDefinition[] {
+  return REPOSITORY_TOOLS.filter(
+    tool => tool.name !== 'run_single_test' || context.runTest
+  );
+}
+
+/**
+ * Run a tool call against the workspace and return its output
+ *
+ * Paths are resolved inside the workspace; anything escaping it, directly or
+ * through a symlink, is rejected. Invalid input and failures are thrown so
+ * the caller can report them to the model as tool errors.
+ */
+export async function executeRepositoryTool(
+  context: RepositoryToolContext,
+  call: DiagnosisToolCall
+): Promise<string> {
+  switch (call.name) {
+    case 'read_file': {
+      const input = ReadFileInputSchema.parse(call.input);
+      const content = await readFile(
+        join(context.root, await resolveInWorkspace(context.root, input.path)),
+        'utf8'
+      );
+      const lines = content.split('\n');
+      const start = input.startLine ?? 1;
+      const end = Math.min(
+        input.endLine ?? lines.length,
+        start + MAX_LINES_PER_CALL - 1
+      );
+
+      return truncate(
+        lines
+          .slice(start - 1, end)
+          .map((line, index) => `${start + index}: ${line}`)
+          .join('\n') +
+          (end < lines.length ? `\n... (${lines.length} lines in total)` : '')
+      );
+    }
+
+    case 'grep_repo': {
+      const input = GrepRepoInputSchema.parse(call.input);
+      const paths = input.path
+        ? [await resolveInWorkspace(context.root, input.path)]
+        : [];
+      const matches = await gitOrEmpty(context.root, [
+        'grep',
+        '-n',
+        '-I',
+        '-E',
+        '-e',
+        input.pattern,
+        '--',
+        ...paths,
+      ]);
+      const lines = matches.split('\n').filter(Boolean);
+
+      if (lines.length === 0) {
+        return 'No matches';
+      }
+
+      return truncate(
+        lines.slice(0, MAX_GREP_MATCHES).join('\n') +
+          (lines.length > MAX_GREP_MATCHES
+            ? `\n... (${lines.length} matches in total)`
+            : '')
+      );
+    }
+
+    case 'list_dir': {
+      const input = ListDirInputSchema.parse(call.input);
+      const entries = await readdir(
+        join(context.root, await resolveInWorkspace(context.root, input.path)),
+        { withFileTypes: true }
+      );
+
+      return truncate(
+        entries
+          .filter(entry => entry.name !== '.git')
+          .map(entry => (entry.isDirectory() ? `${entry.name}/` : entry.name))
+          .sort()
+          .join('\n') || 'Empty directory'
+      );
+    }
+
+    case 'git_log': {
+      const input = GitLogInputSchema.parse(call.input);
+      const paths = input.path
+        ? [await resolveInWorkspace(context.root, input.path)]
+        : [];
+
+      return truncate(
+        (await git(context.root, [
+          'log',
+          `--max-count=${input.maxCount}`,
+          '--date=short',
+          '--format=%h %ad %an %s',
+          '--',
+          ...paths,
+        ])) || 'No commits'
+      );
+    }
+
+    case 'git_blame': {
+      const input = GitBlameInputSchema.parse(call.input);
+      const path = await resolveInWorkspace(context.root, input.path);
+      const end = Math.min(
+        Math.max(input.endLine, input.startLine),
+        input.startLine + MAX_LINES_PER_CALL - 1
+      );
+
+      return truncate(
+        await git(context.root, [
+          'blame',
+          '--date=short',
+          `-L${input.startLine},${end}`,
+          '--',
+          path,
+        ])
+      );
+    }
+
+    case 'run_single_test': {
+      const input = RunSingleTestInputSchema.parse(call.input);
+
+      if (!context.runTest) {
+        throw new Error('Running tests is not available');
+      }
+
+      const result = await context.runTest(input.test);
+      return truncate(
+        `${result.success ? 'PASSED' : 'FAILED'}\n${result.output}`
+      );
+    }
+
+    default:
+      throw new Error(`Unknown tool: ${call.name}`);
+  }
+}
+
+/**
+ * Resolve a path the model gave to one relative to the workspace root,
+ * refusing anything outside the workspace
+ */
+async function resolveInWorkspace(root: string, path: string): Promise<string> {
+  const realRoot = await realpath(root);
+  const resolved = await realpath(resolve(realRoot, path)).catch(() => {
+    throw new Error(`No such file or directory: ${path}`);
+  });
+
+  if (resolved !== realRoot && !resolved.startsWith(realRoot + sep)) {
+    throw new Error(`Path is outside the repository: ${path}`);
+  }
+
+  return relative(realRoot, resolved) || '.';
+}
+
+/**
+ * Run git, treating exit code 1 (no matches for `git grep`) as empty output
+ */
+async function gitOrEmpty(cwd: string, args: string[]): Promise<string> {
+  try {
+    return await git(cwd, args);
+  } catch (error) {
+    if ((error as { code?: unknown }).code === 1) {
+      return '';
+    }
+    throw error;
+  }
+}
+
+function truncate(output: string): string {
+  return output.length > MAX_TOOL_OUTPUT_LENGTH
+    ? `${output.slice(0, MAX_TOOL_OUTPUT_LENGTH)}\n... (truncated)`
+    : output;
+}
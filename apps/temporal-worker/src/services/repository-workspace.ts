@@ -0,0 +1,151 @@
+import { execFile } from 'child_process';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { promisify } from 'util';
+import type { ForgeProvider, GitCredentials } from './forge/index.js';
+import { createForgeClient } from './forge/index.js';
+
+const execFileAsync = promisify(execFile);
+
+// Commits fetched behind the head, enough for `git log` and `git blame`
+const DEFAULT_FETCH_DEPTH = 50;
+
+const GIT_TIMEOUT_MS = 120000;
+
+export interface RepositoryWorkspace {
+  root: string;
+  headSha: string;
+  cleanup(): Promise<void>;
+}
+
+export interface CheckoutRepositoryOptions {
+  remoteUrl: string;
+  headSha: string;
+  credentials?: GitCredentials | undefined;
+  depth?: number | undefined;
+}
+
+/**
+ * Check out a single commit into a fresh temporary directory
+ *
+ * Credentials are passed as an HTTP header for the fetch only, so they never
+ * end up in the workspace's git config, and they are redacted from errors.
+ */
+export async function checkoutRepository(
+  options: CheckoutRepositoryOptions
+): Promise<RepositoryWorkspace> {
+  const root = await mkdtemp(join(tmpdir(), 'self-healing-workspace-'));
+  const cleanup = () => rm(root, { recursive: true, force: true });
+  const credentials = options.credentials
+    ? Buffer.from(
+        `${options.credentials.username}:${options.credentials.password}`
+      ).toString('base64')
+    : undefined;
+  const auth = credentials
+    ? ['-c', `http.extraHeader=AUTHORIZATION: basic ${credentials}`]
+    : [];
+
+  try {
+    await git(root, ['init', '--quiet']);
+    await git(root, [
+      ...auth,
+      'fetch',
+      '--quiet',
+      '--no-tags',
+      `--depth=${options.depth ?? DEFAULT_FETCH_DEPTH}`,
+      options.remoteUrl,
+      options.headSha,
+    ]);
+    await git(root, ['checkout', '--quiet', '--detach', 'FETCH_HEAD']);
+  } catch (error) {
+    await cleanup();
+    // Failed git commands echo their arguments, header included
+    const message = [options.credentials?.password, credentials].reduce<string>(
+      (text, secret) => (secret ? text.split(secret).join('***') : text),
+      error instanceof Error ? error.message : String(error)
+    );
+    throw new Error(`Failed to check out ${options.headSha}: ${message}`);
+  }
+
+  return { root, headSha: options.headSha, cleanup };
+}
+
+/**
+ * Check out a repository at a commit, as the installation on its forge
+ */
+export async function checkoutInstallationRepository(
+  forge: ForgeProvider,
+  installationId: number,
+  repository: string,
+  headSha: string
+): Promise<RepositoryWorkspace> {
+  const client = createForgeClient(forge, installationId);
+
+  return checkoutRepository({
+    remoteUrl: await client.cloneUrl(repository),
+    headSha,
+    credentials: await client.gitCredentials(),
+  });
+}
+
+/**
+ * Run git in a directory and return its standard output
+ */
+export async function git(cwd: string, args: string[]): Promise<string> {
+  const { stdout } = await execFileAsync('git', args, {
+    cwd,
+    timeout: GIT_TIMEOUT_MS,
+    maxBuffer: 10 * 1024 * 1024,
+  });
+  return stdout;
+}
+
+/**
+ * Run a shell command in a workspace, such as the repository's analyzer
+ *
+ * The command is the repository's own, so it runs without the worker's
+ * environment and the secrets in it. A non-zero exit or a timeout is
+ * reported as a failure with the output so far, not thrown.
+ */
+export async function runCommand(
+  cwd: string,
+  command: string,
+  timeoutMs: number
+): Promise<{ success: boolean; output: string; timedOut: boolean }> {
+  try {
+    const { stdout, stderr } = await execFileAsync('sh', ['-c', command], {
+      cwd,
+      timeout: timeoutMs,
+      maxBuffer: 10 * 1024 * 1024,
+      env: {
+        PATH: process.env['PATH'],
+        HOME: process.env['HOME'],
+        CI: 'true',
+      },
+    });
+    return {
+      success: true,
+      output: [stdout, stderr].filter(Boolean).join('\n'),
+      timedOut: false,
+    };
+  } catch (error) {
+    const { stdout, stderr, killed, message } = error as Error & {
+      stdout?: string;
+      stderr?: string;
+      killed?: boolean;
+    };
+
+    return {
+      success: false,
+      output: [
+        stdout,
+        stderr,
+        killed ? `Timed out after ${timeoutMs}ms` : !stderr && message,
+      ]
+        .filter(Boolean)
+        .join('\n'),
+      timedOut: Boolean(killed),
+    };
+  }
+}
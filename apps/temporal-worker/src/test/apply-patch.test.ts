@@ -0,0 +1,153 @@
+import { afterAll, beforeAll, describe, expect, it } from '@jest/globals';
+import type { Context } from '@temporalio/activity';
+import { asyncLocalStorage } from '@temporalio/activity';
+import { execFile } from 'child_process';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { promisify } from 'util';
+import type { ApplyPatchInput } from '../activities/apply-patch.js';
+import { applyPatch } from '../activities/apply-patch.js';
+import { git } from '../services/repository-workspace.js';
+import type { FailureData } from '../types/stubs.js';
+import { RootCause } from '../workflows/self-healing-workflow.js';
+
+const AUTHOR = [
+  '-c',
+  'user.name=Octo Cat',
+  '-c',
+  'user.email=octocat@example.com',
+];
+
+const INSTALLATION_ID = 7;
+
+const failureData: FailureData = {
+  buildLogs: 'Error: greeting is missing its audience',
+  baseSha: 'base',
+  changedFiles: ['README.md'],
+  commitMessage: 'Shorten greeting',
+  author: 'octocat',
+  duration: 1000,
+  failedTests: [],
+  runner: 'ubuntu-latest',
+  os: 'linux',
+  nodeVersion: '20',
+  dependencies: {},
+  environment: {},
+  memoryUsage: 0,
+  cpuUsage: 0,
+  networkRequests: 0,
+};
+
+// Hunks that change the first line of README.md from `from` to `to`
+const readmePatch = (from: string, to: string) =>
+  [
+    '--- a/README.md',
+    '+++ b/README.md',
+    '@@ -1,1 +1,1 @@',
+    `-${from}`,
+    `+${to}`,
+    '',
+  ].join('\n');
+
+// Activities log through the activity context
+const quiet = { log: { info() {}, warn() {}, error() {}, debug() {} } };
+const inActivity = <T>(task: () => Promise<T>) =>
+  asyncLocalStorage.run(quiet as unknown as Context, task);
+
+describe('apply patch activity', () => {
+  const env = { ...process.env };
+  let origin: string;
+  let cacheDir: string;
+  let headSha: string;
+
+  beforeAll(async () => {
+    origin = await mkdtemp(join(tmpdir(), 'apply-patch-origin-'));
+    cacheDir = await mkdtemp(join(tmpdir(), 'apply-patch-cache-'));
+    await writeFile(join(origin, 'README.md'), 'hello\n');
+    await git(origin, ['init', '--quiet']);
+    await git(origin, ['add', '.']);
+    await git(origin, [...AUTHOR, 'commit', '--quiet', '-m', 'Add README']);
+    headSha = (await git(origin, ['rev-parse', 'HEAD'])).trim();
+
+    // Patch commits are always signed
+    const signingKey = join(cacheDir, 'signing-key');
+    await promisify(execFile)('ssh-keygen', [
+      '-q',
+      '-t',
+      'ed25519',
+      '-N',
+      '',
+      '-f',
+      signingKey,
+    ]);
+
+    process.env['MORPH_CACHE_DIR'] = cacheDir;
+    process.env['MORPH_SIGNING_KEY'] = signingKey;
+    process.env['MORPH_COMMIT_NAME'] = 'Octo Cat';
+    process.env['MORPH_COMMIT_EMAIL'] = 'octocat@example.com';
+    // The model answers the rejected patch with one that applies
+    process.env['DIAGNOSIS_PROVIDER_OVERRIDES'] = JSON.stringify({
+      [INSTALLATION_ID]: {
+        type: 'recorded',
+        responses: [
+          {
+            match: 'Patch failed',
+            response: {
+              rootCause: 'CONFIG_ERROR',
+              confidence: 90,
+              explanation: 'Greet the world',
+              patch: readmePatch('hello', 'hello world'),
+            },
+          },
+        ],
+      },
+    });
+  });
+
+  afterAll(async () => {
+    process.env = env;
+    await rm(origin, { recursive: true, force: true });
+    await rm(cacheDir, { recursive: true, force: true });
+  });
+
+  const input = (): ApplyPatchInput => ({
+    repository: origin,
+    headSha,
+    branch: 'main',
+    targetBranch: 'ci/self-heal/fix',
+    // Its context line is not in the file, so the hunk cannot apply
+    patch: readmePatch('goodbye', 'hello world'),
+    rootCause: RootCause.CONFIG_ERROR,
+    installationId: INSTALLATION_ID,
+  });
+
+  it('retries a rejected patch with a corrected one from the model', async () => {
+    const result = await inActivity(() =>
+      applyPatch({
+        ...input(),
+        failure: {
+          workflowRunId: 42,
+          actor: 'octocat',
+          failureData,
+          explanation: 'The greeting lost its audience',
+        },
+      })
+    );
+
+    expect(result).toMatchObject({
+      success: true,
+      filesChanged: ['README.md'],
+    });
+    await expect(
+      git(origin, ['show', 'ci/self-heal/fix:README.md'])
+    ).resolves.toBe('hello world\n');
+  });
+
+  it('gives up on a rejected patch without the failure it was made for', async () => {
+    const result = await inActivity(() => applyPatch(input()));
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('context of @@ -1,1 +1,1 @@ not found');
+  });
+});
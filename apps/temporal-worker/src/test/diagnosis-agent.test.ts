@@ -0,0 +1,228 @@
+import { afterAll, beforeAll, describe, expect, it } from '@jest/globals';
+import { RecordedResponseProvider } from '@self-healing-ci/diagnosis/diagnosis-providers';
+import { mkdir, mkdtemp, rm, symlink, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { runDiagnosisAgent } from '../services/diagnosis-agent.js';
+import type { RepositoryToolContext } from '../services/repository-tools.js';
+import {
+  executeRepositoryTool,
+  getRepositoryTools,
+} from '../services/repository-tools.js';
+import type { RepositoryWorkspace } from '../services/repository-workspace.js';
+import {
+  checkoutRepository,
+  git,
+  runCommand,
+} from '../services/repository-workspace.js';
+
+const AUTHOR = [
+  '-c',
+  'user.name=Octo Cat',
+  '-c',
+  'user.email=octocat@example.com',
+];
+
+describe('repository tools', () => {
+  let origin: string;
+  let headSha: string;
+  let workspace: RepositoryWorkspace;
+  let context: RepositoryToolContext;
+
+  beforeAll(async () => {
+    origin = await mkdtemp(join(tmpdir(), 'self-healing-origin-'));
+    await mkdir(join(origin, 'src'));
+    await writeFile(
+      join(origin, 'src/server.ts'),
+      "export const host = '0.0.0.0';\nexport const port = 3000;\n"
+    );
+    await git(origin, ['init', '--quiet']);
+    await git(origin, ['add', '.']);
+    await git(origin, [...AUTHOR, 'commit', '--quiet', '-m', 'Add server']);
+    await writeFile(
+      join(origin, 'src/server.ts'),
+      "export const host = 'localhost';\nexport const port = 3000;\n"
+    );
+    await git(origin, [
+      ...AUTHOR,
+      'commit',
+      '--quiet',
+      '-am',
+      'Bind to localhost',
+    ]);
+    headSha = (await git(origin, ['rev-parse', 'HEAD'])).trim();
+
+    workspace = await checkoutRepository({ remoteUrl: origin, headSha });
+    context = {
+      root: workspace.root,
+      runTest: async test => ({
+        success: test !== 'binds to all interfaces',
+        output: `ran ${test}`,
+      }),
+    };
+  });
+
+  afterAll(async () => {
+    await workspace.cleanup();
+    await rm(origin, { recursive: true, force: true });
+  });
+
+  const run = (name: string, input: Record<string, unknown> = {}) =>
+    executeRepositoryTool(context, { id: name, name, input });
+
+  it('checks out the head commit', async () => {
+    expect((await git(workspace.root, ['rev-parse', 'HEAD'])).trim()).toBe(
+      headSha
+    );
+    await expect(run('list_dir')).resolves.toBe('src/');
+    await expect(run('list_dir', { path: 'src' })).resolves.toBe('server.ts');
+  });
+
+  it('reads, searches and explains the history of files', async () => {
+    await expect(
+      run('read_file', { path: 'src/server.ts', startLine: 1, endLine: 1 })
+    ).resolves.toBe(
+      "1: export const host = 'localhost';\n... (3 lines in total)"
+    );
+    await expect(run('grep_repo', { pattern: 'port = [0-9]+' })).resolves.toBe(
+      'src/server.ts:2:export const port = 3000;'
+    );
+    await expect(run('grep_repo', { pattern: 'missing' })).resolves.toBe(
+      'No matches'
+    );
+    await expect(run('git_log', { path: 'src/server.ts' })).resolves.toMatch(
+      /Octo Cat Bind to localhost\n.* Octo Cat Add server/
+    );
+    await expect(
+      run('git_blame', { path: 'src/server.ts', startLine: 1, endLine: 1 })
+    ).resolves.toContain("export const host = 'localhost';");
+    await expect(
+      run('run_single_test', { test: 'binds to all interfaces' })
+    ).resolves.toBe('FAILED\nran binds to all interfaces');
+  });
+
+  it('keeps paths inside the workspace', async () => {
+    await symlink('/etc', join(workspace.root, 'escape'));
+
+    await expect(run('list_dir', { path: '..' })).rejects.toThrow(
+      'Path is outside the repository: ..'
+    );
+    await expect(run('read_file', { path: 'missing.ts' })).rejects.toThrow(
+      'No such file or directory: missing.ts'
+    );
+    await expect(run('read_file', { path: '/etc/hostname' })).rejects.toThrow(
+      'Path is outside the repository'
+    );
+    await expect(run('list_dir', { path: 'escape' })).rejects.toThrow(
+      'Path is outside the repository'
+    );
+    await expect(run('read_file', {})).rejects.toThrow();
+    await expect(run('rm_rf')).rejects.toThrow('Unknown tool: rm_rf');
+  });
+
+  it('only offers run_single_test with a test runner', () => {
+    expect(
+      getRepositoryTools({ root: workspace.root }).map(tool => tool.name)
+    ).toEqual(['read_file', 'grep_repo', 'list_dir', 'git_log', 'git_blame']);
+    expect(getRepositoryTools(context)).toHaveLength(6);
+  });
+
+  it('runs test commands in the workspace', async () => {
+    await expect(
+      runCommand(workspace.root, 'grep -c localhost src/server.ts', 10000)
+    ).resolves.toEqual({ success: true, output: '1\n', timedOut: false });
+    await expect(
+      runCommand(workspace.root, 'echo failing >&2; exit 1', 10000)
+    ).resolves.toEqual({
+      success: false,
+      output: 'failing\n',
+      timedOut: false,
+    });
+    await expect(runCommand(workspace.root, 'sleep 5', 100)).resolves.toEqual({
+      success: false,
+      output: 'Timed out after 100ms',
+      timedOut: true,
+    });
+  });
+});
+
+describe('diagnosis agent', () => {
+  const request = {
+    systemPrompt: 'Diagnose the failure',
+    userPrompt: 'FAILED TESTS:\n- app > binds to localhost',
+  };
+  const tools = getRepositoryTools({ root: '/' });
+  const answer = { rootCause: 'CONFIG_ERROR', confidence: 80, patch: '' };
+
+  it('runs tool calls until the model answers and records them', async () => {
+    const provider = new RecordedResponseProvider([
+      {
+        turn: 0,
+        toolCalls: [
+          { name: 'read_file', input: { path: 'src/server.ts' } },
+          { name: 'grep_repo', input: { pattern: 'host' } },
+        ],
+        tokensUsed: 100,
+      },
+      { turn: 1, response: answer, tokensUsed: 50 },
+    ]);
+
+    const result = await runDiagnosisAgent({
+      provider,
+      request,
+      tools,
+      executeTool: async call => {
+        if (call.name === 'grep_repo') {
+          throw new Error('grep failed');
+        }
+        return 'x'.repeat(5000);
+      },
+      maxTurns: 8,
+      maxTokens: 100000,
+    });
+
+    expect(JSON.parse(result.completion.content)).toEqual(answer);
+    expect(result.tokensUsed).toBe(150);
+    expect(result.turns).toBe(2);
+    expect(result.toolCalls).toMatchObject([
+      { turn: 0, tool: 'read_file', isError: false },
+      { turn: 0, tool: 'grep_repo', output: 'grep failed', isError: true },
+    ]);
+    expect(result.toolCalls[0]?.output).toHaveLength(
+      2000 + '\n... (truncated)'.length
+    );
+  });
+
+  it('stops running tools once the budget is spent', async () => {
+    const executed: string[] = [];
+    const provider = new RecordedResponseProvider([
+      {
+        turn: 2,
+        response: answer,
+        tokensUsed: 10,
+      },
+      {
+        toolCalls: [{ name: 'list_dir', input: {} }],
+        tokensUsed: 600,
+      },
+    ]);
+
+    const result = await runDiagnosisAgent({
+      provider,
+      request,
+      tools,
+      executeTool: async call => {
+        executed.push(call.name);
+        return 'src/';
+      },
+      maxTurns: 8,
+      maxTokens: 1000,
+    });
+
+    // The second turn goes over the token budget, so its call is refused
+    expect(executed).toEqual(['list_dir']);
+    expect(result.toolCalls).toHaveLength(1);
+    expect(result.tokensUsed).toBe(1210);
+    expect(JSON.parse(result.completion.content)).toEqual(answer);
+  });
+});
@@ -0,0 +1,258 @@
+import { afterEach, describe, expect, it } from '@jest/globals';
+import {
+  AnthropicProvider,
+  AnthropicProviderConfigSchema,
+  DiagnosisProviderError,
+  OpenAICompatibleProvider,
+  OpenAIProviderConfigSchema,
+  RecordedResponseProvider,
+  getDiagnosisProvider,
+  getDiagnosisProviderConfig,
+  promptHash,
+} from '@self-healing-ci/diagnosis/diagnosis-providers';
+import type { FakeGitHubServer } from './fixtures/fake-github-server.js';
+import { startFakeGitHubServer } from './fixtures/fake-github-server.js';
+
+const request = {
+  systemPrompt: 'Diagnose the failure',
+  userPrompt: 'FAILED TESTS:\n- app > binds to localhost',
+};
+
+describe('diagnosis providers', () => {
+  let server: FakeGitHubServer | undefined;
+
+  afterEach(async () => {
+    await server?.close();
+    server = undefined;
+  });
+
+  it('answers from recorded responses without the network', async () => {
+    const provider = new RecordedResponseProvider([
+      { promptHash: 'does-not-match', response: 'wrong', tokensUsed: 0 },
+      {
+        match: 'binds to localhost',
+        response: { rootCause: 'CONFIG_ERROR', confidence: 90 },
+        tokensUsed: 12,
+      },
+    ]);
+
+    await expect(provider.complete(request)).resolves.toEqual({
+      content: '{"rootCause":"CONFIG_ERROR","confidence":90}',
+      toolCalls: [],
+      tokensUsed: 12,
+      model: 'recorded',
+      provider: 'recorded',
+    });
+
+    const exact = new RecordedResponseProvider([
+      { promptHash: promptHash(request), response: 'exact', tokensUsed: 0 },
+    ]);
+    await expect(exact.complete(request)).resolves.toMatchObject({
+      content: 'exact',
+    });
+
+    await expect(
+      new RecordedResponseProvider([]).complete(request)
+    ).rejects.toThrow(
+      `No recorded response for prompt ${promptHash(request)} at turn 0`
+    );
+  });
+
+  it('calls the Anthropic Messages API', async () => {
+    server = await startFakeGitHubServer({
+      'POST /v1/messages': request =>
+        request.headers['x-api-key'] === 'test-key'
+          ? {
+              body: {
+                model: 'claude-test',
+                content: [{ type: 'text', text: '{"rootCause":"TIMEOUT"}' }],
+                usage: { input_tokens: 100, output_tokens: 20 },
+              },
+            }
+          : { status: 401, body: { error: { message: 'invalid x-api-key' } } },
+    });
+    const config = AnthropicProviderConfigSchema.parse({
+      type: 'anthropic',
+      model: 'claude-test',
+      baseUrl: server.url,
+    });
+
+    await expect(
+      new AnthropicProvider(config, 'test-key').complete(request)
+    ).resolves.toEqual({
+      content: '{"rootCause":"TIMEOUT"}',
+      toolCalls: [],
+      tokensUsed: 120,
+      model: 'claude-test',
+      provider: 'anthropic',
+    });
+
+    const rejected = new AnthropicProvider(config, 'wrong-key').complete(
+      request
+    );
+    await expect(rejected).rejects.toBeInstanceOf(DiagnosisProviderError);
+    await expect(rejected).rejects.toMatchObject({
+      message: 'invalid x-api-key',
+      status: 401,
+      retryable: false,
+    });
+  });
+
+  it('calls OpenAI-compatible chat completions and flags rate limits as retryable', async () => {
+    let calls = 0;
+    server = await startFakeGitHubServer({
+      'POST /v1/chat/completions': () =>
+        ++calls === 1
+          ? { status: 429, body: { error: { message: 'Rate limit reached' } } }
+          : {
+              body: {
+                model: 'llama3',
+                choices: [
+                  { message: { content: '{"rootCause":"ENV_ISSUE"}' } },
+                ],
+                usage: { total_tokens: 42 },
+              },
+            },
+    });
+    const config = OpenAIProviderConfigSchema.parse({
+      type: 'openai',
+      model: 'llama3',
+      baseUrl: `${server.url}/v1/`,
+    });
+    const provider = new OpenAICompatibleProvider(config, undefined);
+
+    await expect(provider.complete(request)).rejects.toMatchObject({
+      status: 429,
+      retryable: true,
+    });
+    await expect(provider.complete(request)).resolves.toEqual({
+      content: '{"rootCause":"ENV_ISSUE"}',
+      toolCalls: [],
+      tokensUsed: 42,
+      model: 'llama3',
+      provider: 'openai',
+    });
+  });
+
+  it('parses tool calls from both APIs', async () => {
+    server = await startFakeGitHubServer({
+      'POST /v1/messages': {
+        body: {
+          content: [
+            { type: 'text', text: 'Let me read the server.' },
+            {
+              type: 'tool_use',
+              id: 'toolu_1',
+              name: 'read_file',
+              input: { path: 'src/server.ts' },
+            },
+          ],
+          usage: { input_tokens: 10, output_tokens: 5 },
+        },
+      },
+      'POST /chat/completions': {
+        body: {
+          choices: [
+            {
+              message: {
+                content: null,
+                tool_calls: [
+                  {
+                    id: 'call_1',
+                    type: 'function',
+                    function: {
+                      name: 'grep_repo',
+                      arguments: '{"pattern":"host"}',
+                    },
+                  },
+                  {
+                    id: 'call_2',
+                    type: 'function',
+                    function: { name: 'list_dir', arguments: '{not json' },
+                  },
+                ],
+              },
+            },
+          ],
+        },
+      },
+    });
+    const toolRequest = {
+      ...request,
+      tools: [
+        { name: 'read_file', description: 'Read a file', inputSchema: {} },
+      ],
+      messages: [
+        {
+          role: 'assistant' as const,
+          content: '',
+          toolCalls: [{ id: 'toolu_0', name: 'list_dir', input: {} }],
+        },
+        {
+          role: 'tool' as const,
+          toolCallId: 'toolu_0',
+          content: 'src/',
+          isError: false,
+        },
+      ],
+    };
+
+    await expect(
+      new AnthropicProvider(
+        AnthropicProviderConfigSchema.parse({
+          type: 'anthropic',
+          baseUrl: server.url,
+        }),
+        'test-key'
+      ).complete(toolRequest)
+    ).resolves.toMatchObject({
+      content: 'Let me read the server.',
+      toolCalls: [
+        { id: 'toolu_1', name: 'read_file', input: { path: 'src/server.ts' } },
+      ],
+    });
+    await expect(
+      new OpenAICompatibleProvider(
+        OpenAIProviderConfigSchema.parse({
+          type: 'openai',
+          baseUrl: server.url,
+        }),
+        undefined
+      ).complete(toolRequest)
+    ).resolves.toMatchObject({
+      content: '',
+      toolCalls: [
+        { id: 'call_1', name: 'grep_repo', input: { pattern: 'host' } },
+        { id: 'call_2', name: 'list_dir', input: {} },
+      ],
+    });
+  });
+
+  it('selects the provider per installation', () => {
+    const env = {
+      DIAGNOSIS_PROVIDER: 'anthropic',
+      CLAUDE_API_KEY: 'key',
+      CLAUDE_MODEL: 'claude-custom',
+      DIAGNOSIS_PROVIDER_OVERRIDES: JSON.stringify({
+        '7': { type: 'openai', baseUrl: 'http://llm.internal/v1' },
+        '8': { type: 'recorded', responses: [{ response: '{}' }] },
+      }),
+    };
+
+    expect(getDiagnosisProviderConfig(1, env)).toMatchObject({
+      type: 'anthropic',
+      model: 'claude-custom',
+    });
+    expect(getDiagnosisProviderConfig(7, env)).toMatchObject({
+      type: 'openai',
+      baseUrl: 'http://llm.internal/v1',
+      apiKeyEnv: 'OPENAI_API_KEY',
+    });
+    expect(getDiagnosisProvider(8, env)).toBeInstanceOf(
+      RecordedResponseProvider
+    );
+    expect(() => getDiagnosisProvider(1, {})).toThrow(
+      'CLAUDE_API_KEY is not set'
+    );
+  });
+});
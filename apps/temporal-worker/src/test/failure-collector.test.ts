@@ -0,0 +1,300 @@
+import { afterEach, describe, expect, it } from '@jest/globals';
+import { Octokit } from '@octokit/rest';
+import type { Context } from '@temporalio/activity';
+import { asyncLocalStorage } from '@temporalio/activity';
+import { collectFailureData } from '../activities/collect-failure-data.js';
+import { collectFailureLogs } from '../services/failure-collector.js';
+import type { FakeGitHubServer } from './fixtures/fake-github-server.js';
+import {
+  createZip,
+  startFakeGitHubServer,
+} from './fixtures/fake-github-server.js';
+
+const REPO = '/repos/acme/widgets';
+const HEAD_SHA = 'a'.repeat(40);
+const BASE_SHA = 'b'.repeat(40);
+
+const input = {
+  repository: 'acme/widgets',
+  workflowRunId: 42,
+  headSha: HEAD_SHA,
+  branch: 'main',
+  installationId: 1,
+};
+
+const jobs = {
+  total_count: 2,
+  jobs: [
+    {
+      id: 1,
+      name: 'lint',
+      conclusion: 'success',
+      steps: [{ name: 'Run lint', number: 1, conclusion: 'success' }],
+    },
+    {
+      id: 2,
+      name: 'test (node 20)',
+      conclusion: 'failure',
+      steps: [
+        { name: 'Set up job', number: 1, conclusion: 'success' },
+        { name: 'Run tests', number: 2, conclusion: 'failure' },
+      ],
+    },
+  ],
+};
+
+const logArchive = createZip({
+  '0_lint.txt': '2024-05-01T10:00:00.0000000Z lint ok\n',
+  '1_test (node 20).txt': '2024-05-01T10:00:01.0000000Z full test log\n',
+  'lint/1_Run lint.txt': '2024-05-01T10:00:00.0000000Z lint ok\n',
+  'test (node 20)/1_Set up job.txt':
+    '\uFEFF2024-05-01T10:00:01.0000000Z Runner setup\n',
+  'test (node 20)/2_Run tests.txt': [
+    '2024-05-01T10:00:02.0000000Z > jest',
+    '2024-05-01T10:00:03.0000000Z export API_TOKEN=abcdefghijklmnopqrstuvwxyz012345',
+    '2024-05-01T10:00:04.0000000Z FAIL src/app.test.ts',
+    '',
+  ].join('\n'),
+});
+
+const diff = [
+  'diff --git a/src/app.ts b/src/app.ts',
+  '--- a/src/app.ts',
+  '+++ b/src/app.ts',
+  '@@ -1 +1 @@',
+  "-export const host = 'localhost';",
+  "+export const host = '0.0.0.0';",
+  '',
+].join('\n');
+
+const junit = [
+  '<?xml version="1.0"?>',
+  '<testsuites><testsuite name="app" tests="2" failures="1">',
+  '<testcase classname="app" name="starts" time="0.01"/>',
+  '<testcase classname="app" name="binds to localhost" time="0.5">',
+  '<failure message="expected localhost">at Object.&lt;anonymous&gt; (src/app.test.ts:12:5)</failure>',
+  '</testcase>',
+  '</testsuite></testsuites>',
+].join('\n');
+
+describe('collectFailureLogs', () => {
+  let server: FakeGitHubServer | undefined;
+
+  afterEach(async () => {
+    await server?.close();
+    server = undefined;
+  });
+
+  const collect = async (server: FakeGitHubServer) =>
+    collectFailureLogs(input, new Octokit({ baseUrl: server.url }));
+
+  it('collects the failed step, diff and test reports from GitHub', async () => {
+    server = await startFakeGitHubServer({
+      [`GET ${REPO}/actions/runs/42`]: {
+        body: {
+          id: 42,
+          pull_requests: [{ base: { sha: BASE_SHA } }],
+          head_commit: {
+            message: 'Listen on all interfaces',
+            author: { name: 'Octo Cat' },
+          },
+        },
+      },
+      [`GET ${REPO}/actions/runs/42/jobs`]: { body: jobs },
+      // Log and artifact downloads redirect to blob storage
+      [`GET ${REPO}/actions/runs/42/logs`]: {
+        status: 302,
+        headers: { location: '/blobs/logs.zip' },
+      },
+      'GET /blobs/logs.zip': { body: logArchive },
+      [`GET ${REPO}/compare/${BASE_SHA}...${HEAD_SHA}`]: { body: diff },
+      [`GET ${REPO}/actions/runs/42/artifacts`]: {
+        body: {
+          total_count: 2,
+          artifacts: [
+            { id: 7, name: 'test-results', size_in_bytes: 100, expired: false },
+            { id: 8, name: 'old', size_in_bytes: 100, expired: true },
+          ],
+        },
+      },
+      [`GET ${REPO}/actions/artifacts/7/zip`]: {
+        status: 302,
+        headers: { location: '/blobs/artifact-7.zip' },
+      },
+      'GET /blobs/artifact-7.zip': {
+        body: createZip({
+          'reports/junit.xml': junit,
+          'coverage/lcov.info': 'SF:src/app.ts\nend_of_record\n',
+          'notes.txt': 'ignored',
+        }),
+      },
+    });
+
+    const result = await collect(server);
+
+    expect(result.error).toBe(
+      'Step "Run tests" of job "test (node 20)" failed'
+    );
+    expect(result.failedJob).toBe('test (node 20)');
+    expect(result.failedStep).toBe('Run tests');
+    expect(result.logs).toBe('> jest\n[REDACTED]\nFAIL src/app.test.ts');
+    expect(result.redactedSecrets).toBe(1);
+    expect(JSON.stringify(result)).not.toContain('abcdefghijklmnopqrstuvwxyz');
+
+    expect(result.sections).toContainEqual({
+      job: 'test (node 20)',
+      step: 'Set up job',
+      conclusion: 'success',
+      content: 'Runner setup\n',
+    });
+    expect(result.sections).toContainEqual({
+      job: 'test (node 20)',
+      conclusion: 'failure',
+      content: 'full test log\n',
+    });
+
+    expect(result.baseSha).toBe(BASE_SHA);
+    expect(result.diff).toBe(diff);
+    expect(result.changedFiles).toEqual(['src/app.ts']);
+    expect(result.commitMessage).toBe('Listen on all interfaces');
+    expect(result.author).toBe('Octo Cat');
+
+    expect(result.testOutput).toBe(junit);
+    expect(result.artifacts?.map(artifact => artifact.kind)).toEqual([
+      'test-report',
+      'coverage',
+    ]);
+    expect(result.testCases).toEqual([
+      {
+        suite: 'app',
+        name: 'starts',
+        status: 'passed',
+        durationMs: 10,
+        stackFrames: [],
+      },
+      {
+        suite: 'app',
+        name: 'binds to localhost',
+        status: 'failed',
+        durationMs: 500,
+        failureMessage:
+          'expected localhost\nat Object.<anonymous> (src/app.test.ts:12:5)',
+        stackFrames: [
+          {
+            file: 'src/app.test.ts',
+            line: 12,
+            column: 5,
+            function: 'Object.<anonymous>',
+          },
+        ],
+        file: 'src/app.test.ts',
+        line: 12,
+      },
+    ]);
+    expect(server.requests).not.toContain(
+      `GET ${REPO}/actions/artifacts/8/zip`
+    );
+  });
+
+  it('compares push builds against the parent commit', async () => {
+    server = await startFakeGitHubServer({
+      [`GET ${REPO}/actions/runs/42`]: { body: { id: 42, pull_requests: [] } },
+      [`GET ${REPO}/actions/runs/42/jobs`]: { body: jobs },
+      [`GET ${REPO}/actions/runs/42/logs`]: { body: logArchive },
+      [`GET ${REPO}/commits/${HEAD_SHA}`]: {
+        body: { sha: HEAD_SHA, parents: [{ sha: BASE_SHA }] },
+      },
+      [`GET ${REPO}/compare/${BASE_SHA}...${HEAD_SHA}`]: { body: diff },
+      [`GET ${REPO}/actions/runs/42/artifacts`]: {
+        body: { total_count: 0, artifacts: [] },
+      },
+    });
+
+    const result = await collect(server);
+
+    expect(result.baseSha).toBe(BASE_SHA);
+    expect(result.changedFiles).toEqual(['src/app.ts']);
+    expect(result.testOutput).toBeUndefined();
+    expect(result.testCases).toBeUndefined();
+  });
+
+  it('reports an error when the run cannot be read', async () => {
+    server = await startFakeGitHubServer({});
+
+    const result = await collect(server);
+
+    expect(result).toEqual({ error: expect.stringContaining('Not Found') });
+  });
+});
+
+// Activities log through the activity context
+const quiet = { log: { info() {}, warn() {}, error() {}, debug() {} } };
+const inActivity = <T>(task: () => Promise<T>) =>
+  asyncLocalStorage.run(quiet as unknown as Context, task);
+
+describe('collectFailureData', () => {
+  let server: FakeGitHubServer | undefined;
+
+  afterEach(async () => {
+    await server?.close();
+    server = undefined;
+  });
+
+  it('maps the collected run onto the workflow failure data', async () => {
+    server = await startFakeGitHubServer({
+      [`GET ${REPO}/actions/runs/42`]: {
+        body: {
+          id: 42,
+          pull_requests: [],
+          head_commit: {
+            message: 'Listen on all interfaces',
+            author: { name: 'Octo Cat' },
+          },
+        },
+      },
+      [`GET ${REPO}/actions/runs/42/jobs`]: { body: jobs },
+      [`GET ${REPO}/actions/runs/42/logs`]: { body: logArchive },
+      [`GET ${REPO}/commits/${HEAD_SHA}`]: {
+        body: { sha: HEAD_SHA, parents: [{ sha: BASE_SHA }] },
+      },
+      [`GET ${REPO}/compare/${BASE_SHA}...${HEAD_SHA}`]: { body: diff },
+      [`GET ${REPO}/actions/runs/42/artifacts`]: {
+        body: {
+          total_count: 1,
+          artifacts: [
+            { id: 7, name: 'junit', size_in_bytes: 100, expired: false },
+          ],
+        },
+      },
+      [`GET ${REPO}/actions/artifacts/7/zip`]: {
+        body: createZip({ 'junit.xml': junit }),
+      },
+    });
+    const octokit = new Octokit({ baseUrl: server.url });
+
+    const result = await inActivity(() => collectFailureData(input, octokit));
+
+    expect(result).toMatchObject({
+      buildLogs: '> jest\n[REDACTED]\nFAIL src/app.test.ts',
+      baseSha: BASE_SHA,
+      changedFiles: ['src/app.ts'],
+      commitMessage: 'Listen on all interfaces',
+      author: 'Octo Cat',
+      failedTests: [{ suite: 'app', name: 'binds to localhost' }],
+    });
+    expect(result.failedTests).toHaveLength(1);
+  });
+
+  it('collects nothing from runs on other forges', async () => {
+    const result = await inActivity(() =>
+      collectFailureData({ ...input, forge: 'gitlab' })
+    );
+
+    expect(result).toMatchObject({
+      buildLogs: '',
+      baseSha: '',
+      changedFiles: [],
+      failedTests: [],
+    });
+  });
+});
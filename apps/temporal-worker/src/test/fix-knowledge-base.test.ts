@@ -0,0 +1,137 @@
+import { afterEach, describe, expect, it } from '@jest/globals';
+import type { RecordFixInput } from '@self-healing-ci/diagnosis/fix-knowledge-base';
+import {
+  FileFixRecordStore,
+  FixKnowledgeBase,
+  InMemoryFixRecordStore,
+  failureSignature,
+  normalizeErrorLine,
+} from '@self-healing-ci/diagnosis/fix-knowledge-base';
+import type { TestCaseResult } from '@self-healing-ci/diagnosis/test-reports';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+const portInUse = (run: string, address: string): TestCaseResult => ({
+  suite: 'server',
+  name: 'listens on the configured port',
+  status: 'failed',
+  failureMessage: `Error: listen EADDRINUSE: address already in use :::${address}\n    at Server.setupListenHandle [as _listen2] (node:net:1817:16)`,
+  stackFrames: [
+    { file: 'src/server.ts', line: 12, function: 'startServer' },
+    { file: 'test/server.test.ts', line: 8 },
+  ],
+  durationMs: Number(run),
+});
+
+const fix = (
+  workflowId: string,
+  failedTests: TestCaseResult[],
+  overrides: Partial<RecordFixInput> = {}
+): RecordFixInput => ({
+  workflowId,
+  installationId: 1,
+  repository: 'acme/widgets',
+  signature: failureSignature({ logs: '', failedTests }),
+  rootCause: 'CONFIG_ERROR',
+  explanation: 'The port is hardcoded',
+  patch: '--- a/src/server.ts\n+++ b/src/server.ts',
+  outcome: 'merged',
+  ...overrides,
+});
+
+describe('fix knowledge base', () => {
+  let directory: string | undefined;
+
+  afterEach(async () => {
+    if (directory) {
+      await rm(directory, { recursive: true, force: true });
+      directory = undefined;
+    }
+  });
+
+  it('normalises what changes between runs of the same failure', () => {
+    expect(
+      normalizeErrorLine(
+        '2024-05-01T10:00:00.1234567Z \u001b[31mError\u001b[39m: segfault at 0x7ffd3a2b in a1b2c3d4e5 (src/app.ts:12:7) after 350ms'
+      )
+    ).toBe('Error: segfault at <hex> in <sha> (src/app.ts) after <duration>');
+
+    const first = failureSignature({
+      logs: '2024-05-01T10:00:00Z npm ERR! code 1',
+      failedTests: [portInUse('10', '3000')],
+    });
+    const second = failureSignature({
+      logs: '2024-06-02T11:30:00Z npm ERR! code 1',
+      failedTests: [portInUse('25', '3001')],
+    });
+
+    expect(second.fingerprint).toBe(first.fingerprint);
+    expect(first.terms).toEqual(
+      expect.arrayContaining([
+        'eaddrinuse',
+        'test:server > listens on the configured port',
+        'frame:src/server.ts:startServer',
+      ])
+    );
+  });
+
+  it('finds fixes for similar failures within the installation', async () => {
+    const knowledgeBase = new FixKnowledgeBase(new InMemoryFixRecordStore());
+    const unrelated: TestCaseResult = {
+      suite: 'parser',
+      name: 'parses dates',
+      status: 'failed',
+      failureMessage: 'AssertionError: expected 2024 to equal 2025',
+      stackFrames: [{ file: 'src/dates.ts', function: 'parseDate' }],
+    };
+
+    await knowledgeBase.recordFix(fix('wf-1', [portInUse('1', '3000')]));
+    await knowledgeBase.recordFix(
+      fix('wf-2', [unrelated], { rootCause: 'API_CHANGE' })
+    );
+    await knowledgeBase.recordFix(
+      fix('wf-3', [portInUse('1', '3000')], { installationId: 2 })
+    );
+
+    const similar = await knowledgeBase.findSimilar(
+      failureSignature({ logs: '', failedTests: [portInUse('9', '4000')] }),
+      { installationId: 1 }
+    );
+
+    expect(similar).toHaveLength(1);
+    expect(similar[0]).toMatchObject({
+      record: { workflowId: 'wf-1', rootCause: 'CONFIG_ERROR' },
+      similarity: 1,
+    });
+
+    // A revert updates the same record rather than adding another
+    await knowledgeBase.recordFix(
+      fix('wf-1', [portInUse('1', '3000')], { outcome: 'reverted' })
+    );
+    const [reverted] = await knowledgeBase.findSimilar(
+      failureSignature({ logs: '', failedTests: [portInUse('9', '4000')] }),
+      { installationId: 1 }
+    );
+    expect(reverted?.record.outcome).toBe('reverted');
+  });
+
+  it('persists records to a JSON Lines file', async () => {
+    directory = await mkdtemp(join(tmpdir(), 'fix-knowledge-base-'));
+    const path = join(directory, 'nested', 'fixes.jsonl');
+    const knowledgeBase = new FixKnowledgeBase(new FileFixRecordStore(path));
+
+    await Promise.all([
+      knowledgeBase.recordFix(fix('wf-1', [portInUse('1', '3000')])),
+      knowledgeBase.recordFix(fix('wf-2', [portInUse('1', '3000')])),
+    ]);
+    await writeFile(path, `${await readFile(path, 'utf8')}not json\n`);
+
+    // Concurrent fixes are saved in whichever order they finish
+    const reopened = new FileFixRecordStore(path);
+    const workflowIds = (await reopened.list()).map(
+      record => record.workflowId
+    );
+    expect(workflowIds.sort()).toEqual(['wf-1', 'wf-2']);
+  });
+});
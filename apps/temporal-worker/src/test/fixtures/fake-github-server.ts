@@ -0,0 +1,151 @@
+import type { IncomingMessage, Server, ServerResponse } from 'node:http';
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { deflateRawSync } from 'node:zlib';
+
+export interface FakeResponse {
+  status?: number;
+  headers?: Record<string, string>;
+  body?: unknown;
+}
+
+export type FakeRoute = (
+  request: IncomingMessage,
+  url: URL
+) => FakeResponse | undefined;
+
+export interface FakeGitHubServer {
+  url: string;
+  requests: string[];
+  close: () => Promise<void>;
+}
+
+/**
+ * Start a local HTTP server that answers GitHub API requests from a route
+ * table keyed by `METHOD /path`
+ *
+ * Unknown routes answer 404 like the real API. Every request is recorded as
+ * `METHOD /path?query` so tests can assert on what was called.
+ */
+export async function startFakeGitHubServer(
+  routes: Record<string, FakeResponse | FakeRoute>
+): Promise<FakeGitHubServer> {
+  const requests: string[] = [];
+
+  const server: Server = createServer(
+    (request: IncomingMessage, response: ServerResponse) => {
+      const url = new URL(request.url ?? '/', 'http://localhost');
+      requests.push(`${request.method} ${url.pathname}${url.search}`);
+
+      const route = routes[`${request.method} ${url.pathname}`];
+      const answer = typeof route === 'function' ? route(request, url) : route;
+      const {
+        status = 200,
+        headers = {},
+        body,
+      } = answer ?? {
+        status: 404,
+        body: { message: 'Not Found' },
+      };
+
+      if (Buffer.isBuffer(body)) {
+        response.writeHead(status, {
+          'content-type': 'application/zip',
+          ...headers,
+        });
+        response.end(body);
+      } else if (typeof body === 'string') {
+        response.writeHead(status, {
+          'content-type': 'text/plain; charset=utf-8',
+          ...headers,
+        });
+        response.end(body);
+      } else {
+        response.writeHead(status, {
+          'content-type': 'application/json; charset=utf-8',
+          ...headers,
+        });
+        response.end(body === undefined ? '' : JSON.stringify(body));
+      }
+    }
+  );
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () =>
+      new Promise<void>((resolve, reject) =>
+        server.close(error => (error ? reject(error) : resolve()))
+      ),
+  };
+}
+
+/**
+ * Build a deflated zip archive like the ones GitHub serves for logs and
+ * artifacts
+ */
+export function createZip(files: Record<string, string>): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, text] of Object.entries(files)) {
+    const fileName = Buffer.from(name, 'utf8');
+    const content = Buffer.from(text, 'utf8');
+    const compressed = deflateRawSync(content);
+    const crc = crc32(content);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(content.length, 22);
+    local.writeUInt16LE(fileName.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(content.length, 24);
+    central.writeUInt16LE(fileName.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    locals.push(local, fileName, compressed);
+    centrals.push(central, fileName);
+    offset += local.length + fileName.length + compressed.length;
+  }
+
+  const centralDirectory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 8);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, centralDirectory, end]);
+}
+
+/**
+ * CRC-32 checksum used by zip entries
+ */
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+
+  for (const byte of data) {
+    crc ^= byte;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 1 ? (crc >>> 1) ^ 0xedb88320 : crc >>> 1;
+    }
+  }
+
+  return (crc ^ 0xffffffff) >>> 0;
+}
@@ -0,0 +1,221 @@
+import { afterEach, describe, expect, it } from '@jest/globals';
+import {
+  BitbucketForgeClient,
+  ForgeError,
+  GitLabForgeClient,
+  createForgeClient,
+} from '../services/forge/index.js';
+import type { FakeGitHubServer } from './fixtures/fake-github-server.js';
+import { startFakeGitHubServer } from './fixtures/fake-github-server.js';
+
+const mergeRequest = {
+  repository: 'platform/ci/widgets',
+  sourceBranch: 'ci/self-heal/abc1234',
+  targetBranch: 'main',
+  title: 'fix: Self-healing CI automated fix',
+  body: 'Root cause: DEP_UPGRADE',
+};
+
+describe('forge clients', () => {
+  let server: FakeGitHubServer | undefined;
+
+  afterEach(async () => {
+    await server?.close();
+    server = undefined;
+  });
+
+  it('opens, comments on, closes and merges GitLab merge requests', async () => {
+    const project = '/api/v4/projects/platform%2Fci%2Fwidgets';
+    server = await startFakeGitHubServer({
+      [`POST ${project}/merge_requests`]: request =>
+        request.headers['private-token'] === 'gitlab-token'
+          ? {
+              status: 201,
+              body: { iid: 7, web_url: 'https://gitlab.test/mr/7' },
+            }
+          : { status: 401, body: { message: '401 Unauthorized' } },
+      [`POST ${project}/merge_requests/7/notes`]: { status: 201, body: {} },
+      [`GET ${project}/merge_requests/7`]: {
+        body: { iid: 7, state: 'opened' },
+      },
+      [`PUT ${project}/merge_requests/7`]: { body: { state: 'closed' } },
+      [`GET ${project}/merge_requests/8`]: {
+        body: { iid: 8, state: 'merged' },
+      },
+      [`PUT ${project}/merge_requests/9/merge`]: {
+        body: { iid: 9, state: 'merged', sha: 'abc', merge_commit_sha: 'def' },
+      },
+    });
+    const client = new GitLabForgeClient({
+      baseUrl: server.url,
+      token: 'gitlab-token',
+    });
+
+    await expect(client.openMergeRequest(mergeRequest)).resolves.toEqual({
+      number: 7,
+      url: 'https://gitlab.test/mr/7',
+    });
+    await client.postComment(mergeRequest.repository, 7, 'Rolling back');
+    await client.closeMergeRequest(mergeRequest.repository, 7);
+    await client.closeMergeRequest(mergeRequest.repository, 8);
+    await expect(
+      client.mergeMergeRequest(mergeRequest.repository, 9, {
+        sourceBranch: mergeRequest.sourceBranch,
+        headSha: 'abc',
+        deleteSourceBranch: true,
+      })
+    ).resolves.toEqual({ mergeCommitSha: 'def', branchDeleted: true });
+
+    expect(server.requests).toEqual([
+      `POST ${project}/merge_requests`,
+      `POST ${project}/merge_requests/7/notes`,
+      `GET ${project}/merge_requests/7`,
+      `PUT ${project}/merge_requests/7`,
+      `GET ${project}/merge_requests/8`,
+      `PUT ${project}/merge_requests/9/merge`,
+    ]);
+  });
+
+  it('opens and declines Bitbucket pull requests', async () => {
+    const repository = '/repositories/acme/widgets';
+    server = await startFakeGitHubServer({
+      [`POST ${repository}/pullrequests`]: {
+        status: 201,
+        body: { id: 3, links: { html: { href: 'https://bb.test/pr/3' } } },
+      },
+      [`GET ${repository}/pullrequests/3`]: { body: { id: 3, state: 'OPEN' } },
+      [`POST ${repository}/pullrequests/3/decline`]: { body: {} },
+    });
+    const client = new BitbucketForgeClient({
+      baseUrl: server.url,
+      token: 'bitbucket-token',
+    });
+
+    await expect(
+      client.openMergeRequest({ ...mergeRequest, repository: 'acme/widgets' })
+    ).resolves.toEqual({ number: 3, url: 'https://bb.test/pr/3' });
+    await client.closeMergeRequest('acme/widgets', 3);
+
+    expect(server.requests).toEqual([
+      `POST ${repository}/pullrequests`,
+      `GET ${repository}/pullrequests/3`,
+      `POST ${repository}/pullrequests/3/decline`,
+    ]);
+    await expect(
+      client.postComment('platform/ci/widgets', 3, 'Rolling back')
+    ).rejects.toThrow('Invalid Bitbucket repository name');
+  });
+
+  it('undoes healing side effects on GitLab and Bitbucket', async () => {
+    const project = '/api/v4/projects/platform%2Fci%2Fwidgets';
+    const repository = '/repositories/acme/widgets';
+    server = await startFakeGitHubServer({
+      [`DELETE ${project}/repository/branches/ci%2Fself-heal%2Fabc1234-c1`]: {
+        status: 204,
+      },
+      [`PUT ${project}/merge_requests/9`]: { body: { iid: 9 } },
+      [`POST ${project}/repository/commits/def/revert`]: {
+        status: 201,
+        body: { id: 'fed' },
+      },
+      [`DELETE ${repository}/refs/branches/ci%2Fself-heal%2Fabc1234-c1`]: {
+        status: 204,
+      },
+    });
+    const gitlab = new GitLabForgeClient({ baseUrl: server.url, token: 'x' });
+    const bitbucket = new BitbucketForgeClient({
+      baseUrl: server.url,
+      token: 'bitbucket-token',
+    });
+    const revert = { baseBranch: 'main', mergeCommitSha: 'def', reason: 'x' };
+
+    await gitlab.deleteBranch(
+      mergeRequest.repository,
+      'ci/self-heal/abc1234-c1'
+    );
+    // Already gone
+    await gitlab.deleteBranch(mergeRequest.repository, 'ci/self-heal/gone');
+    await gitlab.removeLabels(mergeRequest.repository, 9, ['self-healing']);
+    await gitlab.revertMergeCommit(mergeRequest.repository, revert);
+    await bitbucket.deleteBranch('acme/widgets', 'ci/self-heal/abc1234-c1');
+
+    expect(server.requests).toEqual([
+      `DELETE ${project}/repository/branches/ci%2Fself-heal%2Fabc1234-c1`,
+      `DELETE ${project}/repository/branches/ci%2Fself-heal%2Fgone`,
+      `PUT ${project}/merge_requests/9`,
+      `POST ${project}/repository/commits/def/revert`,
+      `DELETE ${repository}/refs/branches/ci%2Fself-heal%2Fabc1234-c1`,
+    ]);
+    await expect(
+      bitbucket.revertMergeCommit('acme/widgets', revert)
+    ).rejects.toThrow('revert def on main manually');
+    await expect(
+      bitbucket.removeLabels('acme/widgets', 3, ['self-healing'])
+    ).rejects.toThrow(ForgeError);
+  });
+
+  it('resolves clone URLs and git credentials on GitLab and Bitbucket', async () => {
+    server = await startFakeGitHubServer({
+      'GET /api/v4/projects/platform%2Fci%2Fwidgets': {
+        body: {
+          http_url_to_repo: 'https://gitlab.test/platform/ci/widgets.git',
+        },
+      },
+      'GET /repositories/acme/widgets': {
+        body: {
+          links: {
+            clone: [
+              { name: 'ssh', href: 'git@bitbucket.org:acme/widgets.git' },
+              {
+                name: 'https',
+                href: 'https://octocat@bitbucket.org/acme/widgets.git',
+              },
+            ],
+          },
+        },
+      },
+    });
+    const gitlab = new GitLabForgeClient({
+      baseUrl: server.url,
+      token: 'gitlab-token',
+    });
+    const bitbucket = new BitbucketForgeClient({
+      baseUrl: server.url,
+      token: 'bitbucket-token',
+    });
+
+    await expect(gitlab.cloneUrl(mergeRequest.repository)).resolves.toBe(
+      'https://gitlab.test/platform/ci/widgets.git'
+    );
+    await expect(gitlab.gitCredentials()).resolves.toEqual({
+      username: 'oauth2',
+      password: 'gitlab-token',
+    });
+    await expect(bitbucket.cloneUrl('acme/widgets')).resolves.toBe(
+      'https://bitbucket.org/acme/widgets.git'
+    );
+    await expect(bitbucket.gitCredentials()).resolves.toEqual({
+      username: 'x-token-auth',
+      password: 'bitbucket-token',
+    });
+  });
+
+  it("reports the forge's own error message", async () => {
+    server = await startFakeGitHubServer({});
+    const client = new GitLabForgeClient({ baseUrl: server.url, token: 'x' });
+
+    const error = await client
+      .openMergeRequest(mergeRequest)
+      .catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(ForgeError);
+    expect(error).toMatchObject({
+      message: 'Not Found',
+      provider: 'gitlab',
+      status: 404,
+    });
+    expect(() => createForgeClient('gitlab', 0, {})).toThrow(
+      'GITLAB_TOKEN is not set'
+    );
+  });
+});
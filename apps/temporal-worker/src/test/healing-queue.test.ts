@@ -0,0 +1,141 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  HealingQueue,
+  PermitPool,
+  isNewerRun,
+} from '../workflows/healing-queue.js';
+import type { SelfHealingWorkflowInput } from '../workflows/self-healing-workflow.js';
+
+const run = (
+  workflowRunId: number,
+  headSha: string,
+  workflowName = 'CI',
+  createdAt?: string
+) =>
+  ({
+    repository: 'acme/widgets',
+    branch: 'main',
+    workflowRunId,
+    headSha,
+    workflowName,
+    createdAt,
+  }) as SelfHealingWorkflowInput;
+
+describe('healing queue', () => {
+  it('coalesces runs on one commit', () => {
+    const queue = new HealingQueue();
+
+    expect(queue.enqueue(run(1, 'aaa'))).toBe('queued');
+    expect(queue.enqueue(run(2, 'aaa'))).toBe('coalesced');
+    expect(queue.start()?.workflowRunId).toBe(1);
+    expect(queue.enqueue(run(3, 'aaa'))).toBe('coalesced');
+
+    expect(queue.coalesced).toEqual([2, 3]);
+    expect(queue.pending).toEqual([]);
+  });
+
+  it('coalesces other workflows of the same commit without cancelling', () => {
+    const queue = new HealingQueue();
+
+    queue.enqueue(run(1, 'aaa', 'CI'));
+    queue.start();
+
+    expect(queue.enqueue(run(2, 'aaa', 'Lint'))).toBe('coalesced');
+    expect(queue.active?.workflowRunId).toBe(1);
+    expect(queue.pending).toEqual([]);
+    expect(queue.coalesced).toEqual([2]);
+    expect(queue.superseded).toEqual([]);
+  });
+
+  it('supersedes the active attempt for a newer commit', () => {
+    const queue = new HealingQueue();
+
+    queue.enqueue(run(1, 'aaa', 'CI', '2024-05-01T10:00:00Z'));
+    queue.start();
+
+    expect(queue.enqueue(run(3, 'bbb', 'CI', '2024-05-01T10:05:00Z'))).toBe(
+      'superseding'
+    );
+    expect(queue.superseded).toEqual([1]);
+    expect(queue.pending.map(request => request.workflowRunId)).toEqual([3]);
+  });
+
+  it('drops a queued attempt for an older commit', () => {
+    const queue = new HealingQueue();
+
+    queue.enqueue(run(1, 'aaa', 'CI', '2024-05-01T10:00:00Z'));
+
+    expect(queue.enqueue(run(3, 'bbb', 'Lint', '2024-05-01T10:05:00Z'))).toBe(
+      'superseding'
+    );
+    expect(queue.superseded).toEqual([1]);
+    expect(queue.pending.map(request => request.workflowRunId)).toEqual([3]);
+  });
+
+  it('drops a late run for an older commit instead of superseding', () => {
+    const queue = new HealingQueue();
+
+    queue.enqueue(run(7, 'bbb', 'CI', '2024-05-01T10:05:00Z'));
+    queue.start();
+
+    // Created earlier, even though its ID and delivery came later
+    expect(queue.enqueue(run(9, 'aaa', 'Lint', '2024-05-01T10:00:00Z'))).toBe(
+      'stale'
+    );
+    expect(queue.active?.workflowRunId).toBe(7);
+    expect(queue.superseded).toEqual([9]);
+  });
+
+  it('orders runs by creation time, then by run ID', () => {
+    expect(
+      isNewerRun(
+        { workflowRunId: 1, createdAt: '2024-05-01T10:05:00Z' },
+        { workflowRunId: 2, createdAt: '2024-05-01T10:00:00Z' }
+      )
+    ).toBe(true);
+    expect(isNewerRun({ workflowRunId: 2 }, { workflowRunId: 1 })).toBe(true);
+    expect(
+      isNewerRun(
+        { workflowRunId: 1, createdAt: '2024-05-01T10:00:00Z' },
+        { workflowRunId: 2, createdAt: '2024-05-01T10:00:00Z' }
+      )
+    ).toBe(false);
+  });
+});
+
+describe('healing permits', () => {
+  const permit = (coordinatorId: string, permitId = '1') => ({
+    coordinatorId,
+    permitId,
+  });
+
+  it('grants at most the limit, in the order permits were asked for', () => {
+    const permits = new PermitPool(2);
+
+    permits.acquire(permit('a'));
+    permits.acquire(permit('b'));
+    permits.acquire(permit('c'));
+    permits.acquire(permit('a'));
+
+    expect(permits.grantNext()).toEqual(permit('a'));
+    expect(permits.grantNext()).toEqual(permit('b'));
+    expect(permits.canGrant()).toBe(false);
+    expect(permits.grantNext()).toBeUndefined();
+
+    permits.release(permit('a'));
+
+    expect(permits.grantNext()).toEqual(permit('c'));
+    expect(permits.holders).toEqual([permit('b'), permit('c')]);
+  });
+
+  it('withdraws a request that is still waiting', () => {
+    const permits = new PermitPool(1, [permit('a')], [permit('b')]);
+
+    permits.release(permit('b'));
+    permits.release(permit('a'));
+
+    expect(permits.canGrant()).toBe(false);
+    expect(permits.holders).toEqual([]);
+    expect(permits.waiting).toEqual([]);
+  });
+});
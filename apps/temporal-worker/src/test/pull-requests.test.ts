@@ -0,0 +1,251 @@
+import { afterEach, describe, expect, it } from '@jest/globals';
+import { Octokit } from '@octokit/rest';
+import { ownersForFiles, parseCodeOwners } from '../services/codeowners.js';
+import { GitHubForgeClient } from '../services/forge/index.js';
+import {
+  requestCodeOwnerReviews,
+  waitForRequiredChecks,
+} from '../services/pull-requests.js';
+import type { FakeGitHubServer } from './fixtures/fake-github-server.js';
+import { startFakeGitHubServer } from './fixtures/fake-github-server.js';
+
+const REPO = '/repos/acme/widgets';
+const HEAD_SHA = 'c'.repeat(40);
+
+const codeOwners = [
+  '# Default owners',
+  '*       @acme/maintainers',
+  '*.md    @docs-writer docs@acme.test',
+  '/apps/  @alice',
+  'apps/github-app/**  @bob @acme/platform',
+  'docs/*  @carol',
+  'generated/',
+].join('\n');
+
+describe('CODEOWNERS', () => {
+  const rules = parseCodeOwners(codeOwners);
+
+  it('gives each file to the last rule that matches it', () => {
+    expect(ownersForFiles(rules, ['src/index.ts'])).toEqual({
+      users: [],
+      teams: ['maintainers'],
+    });
+    expect(ownersForFiles(rules, ['apps/temporal-worker/src/a.ts'])).toEqual({
+      users: ['alice'],
+      teams: [],
+    });
+    expect(ownersForFiles(rules, ['apps/github-app/src/app.ts'])).toEqual({
+      users: ['bob'],
+      teams: ['platform'],
+    });
+    expect(ownersForFiles(rules, ['README.md'])).toEqual({
+      users: ['docs-writer'],
+      teams: [],
+    });
+  });
+
+  it('follows the gitignore rules for anchors and directories', () => {
+    // `docs/*` only owns files directly in docs/
+    expect(ownersForFiles(rules, ['docs/setup.ts']).users).toEqual(['carol']);
+    expect(ownersForFiles(rules, ['docs/api/client.ts']).teams).toEqual([
+      'maintainers',
+    ]);
+    // `/apps/` is anchored to the root
+    expect(ownersForFiles(rules, ['lib/apps/a.ts']).teams).toEqual([
+      'maintainers',
+    ]);
+    // An owner-less rule clears ownership at any depth
+    expect(ownersForFiles(rules, ['src/generated/types.ts'])).toEqual({
+      users: [],
+      teams: [],
+    });
+  });
+});
+
+describe('pull requests', () => {
+  let server: FakeGitHubServer | undefined;
+
+  afterEach(async () => {
+    await server?.close();
+    server = undefined;
+  });
+
+  it('requests reviews from code owners and configured reviewers', async () => {
+    let requested: unknown;
+    server = await startFakeGitHubServer({
+      [`GET ${REPO}/pulls/5/files`]: {
+        body: [{ filename: 'apps/github-app/src/app.ts' }],
+      },
+      [`GET ${REPO}/contents/.github/CODEOWNERS`]: {
+        body: {
+          type: 'file',
+          content: Buffer.from(codeOwners).toString('base64'),
+        },
+      },
+      [`GET ${REPO}/pulls/5`]: {
+        body: { number: 5, user: { login: 'bob' } },
+      },
+      [`POST ${REPO}/pulls/5/requested_reviewers`]: request => {
+        request.on('data', (chunk: Buffer) => {
+          requested = JSON.parse(chunk.toString());
+        });
+        return { status: 201, body: {} };
+      },
+    });
+    const octokit = new Octokit({ baseUrl: server.url });
+
+    const reviewers = await requestCodeOwnerReviews(
+      octokit,
+      'acme/widgets',
+      5,
+      'main',
+      ['octocat', '@acme/platform']
+    );
+
+    // The author, bob, cannot review their own pull request
+    expect(reviewers).toEqual({ users: ['octocat'], teams: ['platform'] });
+    expect(requested).toEqual({
+      reviewers: ['octocat'],
+      team_reviewers: ['platform'],
+    });
+  });
+
+  it('waits for the required checks on the base branch', async () => {
+    let polls = 0;
+    server = await startFakeGitHubServer({
+      [`GET ${REPO}/branches/main`]: {
+        body: {
+          name: 'main',
+          protection: { required_status_checks: { contexts: ['ci/lint'] } },
+        },
+      },
+      [`GET ${REPO}/rules/branches/main`]: {
+        body: [
+          {
+            type: 'required_status_checks',
+            parameters: { required_status_checks: [{ context: 'test' }] },
+          },
+        ],
+      },
+      [`GET ${REPO}/commits/${HEAD_SHA}/status`]: {
+        body: { statuses: [{ context: 'ci/lint', state: 'success' }] },
+      },
+      [`GET ${REPO}/commits/${HEAD_SHA}/check-runs`]: () => {
+        polls++;
+        return {
+          body: {
+            total_count: 2,
+            check_runs: [
+              {
+                name: 'test',
+                status: polls > 1 ? 'completed' : 'queued',
+                conclusion: polls > 1 ? 'success' : null,
+              },
+              { name: 'coverage', status: 'completed', conclusion: 'failure' },
+            ],
+          },
+        };
+      },
+    });
+    const octokit = new Octokit({ baseUrl: server.url });
+    let heartbeats = 0;
+
+    await expect(
+      waitForRequiredChecks(octokit, 'acme/widgets', 'main', HEAD_SHA, {
+        timeoutMs: 1000,
+        pollIntervalMs: 10,
+        onPoll: () => heartbeats++,
+      })
+    ).resolves.toEqual(['ci/lint', 'test']);
+    // The optional coverage check failing does not block the merge
+    expect(heartbeats).toBe(2);
+  });
+
+  it('stops waiting as soon as a required check fails', async () => {
+    server = await startFakeGitHubServer({
+      [`GET ${REPO}/branches/main`]: {
+        body: {
+          name: 'main',
+          protection: { required_status_checks: { contexts: ['test'] } },
+        },
+      },
+      [`GET ${REPO}/commits/${HEAD_SHA}/status`]: { body: { statuses: [] } },
+      [`GET ${REPO}/commits/${HEAD_SHA}/check-runs`]: {
+        body: {
+          total_count: 1,
+          check_runs: [
+            { name: 'test', status: 'completed', conclusion: 'failure' },
+          ],
+        },
+      },
+    });
+    const octokit = new Octokit({ baseUrl: server.url });
+
+    await expect(
+      waitForRequiredChecks(octokit, 'acme/widgets', 'main', HEAD_SHA, {
+        timeoutMs: 1000,
+        pollIntervalMs: 10,
+      })
+    ).rejects.toThrow(`Required check test failed on ${HEAD_SHA}`);
+  });
+
+  it('merges with the first strategy the repository allows', async () => {
+    let mergeMethod: unknown;
+    server = await startFakeGitHubServer({
+      [`GET ${REPO}`]: {
+        body: {
+          allow_squash_merge: false,
+          allow_rebase_merge: true,
+          allow_merge_commit: true,
+          delete_branch_on_merge: false,
+        },
+      },
+      [`PUT ${REPO}/pulls/5/merge`]: request => {
+        request.on('data', (chunk: Buffer) => {
+          mergeMethod = JSON.parse(chunk.toString()).merge_method;
+        });
+        return { body: { merged: true, sha: 'd'.repeat(40) } };
+      },
+      [`DELETE ${REPO}/git/refs/heads%2Fci%2Fself-heal%2Fccccccc-a`]: {
+        status: 204,
+      },
+    });
+    const client = new GitHubForgeClient(new Octokit({ baseUrl: server.url }));
+
+    await expect(
+      client.mergeMergeRequest('acme/widgets', 5, {
+        sourceBranch: 'ci/self-heal/ccccccc-a',
+        headSha: HEAD_SHA,
+        deleteSourceBranch: true,
+      })
+    ).resolves.toEqual({ mergeCommitSha: 'd'.repeat(40), branchDeleted: true });
+    expect(mergeMethod).toBe('rebase');
+    expect(server.requests).toContain(
+      `DELETE ${REPO}/git/refs/heads%2Fci%2Fself-heal%2Fccccccc-a`
+    );
+  });
+
+  it('reports a branch it could not delete once the merge landed', async () => {
+    server = await startFakeGitHubServer({
+      [`GET ${REPO}`]: { body: { delete_branch_on_merge: false } },
+      [`PUT ${REPO}/pulls/6/merge`]: {
+        body: { merged: true, sha: 'e'.repeat(40) },
+      },
+      [`DELETE ${REPO}/git/refs/heads%2Fci%2Fself-heal%2Fccccccc-b`]: {
+        status: 403,
+        body: { message: 'Resource not accessible by integration' },
+      },
+    });
+    const client = new GitHubForgeClient(new Octokit({ baseUrl: server.url }));
+
+    await expect(
+      client.mergeMergeRequest('acme/widgets', 6, {
+        sourceBranch: 'ci/self-heal/ccccccc-b',
+        deleteSourceBranch: true,
+      })
+    ).resolves.toEqual({
+      mergeCommitSha: 'e'.repeat(40),
+      branchDeleted: false,
+    });
+  });
+});
@@ -0,0 +1,206 @@
+import { afterEach, describe, expect, it, jest } from '@jest/globals';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { FailureReport, Recipe } from '../services/recipes/index.js';
+import { RecipeEngine, getRecipeEngine } from '../services/recipes/index.js';
+import type { RepositoryWorkspace } from '../services/repository-workspace.js';
+import { git } from '../services/repository-workspace.js';
+import type { FailureData } from '../types/stubs.js';
+import { RootCause } from '../workflows/self-healing-workflow.js';
+
+const failureData = (overrides: Partial<FailureData> = {}): FailureData => ({
+  buildLogs: '',
+  baseSha: 'base',
+  changedFiles: [],
+  commitMessage: '',
+  author: '',
+  duration: 0,
+  failedTests: [],
+  runner: '',
+  os: '',
+  nodeVersion: '',
+  dependencies: {},
+  environment: {},
+  memoryUsage: 0,
+  cpuUsage: 0,
+  networkRequests: 0,
+  ...overrides,
+});
+
+const report = (overrides: Partial<FailureData> = {}): FailureReport => ({
+  repository: 'acme/widgets',
+  headSha: 'abc123',
+  failureData: failureData(overrides),
+});
+
+const matchedIds = (failure: FailureReport) =>
+  getRecipeEngine()
+    .match(failure)
+    .map(recipe => recipe.id);
+
+const recipe = (
+  id: string,
+  apply: Recipe['apply'],
+  rootCause = RootCause.CONFIG_ERROR
+): Recipe => ({
+  id,
+  description: `Applied ${id}`,
+  rootCause,
+  confidence: 0.9,
+  match: failure => failure.failureData.buildLogs.includes(id),
+  apply,
+});
+
+describe('recipes', () => {
+  let workspace: RepositoryWorkspace | undefined;
+
+  const checkout = async (): Promise<RepositoryWorkspace> => {
+    const root = await mkdtemp(join(tmpdir(), 'recipes-'));
+    await git(root, ['init', '--quiet']);
+    await writeFile(join(root, 'index.js'), 'module.exports = 1;\n');
+    await git(root, ['add', '.']);
+    await git(root, [
+      '-c',
+      'user.name=test',
+      '-c',
+      'user.email=test@example.com',
+      'commit',
+      '--quiet',
+      '-m',
+      'initial',
+    ]);
+    workspace = {
+      root,
+      headSha: 'HEAD',
+      cleanup: () => rm(root, { recursive: true, force: true }),
+    };
+    return workspace;
+  };
+
+  afterEach(async () => {
+    await workspace?.cleanup();
+    workspace = undefined;
+  });
+
+  it('matches the built-in recipes on their failure output', () => {
+    expect(
+      matchedIds(
+        report({
+          buildLogs:
+            'npm ERR! `npm ci` can only install packages when your package.json and package-lock.json or npm-shrinkwrap.json are in sync.',
+        })
+      )
+    ).toEqual(['lockfile']);
+    expect(
+      matchedIds(
+        report({
+          buildLogs:
+            "src/index.ts(1,20): error TS7016: Could not find a declaration file for module 'lodash'.\n  Try `npm i --save-dev @types/lodash` if it exists",
+        })
+      )
+    ).toEqual(['missing-types']);
+    expect(
+      matchedIds(
+        report({
+          buildLogs:
+            '[warn] src/index.ts\n[warn] Code style issues found in the above file. Run Prettier with --write to fix.',
+        })
+      )
+    ).toEqual(['prettier']);
+    expect(
+      matchedIds(
+        report({
+          buildLogs:
+            '✖ 3 problems (3 errors, 0 warnings)\n  3 errors and 0 warnings potentially fixable with the `--fix` option.',
+        })
+      )
+    ).toEqual(['eslint-fix']);
+    expect(
+      matchedIds(
+        report({
+          failedTests: [
+            {
+              suite: 'Button',
+              name: 'renders',
+              status: 'failed',
+              failureMessage:
+                'expect(received).toMatchSnapshot()\n\nSnapshot name: `Button renders 1`',
+              stackFrames: [],
+            },
+          ],
+        })
+      )
+    ).toEqual(['jest-snapshot']);
+    expect(
+      matchedIds(
+        report({
+          failedTests: [
+            {
+              suite: 'Button',
+              name: 'renders',
+              status: 'failed',
+              failureMessage: 'expect(received).toMatchSnapshot()',
+              stackFrames: [],
+            },
+            {
+              suite: 'Button',
+              name: 'clicks',
+              status: 'failed',
+              failureMessage: 'expect(received).toBe(expected)',
+              stackFrames: [],
+            },
+          ],
+        })
+      )
+    ).toEqual([]);
+  });
+
+  it('only checks out the repository once a recipe matches', async () => {
+    const engine = new RecipeEngine([recipe('format', async () => {})]);
+    const noCheckout = jest.fn(checkout);
+
+    await expect(
+      engine.run(report({ buildLogs: 'unrelated' }), { checkout: noCheckout })
+    ).resolves.toBeUndefined();
+    expect(noCheckout).not.toHaveBeenCalled();
+    expect(() => engine.register(recipe('format', async () => {}))).toThrow(
+      'Recipe format is already registered'
+    );
+  });
+
+  it('returns the patch of the first recipe that changes the workspace', async () => {
+    const engine = new RecipeEngine([
+      recipe('format-broken', async context => {
+        await writeFile(join(context.root, 'index.js'), 'broken\n');
+        throw new Error('formatter crashed');
+      }),
+      recipe('format-noop', async () => {}),
+      recipe('format-disallowed', async () => {}, RootCause.DEP_UPGRADE),
+      recipe('format', async context => {
+        const path = join(context.root, 'index.js');
+        const content = await readFile(path, 'utf8');
+        await writeFile(path, content.replace('1', '2'));
+        await writeFile(join(context.root, 'added.js'), 'new\n');
+      }),
+    ]);
+
+    const fix = await engine.run(
+      report({
+        buildLogs: 'format-broken format-noop format-disallowed format failed',
+      }),
+      { checkout, allowedRootCauses: [RootCause.CONFIG_ERROR] }
+    );
+
+    expect(fix).toMatchObject({
+      recipe: 'format',
+      rootCause: RootCause.CONFIG_ERROR,
+      confidence: 0.9,
+      explanation: 'Applied format',
+    });
+    expect(fix?.patch).toContain('-module.exports = 1;');
+    expect(fix?.patch).toContain('+module.exports = 2;');
+    expect(fix?.patch).toContain('+++ b/added.js');
+    expect(fix?.patch).not.toContain('broken');
+  });
+});
@@ -0,0 +1,329 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  detectTestReportFormat,
+  parseStackFrames,
+  parseTestReport,
+} from '@self-healing-ci/diagnosis/test-reports';
+
+const summary = (content: string) =>
+  parseTestReport(content).map(({ suite, name, status, file, line }) => ({
+    suite,
+    name,
+    status,
+    file,
+    line,
+  }));
+
+describe('test report parsing', () => {
+  it('parses JUnit XML with nested suites and CDATA output', () => {
+    const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites>
+  <testsuite name="com.acme.WidgetTest" tests="3">
+    <testcase name="builds" classname="com.acme.WidgetTest" time="0.25"/>
+    <testcase name="rejects &quot;empty&quot;" classname="com.acme.WidgetTest">
+      <failure message="expected true" type="AssertionError"><![CDATA[java.lang.AssertionError: expected true
+	at com.acme.WidgetTest.rejects(WidgetTest.java:42)]]></failure>
+    </testcase>
+    <testcase name="later" classname="com.acme.WidgetTest"><skipped/></testcase>
+  </testsuite>
+</testsuites>`;
+
+    expect(detectTestReportFormat(xml)).toBe('junit');
+    const [passed, failed, skipped] = parseTestReport(xml);
+
+    expect(passed).toMatchObject({ status: 'passed', durationMs: 250 });
+    expect(failed).toMatchObject({
+      suite: 'com.acme.WidgetTest',
+      name: 'rejects "empty"',
+      status: 'failed',
+      failureMessage: expect.stringContaining('WidgetTest.java:42'),
+      file: 'WidgetTest.java',
+      line: 42,
+    });
+    expect(skipped).toMatchObject({ status: 'skipped' });
+    expect(skipped).not.toHaveProperty('failureMessage');
+  });
+
+  it('parses TAP subtests and YAML diagnostics from node --test', () => {
+    const tap = [
+      'TAP version 13',
+      '# Subtest: parser',
+      '    # Subtest: reads numbers',
+      '    ok 1 - reads numbers',
+      '      ---',
+      '      duration_ms: 1.5',
+      '      ...',
+      '    # Subtest: reads strings',
+      '    not ok 2 - reads strings',
+      '      ---',
+      '      duration_ms: 2',
+      "      location: '/repo/test/parser.test.js:8:3'",
+      "      error: 'Expected values to be strictly equal'",
+      '      ...',
+      '    1..2',
+      'not ok 1 - parser',
+      'ok 2 - standalone # SKIP not ready',
+      '1..2',
+    ].join('\n');
+
+    expect(detectTestReportFormat(tap)).toBe('tap');
+    expect(summary(tap)).toEqual([
+      {
+        suite: 'parser',
+        name: 'reads numbers',
+        status: 'passed',
+        file: undefined,
+        line: undefined,
+      },
+      {
+        suite: 'parser',
+        name: 'reads strings',
+        status: 'failed',
+        file: '/repo/test/parser.test.js',
+        line: 8,
+      },
+      {
+        suite: '',
+        name: 'standalone',
+        status: 'skipped',
+        file: undefined,
+        line: undefined,
+      },
+    ]);
+  });
+
+  it('parses Jest JSON, including files that failed to run', () => {
+    const json = JSON.stringify({
+      numFailedTests: 1,
+      testResults: [
+        {
+          name: '/repo/src/sum.test.ts',
+          status: 'failed',
+          assertionResults: [
+            {
+              ancestorTitles: ['sum'],
+              title: 'adds',
+              status: 'failed',
+              duration: 4,
+              location: { line: 3, column: 3 },
+              failureMessages: [
+                'Error: \u001b[2mexpect(\u001b[22mreceived).toBe(expected)\n    at Object.<anonymous> (/repo/src/sum.test.ts:4:17)\n    at node_modules/jest-circus/build/utils.js:298:28',
+              ],
+            },
+            { ancestorTitles: ['sum'], title: 'todo', status: 'todo' },
+          ],
+        },
+        {
+          name: '/repo/src/broken.test.ts',
+          status: 'failed',
+          message: 'SyntaxError: Unexpected token',
+          assertionResults: [],
+        },
+      ],
+    });
+
+    expect(detectTestReportFormat(json)).toBe('jest');
+    const [adds, todo, broken] = parseTestReport(json);
+
+    expect(adds).toMatchObject({
+      suite: '/repo/src/sum.test.ts > sum',
+      name: 'adds',
+      status: 'failed',
+      durationMs: 4,
+      file: '/repo/src/sum.test.ts',
+      line: 3,
+    });
+    expect(adds?.failureMessage).not.toContain('\u001b');
+    expect(adds?.stackFrames).toHaveLength(2);
+    expect(todo).toMatchObject({ status: 'skipped' });
+    expect(broken).toMatchObject({
+      name: '/repo/src/broken.test.ts',
+      status: 'errored',
+      failureMessage: 'SyntaxError: Unexpected token',
+    });
+  });
+
+  it('parses pytest-json-report output', () => {
+    const json = JSON.stringify({
+      summary: { failed: 1 },
+      tests: [
+        {
+          nodeid: 'tests/test_app.py::TestApp::test_ready',
+          lineno: 9,
+          outcome: 'failed',
+          call: {
+            duration: 0.02,
+            crash: { path: 'tests/test_app.py', lineno: 12 },
+            longrepr: 'tests/test_app.py:12: AssertionError',
+          },
+        },
+        { nodeid: 'tests/test_app.py::test_ok', outcome: 'passed' },
+      ],
+    });
+
+    expect(detectTestReportFormat(json)).toBe('pytest');
+    expect(summary(json)).toEqual([
+      {
+        suite: 'tests/test_app.py::TestApp',
+        name: 'test_ready',
+        status: 'failed',
+        file: 'tests/test_app.py',
+        line: 12,
+      },
+      {
+        suite: 'tests/test_app.py',
+        name: 'test_ok',
+        status: 'passed',
+        file: 'tests/test_app.py',
+        line: undefined,
+      },
+    ]);
+  });
+
+  it('parses pytest terminal output with failure sections', () => {
+    const output = [
+      'tests/test_app.py::test_ok PASSED                     [ 50%]',
+      'tests/test_app.py::TestApp::test_ready FAILED         [100%]',
+      '',
+      '=================== FAILURES ===================',
+      '______________ TestApp.test_ready ______________',
+      '    def test_ready(self):',
+      '>       assert ready()',
+      'E       assert False',
+      '',
+      'tests/test_app.py:12: AssertionError',
+      '=========== short test summary info ============',
+      'FAILED tests/test_app.py::TestApp::test_ready - assert False',
+    ].join('\n');
+
+    expect(detectTestReportFormat(output)).toBe('pytest');
+    const [ok, ready] = parseTestReport(output);
+
+    expect(ok).toMatchObject({ status: 'passed', name: 'test_ok' });
+    expect(ready).toMatchObject({
+      suite: 'tests/test_app.py::TestApp',
+      name: 'test_ready',
+      status: 'failed',
+      file: 'tests/test_app.py',
+      line: 12,
+    });
+    expect(ready?.failureMessage).toContain('E       assert False');
+  });
+
+  it('parses cargo test output with captured panics', () => {
+    const output = [
+      '     Running unittests src/lib.rs (target/debug/deps/widgets-1a2b)',
+      '',
+      'running 3 tests',
+      'test parser::tests::parses_empty ... ok',
+      'test parser::tests::parses_nested ... FAILED',
+      'test slow::tests::big ... ignored',
+      '',
+      'failures:',
+      '',
+      '---- parser::tests::parses_nested stdout ----',
+      "thread 'parser::tests::parses_nested' panicked at src/parser.rs:88:9:",
+      'assertion `left == right` failed',
+      '',
+      'failures:',
+      '    parser::tests::parses_nested',
+      '',
+      'test result: FAILED. 1 passed; 1 failed; 1 ignored',
+    ].join('\n');
+
+    expect(detectTestReportFormat(output)).toBe('cargo');
+    expect(summary(output)).toEqual([
+      {
+        suite: 'src/lib.rs',
+        name: 'parser::tests::parses_empty',
+        status: 'passed',
+        file: undefined,
+        line: undefined,
+      },
+      {
+        suite: 'src/lib.rs',
+        name: 'parser::tests::parses_nested',
+        status: 'failed',
+        file: 'src/parser.rs',
+        line: 88,
+      },
+      {
+        suite: 'src/lib.rs',
+        name: 'slow::tests::big',
+        status: 'skipped',
+        file: undefined,
+        line: undefined,
+      },
+    ]);
+  });
+
+  it('parses go test -json events, keeping only leaf subtests', () => {
+    const events = [
+      { Action: 'run', Package: 'example.com/app', Test: 'TestParse' },
+      { Action: 'run', Package: 'example.com/app', Test: 'TestParse/empty' },
+      {
+        Action: 'output',
+        Package: 'example.com/app',
+        Test: 'TestParse/empty',
+        Output: '    parse_test.go:21: got 1, want 0\n',
+      },
+      {
+        Action: 'output',
+        Package: 'example.com/app',
+        Test: 'TestParse/empty',
+        Output: '    --- FAIL: TestParse/empty (0.00s)\n',
+      },
+      {
+        Action: 'fail',
+        Package: 'example.com/app',
+        Test: 'TestParse/empty',
+        Elapsed: 0.01,
+      },
+      {
+        Action: 'fail',
+        Package: 'example.com/app',
+        Test: 'TestParse',
+        Elapsed: 0.02,
+      },
+      { Action: 'pass', Package: 'example.com/app', Test: 'TestFormat' },
+      { Action: 'fail', Package: 'example.com/app', Elapsed: 0.1 },
+    ]
+      .map(event => JSON.stringify(event))
+      .join('\n');
+
+    expect(detectTestReportFormat(events)).toBe('go');
+    const [empty, format] = parseTestReport(events);
+
+    expect(empty).toMatchObject({
+      suite: 'example.com/app',
+      name: 'TestParse/empty',
+      status: 'failed',
+      durationMs: 10,
+      failureMessage: 'parse_test.go:21: got 1, want 0',
+      file: 'parse_test.go',
+      line: 21,
+    });
+    expect(format).toMatchObject({ name: 'TestFormat', status: 'passed' });
+  });
+
+  it('returns no cases for unrecognised or malformed content', () => {
+    expect(detectTestReportFormat('npm ERR! missing script')).toBeUndefined();
+    expect(parseTestReport('npm ERR! missing script')).toEqual([]);
+    expect(parseTestReport('{"testResults": [', 'jest')).toEqual([]);
+  });
+
+  it('normalises Python and Node stack frames', () => {
+    expect(
+      parseStackFrames(
+        [
+          'Traceback (most recent call last):',
+          '  File "/repo/app/views.py", line 30, in handler',
+          '    at handler (/repo/src/index.js:5:10)',
+        ].join('\n')
+      )
+    ).toEqual([
+      { file: '/repo/app/views.py', line: 30, function: 'handler' },
+      { file: '/repo/src/index.js', line: 5, column: 10, function: 'handler' },
+    ]);
+  });
+});
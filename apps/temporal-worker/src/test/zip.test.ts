@@ -0,0 +1,27 @@
+import { describe, expect, it } from '@jest/globals';
+import { readZipEntries } from '../utils/zip.js';
+import { createZip } from './fixtures/fake-github-server.js';
+
+const names = (archive: Buffer, maxEntryBytes: number) =>
+  readZipEntries(archive, maxEntryBytes).map(entry => entry.name);
+
+describe('zip reader', () => {
+  it('skips entries larger than the limit', () => {
+    const archive = createZip({
+      'small.txt': 'ok\n',
+      'large.txt': 'x'.repeat(1000),
+    });
+
+    expect(names(archive, 100)).toEqual(['small.txt']);
+  });
+
+  it('stops inflating an entry that understates its size', () => {
+    const archive = createZip({ 'bomb.txt': 'x'.repeat(1000) });
+    // Uncompressed size in the central directory header
+    const central = archive.indexOf(Buffer.from('PK\x01\x02', 'latin1'));
+    archive.writeUInt32LE(10, central + 24);
+
+    expect(names(archive, 100)).toEqual([]);
+    expect(names(archive, 1000)).toEqual(['bomb.txt']);
+  });
+});
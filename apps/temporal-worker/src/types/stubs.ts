@@ -1,43 +1,10 @@
 // Temporary stub types for missing service dependencies
 // These will be replaced with actual imports once services are built
 
-export interface MorphClientConfig {
-  apiKey: string;
-  apiUrl: string;
-  timeoutMs: number;
-  maxRetries: number;
-}
-
-export class MorphClient {
-  constructor(private _config: MorphClientConfig) {}
+import type { TestCaseResult } from '@self-healing-ci/diagnosis/test-reports';
 
-  async applyPatch(_request: PatchRequest): Promise<PatchResult> {
-    // TODO: Implement actual Morph API call
-    // For now, return a mock response
-    return {
-      success: true,
-      patchSha: 'mock-patch-sha',
-      filesChanged: ['mock-file.ts'],
-    };
-  }
-}
-
-export interface PatchRequest {
-  repository: string;
-  headSha: string;
-  branch: string;
-  patch: string;
-  rootCause: string;
-  installationId: number;
-  maxRetries: number;
-}
-
-export interface PatchResult {
-  success: boolean;
-  patchSha?: string;
-  filesChanged?: string[];
-  error?: string;
-}
+// Mirrors PatchSafetyLevel in services/morph
+export type PatchSafetyLevel = 'safe' | 'medium' | 'high' | 'dangerous';
 
 export interface FreestyleClientConfig {
   apiKey: string;
@@ -66,6 +33,7 @@ export interface TestContainerRequest {
   branch: string;
   testCommand: string;
   timeoutMs: number;
+  ignoredTests: string[];
 }
 
 export interface TestContainerResult {
@@ -120,7 +88,8 @@ export interface ClaudeInput {
   branch: string;
   installationId: number;
   failureData: FailureData;
-  testFailure?: TestFailure;
+  testFailure?: TestFailure | undefined;
+  candidateIndex?: number;
 }
 
 export interface FailureData {
@@ -130,7 +99,7 @@ export interface FailureData {
   commitMessage: string;
   author: string;
   duration: number;
-  failedTests: string[];
+  failedTests: TestCaseResult[];
   runner: string;
   os: string;
   nodeVersion: string;
@@ -143,9 +112,9 @@ export interface FailureData {
 
 export interface TestFailure {
   success: boolean;
-  error?: string;
-  output?: string;
-  retryDiagnosis?: boolean;
+  error?: string | undefined;
+  output?: string | undefined;
+  retryDiagnosis?: boolean | undefined;
 }
 
 export interface ClaudeResult {
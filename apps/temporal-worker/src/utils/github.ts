@@ -0,0 +1,41 @@
+import { createAppAuth } from '@octokit/auth-app';
+import { Octokit } from '@octokit/rest';
+
+/**
+ * Create an Octokit client authenticated as a GitHub App installation
+ */
+export function createInstallationClient(installationId: number): Octokit {
+  return new Octokit({
+    authStrategy: createAppAuth,
+    auth: {
+      appId: process.env['GITHUB_APP_ID'] || '',
+      privateKey: process.env['GITHUB_APP_PRIVATE_KEY'] || '',
+      installationId,
+    },
+  });
+}
+
+/**
+ * Split an `owner/repo` full name into its parts
+ */
+export function parseRepository(repository: string): {
+  owner: string;
+  repo: string;
+} {
+  const [owner, repo] = repository.split('/');
+
+  if (!owner || !repo) {
+    throw new Error(`Invalid repository name: ${repository}`);
+  }
+
+  return { owner, repo };
+}
+
+/**
+ * Whether a GitHub API error means the resource is already gone
+ * (deleting a missing ref answers 422 rather than 404)
+ */
+export function isNotFoundError(error: unknown): boolean {
+  const status = (error as { status?: number } | null)?.status;
+  return status === 404 || status === 422;
+}
@@ -0,0 +1,129 @@
+import { inflateRawSync } from 'node:zlib';
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+// Largest entry inflated into memory; a log or report is far smaller
+const DEFAULT_MAX_ENTRY_BYTES = 50 * 1024 * 1024;
+
+export interface ZipEntry {
+  name: string;
+  content: Buffer;
+}
+
+/**
+ * Read the files of a zip archive, such as a GitHub Actions log or artifact
+ * download
+ *
+ * Only stored and deflated entries are supported, which is what GitHub
+ * produces. Directory entries are skipped, and so are entries that would
+ * inflate to more than `maxEntryBytes`, whatever size their header claims.
+ */
+export function readZipEntries(
+  archive: Buffer,
+  maxEntryBytes = DEFAULT_MAX_ENTRY_BYTES
+): ZipEntry[] {
+  const end = findEndOfCentralDirectory(archive);
+  const count = archive.readUInt16LE(end + 10);
+  let offset = archive.readUInt32LE(end + 16);
+
+  const entries: ZipEntry[] = [];
+
+  for (let index = 0; index < count; index++) {
+    if (archive.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error(`Corrupt zip central directory at offset ${offset}`);
+    }
+
+    const method = archive.readUInt16LE(offset + 10);
+    const compressedSize = archive.readUInt32LE(offset + 20);
+    const size = archive.readUInt32LE(offset + 24);
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const extraLength = archive.readUInt16LE(offset + 30);
+    const commentLength = archive.readUInt16LE(offset + 32);
+    const localOffset = archive.readUInt32LE(offset + 42);
+    const name = archive.toString(
+      'utf8',
+      offset + 46,
+      offset + 46 + nameLength
+    );
+
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) {
+      continue;
+    }
+
+    if (
+      compressedSize === 0xffffffff ||
+      size === 0xffffffff ||
+      localOffset === 0xffffffff
+    ) {
+      throw new Error(`Zip64 entry ${name} is not supported`);
+    }
+
+    if (size > maxEntryBytes || compressedSize > maxEntryBytes) {
+      continue;
+    }
+
+    if (archive.readUInt32LE(localOffset) !== LOCAL_FILE_HEADER) {
+      throw new Error(`Corrupt zip local header for ${name}`);
+    }
+
+    const dataStart =
+      localOffset +
+      30 +
+      archive.readUInt16LE(localOffset + 26) +
+      archive.readUInt16LE(localOffset + 28);
+    const data = archive.subarray(dataStart, dataStart + compressedSize);
+
+    if (method === METHOD_STORED) {
+      entries.push({ name, content: Buffer.from(data) });
+    } else if (method === METHOD_DEFLATE) {
+      const content = inflate(data, maxEntryBytes);
+
+      if (content) {
+        entries.push({ name, content });
+      }
+    } else {
+      throw new Error(
+        `Unsupported zip compression method ${method} for ${name}`
+      );
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Inflate an entry, or return undefined when it exceeds the limit
+ */
+function inflate(data: Buffer, maxOutputLength: number): Buffer | undefined {
+  try {
+    return inflateRawSync(data, { maxOutputLength });
+  } catch (error) {
+    if ((error as { code?: string }).code === 'ERR_BUFFER_TOO_LARGE') {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Locate the end of central directory record, which may be followed by a
+ * comment of up to 64 KiB
+ */
+function findEndOfCentralDirectory(archive: Buffer): number {
+  const earliest = Math.max(0, archive.length - 22 - 0xffff);
+
+  for (let offset = archive.length - 22; offset >= earliest; offset--) {
+    if (archive.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+      return offset;
+    }
+  }
+
+  throw new Error('Not a zip archive');
+}
@@ -0,0 +1,279 @@
+import { WorkflowExecutionAlreadyStartedError } from '@temporalio/common';
+import {
+  CancellationScope,
+  ParentClosePolicy,
+  condition,
+  continueAsNew,
+  defineQuery,
+  defineSignal,
+  executeChild,
+  getExternalWorkflowHandle,
+  isCancellation,
+  log,
+  setHandler,
+  startChild,
+  workflowInfo,
+} from '@temporalio/workflow';
+import type { PermitRequest } from './healing-queue.js';
+import {
+  HealingQueue,
+  PermitPool,
+  healingWorkflowId,
+  limiterWorkflowId,
+} from './healing-queue.js';
+import type { SelfHealingWorkflowInput } from './self-healing-workflow.js';
+import { SelfHealingWorkflow } from './self-healing-workflow.js';
+
+export type { PermitRequest } from './healing-queue.js';
+
+// How long an idle coordinator waits for more work before completing
+const COORDINATOR_IDLE_TIMEOUT = '5 minutes';
+
+// Define healing coordinator input interface
+export interface HealingCoordinatorInput {
+  repository: string;
+  branch: string;
+  installationId: number;
+  maxConcurrentHeals: number;
+  pending?: SelfHealingWorkflowInput[] | undefined;
+}
+
+// Define healing queue snapshot interface
+export interface HealingQueueState {
+  active: { workflowId: string; headSha: string } | null;
+  pending: Array<{ workflowRunId: number; headSha: string }>;
+  coalesced: number[];
+  superseded: number[];
+}
+
+// Define healing limiter input interface
+export interface HealingLimiterInput {
+  installationId: number;
+  maxConcurrentHeals: number;
+  holders?: PermitRequest[] | undefined;
+  waiting?: PermitRequest[] | undefined;
+}
+
+// Coordinator signals and queries
+export const enqueueHealingSignal =
+  defineSignal<[SelfHealingWorkflowInput]>('enqueueHealing');
+export const permitGrantedSignal = defineSignal<[string]>('permitGranted');
+export const getQueueQuery = defineQuery<HealingQueueState>('getQueue');
+
+// Limiter signals
+export const acquirePermitSignal =
+  defineSignal<[PermitRequest]>('acquirePermit');
+export const releasePermitSignal =
+  defineSignal<[PermitRequest]>('releasePermit');
+
+/**
+ * Serialises healing attempts for one repository branch
+ *
+ * Failed runs on one commit are coalesced into one attempt, and a newer
+ * commit cancels the attempt and queued runs for older commits.
+ */
+export async function HealingCoordinatorWorkflow(
+  input: HealingCoordinatorInput
+): Promise<HealingQueueState> {
+  const { workflowId: coordinatorId } = workflowInfo();
+  const limiter = getExternalWorkflowHandle(
+    limiterWorkflowId(input.installationId)
+  );
+
+  const queue = new HealingQueue(input.pending);
+  let activeScope: CancellationScope | undefined;
+  let grantedPermitId: string | undefined;
+
+  setHandler(getQueueQuery, () => ({
+    active: queue.active
+      ? {
+          workflowId: healingWorkflowId(
+            queue.active.repository,
+            queue.active.workflowRunId
+          ),
+          headSha: queue.active.headSha,
+        }
+      : null,
+    pending: queue.pending.map(request => ({
+      workflowRunId: request.workflowRunId,
+      headSha: request.headSha,
+    })),
+    coalesced: queue.coalesced,
+    superseded: queue.superseded,
+  }));
+
+  setHandler(permitGrantedSignal, permitId => {
+    grantedPermitId = permitId;
+  });
+
+  setHandler(enqueueHealingSignal, request => {
+    const active = queue.active;
+    const outcome = queue.enqueue(request);
+
+    log.info('Enqueued healing request', {
+      coordinatorId,
+      workflowRunId: request.workflowRunId,
+      workflowName: request.workflowName,
+      headSha: request.headSha,
+      outcome,
+    });
+
+    // A newer commit makes the attempt for an older commit stale
+    if (outcome === 'superseding' && active && activeScope) {
+      log.info('Cancelling stale healing attempt', {
+        coordinatorId,
+        workflowRunId: active.workflowRunId,
+        headSha: active.headSha,
+        newHeadSha: request.headSha,
+      });
+      activeScope.cancel();
+    }
+  });
+
+  await ensureLimiter(input);
+
+  for (;;) {
+    const hasWork = await condition(
+      () => queue.pending.length > 0,
+      COORDINATOR_IDLE_TIMEOUT
+    );
+
+    const request = hasWork ? queue.start() : undefined;
+
+    if (!request) {
+      break;
+    }
+
+    const permit: PermitRequest = {
+      coordinatorId,
+      permitId: `${request.workflowRunId}`,
+    };
+    const scope = new CancellationScope();
+    activeScope = scope;
+
+    try {
+      await scope.run(async () => {
+        await limiter.signal(acquirePermitSignal, permit);
+        await condition(() => grantedPermitId === permit.permitId);
+
+        log.info('Starting healing attempt', {
+          coordinatorId,
+          workflowRunId: request.workflowRunId,
+          headSha: request.headSha,
+        });
+
+        await executeChild(SelfHealingWorkflow, {
+          workflowId: healingWorkflowId(
+            request.repository,
+            request.workflowRunId
+          ),
+          args: [request],
+        });
+      });
+    } catch (err) {
+      if (!isCancellation(err)) {
+        log.warn('Healing attempt failed', {
+          coordinatorId,
+          workflowRunId: request.workflowRunId,
+          error: err instanceof Error ? err.message : 'Unknown error',
+        });
+      }
+    } finally {
+      queue.finish();
+      activeScope = undefined;
+      grantedPermitId = undefined;
+
+      // The permit must go back even if the coordinator is being cancelled
+      await CancellationScope.nonCancellable(() =>
+        limiter.signal(releasePermitSignal, permit)
+      );
+    }
+
+    if (workflowInfo().continueAsNewSuggested) {
+      await continueAsNew<typeof HealingCoordinatorWorkflow>({
+        ...input,
+        pending: queue.pending,
+      });
+    }
+  }
+
+  return {
+    active: null,
+    pending: [],
+    coalesced: queue.coalesced,
+    superseded: queue.superseded,
+  };
+}
+
+/**
+ * Hands out at most `maxConcurrentHeals` healing permits per installation
+ */
+export async function HealingLimiterWorkflow(
+  input: HealingLimiterInput
+): Promise<void> {
+  const permits = new PermitPool(
+    input.maxConcurrentHeals,
+    input.holders,
+    input.waiting
+  );
+
+  setHandler(acquirePermitSignal, request => permits.acquire(request));
+
+  // Releasing also withdraws a request that is still waiting
+  setHandler(releasePermitSignal, request => permits.release(request));
+
+  for (;;) {
+    await condition(
+      () => permits.canGrant() || workflowInfo().continueAsNewSuggested
+    );
+
+    const next = permits.grantNext();
+
+    if (next) {
+      try {
+        await getExternalWorkflowHandle(next.coordinatorId).signal(
+          permitGrantedSignal,
+          next.permitId
+        );
+      } catch (err) {
+        // The coordinator is gone, so nobody will release this permit
+        log.warn('Dropping permit for missing coordinator', {
+          installationId: input.installationId,
+          coordinatorId: next.coordinatorId,
+          error: err instanceof Error ? err.message : 'Unknown error',
+        });
+        permits.release(next);
+      }
+    }
+
+    if (workflowInfo().continueAsNewSuggested) {
+      await continueAsNew<typeof HealingLimiterWorkflow>({
+        ...input,
+        holders: permits.holders,
+        waiting: permits.waiting,
+      });
+    }
+  }
+}
+
+/**
+ * Start the installation's limiter unless it is already running
+ */
+async function ensureLimiter(input: HealingCoordinatorInput): Promise<void> {
+  try {
+    await startChild(HealingLimiterWorkflow, {
+      workflowId: limiterWorkflowId(input.installationId),
+      parentClosePolicy: ParentClosePolicy.ABANDON,
+      args: [
+        {
+          installationId: input.installationId,
+          maxConcurrentHeals: input.maxConcurrentHeals,
+        },
+      ],
+    });
+  } catch (err) {
+    if (!(err instanceof WorkflowExecutionAlreadyStartedError)) {
+      throw err;
+    }
+  }
+}
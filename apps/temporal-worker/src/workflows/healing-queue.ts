@@ -0,0 +1,185 @@
+import type { SelfHealingWorkflowInput } from './self-healing-workflow.js';
+
+// Kept out of the workflows index so Temporal does not register these
+// helpers as workflow types; everything here must stay deterministic.
+
+// Define permit request interface
+export interface PermitRequest {
+  coordinatorId: string;
+  permitId: string;
+}
+
+// What became of a request added to a branch's healing queue
+export type EnqueueOutcome =
+  // A run on the same commit is already active or queued
+  | 'coalesced'
+  // Queued as the only request for its commit
+  | 'queued'
+  // Queued for a newer commit; work for older commits was dropped
+  | 'superseding'
+  // Dropped because a newer commit is already being healed
+  | 'stale';
+
+/**
+ * Workflow ID of the healing child started for a failed run
+ */
+export function healingWorkflowId(
+  repository: string,
+  workflowRunId: number
+): string {
+  return `self-healing-${repository}-${workflowRunId}`;
+}
+
+/**
+ * Workflow ID of the per-installation concurrency limiter
+ */
+export function limiterWorkflowId(installationId: number): string {
+  return `healing-limiter-${installationId}`;
+}
+
+/**
+ * Whether run `a` belongs to a later push than run `b`
+ *
+ * Runs are ordered by when they were created, then by run ID, which every
+ * forge hands out in increasing order.
+ */
+export function isNewerRun(
+  a: Pick<SelfHealingWorkflowInput, 'workflowRunId' | 'createdAt'>,
+  b: Pick<SelfHealingWorkflowInput, 'workflowRunId' | 'createdAt'>
+): boolean {
+  const aCreated = a.createdAt ? Date.parse(a.createdAt) : NaN;
+  const bCreated = b.createdAt ? Date.parse(b.createdAt) : NaN;
+
+  if (!isNaN(aCreated) && !isNaN(bCreated) && aCreated !== bCreated) {
+    return aCreated > bCreated;
+  }
+  return a.workflowRunId > b.workflowRunId;
+}
+
+/**
+ * The healing attempts of one repository branch: the active one and those
+ * waiting behind it
+ *
+ * Failed runs on one commit are coalesced into one attempt, whichever
+ * workflow they belong to, since one fix is made for the commit. A run for a
+ * newer commit supersedes the active and queued attempts; one for an
+ * older commit is dropped.
+ */
+export class HealingQueue {
+  readonly pending: SelfHealingWorkflowInput[];
+  readonly coalesced: number[] = [];
+  readonly superseded: number[] = [];
+  private current: SelfHealingWorkflowInput | undefined;
+
+  constructor(pending: SelfHealingWorkflowInput[] = []) {
+    this.pending = [...pending];
+  }
+
+  get active(): SelfHealingWorkflowInput | undefined {
+    return this.current;
+  }
+
+  /**
+   * Add a request; when this returns `superseding` with an active attempt,
+   * the caller must cancel that attempt
+   */
+  enqueue(request: SelfHealingWorkflowInput): EnqueueOutcome {
+    const known = this.current
+      ? [this.current, ...this.pending]
+      : [...this.pending];
+
+    if (known.some(other => other.headSha === request.headSha)) {
+      this.coalesced.push(request.workflowRunId);
+      return 'coalesced';
+    }
+
+    if (known.some(other => isNewerRun(other, request))) {
+      this.superseded.push(request.workflowRunId);
+      return 'stale';
+    }
+
+    for (const stale of this.pending.splice(0)) {
+      this.superseded.push(stale.workflowRunId);
+    }
+    if (this.current) {
+      this.superseded.push(this.current.workflowRunId);
+    }
+
+    this.pending.push(request);
+    return known.length > 0 ? 'superseding' : 'queued';
+  }
+
+  /**
+   * Make the next queued request the active one
+   */
+  start(): SelfHealingWorkflowInput | undefined {
+    this.current = this.pending.shift();
+    return this.current;
+  }
+
+  finish(): void {
+    this.current = undefined;
+  }
+}
+
+/**
+ * Healing permits of one installation: at most `limit` are held at once,
+ * and the rest are granted in the order they were asked for
+ */
+export class PermitPool {
+  readonly holders: PermitRequest[];
+  readonly waiting: PermitRequest[];
+
+  constructor(
+    private readonly limit: number,
+    holders: PermitRequest[] = [],
+    waiting: PermitRequest[] = []
+  ) {
+    this.holders = [...holders];
+    this.waiting = [...waiting];
+  }
+
+  /**
+   * Ask for a permit; asking again for a held or waiting one does nothing
+   */
+  acquire(request: PermitRequest): void {
+    if (
+      !this.holders.some(matches(request)) &&
+      !this.waiting.some(matches(request))
+    ) {
+      this.waiting.push(request);
+    }
+  }
+
+  /**
+   * Give a permit back, or withdraw a request that is still waiting
+   */
+  release(request: PermitRequest): void {
+    for (const list of [this.holders, this.waiting]) {
+      const index = list.findIndex(matches(request));
+      if (index !== -1) {
+        list.splice(index, 1);
+      }
+    }
+  }
+
+  canGrant(): boolean {
+    return this.waiting.length > 0 && this.holders.length < this.limit;
+  }
+
+  /**
+   * Hand the next permit to the longest waiting request, if one is free
+   */
+  grantNext(): PermitRequest | undefined {
+    const next = this.canGrant() ? this.waiting.shift() : undefined;
+
+    if (next) {
+      this.holders.push(next);
+    }
+    return next;
+  }
+}
+
+function matches(a: PermitRequest): (b: PermitRequest) => boolean {
+  return b => a.coordinatorId === b.coordinatorId && a.permitId === b.permitId;
+}
@@ -1,2 +1,3 @@
 // Export all workflows
+export * from './healing-coordinator.js';
 export * from './self-healing-workflow.js';
@@ -0,0 +1,91 @@
+import type { RunTestsResult } from '../activities/run-tests.js';
+import type { PatchSafetyLevel } from '../types/stubs.js';
+import type { RootCause } from './self-healing-workflow.js';
+
+// Kept out of the workflows index so Temporal does not register these
+// helpers as workflow types; everything here must stay deterministic.
+
+// Define patch candidate interface
+export interface PatchCandidate {
+  id: string;
+  rootCause: RootCause;
+  confidence: number;
+  explanation: string;
+  patch: string;
+  targetBranch: string;
+  linesChanged: number;
+  patchApplied: boolean;
+  patchSha?: string | undefined;
+  safetyLevel?: PatchSafetyLevel | undefined;
+  testsPassed: boolean;
+  testResult?: RunTestsResult | undefined;
+  staticAnalysisDelta?: number | undefined;
+  rank?: number | undefined;
+  error?: string | undefined;
+}
+
+// Lower is safer; unknown safety ranks with the most dangerous patches
+const SAFETY_ORDER: Record<PatchSafetyLevel, number> = {
+  safe: 0,
+  medium: 1,
+  high: 2,
+  dangerous: 3,
+};
+
+/**
+ * Branch a candidate patch is pushed to
+ */
+export function candidateBranch(headSha: string, candidateId: string): string {
+  return `ci/self-heal/${headSha.substring(0, 7)}-${candidateId}`;
+}
+
+/**
+ * Count added and removed lines in a unified diff
+ */
+export function countLinesChanged(patch: string): number {
+  return patch
+    .split('\n')
+    .filter(
+      line =>
+        (line.startsWith('+') && !line.startsWith('+++')) ||
+        (line.startsWith('-') && !line.startsWith('---'))
+    ).length;
+}
+
+/**
+ * Order candidates best-first: applied, tests passed, fewest lines changed,
+ * safest, smallest static-analysis delta, then highest confidence
+ */
+export function compareCandidates(
+  a: PatchCandidate,
+  b: PatchCandidate
+): number {
+  return (
+    Number(b.patchApplied) - Number(a.patchApplied) ||
+    Number(b.testsPassed) - Number(a.testsPassed) ||
+    a.linesChanged - b.linesChanged ||
+    safetyRank(a) - safetyRank(b) ||
+    analysisDelta(a) - analysisDelta(b) ||
+    b.confidence - a.confidence ||
+    a.id.localeCompare(b.id)
+  );
+}
+
+/**
+ * Rank candidates best-first and record each candidate's rank
+ */
+export function rankCandidates(candidates: PatchCandidate[]): PatchCandidate[] {
+  return [...candidates]
+    .sort(compareCandidates)
+    .map((candidate, index) => ({ ...candidate, rank: index + 1 }));
+}
+
+function safetyRank(candidate: PatchCandidate): number {
+  return candidate.safetyLevel
+    ? SAFETY_ORDER[candidate.safetyLevel]
+    : SAFETY_ORDER.dangerous;
+}
+
+function analysisDelta(candidate: PatchCandidate): number {
+  return candidate.staticAnalysisDelta ?? Number.MAX_SAFE_INTEGER;
+}
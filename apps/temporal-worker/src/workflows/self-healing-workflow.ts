@@ -1,6 +1,37 @@
-import { log, proxyActivities } from '@temporalio/workflow';
+import type { TestCaseResult } from '@self-healing-ci/diagnosis/test-reports';
+import type { Duration } from '@temporalio/common';
+import {
+  CancellationScope,
+  condition,
+  defineQuery,
+  defineSignal,
+  isCancellation,
+  log,
+  proxyActivities,
+  setHandler,
+  workflowInfo,
+} from '@temporalio/workflow';
 import type * as activities from '../activities/index.js';
-import { WorkflowRunEvent } from '../types/workflow-run.js';
+import type { CompensationResult } from '../activities/compensations.js';
+import type { DiagnoseFailureResult } from '../activities/diagnose-failure.js';
+import type { RecordFixOutcomeInput } from '../activities/record-fix-outcome.js';
+import type { CheckRunTestResult } from '../activities/report-check-run.js';
+import type { RunTestsResult } from '../activities/run-tests.js';
+import type { ValidateProofsOutput } from '../activities/validate-proofs.js';
+import type { ForgeProvider } from '../services/forge/index.js';
+import type { WorkflowRunEvent } from '../types/workflow-run.js';
+import type { PatchCandidate } from './patch-tournament.js';
+import {
+  candidateBranch,
+  countLinesChanged,
+  rankCandidates,
+} from './patch-tournament.js';
+
+// Number of candidate patches requested per diagnosis round
+const DEFAULT_CANDIDATE_COUNT = 3;
+
+// Initial diagnosis plus one retry with test failure context
+const MAX_DIAGNOSIS_ROUNDS = 2;
 
 // Define workflow state enum
 export enum WorkflowState {
@@ -9,6 +40,7 @@ export enum WorkflowState {
   PATCH = 'PATCH',
   TEST = 'TEST',
   PROVE = 'PROVE',
+  AWAITING_APPROVAL = 'AWAITING_APPROVAL',
   MERGE = 'MERGE',
   DONE = 'DONE',
   FAILED = 'FAILED',
@@ -26,6 +58,87 @@ export enum RootCause {
   UNKNOWN = 'UNKNOWN',
 }
 
+// Define approval timeout policy enum
+export enum ApprovalTimeoutPolicy {
+  AUTO_MERGE = 'AUTO_MERGE',
+  AUTO_CLOSE = 'AUTO_CLOSE',
+  ESCALATE = 'ESCALATE',
+}
+
+// Define approval decision enum
+export enum ApprovalDecision {
+  APPROVED = 'APPROVED',
+  REJECTED = 'REJECTED',
+  CHANGES_REQUESTED = 'CHANGES_REQUESTED',
+  TIMED_OUT = 'TIMED_OUT',
+}
+
+// Define approval gate configuration interface
+export interface ApprovalConfig {
+  required: boolean;
+  timeout: Duration;
+  timeoutPolicy: ApprovalTimeoutPolicy;
+}
+
+// Define approval signal payload interface
+export interface ApprovalSignalInput {
+  reviewer: string;
+  comment?: string | undefined;
+}
+
+// Define approval outcome interface
+export interface ApprovalOutcome {
+  decision: ApprovalDecision;
+  reviewer?: string | undefined;
+  comment?: string | undefined;
+  policyApplied?: ApprovalTimeoutPolicy | undefined;
+  timestamp: string;
+}
+
+// Define repository configuration interface (`.self-healing.yml`)
+export interface SelfHealingConfig {
+  triggers: { workflows: string[]; branches: string[] };
+  rootCauses: RootCause[];
+  patch: {
+    maxFileChanges: number;
+    maxLinesChanged: number;
+    allowedFileTypes: string[];
+  };
+  tests: { command: string; singleTestCommand?: string; timeoutMs: number };
+  analysis: { command?: string; timeoutMs: number };
+  diagnosis: { tools: boolean; maxTurns: number; maxTokens: number };
+  proofs: { targets: string[] };
+  merge: { autoMerge: boolean; reviewers: string[]; labels: string[] };
+}
+
+// Define compensation record interface
+export interface CompensationRecord {
+  action: string;
+  success: boolean;
+  error?: string | undefined;
+}
+
+// Approval signals
+export const approveSignal = defineSignal<[ApprovalSignalInput]>('approve');
+export const rejectSignal = defineSignal<[ApprovalSignalInput]>('reject');
+export const requestChangesSignal =
+  defineSignal<[ApprovalSignalInput]>('requestChanges');
+
+// ChatOps signals
+export const ignoreFlakyTestSignal = defineSignal<[string]>('ignoreFlakyTest');
+
+// Introspection queries
+export const getStateQuery = defineQuery<WorkflowState>('getState');
+export const getDiagnosisQuery = defineQuery<DiagnoseFailureResult | null>(
+  'getDiagnosis'
+);
+export const getPatchQuery = defineQuery<string | null>('getPatch');
+export const getTestResultsQuery =
+  defineQuery<RunTestsResult[]>('getTestResults');
+export const getHistoryQuery = defineQuery<WorkflowStateData[]>('getHistory');
+export const getCandidatesQuery =
+  defineQuery<PatchCandidate[]>('getCandidates');
+
 // Define workflow input interface
 export interface SelfHealingWorkflowInput {
   workflowRunEvent: WorkflowRunEvent;
@@ -35,14 +148,19 @@ export interface SelfHealingWorkflowInput {
   branch: string;
   actor: string;
   installationId: number;
-  failureData: {
+  // Name of the failed CI workflow, for logs
+  workflowName?: string | undefined;
+  // When the run was created; orders runs of different commits
+  createdAt?: string | undefined;
+  // Collected from the failed run when omitted
+  failureData?: {
     buildLogs: string;
     baseSha: string;
     changedFiles: string[];
     commitMessage: string;
     author: string;
     duration: number;
-    failedTests: string[];
+    failedTests: TestCaseResult[];
     runner: string;
     os: string;
     nodeVersion: string;
@@ -52,6 +170,11 @@ export interface SelfHealingWorkflowInput {
     cpuUsage: number;
     networkRequests: number;
   };
+  config: SelfHealingConfig;
+  approval?: ApprovalConfig | undefined;
+  candidateCount?: number | undefined;
+  // Where the repository is hosted; GitHub when omitted
+  forge?: ForgeProvider | undefined;
 }
 
 // Define workflow state interface
@@ -71,6 +194,10 @@ export interface WorkflowResult {
   testsPassed?: boolean;
   proofsValidated?: boolean;
   merged?: boolean;
+  approval?: ApprovalOutcome | undefined;
+  winner?: PatchCandidate | undefined;
+  losingCandidates?: PatchCandidate[];
+  compensations?: CompensationRecord[];
   error?: string;
   duration: number;
   metadata: Record<string, unknown>;
@@ -78,13 +205,20 @@ export interface WorkflowResult {
 
 // Activity proxy
 const {
+  analyzePatch,
+  collectFailureData,
   diagnoseFailure,
   applyPatch,
   runTests,
   validateProofs,
-  mergeChanges,
+  recordFixOutcome,
   emitCloudEvent,
   updateWorkflowStatus,
+  reportCheckRun,
+  deleteBranch,
+  closePullRequest,
+  removeLabels,
+  revertMergeCommit,
 } = proxyActivities<typeof activities>({
   startToCloseTimeout: '5 minutes',
   retry: {
@@ -95,6 +229,19 @@ const {
   },
 });
 
+// Merging waits for the pull request's required checks, heartbeating as it
+// polls them
+const { mergeChanges } = proxyActivities<typeof activities>({
+  startToCloseTimeout: '1 hour',
+  heartbeatTimeout: '2 minutes',
+  retry: {
+    initialInterval: '1s',
+    maximumInterval: '1m',
+    maximumAttempts: 3,
+    backoffCoefficient: 2,
+  },
+});
+
 /**
  * Main self-healing workflow implementation
  */
@@ -102,223 +249,490 @@ export async function SelfHealingWorkflow(
   input: SelfHealingWorkflowInput
 ): Promise<WorkflowResult> {
   const startTime = Date.now();
-  const workflowId = log.info('Starting Self-Healing Workflow', {
-    workflowId: log.meta().workflowId,
+  const { workflowId } = workflowInfo();
+  const forge = input.forge ?? 'github';
+  log.info('Starting Self-Healing Workflow', {
+    workflowId,
     repository: input.repository,
     workflowRunId: input.workflowRunId,
     headSha: input.headSha,
   });
 
   // Initialize workflow state
-  let currentState: WorkflowState = WorkflowState.NEW;
+  let currentState = WorkflowState.NEW as WorkflowState;
   let rootCause: RootCause | undefined;
   let patchApplied = false;
   let testsPassed = false;
   let proofsValidated = false;
   let merged = false;
+  let approval: ApprovalOutcome | undefined;
   let error: string | undefined;
+  let diagnosis: DiagnoseFailureResult | null = null;
+  let patch: string | null = null;
+  let candidates: PatchCandidate[] = [];
+  let winner: PatchCandidate | undefined;
+  let compensations: CompensationRecord[] = [];
+  let proofResult: ValidateProofsOutput | undefined;
+  let checkRunId: number | undefined;
+  // The patch whose annotations the check run already carries
+  let annotatedPatch: string | null = null;
+  let mergedFix: RecordFixOutcomeInput | undefined;
+  const testResults: RunTestsResult[] = [];
+  const history: WorkflowStateData[] = [];
+  const ignoredTests: string[] = [];
+  const undoStack: Array<{
+    action: string;
+    undo: () => Promise<CompensationResult>;
+  }> = [];
 
-  try {
-    // State: NEW → DIAGNOSE
-    await updateWorkflowStatus({
-      workflowId,
-      state: WorkflowState.NEW,
-      timestamp: new Date().toISOString(),
-      data: { input },
-    });
+  setHandler(getStateQuery, () => currentState);
+  setHandler(getDiagnosisQuery, () => diagnosis);
+  setHandler(getPatchQuery, () => patch);
+  setHandler(getTestResultsQuery, () => testResults);
+  setHandler(getHistoryQuery, () => history);
+  setHandler(getCandidatesQuery, () => candidates);
 
-    log.info('Workflow state: NEW', { workflowId });
+  // Tests marked flaky are skipped by every later test run
+  setHandler(ignoreFlakyTestSignal, testName => {
+    if (!ignoredTests.includes(testName)) {
+      ignoredTests.push(testName);
+      log.info('Ignoring flaky test', { workflowId, testName });
+    }
+  });
 
-    // State: DIAGNOSE
-    currentState = WorkflowState.DIAGNOSE;
-    await updateWorkflowStatus({
-      workflowId,
-      state: currentState,
-      timestamp: new Date().toISOString(),
-    });
+  // Record every state transition for queries and the state store
+  const transitionTo = async (
+    state: WorkflowState,
+    data: Record<string, unknown> = {}
+  ): Promise<void> => {
+    const timestamp = new Date().toISOString();
+    currentState = state;
+    history.push({ state, timestamp, data });
 
-    log.info('Workflow state: DIAGNOSE', { workflowId });
+    await updateWorkflowStatus({ workflowId, state, timestamp, data });
 
-    // Emit CloudEvent for DIAGNOSE state
-    await emitCloudEvent({
-      eventType: 'workflow.state.diagnose',
-      source: 'self-healing-ci',
-      subject: 'self-healing-ci',
-      eventData: {
-        workflowId,
-        state: currentState,
-        repository: input.repository,
-        workflowRunId: input.workflowRunId,
-        timestamp: new Date().toISOString(),
-      },
+    // Check runs exist only on GitHub
+    if (forge !== 'github') {
+      return;
+    }
+
+    // Mirror the stage on the failing commit; reporting never fails the run
+    const report = await reportCheckRun({
+      repository: input.repository,
+      headSha: input.headSha,
+      installationId: input.installationId,
+      workflowRunId: input.workflowRunId,
+      state,
+      checkRunId,
+      diagnosis: diagnosis
+        ? {
+            rootCause: diagnosis.rootCause,
+            confidence: diagnosis.confidence,
+            explanation: diagnosis.explanation,
+            similarIncidents: diagnosis.similarIncidents,
+            recipe: diagnosis.recipe,
+          }
+        : undefined,
+      patch: patch ?? undefined,
+      annotatePatch: patch !== null && patch !== annotatedPatch,
+      testResults: checkRunTests(),
+      proofs: proofResult,
+      merged,
+      error,
     });
+    checkRunId = report.checkRunId ?? checkRunId;
 
-    // Perform diagnosis
-    const diagnosisResult = await diagnoseFailure(input);
-    rootCause = diagnosisResult.rootCause;
+    if (report.success) {
+      annotatedPatch = patch;
+    }
+  };
 
-    log.info('Diagnosis completed', {
-      workflowId,
-      rootCause,
-      confidence: diagnosisResult.confidence,
-    });
+  // Test results per candidate, or per rerun of the original commit
+  const checkRunTests = (): CheckRunTestResult[] =>
+    candidates.length > 0
+      ? candidates
+          .filter(candidate => candidate.testResult)
+          .map(candidate => ({
+            name:
+              candidate.id === winner?.id
+                ? `${candidate.id} (winner)`
+                : candidate.id,
+            success: candidate.testsPassed,
+            error: candidate.testResult?.error,
+          }))
+      : testResults.map((result, index) => ({
+          name: `original commit, run ${index + 1}`,
+          success: result.success,
+          error: result.error,
+        }));
 
-    // State: PATCH
-    currentState = WorkflowState.PATCH;
-    await updateWorkflowStatus({
-      workflowId,
-      state: currentState,
-      timestamp: new Date().toISOString(),
-      data: { diagnosisResult },
-    });
+  // Register an undo action for a side effect that has just happened
+  const addCompensation = (
+    action: string,
+    undo: () => Promise<CompensationResult>
+  ): void => {
+    undoStack.push({ action, undo });
+  };
 
-    log.info('Workflow state: PATCH', { workflowId });
+  // Undo side effects in reverse order; one failed undo does not stop the rest
+  const runCompensations = async (): Promise<CompensationRecord[]> => {
+    const records: CompensationRecord[] = [];
 
-    // Emit CloudEvent for PATCH state
-    await emitCloudEvent({
-      eventType: 'workflow.state.patch',
-      source: 'self-healing-ci',
-      subject: 'self-healing-ci',
-      eventData: {
-        workflowId,
-        state: currentState,
-        repository: input.repository,
-        workflowRunId: input.workflowRunId,
-        rootCause,
+    for (const { action, undo } of [...undoStack].reverse()) {
+      try {
+        const result = await undo();
+        records.push({ action, success: result.success, error: result.error });
+      } catch (err) {
+        records.push({
+          action,
+          success: false,
+          error: err instanceof Error ? err.message : 'Unknown error',
+        });
+      }
+    }
+
+    undoStack.length = 0;
+    return records;
+  };
+
+  // Approval decisions are only accepted while the gate is open
+  const recordApproval =
+    (decision: ApprovalDecision) => (signal: ApprovalSignalInput) => {
+      if (currentState !== WorkflowState.AWAITING_APPROVAL || approval) {
+        log.warn('Ignoring approval signal', {
+          workflowId,
+          decision,
+          reviewer: signal.reviewer,
+          state: currentState,
+        });
+        return;
+      }
+
+      approval = {
+        decision,
+        reviewer: signal.reviewer,
+        comment: signal.comment,
         timestamp: new Date().toISOString(),
-      },
-    });
+      };
+    };
+
+  setHandler(approveSignal, recordApproval(ApprovalDecision.APPROVED));
+  setHandler(rejectSignal, recordApproval(ApprovalDecision.REJECTED));
+  setHandler(
+    requestChangesSignal,
+    recordApproval(ApprovalDecision.CHANGES_REQUESTED)
+  );
+
+  try {
+    // State: NEW → DIAGNOSE
+    await transitionTo(WorkflowState.NEW, { input });
+
+    log.info('Workflow state: NEW', { workflowId });
 
-    // Apply patch if diagnosis was successful
-    if (
-      diagnosisResult.rootCause !== RootCause.UNKNOWN &&
-      diagnosisResult.patch
-    ) {
-      const patchResult = await applyPatch({
+    // Runs reported by the GitHub App come without their logs
+    const failureData =
+      input.failureData ??
+      (await collectFailureData({
         repository: input.repository,
+        workflowRunId: input.workflowRunId,
         headSha: input.headSha,
         branch: input.branch,
-        patch: diagnosisResult.patch,
-        rootCause: diagnosisResult.rootCause,
         installationId: input.installationId,
-      });
+        forge,
+      }));
 
-      patchApplied = patchResult.success;
+    const candidateCount = Math.max(
+      1,
+      input.candidateCount ?? DEFAULT_CANDIDATE_COUNT
+    );
+    let testFailure: RunTestsResult | undefined;
 
-      if (!patchApplied) {
-        throw new Error(`Failed to apply patch: ${patchResult.error}`);
+    for (let round = 1; round <= MAX_DIAGNOSIS_ROUNDS; round++) {
+      if (testFailure) {
+        log.info('Retrying diagnosis due to test failure', {
+          workflowId,
+          round,
+        });
       }
 
-      log.info('Patch applied successfully', {
-        workflowId,
-        patchSha: patchResult.patchSha,
-        filesChanged: patchResult.filesChanged,
-      });
-    } else {
-      log.info('No patch to apply', { workflowId, rootCause });
-    }
+      // State: DIAGNOSE
+      await transitionTo(
+        WorkflowState.DIAGNOSE,
+        testFailure ? { round, testFailure } : { round }
+      );
 
-    // State: TEST
-    currentState = WorkflowState.TEST;
-    await updateWorkflowStatus({
-      workflowId,
-      state: currentState,
-      timestamp: new Date().toISOString(),
-      data: { patchApplied },
-    });
+      log.info('Workflow state: DIAGNOSE', { workflowId, round });
 
-    log.info('Workflow state: TEST', { workflowId });
+      // Emit CloudEvent for DIAGNOSE state
+      await emitCloudEvent({
+        eventType: 'workflow.state.diagnose',
+        source: 'self-healing-ci',
+        subject: 'self-healing-ci',
+        eventData: {
+          workflowId,
+          state: currentState,
+          repository: input.repository,
+          workflowRunId: input.workflowRunId,
+          round,
+          timestamp: new Date().toISOString(),
+        },
+      });
 
-    // Emit CloudEvent for TEST state
-    await emitCloudEvent({
-      eventType: 'workflow.state.test',
-      source: 'self-healing-ci',
-      subject: 'self-healing-ci',
-      eventData: {
+      // Ask for several candidate patches, with test failure context on retry
+      const diagnosisResult = await diagnoseFailure({
+        ...input,
+        failureData,
+        candidateCount,
+        allowedRootCauses: input.config.rootCauses,
+        diagnosis: input.config.diagnosis,
+        tests: input.config.tests,
+        ...(testFailure && { testFailure }),
+      });
+      rootCause = diagnosisResult.rootCause;
+      diagnosis = diagnosisResult;
+
+      log.info('Diagnosis completed', {
         workflowId,
-        state: currentState,
-        repository: input.repository,
-        workflowRunId: input.workflowRunId,
-        patchApplied,
-        timestamp: new Date().toISOString(),
-      },
-    });
+        rootCause,
+        confidence: diagnosisResult.confidence,
+        candidates: diagnosisResult.candidates.length,
+        toolCalls: diagnosisResult.toolCalls.length,
+        tokensUsed: diagnosisResult.tokensUsed,
+        recipe: diagnosisResult.recipe,
+      });
 
-    // Run tests
-    const testResult = await runTests({
-      repository: input.repository,
-      headSha: input.headSha,
-      branch: input.branch,
-      installationId: input.installationId,
-    });
+      const offset = candidates.length;
+      const diagnosed: PatchCandidate[] =
+        diagnosisResult.rootCause === RootCause.UNKNOWN
+          ? []
+          : diagnosisResult.candidates.map((candidate, index) => {
+              const id = `c${offset + index + 1}`;
 
-    testsPassed = testResult.success;
+              return {
+                ...candidate,
+                id,
+                targetBranch: candidateBranch(input.headSha, id),
+                linesChanged: countLinesChanged(candidate.patch),
+                patchApplied: false,
+                testsPassed: false,
+              };
+            });
 
-    if (!testsPassed) {
-      log.warn('Tests failed after patch', {
-        workflowId,
-        testError: testResult.error,
-        testOutput: testResult.output,
+      // State: PATCH
+      await transitionTo(WorkflowState.PATCH, {
+        diagnosisResult,
+        candidates: diagnosed.map(candidate => candidate.id),
       });
 
-      // If tests fail, we might need to retry diagnosis
-      if (testResult.retryDiagnosis) {
-        log.info('Retrying diagnosis due to test failure', { workflowId });
+      log.info('Workflow state: PATCH', { workflowId, round });
 
-        // Go back to DIAGNOSE state
-        currentState = WorkflowState.DIAGNOSE;
-        await updateWorkflowStatus({
+      // Emit CloudEvent for PATCH state
+      await emitCloudEvent({
+        eventType: 'workflow.state.patch',
+        source: 'self-healing-ci',
+        subject: 'self-healing-ci',
+        eventData: {
           workflowId,
           state: currentState,
+          repository: input.repository,
+          workflowRunId: input.workflowRunId,
+          rootCause,
+          candidates: diagnosed.length,
           timestamp: new Date().toISOString(),
-          data: { testFailure: testResult },
-        });
-
-        // Retry diagnosis with test failure context
-        const retryDiagnosisResult = await diagnoseFailure({
-          ...input,
-          testFailure: testResult,
-        });
+        },
+      });
 
-        if (
-          retryDiagnosisResult.rootCause !== RootCause.UNKNOWN &&
-          retryDiagnosisResult.patch
-        ) {
-          // Apply new patch
-          const retryPatchResult = await applyPatch({
+      // Apply every candidate to its own branch in parallel
+      const applied = await Promise.all(
+        diagnosed.map(async candidate => {
+          const patchResult = await applyPatch({
             repository: input.repository,
             headSha: input.headSha,
             branch: input.branch,
-            patch: retryDiagnosisResult.patch,
-            rootCause: retryDiagnosisResult.rootCause,
+            targetBranch: candidate.targetBranch,
+            patch: candidate.patch,
+            rootCause: candidate.rootCause,
             installationId: input.installationId,
+            forge,
+            limits: input.config.patch,
+            failure: {
+              workflowRunId: input.workflowRunId,
+              actor: input.actor,
+              failureData,
+              explanation: candidate.explanation,
+              testFailure,
+            },
           });
 
-          if (retryPatchResult.success) {
-            // Run tests again
-            const retryTestResult = await runTests({
-              repository: input.repository,
-              headSha: input.headSha,
-              branch: input.branch,
-              installationId: input.installationId,
-            });
-
-            testsPassed = retryTestResult.success;
+          if (patchResult.success) {
+            addCompensation(`delete branch ${candidate.targetBranch}`, () =>
+              deleteBranch({
+                repository: input.repository,
+                branch: candidate.targetBranch,
+                installationId: input.installationId,
+                forge,
+              })
+            );
           }
-        }
+
+          return {
+            ...candidate,
+            patchApplied: patchResult.success,
+            patchSha: patchResult.patchSha,
+            safetyLevel: patchResult.safetyLevel,
+            error: patchResult.error,
+          };
+        })
+      );
+
+      const appliedCount = applied.filter(
+        candidate => candidate.patchApplied
+      ).length;
+
+      if (diagnosed.length === 0) {
+        log.info('No patch to apply', { workflowId, rootCause });
+      } else if (appliedCount === 0 && round === 1) {
+        throw new Error(
+          `Failed to apply patch: ${applied
+            .map(candidate => `${candidate.id}: ${candidate.error}`)
+            .join('; ')}`
+        );
+      } else {
+        log.info('Candidate patches applied', {
+          workflowId,
+          applied: appliedCount,
+          total: applied.length,
+        });
       }
-    } else {
-      log.info('Tests passed after patch', { workflowId });
+
+      // State: TEST
+      await transitionTo(WorkflowState.TEST, {
+        candidatesApplied: appliedCount,
+      });
+
+      log.info('Workflow state: TEST', { workflowId, round });
+
+      // Emit CloudEvent for TEST state
+      await emitCloudEvent({
+        eventType: 'workflow.state.test',
+        source: 'self-healing-ci',
+        subject: 'self-healing-ci',
+        eventData: {
+          workflowId,
+          state: currentState,
+          repository: input.repository,
+          workflowRunId: input.workflowRunId,
+          candidatesApplied: appliedCount,
+          timestamp: new Date().toISOString(),
+        },
+      });
+
+      let roundTestResult: RunTestsResult | undefined;
+
+      if (diagnosed.length === 0) {
+        // Nothing to compete; rerun the tests on the original commit
+        roundTestResult = await runTests({
+          repository: input.repository,
+          headSha: input.headSha,
+          branch: input.branch,
+          installationId: input.installationId,
+          testCommand: input.config.tests.command,
+          timeoutMs: input.config.tests.timeoutMs,
+          ignoredTests: [...ignoredTests],
+        });
+
+        testResults.push(roundTestResult);
+        testsPassed = roundTestResult.success;
+      } else {
+        // Test and analyze every applied candidate in parallel
+        const evaluated = await Promise.all(
+          applied.map(async candidate => {
+            if (!candidate.patchApplied) {
+              return candidate;
+            }
+
+            const patchSha = candidate.patchSha ?? input.headSha;
+            const [testResult, analysisResult] = await Promise.all([
+              runTests({
+                repository: input.repository,
+                headSha: patchSha,
+                branch: candidate.targetBranch,
+                installationId: input.installationId,
+                testCommand: input.config.tests.command,
+                timeoutMs: input.config.tests.timeoutMs,
+                ignoredTests: [...ignoredTests],
+              }),
+              analyzePatch({
+                repository: input.repository,
+                branch: candidate.targetBranch,
+                installationId: input.installationId,
+                forge,
+                baseSha: input.headSha,
+                patchSha,
+                command: input.config.analysis.command,
+                timeoutMs: input.config.analysis.timeoutMs,
+              }),
+            ]);
+
+            testResults.push(testResult);
+
+            return {
+              ...candidate,
+              testsPassed: testResult.success,
+              testResult,
+              staticAnalysisDelta: analysisResult.success
+                ? analysisResult.delta
+                : undefined,
+            };
+          })
+        );
+
+        candidates = rankCandidates([...candidates, ...evaluated]);
+        winner = candidates[0];
+        rootCause = winner?.rootCause ?? rootCause;
+        patchApplied = winner?.patchApplied ?? false;
+        patch = winner?.patch ?? null;
+        testsPassed = winner?.testsPassed ?? false;
+        roundTestResult = winner?.testResult;
+
+        log.info('Patch tournament ranked', {
+          workflowId,
+          round,
+          winner: winner?.id,
+          ranking: candidates.map(candidate => ({
+            id: candidate.id,
+            testsPassed: candidate.testsPassed,
+            linesChanged: candidate.linesChanged,
+            safetyLevel: candidate.safetyLevel,
+            staticAnalysisDelta: candidate.staticAnalysisDelta,
+          })),
+        });
+      }
+
+      if (testsPassed) {
+        log.info('Tests passed after patch', {
+          workflowId,
+          winner: winner?.id,
+        });
+        break;
+      }
+
+      log.warn('Tests failed after patch', {
+        workflowId,
+        testError: roundTestResult?.error,
+        testOutput: roundTestResult?.output,
+      });
+
+      // If tests fail, we might need to retry diagnosis
+      if (!roundTestResult?.retryDiagnosis) {
+        break;
+      }
+
+      testFailure = roundTestResult;
     }
 
     // State: PROVE
-    currentState = WorkflowState.PROVE;
-    await updateWorkflowStatus({
-      workflowId,
-      state: currentState,
-      timestamp: new Date().toISOString(),
-      data: { testsPassed },
-    });
+    await transitionTo(WorkflowState.PROVE, { testsPassed });
 
     log.info('Workflow state: PROVE', { workflowId });
 
@@ -339,11 +753,11 @@ export async function SelfHealingWorkflow(
 
     // Validate proofs if tests passed
     if (testsPassed) {
-      const proofResult = await validateProofs({
+      proofResult = await validateProofs({
         repository: input.repository,
-        headSha: input.headSha,
-        branch: input.branch,
-        installationId: input.installationId,
+        headSha: winner?.patchSha ?? input.headSha,
+        branch: winner?.targetBranch ?? input.branch,
+        proofFiles: input.config.proofs.targets,
       });
 
       proofsValidated = proofResult.success;
@@ -362,13 +776,93 @@ export async function SelfHealingWorkflow(
       });
     }
 
+    // Tests can pass on the original commit when no candidate was made, which
+    // leaves nothing to merge
+    const fix = testsPassed && proofsValidated ? winner : undefined;
+    let approvedForMerge = fix !== undefined;
+
+    // State: AWAITING_APPROVAL (optional human-in-the-loop gate)
+    if (approvedForMerge && input.approval?.required) {
+      await transitionTo(WorkflowState.AWAITING_APPROVAL, {
+        timeout: input.approval.timeout,
+        timeoutPolicy: input.approval.timeoutPolicy,
+      });
+
+      log.info('Workflow state: AWAITING_APPROVAL', { workflowId });
+
+      // Emit CloudEvent for AWAITING_APPROVAL state
+      await emitCloudEvent({
+        eventType: 'workflow.state.awaiting_approval',
+        source: 'self-healing-ci',
+        subject: 'self-healing-ci',
+        eventData: {
+          workflowId,
+          state: currentState,
+          repository: input.repository,
+          workflowRunId: input.workflowRunId,
+          rootCause,
+          timeout: input.approval.timeout,
+          timeoutPolicy: input.approval.timeoutPolicy,
+          timestamp: new Date().toISOString(),
+        },
+      });
+
+      const decided = await condition(
+        () => approval !== undefined,
+        input.approval.timeout
+      );
+
+      if (!decided) {
+        log.warn('Approval timed out', {
+          workflowId,
+          timeoutPolicy: input.approval.timeoutPolicy,
+        });
+
+        if (input.approval.timeoutPolicy === ApprovalTimeoutPolicy.ESCALATE) {
+          // Escalate and keep the gate open until someone decides
+          await emitCloudEvent({
+            eventType: 'workflow.approval.escalated',
+            source: 'self-healing-ci',
+            subject: 'self-healing-ci',
+            eventData: {
+              workflowId,
+              state: currentState,
+              repository: input.repository,
+              workflowRunId: input.workflowRunId,
+              timeout: input.approval.timeout,
+              timestamp: new Date().toISOString(),
+            },
+          });
+
+          await condition(() => approval !== undefined);
+        } else {
+          approval = {
+            decision: ApprovalDecision.TIMED_OUT,
+            policyApplied: input.approval.timeoutPolicy,
+            timestamp: new Date().toISOString(),
+          };
+        }
+      }
+
+      // Signal handlers assign `approval` outside TypeScript's control flow
+      const outcome = approval as ApprovalOutcome | undefined;
+      approvedForMerge =
+        outcome?.decision === ApprovalDecision.APPROVED ||
+        outcome?.policyApplied === ApprovalTimeoutPolicy.AUTO_MERGE;
+
+      log.info('Approval gate closed', {
+        workflowId,
+        decision: outcome?.decision,
+        reviewer: outcome?.reviewer,
+        approvedForMerge,
+      });
+    }
+
     // State: MERGE
-    currentState = WorkflowState.MERGE;
-    await updateWorkflowStatus({
-      workflowId,
-      state: currentState,
-      timestamp: new Date().toISOString(),
-      data: { testsPassed, proofsValidated },
+    await transitionTo(WorkflowState.MERGE, {
+      testsPassed,
+      proofsValidated,
+      approval,
     });
 
     log.info('Workflow state: MERGE', { workflowId });
@@ -385,32 +879,77 @@ export async function SelfHealingWorkflow(
         workflowRunId: input.workflowRunId,
         testsPassed,
         proofsValidated,
+        approvalDecision: approval?.decision,
         timestamp: new Date().toISOString(),
       },
     });
 
-    // Merge changes if everything passed
-    if (testsPassed && proofsValidated) {
-      // Parse repository to get owner and repo name
-      const [owner, repo] = input.repository.split('/');
-
+    // Merge changes if everything passed and the approval gate allows it
+    if (approvedForMerge && fix) {
       const mergeResult = await mergeChanges({
-        owner,
-        repo,
-        baseBranch: input.branch,
-        headBranch: `ci/self-heal/${input.headSha.substring(0, 7)}`,
+        repository: input.repository,
+        branch: input.branch,
+        headSha: input.headSha,
+        installationId: input.installationId,
+        forge,
+        headBranch: fix.targetBranch,
+        patchSha: fix.patchSha,
         title: `fix: Self-healing CI automated fix for ${
           rootCause || 'unknown issue'
         }`,
-        body: `Automated fix applied by Self-Healing CI system.\n\nRoot cause: ${rootCause}\nPatch applied: ${patchApplied}\nTests passed: ${testsPassed}\nProofs validated: ${proofsValidated}`,
-        rootCauseEnum: rootCause || 'UNKNOWN',
-        proofVerdict: proofsValidated ? 'PASS' : 'FAIL',
-        commitSha: input.headSha,
-        appId: process.env.GITHUB_APP_ID || '',
-        privateKey: process.env.GITHUB_APP_PRIVATE_KEY || '',
-        webhookSecret: process.env.GITHUB_WEBHOOK_SECRET || '',
+        summary: {
+          workflowId,
+          workflowRunId: input.workflowRunId,
+          rootCause: rootCause ?? RootCause.UNKNOWN,
+          explanation: fix.explanation,
+          testsPassed,
+          proofVerdict: proofsValidated ? 'PASS' : 'FAIL',
+          candidatesEvaluated: candidates.length,
+        },
+        reviewers: input.config.merge.reviewers,
+        labels: input.config.merge.labels,
       });
 
+      // Register undo actions for whatever the merge got done, even on failure
+      const { prNumber, labels, mergeCommitSha } = mergeResult;
+
+      if (prNumber !== undefined) {
+        addCompensation(`close pull request #${prNumber}`, () =>
+          closePullRequest({
+            repository: input.repository,
+            prNumber,
+            comment: `Self-Healing CI run \`${workflowId}\` failed after opening this pull request, so its changes are being rolled back.\n\nReason: ${error}`,
+            installationId: input.installationId,
+            forge,
+          })
+        );
+
+        if (labels && labels.length > 0) {
+          addCompensation(`remove labels from #${prNumber}`, () =>
+            removeLabels({
+              repository: input.repository,
+              issueNumber: prNumber,
+              labels,
+              installationId: input.installationId,
+              forge,
+            })
+          );
+        }
+      }
+
+      if (mergeCommitSha) {
+        addCompensation(`revert merge commit ${mergeCommitSha}`, () =>
+          revertMergeCommit({
+            repository: input.repository,
+            baseBranch: input.branch,
+            mergeCommitSha,
+            reason: `Self-Healing CI run ${workflowId} failed: ${error}`,
+            installationId: input.installationId,
+            forge,
+          })
+        );
+      }
+
       merged = mergeResult.success;
 
       if (!merged) {
@@ -423,21 +962,61 @@ export async function SelfHealingWorkflow(
         prNumber: mergeResult.prNumber,
         branchDeleted: mergeResult.branchDeleted,
       });
+
+      // Remember the fix for later diagnoses of similar failures
+      mergedFix = {
+        workflowId,
+        installationId: input.installationId,
+        repository: input.repository,
+        failureData,
+        rootCause: fix.rootCause,
+        explanation: fix.explanation,
+        patch: fix.patch,
+        outcome: 'merged',
+        prNumber,
+      };
+      await recordFixOutcome(mergedFix);
     } else {
-      log.info('Skipping merge due to test or proof failure', {
+      log.info('Skipping merge due to test, proof or approval failure', {
         workflowId,
+        fixFound: winner !== undefined,
         testsPassed,
         proofsValidated,
+        approvalDecision: approval?.decision,
       });
     }
 
+    // Branches of candidates that were not merged are of no further use
+    const unmerged = candidates.filter(
+      candidate =>
+        candidate.patchApplied && !(merged && candidate.id === winner?.id)
+    );
+    const cleanups = await Promise.all(
+      unmerged.map(candidate =>
+        deleteBranch({
+          repository: input.repository,
+          branch: candidate.targetBranch,
+          installationId: input.installationId,
+          forge,
+        })
+      )
+    );
+
+    cleanups.forEach((cleanup, index) => {
+      if (!cleanup.success) {
+        log.warn('Failed to delete candidate branch', {
+          workflowId,
+          branch: unmerged[index]?.targetBranch,
+          error: cleanup.error,
+        });
+      }
+    });
+
     // State: DONE
-    currentState = WorkflowState.DONE;
-    await updateWorkflowStatus({
-      workflowId,
-      state: currentState,
-      timestamp: new Date().toISOString(),
-      data: { testsPassed, proofsValidated, merged },
+    await transitionTo(WorkflowState.DONE, {
+      testsPassed,
+      proofsValidated,
+      merged,
     });
 
     log.info('Workflow state: DONE', { workflowId });
@@ -459,37 +1038,59 @@ export async function SelfHealingWorkflow(
       },
     });
   } catch (err) {
-    // State: FAILED
-    currentState = WorkflowState.FAILED;
-    error = err instanceof Error ? err.message : 'Unknown error';
+    const cancelled = isCancellation(err);
+    error = cancelled
+      ? 'Workflow cancelled'
+      : err instanceof Error
+        ? err.message
+        : 'Unknown error';
 
-    await updateWorkflowStatus({
-      workflowId,
-      state: currentState,
-      timestamp: new Date().toISOString(),
-      data: { error },
-    });
+    // Cleanup has to run even when the workflow itself is being cancelled
+    await CancellationScope.nonCancellable(async () => {
+      compensations = await runCompensations();
 
-    log.error('Workflow failed', {
-      workflowId,
-      error,
-      state: currentState,
-    });
+      if (compensations.length > 0) {
+        log.info('Compensations completed', { workflowId, compensations });
+      }
 
-    // Emit CloudEvent for FAILED state
-    await emitCloudEvent({
-      eventType: 'workflow.state.failed',
-      source: 'self-healing-ci',
-      subject: 'self-healing-ci',
-      eventData: {
+      // A reverted fix is still worth knowing about, as one that did not hold
+      const reverted = compensations.some(
+        record =>
+          record.success && record.action.startsWith('revert merge commit')
+      );
+      if (mergedFix && reverted) {
+        await recordFixOutcome({ ...mergedFix, outcome: 'reverted' });
+      }
+
+      // State: FAILED
+      await transitionTo(WorkflowState.FAILED, { error, compensations });
+
+      log.error('Workflow failed', {
         workflowId,
-        state: currentState,
-        repository: input.repository,
-        workflowRunId: input.workflowRunId,
         error,
-        timestamp: new Date().toISOString(),
-      },
+        state: currentState,
+      });
+
+      // Emit CloudEvent for FAILED state
+      await emitCloudEvent({
+        eventType: 'workflow.state.failed',
+        source: 'self-healing-ci',
+        subject: 'self-healing-ci',
+        eventData: {
+          workflowId,
+          state: currentState,
+          repository: input.repository,
+          workflowRunId: input.workflowRunId,
+          error,
+          compensations,
+          timestamp: new Date().toISOString(),
+        },
+      });
     });
+
+    if (cancelled) {
+      throw err;
+    }
   }
 
   const duration = Date.now() - startTime;
@@ -502,6 +1103,12 @@ export async function SelfHealingWorkflow(
     testsPassed,
     proofsValidated,
     merged,
+    approval,
+    winner,
+    losingCandidates: candidates.filter(
+      candidate => candidate.id !== winner?.id
+    ),
+    compensations,
     error,
     duration,
     metadata: {
@@ -0,0 +1,150 @@
+import axios from 'axios';
+import type {
+  AnthropicProviderConfig,
+  DiagnosisCompletion,
+  DiagnosisMessage,
+  DiagnosisProvider,
+  DiagnosisRequest,
+} from './types.js';
+import { DiagnosisProviderError } from './types.js';
+
+type ContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'tool_use'; id: string; name: string; input: unknown }
+  | {
+      type: 'tool_result';
+      tool_use_id: string;
+      content: string;
+      is_error: boolean;
+    };
+
+interface MessagesResponse {
+  model?: string;
+  content?: Array<{
+    type: string;
+    text?: string;
+    id?: string;
+    name?: string;
+    input?: Record<string, unknown>;
+  }>;
+  usage?: { input_tokens?: number; output_tokens?: number };
+}
+
+/**
+ * Diagnosis through the Anthropic Messages API
+ */
+export class AnthropicProvider implements DiagnosisProvider {
+  readonly type = 'anthropic';
+  readonly model: string;
+
+  constructor(
+    private readonly config: AnthropicProviderConfig,
+    private readonly apiKey: string
+  ) {
+    this.model = config.model;
+  }
+
+  async complete(request: DiagnosisRequest): Promise<DiagnosisCompletion> {
+    try {
+      const { data } = await axios.post<MessagesResponse>(
+        `${this.config.baseUrl}/v1/messages`,
+        {
+          model: this.model,
+          max_tokens: request.maxTokens ?? 4096,
+          temperature: request.temperature ?? 0,
+          system: request.systemPrompt,
+          messages: [
+            { role: 'user', content: request.userPrompt },
+            ...toAnthropicMessages(request.messages ?? []),
+          ],
+          ...(request.tools?.length && {
+            tools: request.tools.map(tool => ({
+              name: tool.name,
+              description: tool.description,
+              input_schema: tool.inputSchema,
+            })),
+          }),
+        },
+        {
+          headers: {
+            'x-api-key': this.apiKey,
+            'anthropic-version': '2023-06-01',
+            'Content-Type': 'application/json',
+          },
+          timeout: this.config.timeoutMs,
+        }
+      );
+
+      const blocks = data.content ?? [];
+
+      return {
+        content: blocks
+          .filter(block => block.type === 'text')
+          .map(block => block.text ?? '')
+          .join(''),
+        toolCalls: blocks
+          .filter(block => block.type === 'tool_use')
+          .map(block => ({
+            id: block.id ?? '',
+            name: block.name ?? '',
+            input: block.input ?? {},
+          })),
+        tokensUsed:
+          (data.usage?.input_tokens ?? 0) + (data.usage?.output_tokens ?? 0),
+        model: data.model ?? this.model,
+        provider: this.type,
+      };
+    } catch (error) {
+      throw DiagnosisProviderError.fromHttpError(error, this.type);
+    }
+  }
+}
+
+/**
+ * Anthropic wants tool results as content blocks of the following user turn,
+ * so consecutive results are merged into one message
+ */
+function toAnthropicMessages(
+  messages: DiagnosisMessage[]
+): Array<{ role: 'user' | 'assistant'; content: ContentBlock[] }> {
+  const converted: Array<{
+    role: 'user' | 'assistant';
+    content: ContentBlock[];
+  }> = [];
+
+  for (const message of messages) {
+    if (message.role === 'assistant') {
+      converted.push({
+        role: 'assistant',
+        content: [
+          ...(message.content
+            ? [{ type: 'text' as const, text: message.content }]
+            : []),
+          ...message.toolCalls.map(call => ({
+            type: 'tool_use' as const,
+            id: call.id,
+            name: call.name,
+            input: call.input,
+          })),
+        ],
+      });
+      continue;
+    }
+
+    const result: ContentBlock = {
+      type: 'tool_result',
+      tool_use_id: message.toolCallId,
+      content: message.content,
+      is_error: message.isError,
+    };
+    const previous = converted[converted.length - 1];
+
+    if (previous?.role === 'user') {
+      previous.content.push(result);
+    } else {
+      converted.push({ role: 'user', content: [result] });
+    }
+  }
+
+  return converted;
+}
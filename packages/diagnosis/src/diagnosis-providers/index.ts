@@ -0,0 +1,106 @@
+import { readFileSync } from 'fs';
+import { z } from 'zod';
+import { AnthropicProvider } from './anthropic.js';
+import { OpenAICompatibleProvider } from './openai-compatible.js';
+import { RecordedResponseProvider } from './recorded.js';
+import type { DiagnosisProvider, DiagnosisProviderConfig } from './types.js';
+import {
+  DiagnosisProviderConfigSchema,
+  DiagnosisProviderError,
+  RecordedResponseSchema,
+} from './types.js';
+
+export * from './types.js';
+export {
+  AnthropicProvider,
+  OpenAICompatibleProvider,
+  RecordedResponseProvider,
+};
+export { promptHash } from './recorded.js';
+
+type Environment = Record<string, string | undefined>;
+
+/**
+ * Build a provider from its settings, reading API keys from `env`
+ */
+export function createDiagnosisProvider(
+  config: DiagnosisProviderConfig,
+  env: Environment = process.env
+): DiagnosisProvider {
+  switch (config.type) {
+    case 'anthropic': {
+      const apiKey = env[config.apiKeyEnv];
+      if (!apiKey) {
+        throw new DiagnosisProviderError(
+          `${config.apiKeyEnv} is not set`,
+          config.type,
+          false
+        );
+      }
+      return new AnthropicProvider(config, apiKey);
+    }
+
+    case 'openai':
+      return new OpenAICompatibleProvider(config, env[config.apiKeyEnv]);
+
+    case 'recorded': {
+      const recorded = config.path
+        ? z
+            .array(RecordedResponseSchema)
+            .parse(JSON.parse(readFileSync(config.path, 'utf8')))
+        : [];
+      return new RecordedResponseProvider([...config.responses, ...recorded]);
+    }
+  }
+}
+
+/**
+ * Provider settings for an installation
+ *
+ * `DIAGNOSIS_PROVIDER_OVERRIDES` is a JSON object keyed by installation ID
+ * whose values are provider settings; other installations use the provider
+ * named by `DIAGNOSIS_PROVIDER` (default `anthropic`), configured from the
+ * `CLAUDE_*`, `OPENAI_*` and `DIAGNOSIS_RECORDINGS_PATH` variables.
+ */
+export function getDiagnosisProviderConfig(
+  installationId: number,
+  env: Environment = process.env
+): DiagnosisProviderConfig {
+  const overrides = z
+    .record(z.unknown())
+    .parse(JSON.parse(env['DIAGNOSIS_PROVIDER_OVERRIDES'] || '{}'));
+  const override = overrides[String(installationId)];
+
+  if (override !== undefined) {
+    return DiagnosisProviderConfigSchema.parse(override);
+  }
+
+  const type = env['DIAGNOSIS_PROVIDER'] || 'anthropic';
+
+  return DiagnosisProviderConfigSchema.parse({
+    type,
+    ...(type === 'anthropic' &&
+      env['CLAUDE_MODEL'] && { model: env['CLAUDE_MODEL'] }),
+    ...(type === 'openai' && {
+      ...(env['OPENAI_MODEL'] && { model: env['OPENAI_MODEL'] }),
+      ...(env['OPENAI_BASE_URL'] && { baseUrl: env['OPENAI_BASE_URL'] }),
+    }),
+    ...(type === 'recorded' &&
+      env['DIAGNOSIS_RECORDINGS_PATH'] && {
+        path: env['DIAGNOSIS_RECORDINGS_PATH'],
+      }),
+  });
+}
+
+/**
+ * Provider to diagnose failures for an installation
+ */
+export function getDiagnosisProvider(
+  installationId: number,
+  env: Environment = process.env
+): DiagnosisProvider {
+  return createDiagnosisProvider(
+    getDiagnosisProviderConfig(installationId, env),
+    env
+  );
+}
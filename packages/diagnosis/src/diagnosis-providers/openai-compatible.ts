@@ -0,0 +1,130 @@
+import axios from 'axios';
+import type {
+  DiagnosisCompletion,
+  DiagnosisMessage,
+  DiagnosisProvider,
+  DiagnosisRequest,
+  OpenAIProviderConfig,
+} from './types.js';
+import { DiagnosisProviderError } from './types.js';
+
+interface ChatToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+interface ChatCompletionResponse {
+  model?: string;
+  choices?: Array<{
+    message?: { content?: string | null; tool_calls?: ChatToolCall[] };
+  }>;
+  usage?: { total_tokens?: number };
+}
+
+/**
+ * Diagnosis through any server speaking the OpenAI chat completions API,
+ * such as OpenAI itself, Azure OpenAI, vLLM, Ollama or LiteLLM
+ */
+export class OpenAICompatibleProvider implements DiagnosisProvider {
+  readonly type = 'openai';
+  readonly model: string;
+
+  constructor(
+    private readonly config: OpenAIProviderConfig,
+    private readonly apiKey: string | undefined
+  ) {
+    this.model = config.model;
+  }
+
+  async complete(request: DiagnosisRequest): Promise<DiagnosisCompletion> {
+    try {
+      const { data } = await axios.post<ChatCompletionResponse>(
+        `${this.config.baseUrl.replace(/\/$/, '')}/chat/completions`,
+        {
+          model: this.model,
+          max_tokens: request.maxTokens ?? 4096,
+          temperature: request.temperature ?? 0,
+          messages: [
+            { role: 'system', content: request.systemPrompt },
+            { role: 'user', content: request.userPrompt },
+            ...(request.messages ?? []).map(toChatMessage),
+          ],
+          ...(request.tools?.length && {
+            tools: request.tools.map(tool => ({
+              type: 'function',
+              function: {
+                name: tool.name,
+                description: tool.description,
+                parameters: tool.inputSchema,
+              },
+            })),
+          }),
+        },
+        {
+          headers: {
+            // Local servers often run without authentication
+            ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` }),
+            'Content-Type': 'application/json',
+          },
+          timeout: this.config.timeoutMs,
+        }
+      );
+
+      const message = data.choices?.[0]?.message;
+
+      return {
+        content: message?.content ?? '',
+        toolCalls: (message?.tool_calls ?? []).map(call => ({
+          id: call.id,
+          name: call.function.name,
+          input: parseArguments(call.function.arguments),
+        })),
+        tokensUsed: data.usage?.total_tokens ?? 0,
+        model: data.model ?? this.model,
+        provider: this.type,
+      };
+    } catch (error) {
+      throw DiagnosisProviderError.fromHttpError(error, this.type);
+    }
+  }
+}
+
+function toChatMessage(message: DiagnosisMessage): Record<string, unknown> {
+  if (message.role === 'tool') {
+    return {
+      role: 'tool',
+      tool_call_id: message.toolCallId,
+      content: message.isError ? `Error: ${message.content}` : message.content,
+    };
+  }
+
+  return {
+    role: 'assistant',
+    content: message.content || null,
+    ...(message.toolCalls.length > 0 && {
+      tool_calls: message.toolCalls.map(
+        (call): ChatToolCall => ({
+          id: call.id,
+          type: 'function',
+          function: { name: call.name, arguments: JSON.stringify(call.input) },
+        })
+      ),
+    }),
+  };
+}
+
+/**
+ * Tool arguments arrive as a JSON string that smaller models do not always
+ * get right; unparseable arguments become an empty input
+ */
+function parseArguments(raw: string): Record<string, unknown> {
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    return typeof parsed === 'object' && parsed !== null
+      ? (parsed as Record<string, unknown>)
+      : {};
+  } catch {
+    return {};
+  }
+}
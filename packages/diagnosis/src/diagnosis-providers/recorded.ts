@@ -0,0 +1,78 @@
+import { createHash } from 'crypto';
+import { z } from 'zod';
+import type {
+  DiagnosisCompletion,
+  DiagnosisProvider,
+  DiagnosisRequest,
+  RecordedResponse,
+} from './types.js';
+import { DiagnosisProviderError, RecordedResponseSchema } from './types.js';
+
+/**
+ * Deterministic provider answering from recorded responses
+ *
+ * Makes no network calls, so the whole pipeline can run in tests and local
+ * development. A prompt without a matching recording is an error rather than
+ * a made-up diagnosis. In a tool-use conversation the turn is the number of
+ * assistant messages so far.
+ */
+export class RecordedResponseProvider implements DiagnosisProvider {
+  readonly type = 'recorded';
+  readonly model = 'recorded';
+
+  private readonly responses: RecordedResponse[];
+
+  constructor(responses: z.input<typeof RecordedResponseSchema>[]) {
+    this.responses = z.array(RecordedResponseSchema).parse(responses);
+  }
+
+  async complete(request: DiagnosisRequest): Promise<DiagnosisCompletion> {
+    const hash = promptHash(request);
+    const turn = (request.messages ?? []).filter(
+      message => message.role === 'assistant'
+    ).length;
+    const recording = this.responses.find(
+      candidate =>
+        (candidate.turn === undefined || candidate.turn === turn) &&
+        (candidate.promptHash !== undefined
+          ? candidate.promptHash === hash
+          : candidate.match === undefined ||
+            request.userPrompt.includes(candidate.match))
+    );
+
+    if (!recording) {
+      throw new DiagnosisProviderError(
+        `No recorded response for prompt ${hash} at turn ${turn}`,
+        this.type,
+        false
+      );
+    }
+
+    return {
+      content:
+        typeof recording.response === 'string'
+          ? recording.response
+          : JSON.stringify(recording.response),
+      toolCalls: recording.toolCalls.map((call, index) => ({
+        id: call.id ?? `recorded-${turn}-${index}`,
+        name: call.name,
+        input: call.input,
+      })),
+      tokensUsed: recording.tokensUsed,
+      model: this.model,
+      provider: this.type,
+    };
+  }
+}
+
+/**
+ * Hash identifying a prompt, for recordings that must match it exactly
+ */
+export function promptHash(request: DiagnosisRequest): string {
+  return createHash('sha256')
+    .update(request.systemPrompt)
+    .update('\0')
+    .update(request.userPrompt)
+    .digest('hex')
+    .substring(0, 16);
+}
@@ -0,0 +1,169 @@
+import axios from 'axios';
+import { z } from 'zod';
+
+export const DEFAULT_ANTHROPIC_MODEL = 'claude-3-5-haiku-20241022';
+export const DEFAULT_OPENAI_MODEL = 'gpt-4o-mini';
+
+/**
+ * A canned response for the recorded provider
+ *
+ * Entries are tried in order. One with `promptHash` answers only that exact
+ * prompt, one with `match` answers any user prompt containing the text, and
+ * one with neither answers everything. With `turn` set, an entry only answers
+ * that turn of a tool-use conversation, counting from 0.
+ */
+export const RecordedResponseSchema = z.object({
+  promptHash: z.string().optional(),
+  match: z.string().optional(),
+  turn: z.number().int().nonnegative().optional(),
+  response: z.union([z.string(), z.record(z.unknown())]).default(''),
+  toolCalls: z
+    .array(
+      z.object({
+        id: z.string().optional(),
+        name: z.string(),
+        input: z.record(z.unknown()).default({}),
+      })
+    )
+    .default([]),
+  tokensUsed: z.number().int().nonnegative().default(0),
+});
+
+export const AnthropicProviderConfigSchema = z.object({
+  type: z.literal('anthropic'),
+  model: z.string().default(DEFAULT_ANTHROPIC_MODEL),
+  apiKeyEnv: z.string().default('CLAUDE_API_KEY'),
+  baseUrl: z.string().url().default('https://api.anthropic.com'),
+  timeoutMs: z.number().int().positive().default(30000),
+});
+
+export const OpenAIProviderConfigSchema = z.object({
+  type: z.literal('openai'),
+  model: z.string().default(DEFAULT_OPENAI_MODEL),
+  apiKeyEnv: z.string().default('OPENAI_API_KEY'),
+  baseUrl: z.string().url().default('https://api.openai.com/v1'),
+  timeoutMs: z.number().int().positive().default(30000),
+});
+
+export const RecordedProviderConfigSchema = z.object({
+  type: z.literal('recorded'),
+  path: z.string().optional(),
+  responses: z.array(RecordedResponseSchema).default([]),
+});
+
+/**
+ * Provider settings, from the environment or a per-installation override
+ *
+ * API keys are never part of the settings; `apiKeyEnv` names the
+ * environment variable holding the key instead.
+ */
+export const DiagnosisProviderConfigSchema = z.discriminatedUnion('type', [
+  AnthropicProviderConfigSchema,
+  OpenAIProviderConfigSchema,
+  RecordedProviderConfigSchema,
+]);
+
+export type RecordedResponse = z.infer<typeof RecordedResponseSchema>;
+export type AnthropicProviderConfig = z.infer<
+  typeof AnthropicProviderConfigSchema
+>;
+export type OpenAIProviderConfig = z.infer<typeof OpenAIProviderConfigSchema>;
+export type DiagnosisProviderConfig = z.infer<
+  typeof DiagnosisProviderConfigSchema
+>;
+export type DiagnosisProviderType = DiagnosisProviderConfig['type'];
+
+/**
+ * A tool the model may call, with a JSON Schema for its input
+ */
+export interface DiagnosisToolDefinition {
+  name: string;
+  description: string;
+  inputSchema: Record<string, unknown>;
+}
+
+export interface DiagnosisToolCall {
+  id: string;
+  name: string;
+  input: Record<string, unknown>;
+}
+
+/**
+ * A turn after the initial user prompt in a tool-use conversation
+ */
+export type DiagnosisMessage =
+  | { role: 'assistant'; content: string; toolCalls: DiagnosisToolCall[] }
+  | { role: 'tool'; toolCallId: string; content: string; isError: boolean };
+
+export interface DiagnosisRequest {
+  systemPrompt: string;
+  userPrompt: string;
+  messages?: DiagnosisMessage[] | undefined;
+  tools?: DiagnosisToolDefinition[] | undefined;
+  maxTokens?: number | undefined;
+  temperature?: number | undefined;
+}
+
+export interface DiagnosisCompletion {
+  content: string;
+  toolCalls: DiagnosisToolCall[];
+  tokensUsed: number;
+  model: string;
+  provider: DiagnosisProviderType;
+}
+
+/**
+ * A model that can answer a diagnosis prompt
+ */
+export interface DiagnosisProvider {
+  readonly type: DiagnosisProviderType;
+  readonly model: string;
+  complete(request: DiagnosisRequest): Promise<DiagnosisCompletion>;
+}
+
+/**
+ * Error raised by a provider; `retryable` is set for rate limits, server
+ * errors and network failures
+ */
+export class DiagnosisProviderError extends Error {
+  constructor(
+    message: string,
+    readonly provider: DiagnosisProviderType,
+    readonly retryable: boolean,
+    readonly status?: number
+  ) {
+    super(message);
+    this.name = 'DiagnosisProviderError';
+  }
+
+  /**
+   * Wrap a failed HTTP call, keeping the API's own error message
+   */
+  static fromHttpError(
+    error: unknown,
+    provider: DiagnosisProviderType
+  ): DiagnosisProviderError {
+    if (!axios.isAxiosError(error)) {
+      return new DiagnosisProviderError(
+        error instanceof Error ? error.message : 'Unknown error',
+        provider,
+        false
+      );
+    }
+
+    const status = error.response?.status;
+    const data = error.response?.data as
+      | { error?: { message?: string } | string }
+      | undefined;
+    const message =
+      (typeof data?.error === 'string' ? data.error : data?.error?.message) ??
+      error.message;
+
+    return new DiagnosisProviderError(
+      message,
+      provider,
+      status === undefined || status === 429 || status >= 500,
+      status
+    );
+  }
+}
@@ -0,0 +1,122 @@
+import { SimilarityIndex } from './similarity.js';
+import { FileFixRecordStore, InMemoryFixRecordStore } from './store.js';
+import type {
+  FailureSignature,
+  FixOutcome,
+  FixRecord,
+  FixRecordStore,
+  SimilarIncident,
+} from './types.js';
+
+export * from './types.js';
+export { failureSignature, normalizeErrorLine } from './signature.js';
+export { SimilarityIndex } from './similarity.js';
+export { FileFixRecordStore, InMemoryFixRecordStore } from './store.js';
+
+type Environment = Record<string, string | undefined>;
+
+// Below this similarity two failures are considered unrelated
+const DEFAULT_MIN_SIMILARITY = 0.35;
+
+export interface RecordFixInput {
+  workflowId: string;
+  installationId: number;
+  repository: string;
+  signature: FailureSignature;
+  rootCause: string;
+  explanation?: string | undefined;
+  patch: string;
+  outcome: FixOutcome;
+  prNumber?: number | undefined;
+}
+
+export interface FindSimilarOptions {
+  installationId: number;
+  limit?: number | undefined;
+  minSimilarity?: number | undefined;
+}
+
+/**
+ * Past healing outcomes, searchable by failure similarity
+ */
+export class FixKnowledgeBase {
+  constructor(private readonly store: FixRecordStore) {}
+
+  /**
+   * Record a fix, or update the outcome of one recorded earlier by the same
+   * workflow
+   */
+  async recordFix(input: RecordFixInput): Promise<FixRecord> {
+    const now = new Date().toISOString();
+    const existing = (await this.store.list()).find(
+      record => record.workflowId === input.workflowId
+    );
+    const record: FixRecord = {
+      workflowId: input.workflowId,
+      installationId: input.installationId,
+      repository: input.repository,
+      fingerprint: input.signature.fingerprint,
+      terms: input.signature.terms,
+      rootCause: input.rootCause,
+      explanation: input.explanation ?? '',
+      patch: input.patch,
+      outcome: input.outcome,
+      ...(input.prNumber !== undefined && { prNumber: input.prNumber }),
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+
+    await this.store.save(record);
+    return record;
+  }
+
+  /**
+   * Fixes for failures like this one, most similar first
+   *
+   * Only the installation's own records are searched, so one customer's
+   * patches never reach another customer's prompt.
+   */
+  async findSimilar(
+    signature: FailureSignature,
+    options: FindSimilarOptions
+  ): Promise<SimilarIncident[]> {
+    const index = new SimilarityIndex<FixRecord>();
+
+    for (const record of await this.store.list()) {
+      if (record.installationId === options.installationId) {
+        index.add(record, record.terms);
+      }
+    }
+
+    return index
+      .query(
+        signature.terms,
+        options.limit ?? 3,
+        options.minSimilarity ?? DEFAULT_MIN_SIMILARITY
+      )
+      .map(({ item, similarity }) => ({
+        record: item,
+        // An identical fingerprint is the same failure, whatever the terms
+        similarity: item.fingerprint === signature.fingerprint ? 1 : similarity,
+      }));
+  }
+}
+
+let defaultKnowledgeBase: FixKnowledgeBase | undefined;
+
+/**
+ * Knowledge base shared by the worker's activities
+ *
+ * Records go to the JSON Lines file at `FIX_KNOWLEDGE_BASE_PATH`, or stay in
+ * memory when it is not set.
+ */
+export function getFixKnowledgeBase(
+  env: Environment = process.env
+): FixKnowledgeBase {
+  defaultKnowledgeBase ??= new FixKnowledgeBase(
+    env['FIX_KNOWLEDGE_BASE_PATH']
+      ? new FileFixRecordStore(env['FIX_KNOWLEDGE_BASE_PATH'])
+      : new InMemoryFixRecordStore()
+  );
+  return defaultKnowledgeBase;
+}
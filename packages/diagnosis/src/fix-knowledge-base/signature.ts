@@ -0,0 +1,74 @@
+import { createHash } from 'crypto';
+import { ANSI_COLOR_CODES } from '../test-reports/ansi.js';
+import type { TestCaseResult } from '../test-reports/index.js';
+import type { FailureSignature } from './types.js';
+
+// Log lines that describe what went wrong rather than what ran
+const ERROR_LINE =
+  /error|fail|exception|panic|assert|expected|cannot|undefined|not found|denied|timed? ?out/i;
+
+// Error lines kept per failure, so huge logs do not drown the signature
+const MAX_ERROR_LINES = 50;
+
+// Frames kept per failing test; the top of the stack is the most telling
+const MAX_FRAMES_PER_TEST = 5;
+
+/**
+ * Strip what changes between runs of the same failure: timestamps, ANSI
+ * colours, hex addresses, hashes, line numbers, durations and other numbers
+ */
+export function normalizeErrorLine(line: string): string {
+  return line
+    .replace(ANSI_COLOR_CODES, '')
+    .replace(/\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}:\d{2}(?:\.\d+)?Z?/g, '')
+    .replace(/\b0x[0-9a-f]+\b/gi, '<hex>')
+    .replace(/\b(?=[0-9a-f]*\d)[0-9a-f]{7,64}\b/g, '<sha>')
+    .replace(/:\d+(?::\d+)?\b/g, '')
+    .replace(/\b\d+(?:\.\d+)?\s?(?:ms|s|sec|seconds)\b/g, '<duration>')
+    .replace(/\d+/g, '<n>')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Describe a failure by its error lines, failing tests and their top frames
+ */
+export function failureSignature(failure: {
+  logs: string;
+  failedTests: TestCaseResult[];
+}): FailureSignature {
+  const failing = failure.failedTests.filter(
+    test => test.status === 'failed' || test.status === 'errored'
+  );
+  const lines = [
+    ...failing.flatMap(test => test.failureMessage?.split('\n') ?? []),
+    ...failure.logs.split('\n'),
+  ]
+    .filter(line => ERROR_LINE.test(line))
+    .map(normalizeErrorLine)
+    .filter(Boolean);
+  const errorLines = [...new Set(lines)].slice(0, MAX_ERROR_LINES);
+  const tests = failing.map(
+    test => `test:${[test.suite, test.name].filter(Boolean).join(' > ')}`
+  );
+  const frames = failing.flatMap(test =>
+    test.stackFrames
+      .slice(0, MAX_FRAMES_PER_TEST)
+      .map(frame => `frame:${frame.file}:${frame.function ?? ''}`)
+  );
+  const identity = [...new Set([...errorLines, ...tests, ...frames])].sort();
+
+  return {
+    fingerprint: createHash('sha256')
+      .update(identity.join('\n'))
+      .digest('hex')
+      .substring(0, 16),
+    terms: [
+      ...errorLines.flatMap(
+        line => line.toLowerCase().match(/[a-z_$][\w$.]{2,}/g) ?? []
+      ),
+      ...tests,
+      ...frames,
+    ],
+  };
+}
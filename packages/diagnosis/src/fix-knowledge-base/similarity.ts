@@ -0,0 +1,87 @@
+/**
+ * TF-IDF index with cosine similarity over bags of terms
+ *
+ * Terms shared by most documents, such as `error`, weigh little; rare ones,
+ * such as a test name or a stack frame, decide the match.
+ */
+export class SimilarityIndex<T> {
+  private readonly documents: Array<{ item: T; counts: Map<string, number> }> =
+    [];
+  private readonly documentFrequency = new Map<string, number>();
+
+  add(item: T, terms: string[]): void {
+    const counts = countTerms(terms);
+
+    for (const term of counts.keys()) {
+      this.documentFrequency.set(
+        term,
+        (this.documentFrequency.get(term) ?? 0) + 1
+      );
+    }
+
+    this.documents.push({ item, counts });
+  }
+
+  /**
+   * Most similar documents first, down to `minSimilarity`
+   */
+  query(
+    terms: string[],
+    limit: number,
+    minSimilarity = 0
+  ): Array<{ item: T; similarity: number }> {
+    const query = this.weigh(countTerms(terms));
+
+    return this.documents
+      .map(document => ({
+        item: document.item,
+        similarity: cosine(query, this.weigh(document.counts)),
+      }))
+      .filter(
+        match => match.similarity > 0 && match.similarity >= minSimilarity
+      )
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, limit);
+  }
+
+  private weigh(counts: Map<string, number>): Map<string, number> {
+    const total = [...counts.values()].reduce((sum, count) => sum + count, 0);
+    const weights = new Map<string, number>();
+
+    for (const [term, count] of counts) {
+      // Smoothed so terms the index has never seen still count
+      const idf =
+        Math.log(
+          (this.documents.length + 1) /
+            ((this.documentFrequency.get(term) ?? 0) + 1)
+        ) + 1;
+      weights.set(term, (count / total) * idf);
+    }
+
+    return weights;
+  }
+}
+
+function countTerms(terms: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+
+  for (const term of terms) {
+    counts.set(term, (counts.get(term) ?? 0) + 1);
+  }
+
+  return counts;
+}
+
+function cosine(a: Map<string, number>, b: Map<string, number>): number {
+  let dot = 0;
+
+  for (const [term, weight] of a) {
+    dot += weight * (b.get(term) ?? 0);
+  }
+
+  const norm = (vector: Map<string, number>) =>
+    Math.sqrt([...vector.values()].reduce((sum, w) => sum + w * w, 0));
+  const denominator = norm(a) * norm(b);
+
+  return denominator === 0 ? 0 : Math.min(dot / denominator, 1);
+}
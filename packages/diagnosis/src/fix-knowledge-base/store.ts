@@ -0,0 +1,100 @@
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import type { FixRecord, FixRecordStore } from './types.js';
+import { FixRecordSchema } from './types.js';
+
+// Oldest records are dropped beyond this many, keeping queries fast
+const DEFAULT_MAX_RECORDS = 5000;
+
+/**
+ * Records kept in process memory, lost on restart
+ */
+export class InMemoryFixRecordStore implements FixRecordStore {
+  private readonly records = new Map<string, FixRecord>();
+
+  constructor(private readonly maxRecords = DEFAULT_MAX_RECORDS) {}
+
+  async list(): Promise<FixRecord[]> {
+    return [...this.records.values()];
+  }
+
+  async save(record: FixRecord): Promise<void> {
+    this.records.delete(record.workflowId);
+    this.records.set(record.workflowId, record);
+
+    for (const workflowId of this.records.keys()) {
+      if (this.records.size <= this.maxRecords) {
+        break;
+      }
+      this.records.delete(workflowId);
+    }
+  }
+}
+
+/**
+ * Records kept in a JSON Lines file, rewritten atomically on every save
+ *
+ * Saves are serialised within the process; the file is meant for a single
+ * worker. Lines that do not parse are skipped rather than failing reads.
+ */
+export class FileFixRecordStore implements FixRecordStore {
+  private pending: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly path: string,
+    private readonly maxRecords = DEFAULT_MAX_RECORDS
+  ) {}
+
+  async list(): Promise<FixRecord[]> {
+    await this.pending.catch(() => undefined);
+    return this.read();
+  }
+
+  async save(record: FixRecord): Promise<void> {
+    const write = this.pending
+      .catch(() => undefined)
+      .then(async () => {
+        const records = (await this.read()).filter(
+          existing => existing.workflowId !== record.workflowId
+        );
+        records.push(record);
+
+        const content = records
+          .slice(-this.maxRecords)
+          .map(existing => JSON.stringify(existing))
+          .join('\n');
+
+        await mkdir(dirname(this.path), { recursive: true });
+        await writeFile(`${this.path}.tmp`, `${content}\n`, 'utf8');
+        await rename(`${this.path}.tmp`, this.path);
+      });
+
+    this.pending = write;
+    return write;
+  }
+
+  private async read(): Promise<FixRecord[]> {
+    let content: string;
+
+    try {
+      content = await readFile(this.path, 'utf8');
+    } catch (error) {
+      if ((error as { code?: string }).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    return content.split('\n').flatMap(line => {
+      if (!line.trim()) {
+        return [];
+      }
+      try {
+        const parsed = FixRecordSchema.safeParse(JSON.parse(line));
+        return parsed.success ? [parsed.data] : [];
+      } catch {
+        return [];
+      }
+    });
+  }
+}
@@ -0,0 +1,50 @@
+import { z } from 'zod';
+
+/**
+ * What became of a fix after healing
+ */
+export const FixOutcomeSchema = z.enum(['merged', 'reverted']);
+
+/**
+ * A past healing outcome: the failure it answered and the patch that fixed it
+ */
+export const FixRecordSchema = z.object({
+  workflowId: z.string(),
+  installationId: z.number(),
+  repository: z.string(),
+  fingerprint: z.string(),
+  // Normalised error lines, failing test IDs and stack frames of the failure
+  terms: z.array(z.string()),
+  rootCause: z.string(),
+  explanation: z.string().default(''),
+  patch: z.string(),
+  outcome: FixOutcomeSchema,
+  prNumber: z.number().optional(),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+});
+
+export type FixOutcome = z.infer<typeof FixOutcomeSchema>;
+export type FixRecord = z.infer<typeof FixRecordSchema>;
+
+/**
+ * Terms describing a failure, and a hash identifying it exactly
+ */
+export interface FailureSignature {
+  fingerprint: string;
+  terms: string[];
+}
+
+export interface SimilarIncident {
+  record: FixRecord;
+  // Cosine similarity of the failures' terms, from 0 to 1
+  similarity: number;
+}
+
+/**
+ * Persistence for fix records, keyed by workflow ID
+ */
+export interface FixRecordStore {
+  list(): Promise<FixRecord[]>;
+  save(record: FixRecord): Promise<void>;
+}
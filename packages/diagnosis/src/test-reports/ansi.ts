@@ -0,0 +1,3 @@
+// Terminal colour codes, as test runners and CI logs print them; built from a
+// string since a regex literal would spell out the escape character
+export const ANSI_COLOR_CODES = new RegExp('\\u001b\\[[0-9;]*m', 'g');
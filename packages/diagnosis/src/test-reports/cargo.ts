@@ -0,0 +1,75 @@
+import { testCase } from './stack-frames.js';
+import type { TestCaseResult, TestStatus } from './types.js';
+
+// `test parser::tests::parses_empty ... ok`
+const TEST_RESULT = /^test (\S+) \.\.\. (ok|FAILED|ignored)\b/;
+// `---- parser::tests::parses_empty stdout ----`
+const OUTPUT_HEADER = /^---- (\S+) std(?:out|err) ----$/;
+// `Running unittests src/lib.rs (target/debug/deps/app-1234)`
+const TARGET_HEADER = /^\s*Running (?:unittests )?(\S+)/;
+
+const STATUS: Record<string, TestStatus> = {
+  ok: 'passed',
+  FAILED: 'failed',
+  ignored: 'skipped',
+};
+
+/**
+ * Parse the human-readable output of `cargo test`
+ *
+ * Each test binary is its own suite; failure output comes from the captured
+ * `---- name stdout ----` sections printed after the results.
+ */
+export function parseCargoTest(content: string): TestCaseResult[] {
+  const results: Array<{ suite: string; name: string; status: TestStatus }> =
+    [];
+  const output = new Map<string, string[]>();
+  let target = '';
+  let section: string[] | undefined;
+
+  for (const line of content.split('\n')) {
+    const running = TARGET_HEADER.exec(line);
+    if (running) {
+      target = running[1] ?? '';
+      section = undefined;
+      continue;
+    }
+
+    const header = OUTPUT_HEADER.exec(line);
+    if (header) {
+      section = [];
+      output.set(`${target}\0${header[1] ?? ''}`, section);
+      continue;
+    }
+
+    // The captured output ends at the `failures:` list of names
+    if (/^(?:failures:|test result:)/.test(line)) {
+      section = undefined;
+      continue;
+    }
+
+    const result = TEST_RESULT.exec(line);
+    if (result) {
+      results.push({
+        suite: target,
+        name: result[1] ?? '',
+        status: STATUS[result[2] ?? ''] ?? 'failed',
+      });
+    } else if (section) {
+      section.push(line);
+    }
+  }
+
+  return results.map(({ suite, name, status }) => {
+    const captured = output.get(`${suite}\0${name}`)?.join('\n').trim();
+
+    return testCase({
+      suite,
+      name,
+      status,
+      ...(status === 'failed' && {
+        failureMessage: captured || `${name} failed`,
+      }),
+    });
+  });
+}
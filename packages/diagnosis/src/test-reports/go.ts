@@ -0,0 +1,99 @@
+import { testCase } from './stack-frames.js';
+import type { TestCaseResult, TestStatus } from './types.js';
+
+interface GoTestEvent {
+  Action?: string;
+  Package?: string;
+  Test?: string;
+  Elapsed?: number;
+  Output?: string;
+}
+
+const STATUS: Record<string, TestStatus> = {
+  pass: 'passed',
+  fail: 'failed',
+  skip: 'skipped',
+};
+
+/**
+ * Parse the event stream written by `go test -json`
+ *
+ * Subtests are reported as their own cases; a parent only counts when it has
+ * no subtests of its own.
+ */
+export function parseGoTestJson(content: string): TestCaseResult[] {
+  const output = new Map<string, string[]>();
+  const outcomes = new Map<
+    string,
+    { suite: string; name: string; status: TestStatus; elapsed?: number }
+  >();
+
+  for (const line of content.split('\n')) {
+    if (!line.trim().startsWith('{')) {
+      continue;
+    }
+
+    let event: GoTestEvent;
+    try {
+      event = JSON.parse(line) as GoTestEvent;
+    } catch {
+      continue;
+    }
+
+    if (!event.Test) {
+      continue;
+    }
+
+    const key = `${event.Package ?? ''}\0${event.Test}`;
+
+    if (event.Action === 'output' && event.Output !== undefined) {
+      output.set(key, [...(output.get(key) ?? []), event.Output]);
+      continue;
+    }
+
+    const status = STATUS[event.Action ?? ''];
+    if (status) {
+      outcomes.set(key, {
+        suite: event.Package ?? '',
+        name: event.Test,
+        status,
+        ...(event.Elapsed !== undefined && { elapsed: event.Elapsed }),
+      });
+    }
+  }
+
+  const results: TestCaseResult[] = [];
+
+  for (const [key, outcome] of outcomes) {
+    const hasSubtests = [...outcomes.keys()].some(other =>
+      other.startsWith(`${key}/`)
+    );
+    if (hasSubtests) {
+      continue;
+    }
+
+    // `go test` repeats the `--- FAIL` and `=== RUN` framing in the output
+    const captured = (output.get(key) ?? [])
+      .join('')
+      .split('\n')
+      .filter(line => !/^\s*(?:=== (?:RUN|PAUSE|CONT)|--- )/.test(line))
+      .join('\n')
+      .trim();
+
+    results.push(
+      testCase({
+        suite: outcome.suite,
+        name: outcome.name,
+        status: outcome.status,
+        ...(outcome.elapsed !== undefined && {
+          durationMs: Math.round(outcome.elapsed * 1000),
+        }),
+        ...(outcome.status === 'failed' && {
+          failureMessage: captured || `${outcome.name} failed`,
+        }),
+      })
+    );
+  }
+
+  return results;
+}
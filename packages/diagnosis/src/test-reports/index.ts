@@ -0,0 +1,96 @@
+import { parseCargoTest } from './cargo.js';
+import { parseGoTestJson } from './go.js';
+import { parseJestJson } from './jest.js';
+import { parseJUnit } from './junit.js';
+import { parsePytest } from './pytest.js';
+import { parseTap } from './tap.js';
+import type { TestCaseResult, TestReportFormat } from './types.js';
+
+export * from './types.js';
+export { ANSI_COLOR_CODES } from './ansi.js';
+export { parseStackFrames, projectFrame } from './stack-frames.js';
+export {
+  parseCargoTest,
+  parseGoTestJson,
+  parseJestJson,
+  parseJUnit,
+  parsePytest,
+  parseTap,
+};
+
+const PARSERS: Record<TestReportFormat, (content: string) => TestCaseResult[]> =
+  {
+    junit: parseJUnit,
+    tap: parseTap,
+    jest: parseJestJson,
+    pytest: parsePytest,
+    cargo: parseCargoTest,
+    go: parseGoTestJson,
+  };
+
+/**
+ * Work out which runner produced a report or log
+ *
+ * Returns undefined when the content does not look like any supported format.
+ */
+export function detectTestReportFormat(
+  content: string
+): TestReportFormat | undefined {
+  const head = content.trimStart();
+
+  if (/^(?:<\?xml[^>]*>\s*)?<testsuites?[\s>]/.test(head)) {
+    return 'junit';
+  }
+
+  if (head.startsWith('{')) {
+    if (/^\{"(?:Time|Action)":/m.test(head) && /"Action":/.test(head)) {
+      return 'go';
+    }
+    if (/"testResults"\s*:/.test(head)) {
+      return 'jest';
+    }
+    if (/"tests"\s*:/.test(head) && /"nodeid"\s*:/.test(head)) {
+      return 'pytest';
+    }
+    return undefined;
+  }
+
+  if (/^TAP version \d+|^(?:not )?ok \d+/m.test(head)) {
+    return 'tap';
+  }
+
+  if (/^test \S+ \.\.\. (?:ok|FAILED|ignored)\b/m.test(head)) {
+    return 'cargo';
+  }
+
+  if (/^\S+\.py::\S+.*\b(?:PASSED|FAILED|ERROR|SKIPPED)\b/m.test(head)) {
+    return 'pytest';
+  }
+
+  if (/^(?:FAILED|ERROR) \S+\.py::\S+/m.test(head)) {
+    return 'pytest';
+  }
+
+  return undefined;
+}
+
+/**
+ * Parse a test report or log into normalised test cases
+ *
+ * The format is detected when not given. Unrecognised or malformed content
+ * yields no cases rather than an error, since reports are best-effort input.
+ */
+export function parseTestReport(
+  content: string,
+  format: TestReportFormat | undefined = detectTestReportFormat(content)
+): TestCaseResult[] {
+  if (!format) {
+    return [];
+  }
+
+  try {
+    return PARSERS[format](content);
+  } catch {
+    return [];
+  }
+}
@@ -0,0 +1,89 @@
+import { ANSI_COLOR_CODES } from './ansi.js';
+import { testCase } from './stack-frames.js';
+import type { TestCaseResult, TestStatus } from './types.js';
+
+interface JestAssertionResult {
+  ancestorTitles?: string[];
+  title?: string;
+  fullName?: string;
+  status?: string;
+  duration?: number | null;
+  failureMessages?: string[];
+  location?: { line: number; column: number } | null;
+}
+
+interface JestTestFileResult {
+  name?: string;
+  message?: string;
+  status?: string;
+  assertionResults?: JestAssertionResult[];
+}
+
+// Jest and Vitest `--json` statuses mapped onto the shared model
+const STATUS: Record<string, TestStatus> = {
+  passed: 'passed',
+  failed: 'failed',
+  pending: 'skipped',
+  skipped: 'skipped',
+  todo: 'skipped',
+  disabled: 'skipped',
+  focused: 'passed',
+};
+
+/**
+ * Parse the report written by `jest --json` (and `vitest --reporter=json`)
+ *
+ * A test file that failed to run at all, for example because it does not
+ * compile, becomes a single errored case.
+ */
+export function parseJestJson(content: string): TestCaseResult[] {
+  const report = JSON.parse(content) as { testResults?: JestTestFileResult[] };
+  const results: TestCaseResult[] = [];
+
+  for (const file of report.testResults ?? []) {
+    const assertions = file.assertionResults ?? [];
+    const path = file.name ?? '';
+
+    if (assertions.length === 0 && file.status === 'failed') {
+      results.push(
+        testCase({
+          suite: path,
+          name: path,
+          status: 'errored',
+          failureMessage: stripAnsi(file.message ?? 'Test file failed to run'),
+          file: path,
+        })
+      );
+      continue;
+    }
+
+    for (const assertion of assertions) {
+      const failureMessage = stripAnsi(
+        (assertion.failureMessages ?? []).join('\n')
+      );
+
+      results.push(
+        testCase({
+          suite: [path, ...(assertion.ancestorTitles ?? [])].join(' > '),
+          name: assertion.title ?? assertion.fullName ?? '',
+          status: STATUS[assertion.status ?? ''] ?? 'failed',
+          ...(typeof assertion.duration === 'number' && {
+            durationMs: assertion.duration,
+          }),
+          ...(failureMessage && { failureMessage }),
+          file: path,
+          ...(assertion.location && { line: assertion.location.line }),
+        })
+      );
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Remove terminal colour codes Jest leaves in failure messages
+ */
+function stripAnsi(text: string): string {
+  return text.replace(ANSI_COLOR_CODES, '');
+}
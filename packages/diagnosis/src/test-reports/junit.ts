@@ -0,0 +1,156 @@
+import { testCase } from './stack-frames.js';
+import type { TestCaseResult, TestStatus } from './types.js';
+
+// Tags, CDATA sections, comments and declarations; text lies between them
+const XML_TOKEN =
+  /<!\[CDATA\[([\s\S]*?)\]\]>|<!--[\s\S]*?-->|<[?!][\s\S]*?>|<(\/?)([\w:.-]+)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/g;
+
+const XML_ATTRIBUTE = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+interface OpenCase {
+  suite: string;
+  attributes: Record<string, string>;
+  status: TestStatus;
+  message: string | undefined;
+  text: string;
+}
+
+/**
+ * Parse JUnit XML as written by Surefire, pytest `--junitxml`, jest-junit,
+ * go-junit-report and most other runners
+ */
+export function parseJUnit(content: string): TestCaseResult[] {
+  const results: TestCaseResult[] = [];
+  const suites: string[] = [];
+  let current: OpenCase | undefined;
+  let inOutcome = false;
+  let cursor = 0;
+
+  const text = (raw: string) => {
+    if (current && inOutcome) {
+      current.text += raw;
+    }
+  };
+
+  for (const match of content.matchAll(XML_TOKEN)) {
+    text(decodeEntities(content.slice(cursor, match.index)));
+    cursor = (match.index ?? 0) + match[0].length;
+
+    const [, cdata, closing, tag, rawAttributes = '', selfClosing] = match;
+
+    if (cdata !== undefined) {
+      text(cdata);
+      continue;
+    }
+
+    if (!tag) {
+      continue;
+    }
+
+    const attributes = closing ? {} : parseAttributes(rawAttributes);
+
+    switch (tag) {
+      case 'testsuite':
+        if (closing) {
+          suites.pop();
+        } else if (!selfClosing) {
+          suites.push(attributes['name'] ?? '');
+        }
+        break;
+
+      case 'testcase':
+        if (!closing) {
+          current = {
+            suite: attributes['classname'] ?? suites[suites.length - 1] ?? '',
+            attributes,
+            status: 'passed',
+            message: undefined,
+            text: '',
+          };
+        }
+        if ((closing || selfClosing) && current) {
+          results.push(finishCase(current));
+          current = undefined;
+        }
+        break;
+
+      case 'failure':
+      case 'error':
+      case 'skipped':
+        if (current && !closing) {
+          current.status =
+            tag === 'failure'
+              ? 'failed'
+              : tag === 'error'
+                ? 'errored'
+                : 'skipped';
+          current.message = attributes['message'];
+          inOutcome = !selfClosing;
+        } else if (closing) {
+          inOutcome = false;
+        }
+        break;
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Turn an open `<testcase>` into a result
+ */
+function finishCase(open: OpenCase): TestCaseResult {
+  const { attributes, message } = open;
+  const body = open.text.trim();
+  const seconds = Number(attributes['time']);
+  const line = Number(attributes['line']);
+  const failureMessage =
+    message && body && !body.startsWith(message)
+      ? `${message}\n${body}`
+      : body || message;
+
+  return testCase({
+    suite: open.suite,
+    name: attributes['name'] ?? '',
+    status: open.status,
+    ...(Number.isFinite(seconds) &&
+      attributes['time'] !== undefined && {
+        durationMs: Math.round(seconds * 1000),
+      }),
+    ...((open.status === 'failed' || open.status === 'errored') &&
+      failureMessage && { failureMessage }),
+    ...(attributes['file'] && { file: attributes['file'] }),
+    ...(Number.isInteger(line) && line > 0 && { line }),
+  });
+}
+
+/**
+ * Attributes of an XML start tag
+ */
+function parseAttributes(raw: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+
+  for (const [, name = '', double, single] of raw.matchAll(XML_ATTRIBUTE)) {
+    attributes[name] = decodeEntities(double ?? single ?? '');
+  }
+
+  return attributes;
+}
+
+/**
+ * Decode the predefined and numeric XML entities
+ */
+function decodeEntities(text: string): string {
+  return text.replace(
+    /&(?:#x([0-9a-f]+)|#(\d+)|(lt|gt|amp|quot|apos));/gi,
+    (entity, hex: string, decimal: string, name: string) => {
+      if (hex) return String.fromCodePoint(parseInt(hex, 16));
+      if (decimal) return String.fromCodePoint(Number(decimal));
+      return (
+        { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" }[
+          name.toLowerCase()
+        ] ?? entity
+      );
+    }
+  );
+}
@@ -0,0 +1,168 @@
+import { testCase } from './stack-frames.js';
+import type { TestCaseResult, TestStatus } from './types.js';
+
+interface PytestJsonStage {
+  duration?: number;
+  longrepr?: string;
+  crash?: { path?: string; lineno?: number; message?: string };
+}
+
+interface PytestJsonTest {
+  nodeid: string;
+  lineno?: number;
+  outcome?: string;
+  setup?: PytestJsonStage;
+  call?: PytestJsonStage;
+  teardown?: PytestJsonStage;
+}
+
+const STATUS: Record<string, TestStatus> = {
+  passed: 'passed',
+  failed: 'failed',
+  error: 'errored',
+  skipped: 'skipped',
+  xfailed: 'skipped',
+  xpassed: 'passed',
+};
+
+// `tests/test_app.py::TestApp::test_ready PASSED [ 50%]` from `pytest -v`
+const VERBOSE_RESULT =
+  /^(\S+?::\S+)\s+(PASSED|FAILED|ERROR|SKIPPED|XFAIL|XPASS)\b/;
+// `FAILED tests/test_app.py::test_ready - AssertionError: ...` from `-r`
+const SUMMARY_RESULT =
+  /^(PASSED|FAILED|ERROR|SKIPPED|XFAIL|XPASS)\s+(\S+?::\S+)(?:\s+-\s+(.*))?$/;
+// `____ TestApp.test_ready ____` heads each failure section
+const FAILURE_HEADER = /^_{3,} (?:ERROR (?:at \w+ of )?)?(.+?) _{3,}$/;
+
+/**
+ * Parse pytest results, either the `pytest-json-report` JSON file or the
+ * terminal output of `pytest -v` / `pytest -rA`
+ */
+export function parsePytest(content: string): TestCaseResult[] {
+  return content.trimStart().startsWith('{')
+    ? parsePytestJson(content)
+    : parsePytestOutput(content);
+}
+
+function parsePytestJson(content: string): TestCaseResult[] {
+  const report = JSON.parse(content) as { tests?: PytestJsonTest[] };
+
+  return (report.tests ?? []).map(test => {
+    const { suite, name, file } = splitNodeId(test.nodeid);
+    const failedStage = [test.setup, test.call, test.teardown].find(
+      stage => stage?.longrepr
+    );
+    const durationMs =
+      [test.setup, test.call, test.teardown].reduce(
+        (sum, stage) => sum + (stage?.duration ?? 0),
+        0
+      ) * 1000;
+    const status = STATUS[test.outcome ?? ''] ?? 'failed';
+    const crash = failedStage?.crash;
+
+    return testCase({
+      suite,
+      name,
+      status,
+      durationMs: Math.round(durationMs),
+      ...(status !== 'passed' &&
+        status !== 'skipped' &&
+        failedStage?.longrepr && { failureMessage: failedStage.longrepr }),
+      file: crash?.path ?? file,
+      ...((crash?.lineno ?? test.lineno) !== undefined && {
+        line: crash?.lineno ?? (test.lineno ?? 0) + 1,
+      }),
+    });
+  });
+}
+
+function parsePytestOutput(content: string): TestCaseResult[] {
+  const lines = content.split('\n');
+  const outcomes = new Map<string, { status: TestStatus; summary?: string }>();
+  const sections = new Map<string, string[]>();
+  let section: string[] | undefined;
+
+  for (const line of lines) {
+    const header = FAILURE_HEADER.exec(line);
+
+    if (header) {
+      section = [];
+      sections.set(header[1] ?? '', section);
+      continue;
+    }
+
+    // Sections end at the next `====` banner
+    if (/^={3,}/.test(line)) {
+      section = undefined;
+    }
+
+    const verbose = VERBOSE_RESULT.exec(line);
+    const summary = SUMMARY_RESULT.exec(line);
+
+    if (verbose) {
+      outcomes.set(verbose[1] ?? '', {
+        ...outcomes.get(verbose[1] ?? ''),
+        status: outcomeStatus(verbose[2] ?? ''),
+      });
+    } else if (summary) {
+      outcomes.set(summary[2] ?? '', {
+        status: outcomeStatus(summary[1] ?? ''),
+        ...(summary[3] && { summary: summary[3] }),
+      });
+    } else if (section) {
+      section.push(line);
+    }
+  }
+
+  return [...outcomes].map(([nodeId, outcome]) => {
+    const { suite, name, file } = splitNodeId(nodeId);
+    // Failure sections are titled `Class.test` or just `test`
+    const body = (
+      sections.get([...suite.split('::').slice(1), name].join('.')) ??
+      sections.get(name)
+    )
+      ?.join('\n')
+      .trim();
+    const failing = outcome.status === 'failed' || outcome.status === 'errored';
+
+    return testCase({
+      suite,
+      name,
+      status: outcome.status,
+      ...(failing && {
+        failureMessage:
+          [outcome.summary, body].filter(Boolean).join('\n') ||
+          `${nodeId} failed`,
+      }),
+      file,
+    });
+  });
+}
+
+/**
+ * Split `path/test_x.py::Class::test_name[param]` into suite and name
+ */
+function splitNodeId(nodeId: string): {
+  suite: string;
+  name: string;
+  file: string;
+} {
+  const parts = nodeId.split('::');
+  const name = parts.pop() ?? nodeId;
+
+  return { suite: parts.join('::'), name, file: parts[0] ?? nodeId };
+}
+
+function outcomeStatus(outcome: string): TestStatus {
+  switch (outcome) {
+    case 'PASSED':
+    case 'XPASS':
+      return 'passed';
+    case 'FAILED':
+      return 'failed';
+    case 'ERROR':
+      return 'errored';
+    default:
+      return 'skipped';
+  }
+}
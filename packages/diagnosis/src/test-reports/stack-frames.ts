@@ -0,0 +1,129 @@
+import type { StackFrame, TestCaseResult } from './types.js';
+
+// One pattern per runtime; the first that matches a line wins
+const FRAME_PATTERNS: Array<{
+  pattern: RegExp;
+  frame: (match: RegExpExecArray) => StackFrame | undefined;
+}> = [
+  // Node.js: `at fn (file:line:col)` and `at file:line:col`; `node --test`
+  // drops the `at`
+  {
+    pattern:
+      /^\s*(?:at )?(?:(?:async )?(.+?) \()?(?:file:\/\/)?([^()\s]+?):(\d+):(\d+)\)?$/,
+    frame: match => frame(match[2], match[3], match[4], match[1]),
+  },
+  // Java and Kotlin: `at pkg.Class.method(File.java:10)`
+  {
+    pattern: /^\s*at ([\w$.<>]+)\(([\w$.-]+\.(?:java|kt|scala)):(\d+)\)$/,
+    frame: match => frame(match[2], match[3], undefined, match[1]),
+  },
+  // Python: `File "path", line 10, in fn`
+  {
+    pattern: /^\s*File "(.+?)", line (\d+)(?:, in (.+))?$/,
+    frame: match => frame(match[1], match[2], undefined, match[3]),
+  },
+  // Rust panics and backtraces: `panicked at src/lib.rs:10:5` or `at src/lib.rs:10:5`
+  {
+    pattern: /(?:panicked at |^\s*at |', )(?:\.\/)?([^\s',]+\.rs):(\d+):(\d+)/,
+    frame: match => frame(match[1], match[2], match[3]),
+  },
+  // Go: `\tpath/file.go:12 +0x1d` and `    file_test.go:12: message`
+  {
+    pattern: /^\s*([^\s:]+\.go):(\d+)(?::| \+0x[0-9a-f]+$)/,
+    frame: match => frame(match[1], match[2]),
+  },
+  // pytest short tracebacks: `tests/test_app.py:12: AssertionError`
+  {
+    pattern: /^([^\s:]+\.py):(\d+): /,
+    frame: match => frame(match[1], match[2]),
+  },
+];
+
+// Frames from dependencies and runtimes, which never locate the failing test
+const EXTERNAL_FRAME =
+  /(?:^|\/)(?:node_modules|site-packages|dist-packages|\.cargo|go\/pkg\/mod)\/|^node:|^internal\/|^<|^\/rustc\/|^(?:runtime|testing)\//;
+
+/**
+ * Extract normalised stack frames from a failure message or trace
+ */
+export function parseStackFrames(text: string): StackFrame[] {
+  const frames: StackFrame[] = [];
+
+  for (const line of text.split('\n')) {
+    for (const { pattern, frame: toFrame } of FRAME_PATTERNS) {
+      const match = pattern.exec(line);
+      const parsed = match ? toFrame(match) : undefined;
+
+      if (parsed) {
+        const previous = frames[frames.length - 1];
+        if (
+          previous?.file !== parsed.file ||
+          previous.line !== parsed.line ||
+          previous.function !== parsed.function
+        ) {
+          frames.push(parsed);
+        }
+        break;
+      }
+    }
+  }
+
+  return frames;
+}
+
+/**
+ * First frame that belongs to the project rather than a dependency
+ */
+export function projectFrame(frames: StackFrame[]): StackFrame | undefined {
+  return frames.find(candidate => !EXTERNAL_FRAME.test(candidate.file));
+}
+
+/**
+ * Build a test case, locating it from its stack frames unless the report
+ * already said where it lives
+ */
+export function testCase(
+  result: Omit<TestCaseResult, 'stackFrames'> & {
+    stackFrames?: StackFrame[];
+  }
+): TestCaseResult {
+  const stackFrames =
+    result.stackFrames ??
+    (result.failureMessage ? parseStackFrames(result.failureMessage) : []);
+  const location = projectFrame(stackFrames);
+  const file = result.file ?? location?.file;
+  const line =
+    result.line ?? (location?.file === file ? location?.line : undefined);
+
+  return {
+    suite: result.suite,
+    name: result.name,
+    status: result.status,
+    stackFrames,
+    ...(result.durationMs !== undefined && { durationMs: result.durationMs }),
+    ...(result.failureMessage && { failureMessage: result.failureMessage }),
+    ...(file !== undefined && { file }),
+    ...(line !== undefined && { line }),
+  };
+}
+
+/**
+ * Stack frame from the pieces a pattern captured
+ */
+function frame(
+  file: string | undefined,
+  line: string | undefined,
+  column?: string,
+  name?: string
+): StackFrame | undefined {
+  if (!file) {
+    return undefined;
+  }
+
+  return {
+    file,
+    ...(line && { line: Number(line) }),
+    ...(column && { column: Number(column) }),
+    ...(name && { function: name.trim() }),
+  };
+}
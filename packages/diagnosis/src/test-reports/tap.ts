@@ -0,0 +1,164 @@
+import { testCase } from './stack-frames.js';
+import type { TestCaseResult } from './types.js';
+
+const TEST_POINT =
+  /^(\s*)(not ok|ok)\b\s*(?:\d+)?\s*(?:-\s*)?(.*?)(?:\s+#\s*(SKIP|TODO)\b.*)?$/i;
+const SUBTEST = /^(\s*)# Subtest: (.*)$/;
+
+/**
+ * Parse TAP output, including the indented subtests and YAML diagnostics
+ * written by `node --test`, tape and prove
+ */
+export function parseTap(content: string): TestCaseResult[] {
+  const lines = content.split('\n');
+  const results: TestCaseResult[] = [];
+  // Open subtests by indentation; a test point closing one with children is a
+  // suite, not a test
+  const subtests: Array<{ indent: number; name: string; children: number }> =
+    [];
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index] ?? '';
+    const subtest = SUBTEST.exec(line);
+
+    if (subtest) {
+      const indent = subtest[1]?.length ?? 0;
+      const parent = subtests[subtests.length - 1];
+      if (parent && parent.indent < indent) {
+        parent.children++;
+      }
+      subtests.push({ indent, name: subtest[2] ?? '', children: 0 });
+      continue;
+    }
+
+    const point = TEST_POINT.exec(line);
+
+    if (!point) {
+      continue;
+    }
+
+    const indent = point[1]?.length ?? 0;
+    const name = (point[3] ?? '').trim();
+    const directive = point[4]?.toUpperCase();
+
+    // The matching subtest is the innermost one at this indentation
+    while (
+      subtests.length > 0 &&
+      (subtests[subtests.length - 1]?.indent ?? 0) > indent
+    ) {
+      subtests.pop();
+    }
+    const own =
+      subtests[subtests.length - 1]?.indent === indent
+        ? subtests.pop()
+        : undefined;
+
+    const diagnostics = readYamlBlock(lines, index + 1);
+    index += diagnostics.consumed;
+
+    if (own && own.children > 0) {
+      continue;
+    }
+
+    const enclosing = subtests[subtests.length - 1];
+    if (enclosing && !own) {
+      enclosing.children++;
+    }
+
+    const failed = point[2]?.toLowerCase() === 'not ok';
+    const status = directive ? 'skipped' : failed ? 'failed' : 'passed';
+    // tape and prove write `message`; `node --test` writes `error`
+    const message = [
+      diagnostics.fields['message'] ?? diagnostics.fields['error'],
+      diagnostics.fields['stack'],
+    ]
+      .filter(Boolean)
+      .join('\n');
+    const durationMs = Number(diagnostics.fields['duration_ms']);
+
+    results.push(
+      testCase({
+        suite: subtests.map(open => open.name).join(' > '),
+        name,
+        status,
+        ...(Number.isFinite(durationMs) &&
+          diagnostics.fields['duration_ms'] !== undefined && { durationMs }),
+        ...(status === 'failed' && {
+          failureMessage: message || `${name} failed`,
+        }),
+        ...parseLocation(diagnostics.fields['location']),
+      })
+    );
+  }
+
+  return results;
+}
+
+/**
+ * Read the `---` ... `...` YAML diagnostics block following a test point
+ *
+ * Only top-level scalar and block-scalar fields are kept, which covers the
+ * message, stack, location and duration that runners write.
+ */
+function readYamlBlock(
+  lines: string[],
+  start: number
+): { fields: Record<string, string>; consumed: number } {
+  const fields: Record<string, string> = {};
+
+  if (!/^\s*---\s*$/.test(lines[start] ?? '')) {
+    return { fields, consumed: 0 };
+  }
+
+  let index = start + 1;
+  let key: string | undefined;
+  let keyIndent = 0;
+
+  for (; index < lines.length; index++) {
+    const line = lines[index] ?? '';
+
+    if (/^\s*\.\.\.\s*$/.test(line)) {
+      break;
+    }
+
+    const indent = line.length - line.trimStart().length;
+    const field = /^\s*([\w-]+):\s*(.*)$/.exec(line);
+
+    if (field && (key === undefined || indent <= keyIndent)) {
+      key = field[1] ?? '';
+      keyIndent = indent;
+      const value = field[2] ?? '';
+      fields[key] = /^[|>][-+]?$/.test(value) ? '' : unquote(value);
+    } else if (key !== undefined) {
+      fields[key] = [fields[key], line.trim()].filter(Boolean).join('\n');
+    }
+  }
+
+  return { fields, consumed: index - start + 1 };
+}
+
+/**
+ * `node --test` reports where a test is defined as `file:line:column`
+ */
+function parseLocation(
+  location: string | undefined
+): { file: string; line: number } | Record<string, never> {
+  const match = /^(.*?):(\d+)(?::\d+)?$/.exec(location ?? '');
+
+  if (!match?.[1]) {
+    return {};
+  }
+
+  return {
+    file: match[1].replace(/^file:\/\//, ''),
+    line: Number(match[2]),
+  };
+}
+
+/**
+ * Strip YAML quotes from a scalar
+ */
+function unquote(value: string): string {
+  const quoted = /^(['"])(.*)\1$/.exec(value.trim());
+  return quoted ? (quoted[2] ?? '') : value.trim();
+}
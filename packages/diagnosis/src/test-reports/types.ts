@@ -0,0 +1,42 @@
+import { z } from 'zod';
+
+/**
+ * Test report formats the parsers understand
+ */
+export const TestReportFormatSchema = z.enum([
+  'junit',
+  'tap',
+  'jest',
+  'pytest',
+  'cargo',
+  'go',
+]);
+
+/**
+ * One frame of a failure stack trace, normalised across languages
+ */
+export const StackFrameSchema = z.object({
+  file: z.string(),
+  line: z.number().int().optional(),
+  column: z.number().int().optional(),
+  function: z.string().optional(),
+});
+
+/**
+ * Outcome of a single test case, whatever runner produced it
+ */
+export const TestCaseResultSchema = z.object({
+  suite: z.string(),
+  name: z.string(),
+  status: z.enum(['passed', 'failed', 'errored', 'skipped']),
+  durationMs: z.number().nonnegative().optional(),
+  failureMessage: z.string().optional(),
+  stackFrames: z.array(StackFrameSchema).default([]),
+  file: z.string().optional(),
+  line: z.number().int().optional(),
+});
+
+export type TestReportFormat = z.infer<typeof TestReportFormatSchema>;
+export type StackFrame = z.infer<typeof StackFrameSchema>;
+export type TestCaseResult = z.infer<typeof TestCaseResultSchema>;
+export type TestStatus = TestCaseResult['status'];
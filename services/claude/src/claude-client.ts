@@ -1,7 +1,17 @@
-import Anthropic from '@anthropic-ai/sdk';
+import type { DiagnosisProvider } from '@self-healing-ci/diagnosis/diagnosis-providers';
+import {
+  AnthropicProvider,
+  AnthropicProviderConfigSchema,
+  DiagnosisProviderError,
+} from '@self-healing-ci/diagnosis/diagnosis-providers';
+import type {
+  FixKnowledgeBase,
+  SimilarIncident,
+} from '@self-healing-ci/diagnosis/fix-knowledge-base';
+import { failureSignature } from '@self-healing-ci/diagnosis/fix-knowledge-base';
 import { z } from 'zod';
-import { logger } from '../../github-app/src/utils/logger.js';
-import { FailureReport } from './types/failure-report.js';
+import type { FailureReport } from './types/failure-report.js';
+import { logger } from './utils/logger.js';
 
 // Claude response schema
 const ClaudeResponseSchema = z.object({
@@ -27,9 +37,10 @@ export type ClaudeResponse = z.infer<typeof ClaudeResponseSchema>;
 export interface ClaudeInvocationOptions {
   maxTokens?: number;
   temperature?: number;
-  stream?: boolean;
   retryAttempts?: number;
   timeoutMs?: number;
+  // Most similar past incidents to include as examples
+  similarIncidentLimit?: number;
 }
 
 export interface ClaudeInvocationResult {
@@ -38,20 +49,39 @@ export interface ClaudeInvocationResult {
   model: string;
   duration: number;
   retryCount: number;
+  similarIncidents: SimilarIncident[];
 }
 
 export class ClaudeClient {
-  private client: Anthropic;
+  private readonly provider: DiagnosisProvider;
+  private readonly knowledgeBase: FixKnowledgeBase | undefined;
   private readonly defaultMaxTokens = 16000;
   private readonly defaultTemperature = 0.1;
   private readonly defaultRetryAttempts = 3;
   private readonly defaultTimeoutMs = 30000;
 
-  constructor(apiKey: string) {
-    this.client = new Anthropic({
-      apiKey,
-      maxRetries: 0, // We handle retries ourselves
-    });
+  /**
+   * Takes any diagnosis provider; an API key alone selects Anthropic with
+   * the model from `CLAUDE_MODEL`. With a knowledge base, fixes for similar
+   * past failures are included in the prompt.
+   */
+  constructor(
+    providerOrApiKey: DiagnosisProvider | string,
+    knowledgeBase?: FixKnowledgeBase
+  ) {
+    this.knowledgeBase = knowledgeBase;
+    this.provider =
+      typeof providerOrApiKey === 'string'
+        ? new AnthropicProvider(
+            AnthropicProviderConfigSchema.parse({
+              type: 'anthropic',
+              ...(process.env['CLAUDE_MODEL'] && {
+                model: process.env['CLAUDE_MODEL'],
+              }),
+            }),
+            providerOrApiKey
+          )
+        : providerOrApiKey;
   }
 
   /**
@@ -74,8 +104,12 @@ export class ClaudeClient {
       maxTokens: options.maxTokens || this.defaultMaxTokens,
     });
 
+    const similarIncidents = await this.findSimilarIncidents(
+      failureReport,
+      options.similarIncidentLimit ?? 3
+    );
     const systemPrompt = this.buildSystemPrompt();
-    const userPrompt = this.buildUserPrompt(failureReport);
+    const userPrompt = this.buildUserPrompt(failureReport, similarIncidents);
 
     // Token budget management
     const estimatedTokens = this.estimateTokenCount(systemPrompt + userPrompt);
@@ -96,28 +130,69 @@ export class ClaudeClient {
         failureReport,
         maxTokens
       );
-      const truncatedUserPrompt = this.buildUserPrompt(truncatedReport);
+      const truncatedUserPrompt = this.buildUserPrompt(
+        truncatedReport,
+        similarIncidents
+      );
 
-      return this.invokeClaude(
+      return {
+        ...(await this.invokeClaude(
+          systemPrompt,
+          truncatedUserPrompt,
+          options,
+          invocationId,
+          startTime
+        )),
+        similarIncidents,
+      };
+    }
+
+    return {
+      ...(await this.invokeClaude(
         systemPrompt,
-        truncatedUserPrompt,
+        userPrompt,
         options,
         invocationId,
         startTime
-      );
+      )),
+      similarIncidents,
+    };
+  }
+
+  /**
+   * Past fixes for failures like this one, from the installation's history
+   */
+  private async findSimilarIncidents(
+    failureReport: FailureReport,
+    limit: number
+  ): Promise<SimilarIncident[]> {
+    if (!this.knowledgeBase || limit <= 0) {
+      return [];
     }
 
-    return this.invokeClaude(
-      systemPrompt,
-      userPrompt,
-      options,
-      invocationId,
-      startTime
-    );
+    try {
+      const { logs, testOutput } = failureReport;
+      return await this.knowledgeBase.findSimilar(
+        failureSignature({
+          logs: [logs.errorLogs, logs.testLogs, logs.buildLogs]
+            .filter(Boolean)
+            .join('\n'),
+          failedTests: testOutput.failedTests,
+        }),
+        { installationId: failureReport.installationId, limit }
+      );
+    } catch (error) {
+      // History only improves the prompt; never fail a diagnosis over it
+      logger.warn('Failed to look up similar incidents', {
+        repository: failureReport.repository,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return [];
+    }
   }
 
   /**
-   * Invoke Claude with streaming support
+   * Invoke the diagnosis provider with retries
    */
   private async invokeClaude(
     systemPrompt: string,
@@ -125,7 +200,7 @@ export class ClaudeClient {
     options: ClaudeInvocationOptions,
     invocationId: string,
     startTime: number
-  ): Promise<ClaudeInvocationResult> {
+  ): Promise<Omit<ClaudeInvocationResult, 'similarIncidents'>> {
     const maxTokens = options.maxTokens || this.defaultMaxTokens;
     const temperature = options.temperature || this.defaultTemperature;
     const retryAttempts = options.retryAttempts || this.defaultRetryAttempts;
@@ -142,30 +217,30 @@ export class ClaudeClient {
           maxRetries: retryAttempts,
         });
 
-        const response = await this.client.messages.create({
-          model: 'claude-3-5-haiku-20241022',
-          max_tokens: maxTokens,
+        const completion = await this.provider.complete({
+          systemPrompt,
+          userPrompt,
+          maxTokens,
           temperature,
-          system: systemPrompt,
-          messages: [{ role: 'user', content: userPrompt }],
-          stream: options.stream || false,
         });
+        const duration = Date.now() - startTime;
 
-        if (options.stream && response.stream) {
-          return this.handleStreamingResponse(
-            response,
-            invocationId,
-            startTime,
-            retryCount
-          );
-        } else {
-          return this.handleNonStreamingResponse(
-            response,
-            invocationId,
-            startTime,
-            retryCount
-          );
-        }
+        logger.info('Claude response completed', {
+          invocationId,
+          provider: completion.provider,
+          model: completion.model,
+          tokensUsed: completion.tokensUsed,
+          responseLength: completion.content.length,
+          duration,
+        });
+
+        return {
+          response: this.parseClaudeResponse(completion.content),
+          tokensUsed: completion.tokensUsed,
+          model: completion.model,
+          duration,
+          retryCount,
+        };
       } catch (error) {
         lastError = error as Error;
         retryCount = attempt;
@@ -208,77 +283,6 @@ export class ClaudeClient {
     );
   }
 
-  /**
-   * Handle streaming response from Claude
-   */
-  private async handleStreamingResponse(
-    response: any,
-    invocationId: string,
-    startTime: number,
-    retryCount: number
-  ): Promise<ClaudeInvocationResult> {
-    let fullContent = '';
-    let tokensUsed = 0;
-
-    for await (const chunk of response.stream) {
-      if (chunk.type === 'content_block_delta') {
-        fullContent += chunk.delta.text;
-      }
-      if (chunk.type === 'message_delta' && chunk.delta.usage) {
-        tokensUsed = chunk.delta.usage.output_tokens || 0;
-      }
-    }
-
-    const parsedResponse = this.parseClaudeResponse(fullContent);
-    const duration = Date.now() - startTime;
-
-    logger.info('Claude streaming response completed', {
-      invocationId,
-      tokensUsed,
-      responseLength: fullContent.length,
-      duration,
-    });
-
-    return {
-      response: parsedResponse,
-      tokensUsed,
-      model: 'claude-3-5-haiku-20241022',
-      duration,
-      retryCount,
-    };
-  }
-
-  /**
-   * Handle non-streaming response from Claude
-   */
-  private handleNonStreamingResponse(
-    response: any,
-    invocationId: string,
-    startTime: number,
-    retryCount: number
-  ): ClaudeInvocationResult {
-    const content = response.content[0]?.text || '';
-    const tokensUsed = response.usage?.output_tokens || 0;
-    const duration = Date.now() - startTime;
-
-    const parsedResponse = this.parseClaudeResponse(content);
-
-    logger.info('Claude non-streaming response completed', {
-      invocationId,
-      tokensUsed,
-      responseLength: content.length,
-      duration,
-    });
-
-    return {
-      response: parsedResponse,
-      tokensUsed,
-      model: 'claude-3-5-haiku-20241022',
-      duration,
-      retryCount,
-    };
-  }
-
   /**
    * Parse Claude response and validate schema
    */
@@ -356,7 +360,10 @@ IMPORTANT:
   /**
    * Build user prompt from failure report
    */
-  private buildUserPrompt(failureReport: FailureReport): string {
+  private buildUserPrompt(
+    failureReport: FailureReport,
+    similarIncidents: SimilarIncident[] = []
+  ): string {
     return `Analyze this failed workflow run:
 
 REPOSITORY: ${failureReport.repository}
@@ -391,7 +398,7 @@ TEST RESULTS:
 ${failureReport.testOutput.testResults || 'No test results available'}
 
 FAILED TESTS:
-${failureReport.testOutput.failedTests.join('\n') || 'No failed tests'}
+${this.formatFailedTests(failureReport.testOutput.failedTests) || 'No failed tests'}
 
 ENVIRONMENT:
 - Runner: ${failureReport.environment.runner || 'Unknown'}
@@ -403,19 +410,63 @@ DURATION: ${failureReport.metrics.duration}ms
 ${
   failureReport.previousAttempts.length > 0
     ? `
-PREVIOUS ATTEMPTS:
+PREVIOUS ATTEMPTS (each was rejected; return a corrected patch):
 ${failureReport.previousAttempts
   .map(
     attempt =>
-      `Attempt ${attempt.attempt}: ${attempt.error} (${attempt.duration}ms)`
+      `Attempt ${attempt.attempt}: ${attempt.error} (${attempt.duration}ms)${
+        attempt.patch ? `\nPatch:\n${attempt.patch}` : ''
+      }`
   )
-  .join('\n')}`
+  .join('\n\n')}`
     : ''
 }
 
+${
+  similarIncidents.length > 0
+    ? `
+SIMILAR PAST INCIDENTS (fixes for comparable failures, as examples):
+${similarIncidents
+  .map(
+    ({ record, similarity }) =>
+      `Example (${Math.round(similarity * 100)}% similar, ${record.outcome}):
+Root cause: ${record.rootCause}
+Explanation: ${record.explanation}
+Patch:
+${record.patch}`
+  )
+  .join('\n\n')}
+`
+    : ''
+}
 Please diagnose the root cause and provide a solution.`;
   }
 
+  /**
+   * List failed tests as `suite > name (file:line): message`, followed by
+   * the rest of the failure message indented
+   */
+  private formatFailedTests(
+    failedTests: FailureReport['testOutput']['failedTests']
+  ): string {
+    return failedTests
+      .map(test => {
+        const name = [test.suite, test.name].filter(Boolean).join(' > ');
+        const location = test.file
+          ? ` (${test.file}${test.line ? `:${test.line}` : ''})`
+          : '';
+        const [message = '', ...details] = (test.failureMessage ?? '').split(
+          '\n'
+        );
+
+        return [
+          `- ${name}${location}${message ? `: ${message}` : ''}`,
+          ...details.map(line => `    ${line}`),
+        ].join('\n');
+      })
+      .join('\n');
+  }
+
   /**
    * Estimate token count for input
    */
@@ -469,6 +520,24 @@ Please diagnose the root cause and provide a solution.`;
         truncated.gitContext.diff.substring(0, charsPerField) + '...';
     }
 
+    // Failure messages share the budget; names and locations are kept whole
+    const failedTests = truncated.testOutput.failedTests;
+    const charsPerTest = Math.floor(
+      charsPerField / Math.max(failedTests.length, 1)
+    );
+    truncated.testOutput = {
+      ...truncated.testOutput,
+      failedTests: failedTests.map(test =>
+        test.failureMessage && test.failureMessage.length > charsPerTest
+          ? {
+              ...test,
+              failureMessage:
+                test.failureMessage.substring(0, charsPerTest) + '...',
+            }
+          : test
+      ),
+    };
+
     return truncated;
   }
 
@@ -476,6 +545,10 @@ Please diagnose the root cause and provide a solution.`;
    * Check if error is retryable
    */
   private isRetryableError(error: Error): boolean {
+    if (error instanceof DiagnosisProviderError) {
+      return error.retryable;
+    }
+
     const retryableErrors = [
       'rate_limit_exceeded',
       'timeout',
@@ -514,7 +587,7 @@ Please diagnose the root cause and provide a solution.`;
     startTime: number,
     retryCount: number,
     error: Error | null
-  ): ClaudeInvocationResult {
+  ): Omit<ClaudeInvocationResult, 'similarIncidents'> {
     logger.error('Using fallback response due to Claude failure', {
       invocationId,
       retryCount,
@@ -530,7 +603,7 @@ Please diagnose the root cause and provide a solution.`;
         }`,
       },
       tokensUsed: 0,
-      model: 'claude-3-5-haiku-20241022',
+      model: this.provider.model,
       duration: Date.now() - startTime,
       retryCount,
     };
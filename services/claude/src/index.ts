@@ -3,6 +3,10 @@ export type {
   ClaudeInvocationOptions,
   ClaudeInvocationResult,
   ClaudeResponse,
-  FailureReport,
 } from './claude-client.js';
-export { FailureReportBuilder, LogRedactor } from './types/failure-report.js';
+export {
+  FailureReportBuilder,
+  FailureReportSchema,
+  LogRedactor,
+} from './types/failure-report.js';
+export type { FailureReport } from './types/failure-report.js';
@@ -1,3 +1,5 @@
+import type { TestCaseResult } from '@self-healing-ci/diagnosis/test-reports';
+import { TestCaseResultSchema } from '@self-healing-ci/diagnosis/test-reports';
 import { z } from 'zod';
 
 /**
@@ -51,7 +53,7 @@ export const FailureReportSchema = z.object({
     coverageReport: z.string().optional(),
     testDuration: z.number().optional(),
     testCount: z.number().optional(),
-    failedTests: z.array(z.string()).default([]),
+    failedTests: z.array(TestCaseResultSchema).default([]),
   }),
 
   // Environment context
@@ -79,6 +81,7 @@ export const FailureReportSchema = z.object({
         timestamp: z.string().datetime(),
         error: z.string(),
         duration: z.number(),
+        patch: z.string().optional(),
       })
     )
     .default([]),
@@ -94,15 +97,16 @@ export class LogRedactor {
     // API keys
     /(api[_-]?key|token|secret|password|auth)[_-]?key?\s*[:=]\s*['"]?[a-zA-Z0-9]{20,}['"]?/gi,
     // GitHub tokens
-    /gh[po]_[a-zA-Z0-9]{36}/gi,
+    /gh[pousr]_[a-zA-Z0-9]{36}/gi,
     // AWS credentials
     /AKIA[0-9A-Z]{16}/gi,
     // Private keys
     /-----BEGIN\s+(?:RSA\s+)?PRIVATE\s+KEY-----[\s\S]*?-----END\s+(?:RSA\s+)?PRIVATE\s+KEY-----/gi,
     // URLs with tokens
     /https?:\/\/[^\/\s]+@[^\s]+/gi,
-    // Environment variables with secrets
-    /(?:export\s+)?([A-Z_]+)=(?:['"]?)([^'"]{20,})(?:['"]?)/gi,
+    // Environment variables with secrets, up to whitespace so a match cannot
+    // swallow the rest of a log
+    /(?:export\s+)?[A-Z_]*(?:KEY|TOKEN|SECRET|PASSWORD|AUTH)[A-Z_]*=['"]?[^'"\s]{20,}['"]?/g,
   ];
 
   /**
@@ -163,6 +167,18 @@ export class FailureReportBuilder {
     previousAttempts: [],
   };
 
+  /**
+   * Start from an existing report, e.g. to add a failed patch attempt
+   */
+  static from(report: FailureReport): FailureReportBuilder {
+    const builder = new FailureReportBuilder();
+    builder.report = {
+      ...report,
+      previousAttempts: [...report.previousAttempts],
+    };
+    return builder;
+  }
+
   setMetadata(
     workflowRunId: number,
     repository: string,
@@ -242,7 +258,7 @@ export class FailureReportBuilder {
     coverageReport?: string;
     testDuration?: number;
     testCount?: number;
-    failedTests?: string[];
+    failedTests?: TestCaseResult[];
   }): this {
     this.report.testOutput = {
       testResults: testOutput.testResults,
@@ -290,6 +306,7 @@ export class FailureReportBuilder {
     timestamp: string;
     error: string;
     duration: number;
+    patch?: string;
   }): this {
     this.report.previousAttempts!.push(attempt);
     return this;
@@ -0,0 +1,13 @@
+import winston from 'winston';
+
+// JSON lines on stdout; the process using the client ships them
+export const logger = winston.createLogger({
+  level: process.env['LOG_LEVEL'] || 'info',
+  format: winston.format.combine(
+    winston.format.timestamp(),
+    winston.format.errors({ stack: true }),
+    winston.format.json()
+  ),
+  defaultMeta: { service: 'claude' },
+  transports: [new winston.transports.Console()],
+});
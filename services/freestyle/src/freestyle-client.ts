@@ -1,3 +1,5 @@
+import type { TestCaseResult } from '@self-healing-ci/diagnosis/test-reports';
+import { parseTestReport } from '@self-healing-ci/diagnosis/test-reports';
 import { createHash } from 'crypto';
 import Docker from 'dockerode';
 import { logger } from '../../github-app/src/utils/logger.js';
@@ -19,6 +21,23 @@ export interface FreestyleClientOptions {
   flakinessThreshold?: number;
 }
 
+/**
+ * Outcome of one run of a test suite, with the cases parsed from its output
+ */
+interface TestRunResult {
+  success: boolean;
+  duration: number;
+  error?: string;
+  output?: string;
+  exitCode?: number;
+  testCases: TestCaseResult[];
+}
+
+/**
+ * Per-test outcome across every retry
+ */
+type AggregatedTestResult = TestExecutionResult['testResults'][number];
+
 export class FreestyleClient {
   private docker: Docker;
   private readonly defaultTimeout: number;
@@ -173,20 +192,8 @@ export class FreestyleClient {
     containerId: string,
     request: TestExecutionRequest,
     testSuiteConfig: TestSuiteConfig
-  ): Promise<
-    Array<{
-      success: boolean;
-      duration: number;
-      error?: string;
-      output?: string;
-    }>
-  > {
-    const retryResults: Array<{
-      success: boolean;
-      duration: number;
-      error?: string;
-      output?: string;
-    }> = [];
+  ): Promise<TestRunResult[]> {
+    const retryResults: TestRunResult[] = [];
 
     for (let attempt = 1; attempt <= request.retryCount; attempt++) {
       logger.info('Executing test attempt', {
@@ -212,6 +219,7 @@ export class FreestyleClient {
           success: false,
           duration: 0,
           error: error instanceof Error ? error.message : 'Unknown error',
+          testCases: [],
         });
       }
 
@@ -226,17 +234,15 @@ export class FreestyleClient {
 
   /**
    * Execute single test run
+   *
+   * The run passes when the command exits with 0 and no parsed test case
+   * failed. Without an exit code the parsed cases decide on their own.
    */
   private async executeSingleTestRun(
     containerId: string,
     request: TestExecutionRequest,
     testSuiteConfig: TestSuiteConfig
-  ): Promise<{
-    success: boolean;
-    duration: number;
-    error?: string;
-    output?: string;
-  }> {
+  ): Promise<TestRunResult> {
     const startTime = Date.now();
     const container = this.docker.getContainer(containerId);
 
@@ -254,39 +260,20 @@ export class FreestyleClient {
 
       const stream = await exec.start();
       let output = '';
-      let errorOutput = '';
-
-      return new Promise((resolve, reject) => {
-        const timeout = setTimeout(() => {
-          resolve({
-            success: false,
-            duration: Date.now() - startTime,
-            error: 'Test execution timed out',
-            output,
-          });
-        }, testSuiteConfig.timeout);
+
+      const completed = await new Promise<boolean>((resolve, reject) => {
+        const timeout = setTimeout(
+          () => resolve(false),
+          testSuiteConfig.timeout
+        );
 
         stream.on('data', chunk => {
-          const data = chunk.toString();
-          if (data.includes('error') || data.includes('Error')) {
-            errorOutput += data;
-          }
-          output += data;
+          output += chunk.toString();
         });
 
         stream.on('end', () => {
           clearTimeout(timeout);
-          const duration = Date.now() - startTime;
-
-          // Determine success based on output
-          const success = this.determineTestSuccess(output, errorOutput);
-
-          resolve({
-            success,
-            duration,
-            error: success ? undefined : errorOutput || 'Test execution failed',
-            output,
-          });
+          resolve(true);
         });
 
         stream.on('error', error => {
@@ -294,12 +281,51 @@ export class FreestyleClient {
           reject(error);
         });
       });
+
+      const duration = Date.now() - startTime;
+      const testCases = parseTestReport(output, testSuiteConfig.reportFormat);
+
+      if (!completed) {
+        return {
+          success: false,
+          duration,
+          error: 'Test execution timed out',
+          output,
+          testCases,
+        };
+      }
+
+      const { ExitCode } = await exec.inspect();
+      const failedCases = testCases.filter(
+        testCase =>
+          testCase.status === 'failed' || testCase.status === 'errored'
+      );
+      const success =
+        failedCases.length === 0 &&
+        (typeof ExitCode === 'number' ? ExitCode === 0 : testCases.length > 0);
+
+      return {
+        success,
+        duration,
+        ...(!success && {
+          error:
+            failedCases.length > 0
+              ? failedCases
+                  .map(testCase => this.describeFailure(testCase))
+                  .join('\n')
+              : `Test command exited with code ${ExitCode ?? 'unknown'}`,
+        }),
+        output,
+        ...(typeof ExitCode === 'number' && { exitCode: ExitCode }),
+        testCases,
+      };
     } catch (error) {
       return {
         success: false,
         duration: Date.now() - startTime,
         error:
           error instanceof Error ? error.message : 'Container execution failed',
+        testCases: [],
       };
     }
   }
@@ -308,18 +334,21 @@ export class FreestyleClient {
    * Detect flakiness in test results
    */
   private detectFlakiness(
-    retryResults: Array<{
-      success: boolean;
-      duration: number;
-      error?: string;
-      output?: string;
-    }>,
+    retryResults: TestRunResult[],
     testSuiteConfig: TestSuiteConfig
   ): FlakinessDetectionResult {
     const successfulRuns = retryResults.filter(result => result.success);
     const failedRuns = retryResults.filter(result => !result.success);
 
-    const isFlaky = successfulRuns.length > 0 && failedRuns.length > 0;
+    // A test that both passed and failed across retries is flaky even when
+    // every run failed on some other test
+    const flakyTests = this.aggregateTestResults(retryResults)
+      .filter(result => result.status === 'flaky')
+      .map(result => result.name);
+
+    const isFlaky =
+      flakyTests.length > 0 ||
+      (successfulRuns.length > 0 && failedRuns.length > 0);
     const confidence = this.calculateFlakinessConfidence(retryResults);
 
     // Generate flakiness signature
@@ -336,7 +365,13 @@ export class FreestyleClient {
       signature,
       stackHash,
       seed: Date.now(), // Use timestamp as seed
-      retryResults,
+      retryResults: retryResults.map((result, index) => ({
+        attempt: index + 1,
+        success: result.success,
+        duration: result.duration,
+        ...(result.error && { error: result.error }),
+      })),
+      flakyTests,
       suggestions,
     };
   }
@@ -344,14 +379,7 @@ export class FreestyleClient {
   /**
    * Calculate flakiness confidence score
    */
-  private calculateFlakinessConfidence(
-    retryResults: Array<{
-      success: boolean;
-      duration: number;
-      error?: string;
-      output?: string;
-    }>
-  ): number {
+  private calculateFlakinessConfidence(retryResults: TestRunResult[]): number {
     if (retryResults.length < 2) return 0;
 
     const successCount = retryResults.filter(r => r.success).length;
@@ -367,21 +395,30 @@ export class FreestyleClient {
   /**
    * Generate stack hash for flakiness signature
    */
-  private generateStackHash(
-    retryResults: Array<{
-      success: boolean;
-      duration: number;
-      error?: string;
-      output?: string;
-    }>
-  ): string {
+  private generateStackHash(retryResults: TestRunResult[]): string {
+    // Failing frames stay the same between runs where messages (timings,
+    // ids) do not; fall back to the messages when no frames were parsed
+    const failingFrames = retryResults
+      .flatMap(r => r.testCases)
+      .filter(c => c.status === 'failed' || c.status === 'errored')
+      .map(c =>
+        [
+          c.suite,
+          c.name,
+          ...c.stackFrames.map(f => `${f.file}:${f.line ?? ''}`),
+        ].join('>')
+      );
     const errorMessages = retryResults
       .filter(r => r.error)
       .map(r => r.error)
       .join('|');
 
     return createHash('sha256')
-      .update(errorMessages)
+      .update(
+        failingFrames.length > 0
+          ? [...new Set(failingFrames)].sort().join('|')
+          : errorMessages
+      )
       .digest('hex')
       .substring(0, 16);
   }
@@ -389,14 +426,7 @@ export class FreestyleClient {
   /**
    * Generate flakiness signature
    */
-  private generateFlakinessSignature(
-    retryResults: Array<{
-      success: boolean;
-      duration: number;
-      error?: string;
-      output?: string;
-    }>
-  ): string {
+  private generateFlakinessSignature(retryResults: TestRunResult[]): string {
     const signature = {
       successPattern: retryResults.map(r => (r.success ? 1 : 0)),
       durationPattern: retryResults.map(r => Math.floor(r.duration / 1000)), // seconds
@@ -413,16 +443,14 @@ export class FreestyleClient {
    * Determine flakiness type
    */
   private determineFlakinessType(
-    retryResults: Array<{
-      success: boolean;
-      duration: number;
-      error?: string;
-      output?: string;
-    }>
+    retryResults: TestRunResult[]
   ): keyof typeof FLAKINESS_PATTERNS {
     const allErrors = retryResults
-      .filter(r => r.error)
-      .map(r => r.error!)
+      .flatMap(r => [
+        r.error ?? '',
+        ...r.testCases.map(c => c.failureMessage ?? ''),
+      ])
+      .filter(Boolean)
       .join(' ');
 
     for (const [type, pattern] of Object.entries(FLAKINESS_PATTERNS)) {
@@ -435,41 +463,16 @@ export class FreestyleClient {
   }
 
   /**
-   * Determine test success from output
+   * One-line description of a failed test case for error messages
    */
-  private determineTestSuccess(output: string, errorOutput: string): boolean {
-    const successIndicators = [
-      /✓ \d+ tests? passed/i,
-      /PASS/i,
-      /SUCCESS/i,
-      /All tests passed/i,
-      /Test completed successfully/i,
-    ];
-
-    const failureIndicators = [
-      /✗ \d+ tests? failed/i,
-      /FAIL/i,
-      /ERROR/i,
-      /Test failed/i,
-      /Assertion failed/i,
-    ];
-
-    // Check for success indicators
-    for (const indicator of successIndicators) {
-      if (indicator.test(output)) {
-        return true;
-      }
-    }
-
-    // Check for failure indicators
-    for (const indicator of failureIndicators) {
-      if (indicator.test(output) || indicator.test(errorOutput)) {
-        return false;
-      }
-    }
-
-    // Default to success if no clear indicators
-    return !errorOutput || errorOutput.length === 0;
+  private describeFailure(testCase: TestCaseResult): string {
+    const name = [testCase.suite, testCase.name].filter(Boolean).join(' > ');
+    const location = testCase.file
+      ? ` (${testCase.file}${testCase.line ? `:${testCase.line}` : ''})`
+      : '';
+    const message = testCase.failureMessage?.split('\n')[0];
+
+    return `${name}${location}${message ? `: ${message}` : ''}`;
   }
 
   /**
@@ -491,23 +494,65 @@ export class FreestyleClient {
 
   /**
    * Aggregate test results from retries
+   *
+   * Each parsed test case is tracked across runs: one that passed in some runs
+   * and failed in others is flaky. Runs whose output could not be parsed
+   * collapse into a single aggregated result.
    */
   private aggregateTestResults(
-    retryResults: Array<{
-      success: boolean;
-      duration: number;
-      error?: string;
-      output?: string;
-    }>
-  ): Array<{
-    name: string;
-    status: 'passed' | 'failed' | 'skipped' | 'flaky';
-    duration: number;
-    error?: string;
-    output?: string;
-    retryCount: number;
-  }> {
-    // For now, return a single aggregated result
+    retryResults: TestRunResult[]
+  ): AggregatedTestResult[] {
+    const runs = new Map<string, TestCaseResult[]>();
+
+    for (const result of retryResults) {
+      for (const testCase of result.testCases) {
+        const key = `${testCase.suite}\0${testCase.name}`;
+        runs.set(key, [...(runs.get(key) ?? []), testCase]);
+      }
+    }
+
+    if (runs.size === 0) {
+      return this.aggregateRunResults(retryResults);
+    }
+
+    return [...runs.values()].map(cases => {
+      const failures = cases.filter(
+        c => c.status === 'failed' || c.status === 'errored'
+      );
+      const passes = cases.filter(c => c.status === 'passed');
+      const located = failures[0] ?? cases[0];
+
+      let status: AggregatedTestResult['status'];
+      if (failures.length > 0 && passes.length > 0) {
+        status = 'flaky';
+      } else if (failures.length > 0) {
+        status = 'failed';
+      } else if (passes.length > 0) {
+        status = 'passed';
+      } else {
+        status = 'skipped';
+      }
+
+      return {
+        name: located?.name ?? '',
+        suite: located?.suite,
+        status,
+        duration:
+          cases.reduce((sum, c) => sum + (c.durationMs ?? 0), 0) / cases.length,
+        error: failures[0]?.failureMessage,
+        retryCount: cases.length,
+        file: located?.file,
+        line: located?.line,
+      };
+    });
+  }
+
+  /**
+   * Single result for runs whose output held no recognisable test report
+   */
+  private aggregateRunResults(
+    retryResults: TestRunResult[]
+  ): AggregatedTestResult[] {
     const successCount = retryResults.filter(r => r.success).length;
     const totalCount = retryResults.length;
     const avgDuration =
@@ -538,12 +583,7 @@ export class FreestyleClient {
    * Generate execution trace
    */
   private generateExecutionTrace(
-    retryResults: Array<{
-      success: boolean;
-      duration: number;
-      error?: string;
-      output?: string;
-    }>,
+    retryResults: TestRunResult[],
     request: TestExecutionRequest
   ): string {
     const trace = {
@@ -1,3 +1,4 @@
+import type { TestReportFormat } from '@self-healing-ci/diagnosis/test-reports';
 import { z } from 'zod';
 
 /**
@@ -53,15 +54,18 @@ export type TestExecutionRequest = z.infer<typeof TestExecutionRequestSchema>;
  * Test execution result schema
  */
 export const TestExecutionResultSchema = z.object({
-  success: boolean,
+  success: z.boolean(),
   testResults: z.array(
     z.object({
       name: z.string(),
+      suite: z.string().optional(),
       status: z.enum(['passed', 'failed', 'skipped', 'flaky']),
       duration: z.number(),
       error: z.string().optional(),
       output: z.string().optional(),
       retryCount: z.number().default(0),
+      file: z.string().optional(),
+      line: z.number().optional(),
     })
   ),
   flakinessScore: z.number().min(0).max(1),
@@ -141,6 +145,7 @@ export interface FlakinessDetectionResult {
     duration: number;
     error?: string;
   }>;
+  flakyTests: string[];
   suggestions: string[];
 }
 
@@ -155,6 +160,8 @@ export interface TestSuiteConfig {
   flakinessThreshold: number;
   deterministic: boolean;
   seedRequired: boolean;
+  // Runner output format; detected from the output when not set
+  reportFormat?: TestReportFormat;
 }
 
 /**
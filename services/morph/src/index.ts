@@ -1,14 +1,28 @@
 export { MorphClient } from './morph-client.js';
+export type { MorphClientOptions } from './morph-client.js';
+export { RepositoryCache } from './patch-engine/index.js';
+export type {
+  GitCredentials,
+  RemoteResolvers,
+  RepositoryCacheOptions,
+} from './patch-engine/index.js';
+export { DEFAULT_VALIDATION_RULES } from './types/patch.js';
 export type {
   CompilationResult,
   CompilationValidator,
-  DEFAULT_VALIDATION_RULES,
+  ForgeProvider,
+  PatchAttempt,
   PatchRequest,
   PatchResult,
   PatchSafetyLevel,
   PatchStrategy,
   PatchValidationContext,
 } from './types/patch.js';
+export { GoValidator } from './validators/go-validator.js';
 export { JavaScriptValidator } from './validators/javascript-validator.js';
+export { JvmValidator } from './validators/jvm-validator.js';
+export { PythonValidator } from './validators/python-validator.js';
+export { ValidatorRegistry } from './validators/registry.js';
+export type { ValidationTarget } from './validators/registry.js';
 export { RustValidator } from './validators/rust-validator.js';
 export { TypeScriptValidator } from './validators/typescript-validator.js';
@@ -1,60 +1,82 @@
-import axios from 'axios';
-import { execa } from 'execa';
-import { simpleGit, SimpleGit } from 'simple-git';
-import { logger } from '../../github-app/src/utils/logger.js';
+import { ClaudeClient, FailureReportBuilder } from '@self-healing-ci/claude';
+import { join } from 'node:path';
+import type { PatchWorkspace } from './patch-engine/index.js';
 import {
-  CompilationResult,
-  CompilationValidator,
+  detectPatchFormat,
+  parseEdits,
+  parseUnifiedDiff,
+  RepositoryCache,
+} from './patch-engine/index.js';
+import {
+  type CompilationResult,
   DEFAULT_VALIDATION_RULES,
-  PatchRequest,
-  PatchResult,
+  type HunkStatus,
+  type PatchAttempt,
+  type PatchRequest,
+  type PatchResult,
   PatchSafetyLevel,
 } from './types/patch.js';
-import { JavaScriptValidator } from './validators/javascript-validator.js';
-import { RustValidator } from './validators/rust-validator.js';
-import { TypeScriptValidator } from './validators/typescript-validator.js';
+import { logger } from './utils/logger.js';
+import { ValidatorRegistry } from './validators/registry.js';
 
 export interface MorphClientOptions {
-  apiKey: string;
-  apiUrl: string;
-  timeoutMs?: number;
+  // Where patches are applied; configured from the environment by default
+  repositoryCache?: RepositoryCache;
   maxRetries?: number;
   validationRules?: typeof DEFAULT_VALIDATION_RULES;
+  // Validators for the changed packages; every built-in one by default
+  validatorRegistry?: ValidatorRegistry;
+  // Asked for a corrected patch when one is rejected
+  claudeClient?: ClaudeClient;
+}
+
+// Outcome of checking a patch; `stage` is set when it was rejected
+interface PatchCheck {
+  stage?: PatchAttempt['stage'];
+  errors: string[];
+  hunks: HunkStatus[];
+  filesChanged: string[];
+  // One result per package validated
+  compilation: CompilationResult[];
+  // The patch as a unified diff; the patch itself when it already was one
+  diff: string;
 }
 
 export class MorphClient {
-  private readonly apiKey: string;
-  private readonly apiUrl: string;
-  private readonly timeoutMs: number;
+  private readonly repositoryCache: RepositoryCache;
   private readonly maxRetries: number;
   private readonly validationRules: typeof DEFAULT_VALIDATION_RULES;
-  private readonly validators: Map<string, CompilationValidator>;
+  private readonly validatorRegistry: ValidatorRegistry;
+  private readonly claudeClient: ClaudeClient | undefined;
 
   constructor(options: MorphClientOptions) {
-    this.apiKey = options.apiKey;
-    this.apiUrl = options.apiUrl;
-    this.timeoutMs = options.timeoutMs || 30000;
+    this.repositoryCache =
+      options.repositoryCache ?? RepositoryCache.fromEnvironment();
     this.maxRetries = options.maxRetries || 2;
     this.validationRules = options.validationRules || DEFAULT_VALIDATION_RULES;
-
-    // Initialize validators
-    this.validators = new Map([
-      ['typescript', new TypeScriptValidator()],
-      ['rust', new RustValidator()],
-      ['javascript', new JavaScriptValidator()],
-    ]);
+    this.validatorRegistry =
+      options.validatorRegistry ?? ValidatorRegistry.withDefaults();
+    this.claudeClient = options.claudeClient;
   }
 
   /**
    * Apply patch with compilation validation
+   *
+   * The patch is applied in a worktree of the repository at `headSha`. A
+   * patch rejected by validation, a hunk that does not apply or the language
+   * validator is sent back to the model with its errors for a corrected
+   * patch, up to `maxRetries` times. A patch that passes every check is
+   * committed, signed, and pushed to `targetBranch` when one is given.
    */
   async applyPatch(request: PatchRequest): Promise<PatchResult> {
     const startTime = Date.now();
     const patchId = `morph-${Date.now()}-${Math.random()
       .toString(36)
       .substr(2, 9)}`;
+    const attempts: PatchAttempt[] = [];
+    let workspace: PatchWorkspace | undefined;
 
-    logger.info('Applying patch with Morph', {
+    logger.info('Applying patch', {
       patchId,
       repository: request.repository,
       headSha: request.headSha,
@@ -63,54 +85,91 @@ export class MorphClient {
     });
 
     try {
-      // Validate patch before application
-      const validationResult = await this.validatePatch(request);
-      if (!validationResult.success) {
-        return {
-          success: false,
-          validationErrors: validationResult.errors,
-          duration: Date.now() - startTime,
-          retryCount: 0,
-        };
-      }
+      workspace = await this.repositoryCache.checkout(request, request.headSha);
+      let patch = request.patch;
+      let check: PatchCheck;
+
+      for (let attempt = 1; ; attempt++) {
+        const attemptStart = Date.now();
+        check = await this.checkPatch({ ...request, patch }, workspace);
+
+        attempts.push({
+          attempt,
+          patch,
+          ...(check.stage && { stage: check.stage }),
+          ...(check.diff !== patch && { diff: check.diff }),
+          errors: check.errors,
+          hunks: check.hunks,
+          timestamp: new Date(attemptStart).toISOString(),
+          duration: Date.now() - attemptStart,
+        });
+
+        if (!check.stage) {
+          break;
+        }
 
-      // Apply patch using Morph API
-      const morphResult = await this.applyPatchWithMorph(request, patchId);
-      if (!morphResult.success) {
-        return {
-          success: false,
-          error: morphResult.error,
-          duration: Date.now() - startTime,
-          retryCount: 0,
-        };
+        logger.warn('Patch rejected', {
+          patchId,
+          repository: request.repository,
+          attempt,
+          stage: check.stage,
+          errors: check.errors,
+        });
+
+        const corrected =
+          attempt <= request.maxRetries
+            ? await this.requestCorrectedPatch(request, attempts)
+            : undefined;
+
+        if (!corrected) {
+          return {
+            success: false,
+            filesChanged: [],
+            ...(check.stage === 'validation'
+              ? { validationErrors: check.errors, compilationErrors: [] }
+              : { compilationErrors: check.errors, validationErrors: [] }),
+            duration: Date.now() - startTime,
+            retryCount: attempts.length - 1,
+            attempts,
+            hunks: check.hunks,
+            compilationResults: check.compilation,
+          };
+        }
+
+        await workspace.reset();
+        patch = corrected;
       }
 
-      // Validate compilation after patch
-      const compilationResult = await this.validateCompilation(request);
+      const patchSha = await workspace.commit(
+        `fix: Self-healing CI fix for ${request.rootCause}\n\nApplied on top of ${request.headSha}.`
+      );
 
-      if (!compilationResult.success) {
-        // If compilation fails, retry with compiler diagnostics
-        return await this.handleCompilationFailure(
-          request,
-          compilationResult,
-          startTime
-        );
+      if (request.targetBranch) {
+        await workspace.push(request.targetBranch);
       }
 
-      // Patch applied successfully
       logger.info('Patch applied successfully', {
         patchId,
-        filesChanged: morphResult.changes.length,
-        compilationSuccess: compilationResult.success,
+        patchSha,
+        targetBranch: request.targetBranch,
+        filesChanged: check.filesChanged.length,
+        attempts: attempts.length,
         duration: Date.now() - startTime,
       });
 
       return {
         success: true,
-        patchSha: morphResult.patchId,
-        filesChanged: morphResult.changes.map(c => c.file),
+        patchSha,
+        diff: check.diff,
+        filesChanged: check.filesChanged,
+        compilationErrors: [],
+        validationErrors: [],
         duration: Date.now() - startTime,
-        retryCount: 0,
+        retryCount: attempts.length - 1,
+        attempts,
+        hunks: check.hunks,
+        compilationResults: check.compilation,
+        safetyLevel: this.assessPatchSafety({ ...request, patch: check.diff }),
       };
     } catch (error) {
       logger.error('Patch application failed', {
@@ -121,66 +180,119 @@ export class MorphClient {
 
       return {
         success: false,
+        filesChanged: [],
+        compilationErrors: [],
+        validationErrors: [],
         error: error instanceof Error ? error.message : 'Unknown error',
         duration: Date.now() - startTime,
-        retryCount: 0,
+        retryCount: Math.max(attempts.length - 1, 0),
+        attempts,
+        hunks: [],
+        compilationResults: [],
       };
+    } finally {
+      await workspace?.dispose();
     }
   }
 
   /**
-   * Apply patch using Morph API
+   * Run every check on a patch, stopping at the first that rejects it
+   *
+   * A patch in an edit format is first turned into a unified diff; one that
+   * cannot be read is rejected by validation, and one whose edits do not fit
+   * the files is rejected at the apply stage.
    */
-  private async applyPatchWithMorph(
+  private async checkPatch(
     request: PatchRequest,
-    patchId: string
-  ): Promise<{
-    success: boolean;
-    patchId?: string;
-    changes: Array<{ file: string; content: string; operation: string }>;
-    error?: string;
-  }> {
-    try {
-      const response = await axios.post(
-        `${this.apiUrl}/apply-patch`,
-        {
-          patchId,
-          repository: request.repository,
-          headSha: request.headSha,
-          branch: request.branch,
-          patch: request.patch,
-          rootCause: request.rootCause,
-          installationId: request.installationId,
-        },
-        {
-          headers: {
-            Authorization: `Bearer ${this.apiKey}`,
-            'Content-Type': 'application/json',
-          },
-          timeout: this.timeoutMs,
-        }
-      );
+    workspace: PatchWorkspace
+  ): Promise<PatchCheck> {
+    const format = request.format ?? detectPatchFormat(request.patch);
+    let diff = request.patch;
+
+    if (format !== 'unified-diff') {
+      const parsed = parseEdits(request.patch, format);
+      if (parsed.errors.length > 0) {
+        return {
+          stage: 'validation',
+          errors: parsed.errors,
+          hunks: [],
+          filesChanged: [],
+          compilation: [],
+          diff,
+        };
+      }
 
-      return {
-        success: true,
-        patchId: response.data.patchId,
-        changes: response.data.changes || [],
-      };
-    } catch (error) {
-      if (axios.isAxiosError(error)) {
+      const conversion = await workspace.toUnifiedDiff(parsed.edits);
+      if (conversion.errors.length > 0) {
         return {
-          success: false,
-          error: error.response?.data?.error || error.message,
-          changes: [],
+          stage: 'apply',
+          errors: conversion.errors,
+          hunks: [],
+          filesChanged: [],
+          compilation: [],
+          diff,
         };
       }
+      diff = conversion.diff;
+    }
 
+    const diffRequest = { ...request, patch: diff };
+    const validationResult = await this.validatePatch(diffRequest);
+    if (!validationResult.success) {
       return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown error',
-        changes: [],
+        stage: 'validation',
+        errors: validationResult.errors,
+        hunks: [],
+        filesChanged: [],
+        compilation: [],
+        diff,
       };
     }
+
+    return {
+      ...(await this.validateCompilation(diffRequest, workspace)),
+      diff,
+    };
+  }
+
+  /**
+   * Ask the model for a patch fixing the errors of the rejected attempts
+   *
+   * Needs a Claude client and the failure report the original patch came
+   * from; returns undefined when either is missing or no patch comes back.
+   */
+  private async requestCorrectedPatch(
+    request: PatchRequest,
+    attempts: PatchAttempt[]
+  ): Promise<string | undefined> {
+    if (!this.claudeClient || !request.failureReport) {
+      return undefined;
+    }
+
+    const builder = FailureReportBuilder.from(request.failureReport);
+    const earlierAttempts = request.failureReport.previousAttempts.length;
+
+    for (const attempt of attempts) {
+      builder.addPreviousAttempt({
+        attempt: earlierAttempts + attempt.attempt,
+        timestamp: attempt.timestamp,
+        error: `Patch failed ${attempt.stage}: ${attempt.errors.join('\n')}`,
+        duration: attempt.duration,
+        patch: attempt.patch,
+      });
+    }
+
+    logger.info('Requesting corrected patch', {
+      repository: request.repository,
+      attempt: attempts.length + 1,
+      remainingRetries: request.maxRetries - attempts.length,
+    });
+
+    const { response } = await this.claudeClient.invokeWithFailureReport(
+      builder.build()
+    );
+
+    return response.patch || undefined;
   }
 
   /**
@@ -194,7 +306,9 @@ export class MorphClient {
 
     // Check patch format
     if (!this.isValidPatchFormat(request.patch)) {
-      errors.push('Invalid patch format');
+      errors.push(
+        'Invalid patch format: expected a unified diff with --- and +++ file headers and @@ hunks'
+      );
     }
 
     // Check file changes count
@@ -241,94 +355,78 @@ export class MorphClient {
   }
 
   /**
-   * Validate compilation after patch
+   * Apply the patch in the workspace and validate compilation
+   *
+   * Every package the patch touches is validated for each of its languages,
+   * so a patch to a Rust crate and a TypeScript package of one monorepo runs
+   * both validators; it is rejected if any package fails. Errors running
+   * git or a validator are thrown rather than reported as a rejection,
+   * since a corrected patch would not fix them.
    */
   private async validateCompilation(
-    request: PatchRequest
-  ): Promise<CompilationResult> {
-    const workspacePath = `/tmp/morph-workspace-${Date.now()}`;
-
+    request: PatchRequest,
+    workspace: PatchWorkspace
+  ): Promise<Omit<PatchCheck, 'diff'>> {
+    let application;
     try {
-      // Clone repository to temporary workspace
-      await this.cloneRepository(
-        request.repository,
-        request.headSha,
-        workspacePath
-      );
-
-      // Apply patch to workspace
-      await this.applyPatchToWorkspace(request.patch, workspacePath);
-
-      // Detect primary language and validate
-      const primaryLanguage = await this.detectPrimaryLanguage(workspacePath);
-      const validator = this.validators.get(primaryLanguage);
-
-      if (!validator) {
-        return {
-          success: true, // No validator available, assume success
-          errors: [],
-          warnings: [`No validator available for language: ${primaryLanguage}`],
-          duration: 0,
-          language: 'unknown',
-        };
-      }
-
-      return await validator.validate(workspacePath);
+      application = await workspace.apply(request.patch);
     } catch (error) {
       return {
-        success: false,
+        stage: 'apply',
         errors: [
-          error instanceof Error ? error.message : 'Unknown compilation error',
+          error instanceof Error ? error.message : 'Unknown apply error',
         ],
-        duration: 0,
-        language: 'unknown',
+        hunks: [],
+        filesChanged: [],
+        compilation: [],
       };
-    } finally {
-      // Cleanup workspace
-      await this.cleanupWorkspace(workspacePath);
     }
-  }
 
-  /**
-   * Handle compilation failure with retry logic
-   */
-  private async handleCompilationFailure(
-    request: PatchRequest,
-    compilationResult: CompilationResult,
-    startTime: number
-  ): Promise<PatchResult> {
-    logger.warn('Compilation failed after patch', {
-      repository: request.repository,
-      errors: compilationResult.errors,
-      language: compilationResult.language,
-    });
+    const { hunks, filesChanged } = application;
 
-    // If we haven't exceeded max retries, retry with compiler diagnostics
-    if (request.maxRetries > 0) {
-      const retryRequest = {
-        ...request,
-        maxRetries: request.maxRetries - 1,
-        compilationErrors: compilationResult.errors,
-        previousAttempts: (request as any).previousAttempts || 0 + 1,
+    if (application.errors.length > 0) {
+      return {
+        stage: 'apply',
+        errors: application.errors,
+        hunks,
+        filesChanged,
+        compilation: [],
       };
+    }
 
-      logger.info('Retrying patch with compiler diagnostics', {
+    const targets = await this.validatorRegistry.detect(
+      workspace.path,
+      filesChanged
+    );
+
+    if (targets.length === 0) {
+      // No validator for any changed file, assume success
+      logger.warn('No validator available', {
         repository: request.repository,
-        remainingRetries: retryRequest.maxRetries,
-        compilationErrors: compilationResult.errors,
+        filesChanged,
       });
+      return { errors: [], hunks, filesChanged, compilation: [] };
+    }
 
-      // TODO: Implement retry with enhanced context
-      // This would involve sending the compilation errors back to Claude
-      // for a refined patch, then retrying the application
+    // One at a time: builds of one repository contend for its caches
+    const compilation: CompilationResult[] = [];
+    for (const { path, validator } of targets) {
+      const result = await validator.validate(join(workspace.path, path));
+      compilation.push({ ...result, package: path });
     }
 
-    return {
-      success: false,
-      compilationErrors: compilationResult.errors,
-      duration: Date.now() - startTime,
-      retryCount: (request as any).previousAttempts || 0,
-    };
+    const errors = compilation
+      .filter(result => !result.success)
+      .flatMap(result =>
+        (result.errors.length > 0
+          ? result.errors
+          : [`${result.language} validation failed`]
+        ).map(error => `${result.package} (${result.language}): ${error}`)
+      );
+
+    return errors.length === 0
+      ? { errors: [], hunks, filesChanged, compilation }
+      : { stage: 'compilation', errors, hunks, filesChanged, compilation };
   }
 
   /**
@@ -378,14 +476,8 @@ export class MorphClient {
    * Utility methods
    */
   private isValidPatchFormat(patch: string): boolean {
-    // Basic unified diff format validation
-    const lines = patch.split('\n');
-    return lines.some(
-      line =>
-        line.startsWith('diff --git') ||
-        line.startsWith('---') ||
-        line.startsWith('+++')
-    );
+    // A unified diff changing at least one file
+    return parseUnifiedDiff(patch).length > 0;
   }
 
   private parsePatchFiles(patch: string): string[] {
@@ -420,73 +512,4 @@ export class MorphClient {
     const lastDot = filename.lastIndexOf('.');
     return lastDot > 0 ? filename.substring(lastDot) : '';
   }
-
-  private async cloneRepository(
-    repository: string,
-    sha: string,
-    workspacePath: string
-  ): Promise<void> {
-    const git: SimpleGit = simpleGit();
-    await git.clone(repository, workspacePath);
-    await git.cwd(workspacePath);
-    await git.checkout(sha);
-  }
-
-  private async applyPatchToWorkspace(
-    patch: string,
-    workspacePath: string
-  ): Promise<void> {
-    const { stdout, stderr } = await execa('git', ['apply'], {
-      cwd: workspacePath,
-      input: patch,
-    });
-
-    if (stderr) {
-      throw new Error(`Failed to apply patch: ${stderr}`);
-    }
-  }
-
-  private async detectPrimaryLanguage(workspacePath: string): Promise<string> {
-    // Simple language detection based on file presence
-    const { stdout } = await execa(
-      'find',
-      [
-        workspacePath,
-        '-name',
-        '*.ts',
-        '-o',
-        '-name',
-        '*.js',
-        '-o',
-        '-name',
-        '*.rs',
-        '-o',
-        '-name',
-        '*.py',
-      ],
-      {
-        cwd: workspacePath,
-      }
-    );
-
-    const files = stdout.split('\n').filter(Boolean);
-    const extensions = files.map(f => this.getFileExtension(f));
-
-    if (extensions.some(ext => ext === '.ts' || ext === '.tsx'))
-      return 'typescript';
-    if (extensions.some(ext => ext === '.rs')) return 'rust';
-    if (extensions.some(ext => ext === '.js' || ext === '.jsx'))
-      return 'javascript';
-    if (extensions.some(ext => ext === '.py')) return 'python';
-
-    return 'unknown';
-  }
-
-  private async cleanupWorkspace(workspacePath: string): Promise<void> {
-    try {
-      await execa('rm', ['-rf', workspacePath]);
-    } catch (error) {
-      logger.warn('Failed to cleanup workspace', { workspacePath, error });
-    }
-  }
 }
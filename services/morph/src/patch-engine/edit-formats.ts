@@ -0,0 +1,446 @@
+import { z } from 'zod';
+import type { PatchFormat } from '../types/patch.js';
+import { parseUnifiedDiff } from './unified-diff.js';
+
+export interface SearchReplaceBlock {
+  search: string;
+  replace: string;
+  // 1-based line of the block's `<<<<<<< SEARCH` marker in the patch
+  line: number;
+}
+
+/**
+ * A change to one file, in any format other than a unified diff
+ */
+export type FileEdit =
+  | { kind: 'replace'; path: string; blocks: SearchReplaceBlock[] }
+  // `create` needs the file to be missing, `update` needs it to exist
+  | {
+      kind: 'write';
+      path: string;
+      content: string;
+      operation: 'create' | 'update' | 'upsert';
+    }
+  | { kind: 'delete'; path: string };
+
+export interface ParsedEdits {
+  edits: FileEdit[];
+  // Why the patch could not be read, for the model
+  errors: string[];
+}
+
+export interface EditResult {
+  // New content of the file, null when it is deleted
+  content: string | null;
+  errors: string[];
+}
+
+const SEARCH_MARKER = /^<{5,9} SEARCH\s*$/;
+const DIVIDER = /^={5,9}\s*$/;
+const REPLACE_MARKER = /^>{5,9} REPLACE\s*$/;
+const FENCE = /^(`{3,}|~{3,})/;
+
+// The `changes` of the JSON format, as a remote patching service returned them
+const JsonChangeSchema = z
+  .object({
+    file: z.string().min(1),
+    operation: z.enum(['create', 'update', 'delete']),
+    content: z.string().optional(),
+  })
+  .refine(
+    change => change.operation === 'delete' || change.content !== undefined,
+    {
+      message: 'required to create or update a file',
+      path: ['content'],
+    }
+  );
+
+/**
+ * Guess the format of a patch written without saying which it is
+ */
+export function detectPatchFormat(patch: string): PatchFormat {
+  const trimmed = patch.trim();
+
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    return 'json';
+  }
+
+  const lines = trimmed.split('\n');
+
+  if (lines.some(line => SEARCH_MARKER.test(line))) {
+    return 'search-replace';
+  }
+
+  if (parseUnifiedDiff(patch).length > 0) {
+    return 'unified-diff';
+  }
+
+  return lines.some(line => FENCE.test(line)) ? 'whole-file' : 'unified-diff';
+}
+
+/**
+ * Read the edits of a patch in one of the edit formats
+ *
+ * - `search-replace`: a file path line, then `<<<<<<< SEARCH`, the lines to
+ *   find, `=======`, their replacement and `>>>>>>> REPLACE`. An empty
+ *   SEARCH section creates the file.
+ * - `whole-file`: a file path line followed by the file's full new content
+ *   in a fenced code block.
+ * - `json`: `{file, operation, content}` changes, alone, in an array or in a
+ *   `changes` array, where `operation` is create, update or delete.
+ */
+export function parseEdits(
+  patch: string,
+  format: Exclude<PatchFormat, 'unified-diff'>
+): ParsedEdits {
+  const normalized = patch.replace(/\r\n/g, '\n');
+
+  switch (format) {
+    case 'search-replace':
+      return parseSearchReplace(normalized);
+    case 'whole-file':
+      return parseWholeFile(normalized);
+    case 'json':
+      return parseJson(normalized);
+  }
+}
+
+/**
+ * Apply an edit to a file's content, `undefined` for a missing file
+ *
+ * SEARCH sections must match exactly one run of whole lines, ignoring
+ * trailing whitespace; blocks apply in order, each to the result of the last.
+ */
+export function applyEdit(
+  original: string | undefined,
+  edit: FileEdit
+): EditResult {
+  if (edit.kind === 'delete') {
+    return original === undefined
+      ? { content: null, errors: [`${edit.path}: cannot delete, no such file`] }
+      : { content: null, errors: [] };
+  }
+
+  if (edit.kind === 'write') {
+    if (edit.operation === 'create' && original !== undefined) {
+      return {
+        content: null,
+        errors: [`${edit.path}: cannot create, the file already exists`],
+      };
+    }
+    if (edit.operation === 'update' && original === undefined) {
+      return {
+        content: null,
+        errors: [`${edit.path}: cannot update, no such file`],
+      };
+    }
+    return { content: edit.content, errors: [] };
+  }
+
+  let content = original;
+  const errors: string[] = [];
+
+  edit.blocks.forEach((block, index) => {
+    const label = `${edit.path}: SEARCH block ${index + 1} (patch line ${block.line})`;
+
+    if (content === undefined) {
+      if (block.search.trim() === '') {
+        content = block.replace;
+      } else {
+        errors.push(`${label}: no such file; use an empty SEARCH to create it`);
+      }
+      return;
+    }
+
+    if (block.search.trim() === '') {
+      errors.push(`${label}: SEARCH is empty but the file already exists`);
+      return;
+    }
+
+    const replaced = replaceBlock(content, block);
+    if (typeof replaced === 'string') {
+      content = replaced;
+    } else {
+      errors.push(`${label}: ${replaced.error}`);
+    }
+  });
+
+  return { content: content ?? null, errors };
+}
+
+function parseSearchReplace(patch: string): ParsedEdits {
+  const lines = patch.split('\n');
+  const edits = new Map<string, SearchReplaceBlock[]>();
+  const errors: string[] = [];
+  let path: string | undefined;
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index] ?? '';
+
+    if (!SEARCH_MARKER.test(line)) {
+      continue;
+    }
+
+    // Blocks without a path of their own continue the previous block's file
+    path = precedingPath(lines, index) ?? path;
+    const start = index + 1;
+    const divider = findLine(lines, DIVIDER, start);
+    const end = divider === -1 ? -1 : findLine(lines, REPLACE_MARKER, divider);
+
+    if (divider === -1 || end === -1) {
+      errors.push(
+        `SEARCH block at patch line ${start} has no ${divider === -1 ? '=======' : '>>>>>>> REPLACE'} line`
+      );
+      break;
+    }
+
+    if (!path) {
+      errors.push(
+        `SEARCH block at patch line ${start} has no file path on the line before it`
+      );
+    } else {
+      const blocks = edits.get(path) ?? [];
+      blocks.push({
+        search: joinBlock(lines.slice(start, divider)),
+        replace: joinBlock(lines.slice(divider + 1, end)),
+        line: start,
+      });
+      edits.set(path, blocks);
+    }
+
+    index = end;
+  }
+
+  if (edits.size === 0 && errors.length === 0) {
+    errors.push('Patch contains no SEARCH/REPLACE blocks');
+  }
+
+  return {
+    edits: [...edits].map(([path, blocks]) => ({
+      kind: 'replace',
+      path,
+      blocks,
+    })),
+    errors,
+  };
+}
+
+function parseWholeFile(patch: string): ParsedEdits {
+  const lines = patch.split('\n');
+  const edits: FileEdit[] = [];
+  const errors: string[] = [];
+  let path: string | undefined;
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index] ?? '';
+    const fence = line.match(FENCE)?.[1];
+
+    if (!fence) {
+      if (line.trim() !== '') {
+        path = pathFromLine(line);
+      }
+      continue;
+    }
+
+    const end = lines.findIndex(
+      (each, position) => position > index && each.trim() === fence
+    );
+
+    if (end === -1) {
+      errors.push(`Code block at patch line ${index + 1} is never closed`);
+      break;
+    }
+
+    if (!path) {
+      errors.push(
+        `Code block at patch line ${index + 1} has no file path on the line before it`
+      );
+    } else {
+      edits.push({
+        kind: 'write',
+        path,
+        content: joinBlock(lines.slice(index + 1, end)),
+        operation: 'upsert',
+      });
+    }
+
+    path = undefined;
+    index = end;
+  }
+
+  if (edits.length === 0 && errors.length === 0) {
+    errors.push('Patch contains no file path followed by a code block');
+  }
+
+  return { edits, errors };
+}
+
+function parseJson(patch: string): ParsedEdits {
+  let value: unknown;
+
+  try {
+    value = JSON.parse(patch);
+  } catch (error) {
+    return {
+      edits: [],
+      errors: [
+        `Patch is not valid JSON: ${error instanceof Error ? error.message : String(error)}`,
+      ],
+    };
+  }
+
+  const list = Array.isArray(value)
+    ? value
+    : value !== null && typeof value === 'object' && 'changes' in value
+      ? value.changes
+      : [value];
+  const parsed = z.array(JsonChangeSchema).safeParse(list);
+
+  if (!parsed.success) {
+    return {
+      edits: [],
+      errors: parsed.error.issues.map(issue => {
+        const [index, ...field] = issue.path;
+        const where =
+          typeof index === 'number' ? `JSON change ${index + 1}` : 'JSON patch';
+        return `${where}${field.length > 0 ? ` ${field.join('.')}` : ''}: ${issue.message}`;
+      }),
+    };
+  }
+
+  const changes = parsed.data;
+
+  if (changes.length === 0) {
+    return { edits: [], errors: ['Patch contains no JSON changes'] };
+  }
+
+  return {
+    edits: changes.map(change =>
+      change.operation === 'delete'
+        ? { kind: 'delete', path: change.file }
+        : {
+            kind: 'write',
+            path: change.file,
+            content: change.content ?? '',
+            operation: change.operation,
+          }
+    ),
+    errors: [],
+  };
+}
+
+/**
+ * Replace the one run of lines a block's SEARCH matches
+ */
+function replaceBlock(
+  content: string,
+  block: SearchReplaceBlock
+): string | { error: string } {
+  const lines = content.split('\n');
+  const search = block.search.replace(/\n$/, '').split('\n');
+  const matches = findRuns(lines, search, line => line.trimEnd());
+
+  if (matches.length > 1) {
+    return {
+      error: `matches ${matches.length} places (lines ${matches
+        .map(match => match + 1)
+        .join(', ')}); include more surrounding lines so it matches once`,
+    };
+  }
+
+  const [match] = matches;
+
+  if (match === undefined) {
+    return { error: describeMiss(lines, search) };
+  }
+
+  const replacement =
+    block.replace === '' ? [] : block.replace.replace(/\n$/, '').split('\n');
+  lines.splice(match, search.length, ...replacement);
+  return lines.join('\n');
+}
+
+/**
+ * Explain why a SEARCH section matched nowhere, pointing at the nearest miss
+ */
+function describeMiss(lines: string[], search: string[]): string {
+  const indentation = findRuns(lines, search, line => line.trim());
+  if (indentation[0] !== undefined) {
+    return `not found; it matches line ${indentation[0] + 1} only if indentation is ignored, so copy the file's indentation exactly`;
+  }
+
+  const leading = search.findIndex(line => line.trim() !== '');
+  const first = search[leading]?.trim();
+  const candidates = lines
+    .map((line, index) => (line.trim() === first ? index - leading : -1))
+    .filter(index => index >= 0);
+
+  for (const start of candidates) {
+    const offset = search.findIndex(
+      (line, index) => lines[start + index]?.trimEnd() !== line.trimEnd()
+    );
+    if (offset > 0) {
+      return `not found; its first ${offset} line(s) match from line ${start + 1}, but line ${start + offset + 1} of the file is "${lines[start + offset]?.trim() ?? ''}" where SEARCH has "${search[offset]?.trim() ?? ''}"`;
+    }
+  }
+
+  return first === undefined || candidates.length > 0
+    ? 'not found'
+    : `not found; no line of the file is "${first}"`;
+}
+
+function findRuns(
+  lines: string[],
+  search: string[],
+  normalize: (line: string) => string
+): number[] {
+  const wanted = search.map(normalize);
+  const runs: number[] = [];
+
+  for (let start = 0; start + wanted.length <= lines.length; start++) {
+    if (
+      wanted.every(
+        (line, offset) => normalize(lines[start + offset] ?? '') === line
+      )
+    ) {
+      runs.push(start);
+    }
+  }
+  return runs;
+}
+
+/**
+ * The path on the last line before a block, skipping blank and fence lines
+ */
+function precedingPath(lines: string[], index: number): string | undefined {
+  for (let previous = index - 1; previous >= 0; previous--) {
+    const line = lines[previous] ?? '';
+    if (line.trim() !== '' && !FENCE.test(line.trim())) {
+      return pathFromLine(line);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * The file path a line names, ignoring Markdown decoration around it
+ */
+function pathFromLine(line: string): string | undefined {
+  const path = line
+    .trim()
+    .replace(/^#+\s*/, '')
+    .replace(/^(?:file|path):\s*/i, '')
+    .replace(/^[*`'"]+|[*`'":]+$/g, '')
+    .trim();
+
+  return /^[\w./@+-]+$/.test(path) && !FENCE.test(path) ? path : undefined;
+}
+
+function findLine(lines: string[], pattern: RegExp, from: number): number {
+  const index = lines.slice(from).findIndex(line => pattern.test(line));
+  return index === -1 ? -1 : from + index;
+}
+
+function joinBlock(lines: string[]): string {
+  return lines.length === 0 ? '' : `${lines.join('\n')}\n`;
+}
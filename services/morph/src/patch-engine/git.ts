@@ -0,0 +1,70 @@
+import { execa } from 'execa';
+
+// Sent as HTTP basic auth
+export interface GitCredentials {
+  username: string;
+  password: string;
+  // When a short-lived token stops working, as an ISO timestamp
+  expiresAt?: string | undefined;
+}
+
+export interface GitOptions {
+  cwd: string;
+  input?: string;
+  credentials?: GitCredentials | undefined;
+  timeoutMs?: number;
+}
+
+export interface GitOutput {
+  exitCode: number;
+  stdout: string;
+  stderr: string;
+}
+
+/**
+ * Run git, throwing with its stderr when it exits non-zero
+ */
+export async function git(
+  args: string[],
+  options: GitOptions
+): Promise<string> {
+  const output = await tryGit(args, options);
+
+  if (output.exitCode !== 0) {
+    throw new Error(
+      `git ${args[0]} failed: ${output.stderr.trim() || output.stdout.trim()}`
+    );
+  }
+  return output.stdout;
+}
+
+/**
+ * Run git and report its exit code instead of throwing
+ *
+ * Credentials go in a per-command config value so they are never written to
+ * the repository's config or its remote URL.
+ */
+export async function tryGit(
+  args: string[],
+  options: GitOptions
+): Promise<GitOutput> {
+  const { credentials } = options;
+  const auth = credentials
+    ? [
+        '-c',
+        `http.extraHeader=Authorization: Basic ${Buffer.from(
+          `${credentials.username}:${credentials.password}`
+        ).toString('base64')}`,
+      ]
+    : [];
+
+  const { exitCode, stdout, stderr } = await execa('git', [...auth, ...args], {
+    cwd: options.cwd,
+    ...(options.input !== undefined && { input: options.input }),
+    timeout: options.timeoutMs ?? 120000,
+    reject: false,
+    env: { GIT_TERMINAL_PROMPT: '0' },
+  });
+
+  return { exitCode: exitCode ?? 1, stdout, stderr };
+}
@@ -0,0 +1,177 @@
+import type { DiffLine, Hunk } from './unified-diff.js';
+
+// Context lines that may be ignored at each end of a hunk, like `patch -F2`
+export const DEFAULT_MAX_FUZZ = 2;
+
+export interface HunkPlacement {
+  // 0-based index of the hunk within its file
+  index: number;
+  applied: boolean;
+  // Lines between where the header said the hunk goes and where it went
+  offset: number;
+  // Context lines ignored at each end to make the hunk fit
+  fuzz: number;
+  reason?: string;
+}
+
+export interface ApplyHunksResult {
+  content: string;
+  placements: HunkPlacement[];
+}
+
+interface FileLines {
+  lines: string[];
+  endsWithNewline: boolean;
+}
+
+/**
+ * Apply a file's hunks to its content, tolerating offsets and fuzz
+ *
+ * Each hunk is looked for at the line its header names, shifted by what
+ * earlier hunks added or removed, then progressively further away. When the
+ * full context matches nowhere, up to `maxFuzz` context lines are dropped
+ * from each end and the search repeats. Trailing whitespace is ignored when
+ * comparing lines. Hunks that still do not fit are rejected and the rest
+ * applied; the file's own context lines are kept as they are.
+ */
+export function applyHunks(
+  content: string,
+  hunks: Hunk[],
+  maxFuzz: number = DEFAULT_MAX_FUZZ
+): ApplyHunksResult {
+  const file = splitLines(content);
+  const placements: HunkPlacement[] = [];
+  // How far earlier hunks moved the lines below them
+  let shift = 0;
+  // Hunks apply in order, so none may land before the previous one
+  let floor = 0;
+
+  hunks.forEach((hunk, index) => {
+    const expected = Math.max(hunk.oldStart - 1 + shift, 0);
+    const match = locate(file.lines, hunk.lines, expected, floor, maxFuzz);
+
+    if (!match) {
+      placements.push({
+        index,
+        applied: false,
+        offset: 0,
+        fuzz: 0,
+        reason: `context of ${hunk.header} not found`,
+      });
+      return;
+    }
+
+    const { position, start, fuzz, lines } = match;
+    const offset = position - start;
+    const removed = lines.filter(line => line.kind !== '+').length;
+    const replacement: string[] = [];
+    let cursor = position;
+
+    for (const line of lines) {
+      if (line.kind === ' ') {
+        replacement.push(file.lines[cursor] ?? line.text);
+        cursor++;
+      } else if (line.kind === '-') {
+        cursor++;
+      } else {
+        replacement.push(line.text);
+      }
+    }
+
+    // A hunk reaching the end of the file decides its final newline
+    if (position + removed === file.lines.length) {
+      const last = [...lines].reverse().find(line => line.kind !== '-');
+      file.endsWithNewline = last
+        ? !last.noNewline
+        : replacement.length > 0 || file.endsWithNewline;
+    }
+
+    file.lines.splice(position, removed, ...replacement);
+    shift += replacement.length - removed + offset;
+    floor = position + replacement.length;
+    placements.push({ index, applied: true, offset, fuzz });
+  });
+
+  return { content: joinLines(file), placements };
+}
+
+/**
+ * Find where a hunk's old lines sit in a file, with the least fuzz first and
+ * then the smallest offset
+ */
+function locate(
+  fileLines: string[],
+  hunkLines: DiffLine[],
+  expected: number,
+  floor: number,
+  maxFuzz: number
+):
+  | { position: number; start: number; fuzz: number; lines: DiffLine[] }
+  | undefined {
+  const leading = countContext(hunkLines);
+  const trailing = countContext([...hunkLines].reverse());
+
+  for (let fuzz = 0; fuzz <= maxFuzz; fuzz++) {
+    const dropStart = Math.min(fuzz, leading);
+    const dropEnd = Math.min(fuzz, trailing);
+
+    // Fuzz only ever drops context, never a change
+    if (fuzz > 0 && dropStart < fuzz && dropEnd < fuzz) {
+      break;
+    }
+
+    const lines = hunkLines.slice(dropStart, hunkLines.length - dropEnd);
+    const old = lines.filter(line => line.kind !== '+').map(line => line.text);
+    const start = expected + dropStart;
+
+    for (let distance = 0; distance <= fileLines.length; distance++) {
+      for (const position of [start - distance, start + distance]) {
+        if (
+          position >= floor &&
+          position + old.length <= fileLines.length &&
+          matchesAt(fileLines, old, position)
+        ) {
+          return { position, start, fuzz, lines };
+        }
+
+        if (distance === 0) {
+          break;
+        }
+      }
+    }
+  }
+
+  return undefined;
+}
+
+function matchesAt(
+  fileLines: string[],
+  old: string[],
+  position: number
+): boolean {
+  return old.every(
+    (text, offset) => fileLines[position + offset]?.trimEnd() === text.trimEnd()
+  );
+}
+
+function countContext(lines: DiffLine[]): number {
+  const change = lines.findIndex(line => line.kind !== ' ');
+  return change === -1 ? lines.length : change;
+}
+
+function splitLines(content: string): FileLines {
+  if (content === '') {
+    return { lines: [], endsWithNewline: true };
+  }
+
+  const endsWithNewline = content.endsWith('\n');
+  const lines = (endsWithNewline ? content.slice(0, -1) : content).split('\n');
+  return { lines, endsWithNewline };
+}
+
+function joinLines(file: FileLines): string {
+  if (file.lines.length === 0) {
+    return '';
+  }
+  return `${file.lines.join('\n')}${file.endsWithNewline ? '\n' : ''}`;
+}
@@ -0,0 +1,25 @@
+export { applyEdit, detectPatchFormat, parseEdits } from './edit-formats.js';
+export type {
+  EditResult,
+  FileEdit,
+  ParsedEdits,
+  SearchReplaceBlock,
+} from './edit-formats.js';
+export type { GitCredentials } from './git.js';
+export { applyHunks, DEFAULT_MAX_FUZZ } from './hunk-applier.js';
+export type { ApplyHunksResult, HunkPlacement } from './hunk-applier.js';
+export { PatchWorkspace } from './patch-workspace.js';
+export type {
+  CommitIdentity,
+  EditConversion,
+  PatchApplication,
+  PatchWorkspaceOptions,
+} from './patch-workspace.js';
+export { RepositoryCache } from './repository-cache.js';
+export type {
+  RemoteResolvers,
+  RepositoryCacheOptions,
+  RepositoryTarget,
+} from './repository-cache.js';
+export { filePatchPath, parseUnifiedDiff } from './unified-diff.js';
+export type { DiffLine, FilePatch, Hunk } from './unified-diff.js';
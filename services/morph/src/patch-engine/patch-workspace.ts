@@ -0,0 +1,409 @@
+import { mkdir, readFile, realpath, rm, writeFile } from 'node:fs/promises';
+import { dirname, isAbsolute, join, relative, resolve, sep } from 'node:path';
+import type { HunkStatus } from '../types/patch.js';
+import type { FileEdit } from './edit-formats.js';
+import { applyEdit } from './edit-formats.js';
+import type { GitCredentials } from './git.js';
+import { git, tryGit } from './git.js';
+import type { HunkPlacement } from './hunk-applier.js';
+import { applyHunks } from './hunk-applier.js';
+import type { FilePatch } from './unified-diff.js';
+import { filePatchPath, parseUnifiedDiff } from './unified-diff.js';
+
+export interface CommitIdentity {
+  name: string;
+  email: string;
+  // Key commits are signed with: a key ID, or a key file for SSH signing
+  signingKey?: string | undefined;
+  signingFormat: 'openpgp' | 'ssh' | 'x509';
+}
+
+export interface PatchWorkspaceOptions {
+  path: string;
+  baseSha: string;
+  identity: CommitIdentity;
+  maxFuzz: number;
+  // Used to push to the repository's remote
+  credentials?: GitCredentials | undefined;
+  timeoutMs: number;
+  // Removes the worktree from the cached repository
+  remove: () => Promise<void>;
+}
+
+export interface PatchApplication {
+  filesChanged: string[];
+  hunks: HunkStatus[];
+  // Rejected hunks, as messages for the model
+  errors: string[];
+}
+
+export interface EditConversion {
+  // Empty when any edit was rejected
+  diff: string;
+  errors: string[];
+}
+
+/**
+ * A git worktree checked out at a commit, for applying one patch
+ */
+export class PatchWorkspace {
+  readonly path: string;
+  readonly baseSha: string;
+  private readonly options: PatchWorkspaceOptions;
+  // Paths patches wrote or removed since checkout, for staging
+  private readonly touched = new Set<string>();
+
+  constructor(options: PatchWorkspaceOptions) {
+    this.path = options.path;
+    this.baseSha = options.baseSha;
+    this.options = options;
+  }
+
+  /**
+   * Apply a unified diff, hunk by hunk
+   *
+   * Hunks are placed with offset and fuzz tolerance. When any hunk of a file
+   * does not fit, the whole file is retried as a 3-way merge against the
+   * blob the patch's `index` line names. Hunks that fit are written even if
+   * others in the file are rejected.
+   */
+  async apply(patch: string): Promise<PatchApplication> {
+    const filesChanged: string[] = [];
+    const hunks: HunkStatus[] = [];
+
+    for (const file of parseUnifiedDiff(patch)) {
+      const path = filePatchPath(file);
+      const statuses = await this.applyFile(file);
+
+      for (const each of [file.oldPath, file.newPath]) {
+        if (each !== null && (await this.isInside(each))) {
+          this.touched.add(each);
+        }
+      }
+
+      hunks.push(...statuses);
+      if (statuses.some(status => status.status === 'accepted')) {
+        filesChanged.push(path);
+      }
+    }
+
+    if (hunks.length === 0) {
+      throw new Error('Patch contains no hunks');
+    }
+
+    return {
+      filesChanged,
+      hunks,
+      errors: hunks
+        .filter(hunk => hunk.status === 'rejected')
+        .map(
+          hunk =>
+            `${hunk.file} hunk ${hunk.hunk} (${hunk.header}) rejected: ${hunk.reason}`
+        ),
+    };
+  }
+
+  /**
+   * Turn edits into a unified diff against the checked out commit
+   *
+   * Every edit is checked against the files before any is written; the
+   * diff is then read back from git, with full `index` lines, and the
+   * workspace reset. Nothing is written when an edit is rejected.
+   */
+  async toUnifiedDiff(edits: FileEdit[]): Promise<EditConversion> {
+    const results: { path: string; content: string | null }[] = [];
+    const errors: string[] = [];
+
+    for (const edit of edits) {
+      if (!(await this.isInside(edit.path))) {
+        errors.push(`${edit.path}: path is outside the working tree`);
+        continue;
+      }
+
+      const { content, errors: editErrors } = applyEdit(
+        await this.read(edit.path),
+        edit
+      );
+      errors.push(...editErrors);
+      results.push({ path: edit.path, content });
+    }
+
+    if (errors.length > 0) {
+      return { diff: '', errors };
+    }
+
+    try {
+      for (const { path, content } of results) {
+        const target = join(this.path, path);
+        if (content === null) {
+          await rm(target, { force: true });
+        } else {
+          await mkdir(dirname(target), { recursive: true });
+          await writeFile(target, content);
+        }
+      }
+
+      await this.git(['add', '--all']);
+      const diff = await this.git([
+        'diff',
+        '--cached',
+        '--no-color',
+        '--no-ext-diff',
+        '--no-renames',
+        this.baseSha,
+      ]);
+
+      return diff.trim() === ''
+        ? { diff: '', errors: ['The edits do not change any file'] }
+        : { diff: `${diff.trimEnd()}\n`, errors: [] };
+    } finally {
+      await this.reset();
+    }
+  }
+
+  /**
+   * Discard everything applied since checkout
+   */
+  async reset(): Promise<void> {
+    await this.git(['reset', '--hard', this.baseSha]);
+    await this.git(['clean', '-fdx']);
+    this.touched.clear();
+  }
+
+  /**
+   * Commit the patched files as the app identity, signed, returning its SHA
+   *
+   * Only paths a patch touched are staged, so build output left behind by
+   * validators is never committed.
+   */
+  async commit(message: string): Promise<string> {
+    const { name, email, signingKey, signingFormat } = this.options.identity;
+
+    if (!signingKey) {
+      throw new Error('No commit signing key configured (MORPH_SIGNING_KEY)');
+    }
+
+    await this.git(['add', '--all', '--', ...this.touched]);
+    await this.git([
+      '-c',
+      `user.name=${name}`,
+      '-c',
+      `user.email=${email}`,
+      '-c',
+      `gpg.format=${signingFormat}`,
+      '-c',
+      `user.signingkey=${signingKey}`,
+      'commit',
+      '--gpg-sign',
+      '--no-verify',
+      '--message',
+      message,
+    ]);
+
+    return (await this.git(['rev-parse', 'HEAD'])).trim();
+  }
+
+  /**
+   * Push the checked out commit to a branch, replacing what it held
+   */
+  async push(branch: string): Promise<void> {
+    await this.git(['push', '--force', 'origin', `HEAD:refs/heads/${branch}`]);
+  }
+
+  async dispose(): Promise<void> {
+    await this.options.remove();
+  }
+
+  private async applyFile(file: FilePatch): Promise<HunkStatus[]> {
+    const path = filePatchPath(file);
+    const reject = (reason: string): HunkStatus[] =>
+      this.statuses(file, [], reason);
+
+    for (const each of [file.oldPath, file.newPath]) {
+      if (!(await this.isInside(each))) {
+        return reject('path is outside the working tree');
+      }
+    }
+
+    const original = file.oldPath === null ? '' : await this.read(file.oldPath);
+
+    if (original === undefined) {
+      return reject(`${file.oldPath} does not exist`);
+    }
+
+    if (
+      file.oldPath === null &&
+      file.newPath !== null &&
+      (await this.read(file.newPath)) !== undefined
+    ) {
+      return reject(`${file.newPath} already exists`);
+    }
+
+    const { content, placements } = applyHunks(
+      original,
+      file.hunks,
+      this.options.maxFuzz
+    );
+
+    if (placements.some(placement => !placement.applied)) {
+      if (await this.mergeThreeWay(file)) {
+        return file.hunks.map((hunk, index) => ({
+          file: path,
+          hunk: index + 1,
+          header: hunk.header,
+          status: 'accepted',
+          method: 'three-way',
+          offset: 0,
+          fuzz: 0,
+        }));
+      }
+
+      // A deletion or rename only happens when every hunk fits
+      if (file.oldPath !== file.newPath) {
+        return this.statuses(
+          file,
+          placements.filter(placement => !placement.applied),
+          'another hunk of the renamed or deleted file was rejected'
+        );
+      }
+    }
+
+    if (file.newPath !== null) {
+      const target = join(this.path, file.newPath);
+      await mkdir(dirname(target), { recursive: true });
+      await writeFile(target, content);
+    }
+
+    if (file.oldPath !== null && file.oldPath !== file.newPath) {
+      await rm(join(this.path, file.oldPath), { force: true });
+    }
+
+    return this.statuses(file, placements);
+  }
+
+  /**
+   * Let `git apply --3way` merge a file's patch; false when it cannot
+   */
+  private async mergeThreeWay(file: FilePatch): Promise<boolean> {
+    const result = await tryGit(
+      ['apply', '--3way', '--whitespace=nowarn', '-'],
+      {
+        cwd: this.path,
+        input: file.raw,
+        timeoutMs: this.options.timeoutMs,
+      }
+    );
+
+    if (result.exitCode === 0) {
+      return true;
+    }
+
+    // Undo a merge that left conflict markers behind
+    for (const path of [file.oldPath, file.newPath]) {
+      if (path !== null) {
+        await tryGit(['checkout', this.baseSha, '--', path], {
+          cwd: this.path,
+        });
+      }
+    }
+    return false;
+  }
+
+  private statuses(
+    file: FilePatch,
+    placements: HunkPlacement[],
+    reason?: string
+  ): HunkStatus[] {
+    return file.hunks.map((hunk, index) => {
+      const placement = placements.find(each => each.index === index);
+      const base = {
+        file: filePatchPath(file),
+        hunk: index + 1,
+        header: hunk.header,
+        offset: placement?.offset ?? 0,
+        fuzz: placement?.fuzz ?? 0,
+      };
+
+      if (!placement?.applied) {
+        return {
+          ...base,
+          status: 'rejected',
+          reason: placement?.reason ?? reason ?? 'not applied',
+        };
+      }
+
+      return {
+        ...base,
+        status: 'accepted',
+        method:
+          placement.fuzz > 0
+            ? 'fuzz'
+            : placement.offset !== 0
+              ? 'offset'
+              : 'exact',
+      };
+    });
+  }
+
+  private async read(path: string): Promise<string | undefined> {
+    try {
+      return await readFile(join(this.path, path), 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Whether a path stays inside the worktree and out of `.git`
+   *
+   * Symlinks are resolved, as in the worker's repository tools, so a link
+   * committed to the repository cannot send a write elsewhere. A path that
+   * does not exist yet is checked through its nearest existing parent.
+   */
+  private async isInside(path: string | null): Promise<boolean> {
+    if (path === null) {
+      return true;
+    }
+
+    const target = relative(this.path, resolve(this.path, path));
+    if (!isWorktreePath(target)) {
+      return false;
+    }
+
+    const root = await realpath(this.path);
+
+    for (let each = join(this.path, target); ; each = dirname(each)) {
+      const resolved = await realpath(each).catch(() => undefined);
+
+      if (resolved !== undefined) {
+        const inside = relative(root, resolved);
+        return inside === ''
+          ? each !== join(this.path, target)
+          : isWorktreePath(inside);
+      }
+    }
+  }
+
+  private git(args: string[]): Promise<string> {
+    return git(args, {
+      cwd: this.path,
+      credentials: this.options.credentials,
+      timeoutMs: this.options.timeoutMs,
+    });
+  }
+}
+
+/**
+ * Whether a path relative to the worktree names a file in it, outside `.git`
+ */
+function isWorktreePath(path: string): boolean {
+  return (
+    path !== '' &&
+    !path.startsWith('..') &&
+    !isAbsolute(path) &&
+    path.split(sep)[0] !== '.git'
+  );
+}
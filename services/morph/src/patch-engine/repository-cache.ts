@@ -0,0 +1,299 @@
+import { randomUUID } from 'node:crypto';
+import { access, mkdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { ForgeProvider, PatchRequest } from '../types/patch.js';
+import { logger } from '../utils/logger.js';
+import type { GitCredentials } from './git.js';
+import { git, tryGit } from './git.js';
+import { DEFAULT_MAX_FUZZ } from './hunk-applier.js';
+import type { CommitIdentity } from './patch-workspace.js';
+import { PatchWorkspace } from './patch-workspace.js';
+
+// A repository as a patch request names it
+export type RepositoryTarget = Pick<
+  PatchRequest,
+  'repository' | 'installationId' | 'forge'
+>;
+
+/**
+ * How repository names are cloned and authenticated, usually by the forge
+ */
+export interface RemoteResolvers {
+  // Clone URL of a repository; GitHub's for `owner/repo` by default
+  remoteUrl?: (target: RepositoryTarget) => Promise<string>;
+  // Credentials for an installation's repositories on a forge, reused for
+  // every checkout of the installation until they are about to expire
+  credentials?: (
+    installationId: number,
+    forge: ForgeProvider
+  ) => Promise<GitCredentials | undefined>;
+}
+
+export interface RepositoryCacheOptions extends RemoteResolvers {
+  // Holds one bare repository per repository, plus their worktrees
+  cacheDir: string;
+  identity: CommitIdentity;
+  maxFuzz?: number;
+  timeoutMs?: number;
+}
+
+interface Remote {
+  url: string;
+  credentials?: GitCredentials | undefined;
+}
+
+type Environment = Record<string, string | undefined>;
+
+// Credentials are fetched again when they expire sooner than this
+const CREDENTIALS_REFRESH_MS = 5 * 60 * 1000;
+
+/**
+ * Local replacement for a remote patching service
+ *
+ * Each repository is cloned once as a bare repository and kept up to date
+ * with fetches; every patch gets its own `git worktree` of it, so patches
+ * for one repository can be checked side by side without a fresh clone
+ * each. Git commands on one bare repository are serialised.
+ */
+export class RepositoryCache {
+  private readonly options: RepositoryCacheOptions;
+  private readonly locks = new Map<string, Promise<unknown>>();
+  // Keyed by forge and installation
+  private readonly installationCredentials = new Map<
+    string,
+    Promise<GitCredentials | undefined>
+  >();
+
+  constructor(options: RepositoryCacheOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Configure the cache from `MORPH_CACHE_DIR` and the `MORPH_COMMIT_NAME`,
+   * `MORPH_COMMIT_EMAIL`, `MORPH_SIGNING_KEY` and `MORPH_SIGNING_FORMAT`
+   * commit identity
+   *
+   * Repositories are cloned without credentials unless the resolvers
+   * provide them.
+   */
+  static fromEnvironment(
+    resolvers: RemoteResolvers = {},
+    env: Environment = process.env
+  ): RepositoryCache {
+    const signingFormat = env['MORPH_SIGNING_FORMAT'] || 'ssh';
+
+    if (
+      signingFormat !== 'ssh' &&
+      signingFormat !== 'openpgp' &&
+      signingFormat !== 'x509'
+    ) {
+      throw new Error(`Unknown MORPH_SIGNING_FORMAT: ${signingFormat}`);
+    }
+
+    return new RepositoryCache({
+      ...resolvers,
+      cacheDir: env['MORPH_CACHE_DIR'] || join(tmpdir(), 'morph-repositories'),
+      identity: {
+        name: env['MORPH_COMMIT_NAME'] || 'self-healing-ci[bot]',
+        email:
+          env['MORPH_COMMIT_EMAIL'] ||
+          'self-healing-ci[bot]@users.noreply.github.com',
+        signingKey: env['MORPH_SIGNING_KEY'],
+        signingFormat,
+      },
+    });
+  }
+
+  /**
+   * Check out a commit of a repository in a new worktree
+   *
+   * The caller owns the workspace and must dispose of it.
+   */
+  async checkout(
+    target: RepositoryTarget,
+    sha: string
+  ): Promise<PatchWorkspace> {
+    const { repository } = target;
+    const remote = await this.resolveRemote(target);
+    // The same name on two forges is two repositories
+    const name = slug(
+      isRepositoryName(repository)
+        ? `${target.forge}/${repository}`
+        : repository
+    );
+    const bare = join(this.options.cacheDir, `${name}.git`);
+    const path = join(
+      this.options.cacheDir,
+      'worktrees',
+      `${name}-${randomUUID()}`
+    );
+
+    await this.withLock(bare, async () => {
+      await this.ensureCommit(remote, bare, sha);
+      await this.git(['worktree', 'add', '--detach', path, sha], bare);
+    });
+
+    logger.info('Checked out patch workspace', { repository, sha, path });
+
+    return new PatchWorkspace({
+      path,
+      baseSha: sha,
+      identity: this.options.identity,
+      maxFuzz: this.options.maxFuzz ?? DEFAULT_MAX_FUZZ,
+      credentials: remote.credentials,
+      timeoutMs: this.options.timeoutMs ?? 120000,
+      remove: () => this.remove(bare, path),
+    });
+  }
+
+  /**
+   * Clone the bare repository if needed and fetch the commit if missing
+   */
+  private async ensureCommit(
+    remote: Remote,
+    bare: string,
+    sha: string
+  ): Promise<void> {
+    if (!(await exists(bare))) {
+      await mkdir(this.options.cacheDir, { recursive: true });
+      await this.git(
+        ['clone', '--bare', remote.url, bare],
+        this.options.cacheDir,
+        remote.credentials
+      );
+    }
+
+    const known = await tryGit(['cat-file', '-e', `${sha}^{commit}`], {
+      cwd: bare,
+    });
+
+    if (known.exitCode !== 0) {
+      await this.git(['fetch', 'origin', sha], bare, remote.credentials);
+    }
+  }
+
+  private async remove(bare: string, path: string): Promise<void> {
+    await this.withLock(bare, async () => {
+      const removed = await tryGit(['worktree', 'remove', '--force', path], {
+        cwd: bare,
+      });
+
+      if (removed.exitCode !== 0) {
+        logger.warn('Failed to remove worktree', {
+          path,
+          error: removed.stderr.trim(),
+        });
+        await rm(path, { recursive: true, force: true });
+        await tryGit(['worktree', 'prune'], { cwd: bare });
+      }
+    });
+  }
+
+  private async resolveRemote(target: RepositoryTarget): Promise<Remote> {
+    // URLs and local paths are used as they are
+    if (!isRepositoryName(target.repository)) {
+      return { url: target.repository };
+    }
+
+    const { remoteUrl } = this.options;
+
+    if (!remoteUrl && target.forge !== 'github') {
+      throw new Error(
+        `No clone URL for ${target.forge} repository ${target.repository}`
+      );
+    }
+
+    return {
+      url: remoteUrl
+        ? await remoteUrl(target)
+        : `https://github.com/${target.repository}.git`,
+      credentials: await this.credentialsFor(target),
+    };
+  }
+
+  /**
+   * An installation's credentials, fetched once and shared by its checkouts
+   */
+  private async credentialsFor(
+    target: RepositoryTarget
+  ): Promise<GitCredentials | undefined> {
+    const { credentials } = this.options;
+
+    if (!credentials) {
+      return undefined;
+    }
+
+    const key = `${target.forge}:${target.installationId}`;
+    const cached = await this.installationCredentials
+      .get(key)
+      ?.catch(() => undefined);
+
+    if (cached && !expiresSoon(cached)) {
+      return cached;
+    }
+
+    const fetched = credentials(target.installationId, target.forge);
+    this.installationCredentials.set(key, fetched);
+
+    // A failed fetch is retried by the next checkout
+    fetched.catch(() => {
+      if (this.installationCredentials.get(key) === fetched) {
+        this.installationCredentials.delete(key);
+      }
+    });
+
+    return fetched;
+  }
+
+  private async withLock<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.locks.get(key) ?? Promise.resolve();
+    const current = previous.catch(() => undefined).then(task);
+    this.locks.set(key, current);
+
+    try {
+      return await current;
+    } finally {
+      if (this.locks.get(key) === current) {
+        this.locks.delete(key);
+      }
+    }
+  }
+
+  private git(
+    args: string[],
+    cwd: string,
+    credentials?: GitCredentials
+  ): Promise<string> {
+    return git(args, {
+      cwd,
+      credentials,
+      timeoutMs: this.options.timeoutMs ?? 120000,
+    });
+  }
+}
+
+function expiresSoon(credentials: GitCredentials): boolean {
+  return (
+    credentials.expiresAt !== undefined &&
+    Date.parse(credentials.expiresAt) - Date.now() < CREDENTIALS_REFRESH_MS
+  );
+}
+
+// `owner/repo`, or a GitLab `group/subgroup/project`
+function isRepositoryName(repository: string): boolean {
+  return /^[\w.-]+(\/[\w.-]+)+$/.test(repository);
+}
+
+function slug(repository: string): string {
+  return repository.replace(/[^\w.-]+/g, '__');
+}
+
+async function exists(path: string): Promise<boolean> {
+  try {
+    await access(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
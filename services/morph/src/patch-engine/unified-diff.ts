@@ -0,0 +1,192 @@
+/**
+ * One line of a hunk: context (` `), removed (`-`) or added (`+`)
+ */
+export interface DiffLine {
+  kind: ' ' | '-' | '+';
+  text: string;
+  // Followed by `\ No newline at end of file`
+  noNewline?: boolean;
+}
+
+export interface Hunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  header: string;
+  lines: DiffLine[];
+}
+
+export interface FilePatch {
+  // Null for a file the patch creates (`--- /dev/null`)
+  oldPath: string | null;
+  // Null for a file the patch deletes (`+++ /dev/null`)
+  newPath: string | null;
+  hunks: Hunk[];
+  // The file's section of the patch, for handing to `git apply`
+  raw: string;
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+/**
+ * Parse a unified diff, with or without `diff --git` headers
+ *
+ * Hunk line counts in the `@@` header are trusted only as far as the body
+ * agrees with them: model-written patches often miscount, so a hunk ends at
+ * the next header or at the first line that cannot belong to it, and its
+ * counts are recomputed from its lines.
+ */
+export function parseUnifiedDiff(patch: string): FilePatch[] {
+  const lines = patch.replace(/\r\n/g, '\n').split('\n');
+  const files: FilePatch[] = [];
+  let file: FilePatch | undefined;
+  let fileStart = 0;
+  let hunk: Hunk | undefined;
+
+  const closeFile = (end: number): void => {
+    if (file) {
+      file.raw = `${lines.slice(fileStart, end).join('\n').trimEnd()}\n`;
+      files.push(file);
+    }
+    file = undefined;
+    hunk = undefined;
+  };
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index] ?? '';
+
+    if (line.startsWith('diff --git ')) {
+      closeFile(index);
+      fileStart = index;
+      const match = line.match(/^diff --git a\/(.+) b\/(.+)$/);
+      file = {
+        oldPath: match?.[1] ?? null,
+        newPath: match?.[2] ?? null,
+        hunks: [],
+        raw: '',
+      };
+      continue;
+    }
+
+    // An overcounted hunk must not swallow the next file's headers
+    const fileHeader =
+      line.startsWith('--- ') &&
+      (!isInsideHunk(hunk) || lines[index + 1]?.startsWith('+++ '));
+
+    if (fileHeader) {
+      // A `---` header without `diff --git` starts a new file
+      if (!file || file.hunks.length > 0) {
+        closeFile(index);
+        fileStart = index;
+        file = { oldPath: null, newPath: null, hunks: [], raw: '' };
+      }
+      file.oldPath = headerPath(line);
+      continue;
+    }
+
+    if (line.startsWith('+++ ') && file && !isInsideHunk(hunk)) {
+      file.newPath = headerPath(line);
+      continue;
+    }
+
+    if (line.startsWith('rename from ') && file) {
+      file.oldPath = line.slice('rename from '.length);
+      continue;
+    }
+
+    if (line.startsWith('rename to ') && file) {
+      file.newPath = line.slice('rename to '.length);
+      continue;
+    }
+
+    if (line.startsWith('new file mode') && file) {
+      file.oldPath = null;
+      continue;
+    }
+
+    if (line.startsWith('deleted file mode') && file) {
+      file.newPath = null;
+      continue;
+    }
+
+    const header = line.match(HUNK_HEADER);
+    if (header && file) {
+      hunk = {
+        oldStart: Number(header[1]),
+        oldLines: header[2] === undefined ? 1 : Number(header[2]),
+        newStart: Number(header[3]),
+        newLines: header[4] === undefined ? 1 : Number(header[4]),
+        header: line,
+        lines: [],
+      };
+      file.hunks.push(hunk);
+      continue;
+    }
+
+    if (!hunk) {
+      continue;
+    }
+
+    if (line.startsWith('\\')) {
+      const last = hunk.lines[hunk.lines.length - 1];
+      if (last) {
+        last.noNewline = true;
+      }
+      continue;
+    }
+
+    const kind = line[0];
+    if (kind === ' ' || kind === '-' || kind === '+') {
+      hunk.lines.push({ kind, text: line.slice(1) });
+    } else if (line === '' && isInsideHunk(hunk)) {
+      // Editors strip the space from blank context lines
+      hunk.lines.push({ kind: ' ', text: '' });
+    } else {
+      hunk = undefined;
+    }
+  }
+
+  closeFile(lines.length);
+
+  for (const { hunks } of files) {
+    for (const each of hunks) {
+      each.oldLines = each.lines.filter(line => line.kind !== '+').length;
+      each.newLines = each.lines.filter(line => line.kind !== '-').length;
+    }
+  }
+
+  return files.filter(
+    each => each.hunks.length > 0 || each.oldPath !== each.newPath
+  );
+}
+
+/**
+ * The path a file patch changes, preferring the new path
+ */
+export function filePatchPath(file: FilePatch): string {
+  return file.newPath ?? file.oldPath ?? '';
+}
+
+/**
+ * Whether a hunk still expects lines according to its header
+ */
+function isInsideHunk(hunk: Hunk | undefined): boolean {
+  if (!hunk) {
+    return false;
+  }
+
+  const oldSeen = hunk.lines.filter(line => line.kind !== '+').length;
+  const newSeen = hunk.lines.filter(line => line.kind !== '-').length;
+  return oldSeen < hunk.oldLines || newSeen < hunk.newLines;
+}
+
+function headerPath(line: string): string | null {
+  // Drop the timestamp some diff tools append after a tab
+  const path = line.slice(4).split('\t')[0]?.trim() ?? '';
+
+  if (path === '/dev/null') {
+    return null;
+  }
+  return path.replace(/^[ab]\//, '');
+}
@@ -0,0 +1,110 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  applyEdit,
+  detectPatchFormat,
+  parseEdits,
+} from '../patch-engine/index.js';
+
+const server = `import express from 'express';
+
+const app = express();
+
+function start() {
+  app.listen(3000, '0.0.0.0');
+}
+
+function stop() {
+  app.close();
+}
+`;
+
+const searchReplace = (search: string, replace: string) => `src/server.ts
+<<<<<<< SEARCH
+${search}
+=======
+${replace}
+>>>>>>> REPLACE
+`;
+
+const apply = (patch: string, original: string | undefined) => {
+  const { edits, errors } = parseEdits(patch, 'search-replace');
+  expect(errors).toEqual([]);
+  return applyEdit(original, edits[0]!);
+};
+
+describe('search/replace edits', () => {
+  it('replaces the one run of lines SEARCH matches', () => {
+    const { content, errors } = apply(
+      searchReplace(
+        "  app.listen(3000, '0.0.0.0');",
+        "  app.listen(3000, 'localhost');"
+      ),
+      server
+    );
+
+    expect(errors).toEqual([]);
+    expect(content).toContain("app.listen(3000, 'localhost');");
+  });
+
+  it('asks for more lines when SEARCH matches several places', () => {
+    const { errors } = apply(searchReplace('}', '};'), server);
+
+    expect(errors).toEqual([
+      'src/server.ts: SEARCH block 1 (patch line 2): matches 2 places (lines 7, 11); include more surrounding lines so it matches once',
+    ]);
+  });
+
+  it('points at indentation that differs from the file', () => {
+    const { errors } = apply(
+      searchReplace("app.listen(3000, '0.0.0.0');", 'app.listen(3000);'),
+      server
+    );
+
+    expect(errors).toEqual([
+      "src/server.ts: SEARCH block 1 (patch line 2): not found; it matches line 6 only if indentation is ignored, so copy the file's indentation exactly",
+    ]);
+  });
+
+  it('points at the first line that differs from the nearest match', () => {
+    const { errors } = apply(
+      searchReplace(
+        "function start() {\n  app.listen(8080, '0.0.0.0');",
+        'function start() {\n  app.listen(8080);'
+      ),
+      server
+    );
+
+    expect(errors).toEqual([
+      `src/server.ts: SEARCH block 1 (patch line 2): not found; its first 1 line(s) match from line 5, but line 6 of the file is "app.listen(3000, '0.0.0.0');" where SEARCH has "app.listen(8080, '0.0.0.0');"`,
+    ]);
+  });
+
+  it('creates a file only from an empty SEARCH', () => {
+    expect(apply(searchReplace('', 'export {};'), undefined)).toEqual({
+      content: 'export {};\n',
+      errors: [],
+    });
+    expect(apply(searchReplace('', 'export {};'), server).errors).toEqual([
+      'src/server.ts: SEARCH block 1 (patch line 2): SEARCH is empty but the file already exists',
+    ]);
+  });
+});
+
+describe('patch format detection', () => {
+  it('tells the formats apart', () => {
+    expect(detectPatchFormat('--- a/x\n+++ b/x\n@@ -1 +1 @@\n-a\n+b\n')).toBe(
+      'unified-diff'
+    );
+    expect(detectPatchFormat(searchReplace('a', 'b'))).toBe('search-replace');
+    expect(detectPatchFormat('src/x.ts\n```ts\nexport {};\n```\n')).toBe(
+      'whole-file'
+    );
+    expect(detectPatchFormat('{"file":"x","operation":"delete"}')).toBe('json');
+  });
+
+  it('explains a JSON change that cannot be read', () => {
+    expect(
+      parseEdits('[{"file":"src/x.ts","operation":"update"}]', 'json').errors
+    ).toHaveLength(1);
+  });
+});
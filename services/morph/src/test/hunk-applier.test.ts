@@ -0,0 +1,81 @@
+import { describe, expect, it } from '@jest/globals';
+import { applyHunks, parseUnifiedDiff } from '../patch-engine/index.js';
+
+const lines = (count: number, from = 1) =>
+  Array.from({ length: count }, (_, index) => `line ${from + index}`);
+
+const hunksOf = (diff: string) => parseUnifiedDiff(diff)[0]?.hunks ?? [];
+
+// Replaces line 5 of a file holding `line 1` to `line 10`
+const patch = `--- a/src/app.ts
++++ b/src/app.ts
+@@ -2,7 +2,7 @@
+ line 2
+ line 3
+ line 4
+-line 5
++line five
+ line 6
+ line 7
+ line 8
+`;
+
+describe('hunk applier', () => {
+  it('applies a hunk exactly where its header says', () => {
+    const { content, placements } = applyHunks(
+      `${lines(10).join('\n')}\n`,
+      hunksOf(patch)
+    );
+
+    expect(content).toContain('line 4\nline five\nline 6');
+    expect(placements).toEqual([
+      { index: 0, applied: true, offset: 0, fuzz: 0 },
+    ]);
+  });
+
+  it('finds a hunk whose lines moved since the patch was written', () => {
+    const { content, placements } = applyHunks(
+      `${['// header', '// license', ...lines(10)].join('\n')}\n`,
+      hunksOf(patch)
+    );
+
+    expect(content.split('\n')[6]).toBe('line five');
+    expect(placements[0]).toMatchObject({ applied: true, offset: 2, fuzz: 0 });
+  });
+
+  it('ignores outer context lines that no longer match, up to the fuzz', () => {
+    const changed = lines(10);
+    changed[1] = 'line 2 (edited)';
+    changed[7] = 'line 8 (edited)';
+
+    const { content, placements } = applyHunks(
+      `${changed.join('\n')}\n`,
+      hunksOf(patch)
+    );
+
+    expect(placements[0]).toMatchObject({ applied: true, offset: 0, fuzz: 1 });
+    // The file's own context lines are kept
+    expect(content).toContain('line 2 (edited)\nline 3\nline 4\nline five');
+    expect(content).toContain('line 8 (edited)');
+  });
+
+  it('rejects a hunk whose context does not fit within the fuzz', () => {
+    const changed = lines(10);
+    changed[3] = 'line 4 (edited)';
+    changed[5] = 'line 6 (edited)';
+    const original = `${changed.join('\n')}\n`;
+
+    const { content, placements } = applyHunks(original, hunksOf(patch), 2);
+
+    expect(content).toBe(original);
+    expect(placements).toEqual([
+      {
+        index: 0,
+        applied: false,
+        offset: 0,
+        fuzz: 0,
+        reason: 'context of @@ -2,7 +2,7 @@ not found',
+      },
+    ]);
+  });
+});
@@ -0,0 +1,163 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { mkdtemp, readFile, rm, symlink, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { git } from '../patch-engine/git.js';
+import { PatchWorkspace, parseEdits } from '../patch-engine/index.js';
+
+const lines = (count: number) =>
+  Array.from({ length: count }, (_, index) => `line ${index + 1}`);
+
+const commitAll = async (cwd: string, message: string): Promise<string> => {
+  await git(['add', '--all'], { cwd });
+  await git(
+    [
+      '-c',
+      'user.name=Morph',
+      '-c',
+      'user.email=morph@example.com',
+      'commit',
+      '--quiet',
+      '--message',
+      message,
+    ],
+    { cwd }
+  );
+  return (await git(['rev-parse', 'HEAD'], { cwd })).trim();
+};
+
+describe('patch workspace', () => {
+  let root: string;
+  let outside: string;
+
+  const workspace = (baseSha: string, maxFuzz = 2) =>
+    new PatchWorkspace({
+      path: root,
+      baseSha,
+      identity: {
+        name: 'Morph',
+        email: 'morph@example.com',
+        signingFormat: 'ssh',
+      },
+      maxFuzz,
+      timeoutMs: 10000,
+      remove: async () => undefined,
+    });
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'morph-workspace-'));
+    outside = await mkdtemp(join(tmpdir(), 'morph-outside-'));
+    await git(['init', '--quiet'], { cwd: root });
+    await writeFile(join(root, 'app.txt'), `${lines(20).join('\n')}\n`);
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+    await rm(outside, { recursive: true, force: true });
+  });
+
+  it('falls back to a 3-way merge when a hunk no longer fits', async () => {
+    await commitAll(root, 'base');
+
+    // The model patched the file as it was at the first commit
+    const edited = lines(20);
+    edited[9] = 'line ten';
+    await writeFile(join(root, 'app.txt'), `${edited.join('\n')}\n`);
+    const patch = await git(['diff', '--full-index'], { cwd: root });
+    await git(['checkout', '--', 'app.txt'], { cwd: root });
+
+    // Since then, a context line of its hunk changed
+    const moved = lines(20);
+    moved[6] = 'line seven';
+    await writeFile(join(root, 'app.txt'), `${moved.join('\n')}\n`);
+    const head = await commitAll(root, 'edit context');
+
+    const application = await workspace(head, 0).apply(patch);
+
+    expect(application.errors).toEqual([]);
+    expect(application.hunks).toEqual([
+      expect.objectContaining({ status: 'accepted', method: 'three-way' }),
+    ]);
+    const merged = await readFile(join(root, 'app.txt'), 'utf8');
+    expect(merged).toContain('line seven\nline 8\nline 9\nline ten\n');
+  });
+
+  it('rejects a hunk that neither fits nor merges', async () => {
+    const head = await commitAll(root, 'base');
+
+    const application = await workspace(head, 0).apply(`--- a/app.txt
++++ b/app.txt
+@@ -4,3 +4,3 @@
+ line three
+-line four
++line 4
+ line five
+`);
+
+    expect(application.hunks).toEqual([
+      expect.objectContaining({
+        status: 'rejected',
+        reason: 'context of @@ -4,3 +4,3 @@ not found',
+      }),
+    ]);
+    expect(await readFile(join(root, 'app.txt'), 'utf8')).toBe(
+      `${lines(20).join('\n')}\n`
+    );
+  });
+
+  it('turns whole-file and JSON edits into a unified diff', async () => {
+    await writeFile(join(root, 'old.txt'), 'obsolete\n');
+    const head = await commitAll(root, 'base');
+    const patchWorkspace = workspace(head);
+
+    const rewritten = lines(20);
+    rewritten[1] = 'line two';
+    const wholeFile = parseEdits(
+      `app.txt\n\`\`\`\n${rewritten.join('\n')}\n\`\`\`\n`,
+      'whole-file'
+    );
+    const json = parseEdits(
+      JSON.stringify({
+        changes: [
+          { file: 'src/new.ts', operation: 'create', content: 'export {};\n' },
+          { file: 'old.txt', operation: 'delete' },
+        ],
+      }),
+      'json'
+    );
+
+    const { diff, errors } = await patchWorkspace.toUnifiedDiff([
+      ...wholeFile.edits,
+      ...json.edits,
+    ]);
+
+    expect(errors).toEqual([]);
+    expect(diff).toContain('+++ b/app.txt\n');
+    expect(diff).toContain('@@ -1,5 +1,5 @@\n line 1\n-line 2\n+line two\n');
+    expect(diff).toContain('new file mode 100644');
+    expect(diff).toContain('+++ b/src/new.ts\n@@ -0,0 +1 @@\n+export {};\n');
+    expect(diff).toContain('deleted file mode 100644');
+    // The workspace is left as it was checked out
+    expect(await git(['status', '--porcelain'], { cwd: root })).toBe('');
+  });
+
+  it('rejects edits that would write through a symlink out of the tree', async () => {
+    await symlink(outside, join(root, 'linked'));
+    const head = await commitAll(root, 'base');
+
+    const { errors } = await workspace(head).toUnifiedDiff(
+      parseEdits(
+        JSON.stringify({
+          file: 'linked/escape.txt',
+          operation: 'create',
+          content: 'escaped\n',
+        }),
+        'json'
+      ).edits
+    );
+
+    expect(errors).toEqual([
+      'linked/escape.txt: path is outside the working tree',
+    ]);
+  });
+});
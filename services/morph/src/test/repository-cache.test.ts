@@ -0,0 +1,100 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { git } from '../patch-engine/git.js';
+import type {
+  GitCredentials,
+  RepositoryTarget,
+} from '../patch-engine/index.js';
+import { RepositoryCache } from '../patch-engine/index.js';
+
+describe('repository cache', () => {
+  let origin: string;
+  let cacheDir: string;
+  let headSha: string;
+  let fetched: number[];
+
+  // Every repository name clones the local origin
+  const cache = (expiresAt?: string) =>
+    new RepositoryCache({
+      cacheDir,
+      identity: {
+        name: 'Morph',
+        email: 'morph@example.com',
+        signingFormat: 'ssh',
+      },
+      remoteUrl: async () => origin,
+      credentials: async (installationId): Promise<GitCredentials> => {
+        fetched.push(installationId);
+        return {
+          username: 'x-access-token',
+          password: `token-${installationId}-${fetched.length}`,
+          expiresAt,
+        };
+      },
+    });
+
+  const target = (installationId: number): RepositoryTarget => ({
+    repository: 'acme/widgets',
+    installationId,
+    forge: 'github',
+  });
+
+  const checkout = async (
+    repositoryCache: RepositoryCache,
+    target: RepositoryTarget
+  ) => {
+    const workspace = await repositoryCache.checkout(target, headSha);
+    const content = await readFile(join(workspace.path, 'app.txt'), 'utf8');
+    await workspace.dispose();
+    return content;
+  };
+
+  beforeEach(async () => {
+    fetched = [];
+    origin = await mkdtemp(join(tmpdir(), 'morph-origin-'));
+    cacheDir = await mkdtemp(join(tmpdir(), 'morph-cache-'));
+    await git(['init', '--quiet'], { cwd: origin });
+    await writeFile(join(origin, 'app.txt'), 'hello\n');
+    await git(['add', '--all'], { cwd: origin });
+    await git(
+      [
+        '-c',
+        'user.name=Morph',
+        '-c',
+        'user.email=morph@example.com',
+        'commit',
+        '--quiet',
+        '--message',
+        'base',
+      ],
+      { cwd: origin }
+    );
+    headSha = (await git(['rev-parse', 'HEAD'], { cwd: origin })).trim();
+  });
+
+  afterEach(async () => {
+    await rm(origin, { recursive: true, force: true });
+    await rm(cacheDir, { recursive: true, force: true });
+  });
+
+  it('fetches credentials once per installation', async () => {
+    const repositoryCache = cache();
+
+    await expect(checkout(repositoryCache, target(1))).resolves.toBe('hello\n');
+    await checkout(repositoryCache, target(1));
+    await checkout(repositoryCache, target(2));
+
+    expect(fetched).toEqual([1, 2]);
+  });
+
+  it('fetches credentials again when they are about to expire', async () => {
+    const repositoryCache = cache(new Date(Date.now() + 60000).toISOString());
+
+    await checkout(repositoryCache, target(1));
+    await checkout(repositoryCache, target(1));
+
+    expect(fetched).toEqual([1, 1]);
+  });
+});
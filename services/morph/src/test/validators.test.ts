@@ -0,0 +1,72 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { ValidatorRegistry } from '../validators/registry.js';
+
+describe('validator registry', () => {
+  let root: string;
+
+  const files = async (...paths: string[]) => {
+    for (const path of paths) {
+      await mkdir(dirname(join(root, path)), { recursive: true });
+      await writeFile(join(root, path), '');
+    }
+  };
+
+  const detect = async (changed: string[]) =>
+    (await ValidatorRegistry.withDefaults().detect(root, changed)).map(
+      target => `${target.validator.getLanguage()}:${target.path}`
+    );
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'morph-validators-'));
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('validates each changed file in its nearest package', async () => {
+    await files(
+      'package.json',
+      'packages/api/package.json',
+      'packages/api/tsconfig.json',
+      'crates/core/Cargo.toml',
+      'tools/go.mod',
+      'server/pom.xml'
+    );
+
+    expect(
+      await detect([
+        'packages/api/src/routes/users.ts',
+        'packages/api/src/index.ts',
+        'scripts/release.js',
+        'crates/core/src/lib.rs',
+        'tools/cmd/main.go',
+        'server/src/main/java/App.java',
+      ])
+    ).toEqual([
+      'javascript:.',
+      'rust:crates/core',
+      'typescript:packages/api',
+      'jvm:server',
+      'go:tools',
+    ]);
+  });
+
+  it('falls back to the repository root without a manifest', async () => {
+    expect(await detect(['src/app.py'])).toEqual(['python:.']);
+  });
+
+  it('selects every validator of a changed manifest', async () => {
+    expect(await detect(['web/package.json', 'web/tsconfig.json'])).toEqual([
+      'typescript:web',
+      'javascript:web',
+    ]);
+  });
+
+  it('ignores files no validator covers', async () => {
+    expect(await detect(['README.md', 'docs/guide.txt'])).toEqual([]);
+  });
+});
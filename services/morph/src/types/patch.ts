@@ -1,5 +1,28 @@
+import { FailureReportSchema } from '@self-healing-ci/claude';
 import { z } from 'zod';
 
+/**
+ * Formats a patch can be written in
+ *
+ * Anything but a unified diff is converted to one against the checked out
+ * commit before it is validated and applied.
+ */
+export const PatchFormatSchema = z.enum([
+  'unified-diff',
+  'search-replace',
+  'whole-file',
+  'json',
+]);
+
+export type PatchFormat = z.infer<typeof PatchFormatSchema>;
+
+/**
+ * Forges a repository can be hosted on
+ */
+export const ForgeProviderSchema = z.enum(['github', 'gitlab', 'bitbucket']);
+
+export type ForgeProvider = z.infer<typeof ForgeProviderSchema>;
+
 /**
  * Patch application request schema
  */
@@ -8,6 +31,8 @@ export const PatchRequestSchema = z.object({
   headSha: z.string(),
   branch: z.string(),
   patch: z.string(),
+  // Detected from the patch when omitted
+  format: PatchFormatSchema.optional(),
   rootCause: z.enum([
     'DEP_UPGRADE',
     'API_CHANGE',
@@ -19,26 +44,53 @@ export const PatchRequestSchema = z.object({
     'UNKNOWN',
   ]),
   installationId: z.number(),
+  // Where the repository is cloned from and pushed to
+  forge: ForgeProviderSchema.default('github'),
   maxRetries: z.number().default(2),
+  // Context for asking the model to correct a patch that does not check out
+  failureReport: FailureReportSchema.optional(),
+  // Branch the patched commit is pushed to; not pushed when omitted
+  targetBranch: z.string().optional(),
 });
 
 export type PatchRequest = z.infer<typeof PatchRequestSchema>;
 
 /**
- * Patch application result schema
+ * What happened to one hunk of a patch
  */
-export const PatchResultSchema = z.object({
-  success: z.boolean(),
-  patchSha: z.string().optional(),
-  filesChanged: z.array(z.string()).default([]),
-  compilationErrors: z.array(z.string()).default([]),
-  validationErrors: z.array(z.string()).default([]),
-  error: z.string().optional(),
+export const HunkStatusSchema = z.object({
+  file: z.string(),
+  // 1-based position of the hunk within its file
+  hunk: z.number(),
+  header: z.string(),
+  status: z.enum(['accepted', 'rejected']),
+  // How an accepted hunk was placed
+  method: z.enum(['exact', 'offset', 'fuzz', 'three-way']).optional(),
+  offset: z.number().default(0),
+  fuzz: z.number().default(0),
+  reason: z.string().optional(),
+});
+
+export type HunkStatus = z.infer<typeof HunkStatusSchema>;
+
+/**
+ * One patch tried by the self-repair loop and why it was rejected
+ */
+export const PatchAttemptSchema = z.object({
+  attempt: z.number(),
+  patch: z.string(),
+  // The patch as a unified diff, once converted from another format
+  diff: z.string().optional(),
+  // Check that rejected the patch; absent for a patch that passed
+  stage: z.enum(['validation', 'apply', 'compilation']).optional(),
+  errors: z.array(z.string()).default([]),
+  // Per-hunk outcome, once the patch got as far as being applied
+  hunks: z.array(HunkStatusSchema).default([]),
+  timestamp: z.string().datetime(),
   duration: z.number(),
-  retryCount: z.number().default(0),
 });
 
-export type PatchResult = z.infer<typeof PatchResultSchema>;
+export type PatchAttempt = z.infer<typeof PatchAttemptSchema>;
 
 /**
  * Compilation validation result
@@ -48,11 +100,47 @@ export const CompilationResultSchema = z.object({
   errors: z.array(z.string()).default([]),
   warnings: z.array(z.string()).default([]),
   duration: z.number(),
-  language: z.enum(['typescript', 'rust', 'javascript', 'python', 'unknown']),
+  language: z.enum([
+    'typescript',
+    'rust',
+    'javascript',
+    'python',
+    'go',
+    'jvm',
+    'unknown',
+  ]),
+  // Directory of the package validated, relative to the repository root
+  package: z.string().optional(),
 });
 
 export type CompilationResult = z.infer<typeof CompilationResultSchema>;
 
+/**
+ * Patch application result schema
+ */
+export const PatchResultSchema = z.object({
+  success: z.boolean(),
+  patchSha: z.string().optional(),
+  // The committed change as a unified diff, for review
+  diff: z.string().optional(),
+  filesChanged: z.array(z.string()).default([]),
+  compilationErrors: z.array(z.string()).default([]),
+  validationErrors: z.array(z.string()).default([]),
+  error: z.string().optional(),
+  duration: z.number(),
+  retryCount: z.number().default(0),
+  // Every patch tried, oldest first
+  attempts: z.array(PatchAttemptSchema).default([]),
+  // Per-hunk outcome of the last patch applied
+  hunks: z.array(HunkStatusSchema).default([]),
+  // One result per package the last patch applied touched
+  compilationResults: z.array(CompilationResultSchema).default([]),
+  // PatchSafetyLevel of an applied patch
+  safetyLevel: z.enum(['safe', 'medium', 'high', 'dangerous']).optional(),
+});
+
+export type PatchResult = z.infer<typeof PatchResultSchema>;
+
 /**
  * File change information
  */
@@ -77,33 +165,6 @@ export interface PatchMetadata {
   suggestedActions?: string[];
 }
 
-/**
- * Morph API response schema
- */
-export const MorphApiResponseSchema = z.object({
-  success: z.boolean(),
-  patchId: z.string().optional(),
-  changes: z
-    .array(
-      z.object({
-        file: z.string(),
-        content: z.string(),
-        operation: z.enum(['create', 'update', 'delete']),
-      })
-    )
-    .default([]),
-  error: z.string().optional(),
-  metadata: z
-    .object({
-      model: z.string(),
-      tokensUsed: z.number(),
-      duration: z.number(),
-    })
-    .optional(),
-});
-
-export type MorphApiResponse = z.infer<typeof MorphApiResponseSchema>;
-
 /**
  * Patch validation context
  */
@@ -122,8 +183,13 @@ export interface PatchValidationContext {
  * Compilation validator interface
  */
 export interface CompilationValidator {
+  // Validates the package rooted at the path
   validate(workspacePath: string): Promise<CompilationResult>;
   getLanguage(): string;
+  // Source files the validator checks
+  getFileExtensions(): string[];
+  // Files marking the root of a package the validator runs in
+  getManifestFiles(): string[];
   getCompilationCommand(): string[];
   getErrorPatterns(): RegExp[];
 }
@@ -0,0 +1,115 @@
+import { execa } from 'execa';
+import { access } from 'node:fs/promises';
+import { join } from 'node:path';
+import type {
+  CompilationResult,
+  CompilationValidator,
+} from '../types/patch.js';
+
+export class GoValidator implements CompilationValidator {
+  getLanguage(): string {
+    return 'go';
+  }
+
+  getFileExtensions(): string[] {
+    return ['.go'];
+  }
+
+  getManifestFiles(): string[] {
+    return ['go.mod'];
+  }
+
+  getCompilationCommand(): string[] {
+    return ['go', 'build', './...'];
+  }
+
+  getErrorPatterns(): RegExp[] {
+    return [/^\S+\.go:\d+(:\d+)?: .+/, /^go: .+/];
+  }
+
+  /**
+   * Build every package of the module, then vet it once it builds
+   */
+  async validate(workspacePath: string): Promise<CompilationResult> {
+    const startTime = Date.now();
+
+    try {
+      const hasModule = await access(join(workspacePath, 'go.mod')).then(
+        () => true,
+        () => false
+      );
+      const go = await execa('go', ['version'], { reject: false });
+
+      if (!hasModule || go.failed) {
+        return {
+          success: true,
+          errors: [],
+          warnings: [
+            hasModule
+              ? 'Go not available to validate the module'
+              : 'Go module not detected in project',
+          ],
+          duration: Date.now() - startTime,
+          language: 'go',
+        };
+      }
+
+      let errors = await this.run(['build', './...'], workspacePath);
+
+      if (errors.length === 0) {
+        errors = await this.run(['vet', './...'], workspacePath);
+      }
+
+      return {
+        success: errors.length === 0,
+        errors,
+        warnings: [],
+        duration: Date.now() - startTime,
+        language: 'go',
+      };
+    } catch (error) {
+      return {
+        success: false,
+        errors: [
+          error instanceof Error ? error.message : 'Go validation failed',
+        ],
+        warnings: [],
+        duration: Date.now() - startTime,
+        language: 'go',
+      };
+    }
+  }
+
+  private async run(args: string[], workspacePath: string): Promise<string[]> {
+    const { exitCode, stderr, stdout } = await execa('go', args, {
+      cwd: workspacePath,
+      timeout: 120000,
+      reject: false,
+    });
+
+    if (exitCode === 0) {
+      return [];
+    }
+
+    const output = stderr || stdout;
+    const errors = this.parseErrors(output);
+
+    return errors.length > 0
+      ? errors
+      : [`go ${args[0]} failed: ${output.trim().split('\n').pop() ?? ''}`];
+  }
+
+  private parseErrors(output: string): string[] {
+    const errors: string[] = [];
+
+    for (const line of output.split('\n')) {
+      // `vet:` prefixes the checks go vet runs while building
+      const trimmed = line.trim().replace(/^vet: /, '');
+      if (this.getErrorPatterns().some(pattern => pattern.test(trimmed))) {
+        errors.push(trimmed);
+      }
+    }
+
+    return [...new Set(errors)]; // Remove duplicates
+  }
+}
@@ -1,11 +1,22 @@
 import { execa } from 'execa';
-import { CompilationResult, CompilationValidator } from '../types/patch.js';
+import type {
+  CompilationResult,
+  CompilationValidator,
+} from '../types/patch.js';
 
 export class JavaScriptValidator implements CompilationValidator {
   getLanguage(): string {
     return 'javascript';
   }
 
+  getFileExtensions(): string[] {
+    return ['.js', '.jsx', '.mjs', '.cjs'];
+  }
+
+  getManifestFiles(): string[] {
+    return ['package.json'];
+  }
+
   getCompilationCommand(): string[] {
     return ['npx', 'eslint', '.'];
   }
@@ -0,0 +1,192 @@
+import { execa } from 'execa';
+import { access } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import type {
+  CompilationResult,
+  CompilationValidator,
+} from '../types/patch.js';
+
+type BuildTool = 'gradle' | 'maven';
+
+export class JvmValidator implements CompilationValidator {
+  getLanguage(): string {
+    return 'jvm';
+  }
+
+  getFileExtensions(): string[] {
+    return ['.java', '.kt', '.kts'];
+  }
+
+  getManifestFiles(): string[] {
+    return ['build.gradle', 'build.gradle.kts', 'pom.xml'];
+  }
+
+  getCompilationCommand(): string[] {
+    return ['gradle', 'classes'];
+  }
+
+  getErrorPatterns(): RegExp[] {
+    return [
+      // javac, directly or through Gradle
+      /^\S+\.java:\d+: error: .+/,
+      // kotlinc through Gradle
+      /^e: .+\.kts?.+/,
+      // Maven's compiler plugin
+      /^\[ERROR\] \S+\.(java|kt):\[\d+,\d+\] .+/,
+    ];
+  }
+
+  /**
+   * Compile main sources with Gradle or Maven, preferring a wrapper script
+   * in the package or any directory above it in the repository
+   */
+  async validate(workspacePath: string): Promise<CompilationResult> {
+    const startTime = Date.now();
+
+    try {
+      const tool = await this.detectBuildTool(workspacePath);
+      if (!tool) {
+        return {
+          success: true,
+          errors: [],
+          warnings: ['Gradle or Maven build not detected in project'],
+          duration: Date.now() - startTime,
+          language: 'jvm',
+        };
+      }
+
+      const wrapper = await this.findWrapper(
+        workspacePath,
+        tool === 'gradle' ? 'gradlew' : 'mvnw'
+      );
+      const command = tool === 'gradle' ? 'gradle' : 'mvn';
+      const args =
+        tool === 'gradle'
+          ? ['--quiet', '--console=plain', 'classes']
+          : ['--quiet', '--batch-mode', 'compile'];
+
+      const { stdout, stderr, exitCode, failed } = await execa(
+        wrapper ?? command,
+        args,
+        {
+          cwd: workspacePath,
+          timeout: 300000, // JVM builds start slowly
+          reject: false,
+        }
+      );
+
+      if (failed && exitCode === undefined && !wrapper) {
+        return {
+          success: true,
+          errors: [],
+          warnings: [`${command} not available to validate the project`],
+          duration: Date.now() - startTime,
+          language: 'jvm',
+        };
+      }
+
+      const output = `${stdout}\n${stderr}`;
+      const errors = this.parseErrors(output);
+
+      if (errors.length === 0 && exitCode !== 0) {
+        errors.push(
+          `${tool} build failed: ${this.describeFailure(output) ?? `exit code ${exitCode}`}`
+        );
+      }
+
+      return {
+        success: errors.length === 0,
+        errors,
+        warnings: this.parseWarnings(output),
+        duration: Date.now() - startTime,
+        language: 'jvm',
+      };
+    } catch (error) {
+      return {
+        success: false,
+        errors: [
+          error instanceof Error ? error.message : 'JVM validation failed',
+        ],
+        warnings: [],
+        duration: Date.now() - startTime,
+        language: 'jvm',
+      };
+    }
+  }
+
+  private async detectBuildTool(
+    workspacePath: string
+  ): Promise<BuildTool | undefined> {
+    for (const file of this.getManifestFiles()) {
+      if (await exists(join(workspacePath, file))) {
+        return file === 'pom.xml' ? 'maven' : 'gradle';
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * The nearest wrapper script, stopping at the repository root
+   */
+  private async findWrapper(
+    workspacePath: string,
+    name: string
+  ): Promise<string | undefined> {
+    for (let dir = workspacePath; ; dir = dirname(dir)) {
+      if (await exists(join(dir, name))) {
+        return join(dir, name);
+      }
+      if ((await exists(join(dir, '.git'))) || dirname(dir) === dir) {
+        return undefined;
+      }
+    }
+  }
+
+  private parseErrors(output: string): string[] {
+    const errors: string[] = [];
+
+    for (const line of output.split('\n')) {
+      const trimmed = line.trim();
+      if (this.getErrorPatterns().some(pattern => pattern.test(trimmed))) {
+        errors.push(trimmed);
+      }
+    }
+
+    return [...new Set(errors)]; // Remove duplicates
+  }
+
+  private parseWarnings(output: string): string[] {
+    const warnings: string[] = [];
+
+    for (const line of output.split('\n')) {
+      const trimmed = line.trim();
+      if (/^w: |^\[WARNING\] |: warning: /.test(trimmed)) {
+        warnings.push(trimmed);
+      }
+    }
+
+    return [...new Set(warnings)]; // Remove duplicates
+  }
+
+  /**
+   * Gradle's `What went wrong` or Maven's first error line
+   */
+  private describeFailure(output: string): string | undefined {
+    const lines = output.split('\n').map(line => line.trim());
+    const wrong = lines.indexOf('* What went wrong:');
+
+    if (wrong !== -1 && lines[wrong + 1]) {
+      return lines[wrong + 1];
+    }
+    return lines.find(line => line.startsWith('[ERROR]'));
+  }
+}
+
+async function exists(path: string): Promise<boolean> {
+  try {
+    await access(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
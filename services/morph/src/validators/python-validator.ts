@@ -0,0 +1,209 @@
+import { execa } from 'execa';
+import { access, readFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type {
+  CompilationResult,
+  CompilationValidator,
+} from '../types/patch.js';
+
+type TypeChecker = 'mypy' | 'pyright';
+
+// Directories compileall skips: virtualenvs and vendored dependencies
+const EXCLUDED_DIRS = '(^|/)(\\.git|\\.venv|venv|\\.tox|node_modules)(/|$)';
+
+export class PythonValidator implements CompilationValidator {
+  getLanguage(): string {
+    return 'python';
+  }
+
+  getFileExtensions(): string[] {
+    return ['.py', '.pyi'];
+  }
+
+  getManifestFiles(): string[] {
+    return ['pyproject.toml', 'setup.py', 'setup.cfg', 'requirements.txt'];
+  }
+
+  getCompilationCommand(): string[] {
+    return ['python3', '-m', 'compileall', '-q', '.'];
+  }
+
+  getErrorPatterns(): RegExp[] {
+    return [
+      /^.+\.pyi?:\d+(:\d+)?: error: .+/,
+      /^\s*.+\.pyi?:\d+:\d+ - error: .+/,
+    ];
+  }
+
+  /**
+   * Byte-compile every module, then run mypy or pyright when the project
+   * configures one
+   */
+  async validate(workspacePath: string): Promise<CompilationResult> {
+    const startTime = Date.now();
+
+    try {
+      const python = await execa('python3', ['--version'], { reject: false });
+      if (python.failed) {
+        return {
+          success: true,
+          errors: [],
+          warnings: ['Python not available to validate the project'],
+          duration: Date.now() - startTime,
+          language: 'python',
+        };
+      }
+
+      // Keep bytecode out of the worktree, which is committed as a whole
+      const compiled = await execa(
+        'python3',
+        ['-m', 'compileall', '-q', '-x', EXCLUDED_DIRS, '.'],
+        {
+          cwd: workspacePath,
+          timeout: 60000,
+          reject: false,
+          all: true,
+          env: { PYTHONPYCACHEPREFIX: join(tmpdir(), 'morph-pycache') },
+        }
+      );
+
+      const errors = this.parseSyntaxErrors(
+        `${compiled.stdout}\n${compiled.stderr}`
+      );
+      const warnings: string[] = [];
+
+      if (errors.length === 0 && compiled.exitCode !== 0) {
+        errors.push(`compileall failed: ${lastLine(compiled.all ?? '')}`);
+      }
+
+      const checker = await this.configuredTypeChecker(workspacePath);
+      if (errors.length === 0 && checker) {
+        const result = await this.runTypeChecker(checker, workspacePath);
+        errors.push(...result.errors);
+        warnings.push(...result.warnings);
+      }
+
+      return {
+        success: errors.length === 0,
+        errors,
+        warnings,
+        duration: Date.now() - startTime,
+        language: 'python',
+      };
+    } catch (error) {
+      return {
+        success: false,
+        errors: [
+          error instanceof Error ? error.message : 'Python validation failed',
+        ],
+        warnings: [],
+        duration: Date.now() - startTime,
+        language: 'python',
+      };
+    }
+  }
+
+  private async runTypeChecker(
+    checker: TypeChecker,
+    workspacePath: string
+  ): Promise<{ errors: string[]; warnings: string[] }> {
+    const args =
+      checker === 'mypy'
+        ? ['--no-error-summary', '--cache-dir=/dev/null', '.']
+        : [];
+
+    const { stdout, stderr, failed, exitCode } = await execa(checker, args, {
+      cwd: workspacePath,
+      timeout: 120000,
+      reject: false,
+    });
+
+    // A checker that is configured but not installed is not a patch error
+    if (failed && exitCode === undefined) {
+      return {
+        errors: [],
+        warnings: [`${checker} is configured but not installed`],
+      };
+    }
+
+    const lines = `${stdout}\n${stderr}`.split('\n');
+    const errors = lines
+      .filter(line => this.getErrorPatterns().some(p => p.test(line)))
+      .map(line => line.trim());
+
+    if (errors.length === 0 && exitCode !== 0) {
+      errors.push(`${checker} failed: ${lastLine(`${stdout}\n${stderr}`)}`);
+    }
+
+    return {
+      errors,
+      warnings: lines
+        .filter(line => / - warning: |: warning: /.test(line))
+        .map(line => line.trim()),
+    };
+  }
+
+  /**
+   * mypy or pyright, when its configuration file or section exists
+   */
+  private async configuredTypeChecker(
+    workspacePath: string
+  ): Promise<TypeChecker | undefined> {
+    const read = (file: string): Promise<string> =>
+      readFile(join(workspacePath, file), 'utf8').catch(() => '');
+    const exists = (file: string): Promise<boolean> =>
+      access(join(workspacePath, file)).then(
+        () => true,
+        () => false
+      );
+
+    const pyproject = await read('pyproject.toml');
+
+    if (
+      (await exists('mypy.ini')) ||
+      (await exists('.mypy.ini')) ||
+      pyproject.includes('[tool.mypy]') ||
+      (await read('setup.cfg')).includes('[mypy]')
+    ) {
+      return 'mypy';
+    }
+
+    if (
+      (await exists('pyrightconfig.json')) ||
+      pyproject.includes('[tool.pyright]')
+    ) {
+      return 'pyright';
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Turn compileall's tracebacks into `file:line: SyntaxError: message`
+   */
+  private parseSyntaxErrors(output: string): string[] {
+    const errors: string[] = [];
+    let location: string | undefined;
+
+    for (const line of output.split('\n')) {
+      const file = line.match(/^\s*File "(.+)", line (\d+)/);
+      if (file) {
+        location = `${file[1]}:${file[2]}`;
+        continue;
+      }
+
+      const error = line.match(/^(\w*Error): (.+)/);
+      if (error && location) {
+        errors.push(`${location}: ${error[1]}: ${error[2]}`);
+        location = undefined;
+      }
+    }
+
+    return [...new Set(errors)]; // Remove duplicates
+  }
+}
+
+function lastLine(output: string): string {
+  return output.trim().split('\n').pop()?.trim() ?? '';
+}
@@ -0,0 +1,116 @@
+import { access } from 'node:fs/promises';
+import { basename, dirname, join, posix } from 'node:path';
+import type { CompilationValidator } from '../types/patch.js';
+import { GoValidator } from './go-validator.js';
+import { JavaScriptValidator } from './javascript-validator.js';
+import { JvmValidator } from './jvm-validator.js';
+import { PythonValidator } from './python-validator.js';
+import { RustValidator } from './rust-validator.js';
+import { TypeScriptValidator } from './typescript-validator.js';
+
+/**
+ * A package to validate and the validator for its language
+ */
+export interface ValidationTarget {
+  // Package root relative to the repository root, `.` for the root itself
+  path: string;
+  validator: CompilationValidator;
+}
+
+/**
+ * Validators by language, and which packages of a repository they cover
+ */
+export class ValidatorRegistry {
+  private readonly validators = new Map<string, CompilationValidator>();
+
+  /**
+   * A registry of every built-in validator
+   */
+  static withDefaults(): ValidatorRegistry {
+    return new ValidatorRegistry()
+      .register(new TypeScriptValidator())
+      .register(new JavaScriptValidator())
+      .register(new RustValidator())
+      .register(new PythonValidator())
+      .register(new GoValidator())
+      .register(new JvmValidator());
+  }
+
+  /**
+   * Add a validator, replacing any registered for the same language
+   */
+  register(validator: CompilationValidator): this {
+    this.validators.set(validator.getLanguage(), validator);
+    return this;
+  }
+
+  get(language: string): CompilationValidator | undefined {
+    return this.validators.get(language);
+  }
+
+  /**
+   * The packages changed files belong to, one target per package and language
+   *
+   * A source file belongs to the nearest directory above it holding one of
+   * its validator's manifests, or to the repository root when none does. A
+   * changed manifest selects every validator that uses it.
+   */
+  async detect(
+    repositoryPath: string,
+    files: string[]
+  ): Promise<ValidationTarget[]> {
+    const targets = new Map<string, ValidationTarget>();
+
+    for (const file of files) {
+      for (const validator of this.validatorsFor(file)) {
+        const path = await this.packageRoot(repositoryPath, file, validator);
+        targets.set(`${validator.getLanguage()}:${path}`, { path, validator });
+      }
+    }
+
+    return [...targets.values()].sort((a, b) => a.path.localeCompare(b.path));
+  }
+
+  private validatorsFor(file: string): CompilationValidator[] {
+    const name = basename(file);
+    const extension = posix.extname(name);
+
+    return [...this.validators.values()].filter(
+      validator =>
+        validator.getManifestFiles().includes(name) ||
+        validator.getFileExtensions().includes(extension)
+    );
+  }
+
+  private async packageRoot(
+    repositoryPath: string,
+    file: string,
+    validator: CompilationValidator
+  ): Promise<string> {
+    // A manifest roots its own package, even one the patch deleted
+    if (validator.getManifestFiles().includes(basename(file))) {
+      return dirname(file);
+    }
+
+    for (let dir = dirname(file); ; dir = dirname(dir)) {
+      for (const manifest of validator.getManifestFiles()) {
+        if (await exists(join(repositoryPath, dir, manifest))) {
+          return dir;
+        }
+      }
+
+      if (dir === '.' || dir === dirname(dir)) {
+        return '.';
+      }
+    }
+  }
+}
+
+async function exists(path: string): Promise<boolean> {
+  try {
+    await access(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -1,11 +1,22 @@
 import { execa } from 'execa';
-import { CompilationResult, CompilationValidator } from '../types/patch.js';
+import type {
+  CompilationResult,
+  CompilationValidator,
+} from '../types/patch.js';
 
 export class RustValidator implements CompilationValidator {
   getLanguage(): string {
     return 'rust';
   }
 
+  getFileExtensions(): string[] {
+    return ['.rs'];
+  }
+
+  getManifestFiles(): string[] {
+    return ['Cargo.toml'];
+  }
+
   getCompilationCommand(): string[] {
     return ['cargo', 'check'];
   }
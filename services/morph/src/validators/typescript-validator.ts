@@ -1,11 +1,22 @@
 import { execa } from 'execa';
-import { CompilationResult, CompilationValidator } from '../types/patch.js';
+import type {
+  CompilationResult,
+  CompilationValidator,
+} from '../types/patch.js';
 
 export class TypeScriptValidator implements CompilationValidator {
   getLanguage(): string {
     return 'typescript';
   }
 
+  getFileExtensions(): string[] {
+    return ['.ts', '.tsx', '.mts', '.cts'];
+  }
+
+  getManifestFiles(): string[] {
+    return ['tsconfig.json', 'package.json'];
+  }
+
   getCompilationCommand(): string[] {
     return ['npx', 'tsc', '--noEmit'];
   }